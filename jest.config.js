@@ -0,0 +1,13 @@
+module.exports = {
+    preset: 'ts-jest',
+    testEnvironment: 'node',
+    roots: ['<rootDir>/tests'],
+    setupFiles: ['<rootDir>/tests/setup.ts'],
+    transform: {
+        // Type errors in src are the type-check's to report; the tests only fail on their own
+        '^.+\\.ts$': ['ts-jest', {
+            tsconfig: '<rootDir>/tests/tsconfig.json',
+            diagnostics: { exclude: ['**/src/**'] }
+        }]
+    }
+};
@@ -10,21 +10,65 @@ import { ConfigLoader } from './utils/ConfigLoader';
 import { Logger } from './utils/Logger';
 import { Database } from './database/Database';
 import { OrchestrationService } from './services/OrchestrationService';
+import { LoadBalancerService } from './services/LoadBalancerService';
+import { NodeManager } from './services/NodeManager';
+import { AutoScalingService } from './services/AutoScalingService';
+import { JobQueueService } from './services/JobQueueService';
+import { AuthService } from './services/AuthService';
+import { RequestSigningService } from './services/RequestSigningService';
+import { PrometheusService } from './services/PrometheusService';
+import { MetricsHistoryService } from './services/MetricsHistoryService';
+import { WebhookService } from './services/WebhookService';
+import { AlertNotificationService } from './services/AlertNotificationService';
+import { ScalingHistoryService } from './services/ScalingHistoryService';
+import { ProvisioningService } from './services/ProvisioningService';
+import { ForecastService } from './services/ForecastService';
+import { ScheduleService } from './services/ScheduleService';
+import { CapacityReservationService } from './services/CapacityReservationService';
+import { ArtifactService } from './services/ArtifactService';
+import { RetentionService } from './services/RetentionService';
+import { PostProcessingService } from './services/PostProcessingService';
 
 // Import routes
-import nodeRoutes from './routes/nodes';
-import recordingRoutes from './routes/recordings';
+import nodeRoutes, { initializeNodeRoutes } from './routes/nodes';
+import recordingRoutes, { initializeRecordingRoutes } from './routes/recordings';
 import healthRoutes from './routes/health';
 import scalingRoutes, { initializeScalingRoutes } from './routes/scaling';
+import authRoutes, { initializeAuthRoutes } from './routes/auth';
+import prometheusRoutes, { initializePrometheusRoutes } from './routes/prometheus';
+import metricsRoutes, { initializeMetricsRoutes } from './routes/metrics';
+import webhookRoutes, { initializeWebhookRoutes } from './routes/webhooks';
+import scheduleRoutes, { initializeScheduleRoutes } from './routes/schedules';
+import retentionRoutes, { initializeRetentionRoutes } from './routes/retention';
 
 // Import middleware
 import { LoggingMiddleware } from './middleware/LoggingMiddleware';
+import { initializeAuth, extractCredential } from './middleware/AuthMiddleware';
+import { initializeSignatureVerification, captureRawBody } from './middleware/SignatureMiddleware';
 
 class RecordingOrchestratorApp {
     private app: express.Application;
     private server: any;
     private wss: WebSocketServer;
     private orchestrationService: OrchestrationService;
+    private loadBalancer: LoadBalancerService;
+    private nodeManager: NodeManager;
+    private autoScalingService: AutoScalingService;
+    private jobQueue: JobQueueService;
+    private authService: AuthService;
+    private signingService: RequestSigningService;
+    private prometheusService: PrometheusService;
+    private metricsHistory: MetricsHistoryService;
+    private webhookService: WebhookService;
+    private alertNotificationService: AlertNotificationService;
+    private scalingHistoryService: ScalingHistoryService;
+    private provisioningService: ProvisioningService;
+    private forecastService: ForecastService;
+    private scheduleService: ScheduleService;
+    private reservationService: CapacityReservationService;
+    private artifactService: ArtifactService;
+    private retentionService: RetentionService;
+    private postProcessingService: PostProcessingService;
     private database: Database;
     private logger: Logger;
     private config: any;
@@ -33,8 +77,43 @@ class RecordingOrchestratorApp {
         this.config = ConfigLoader.load();
         this.logger = new Logger('RecordingOrchestrator');
         this.app = express();
-        this.database = new Database();
-        this.orchestrationService = new OrchestrationService();
+
+        // Composition root: build the service graph once so every router
+        // works against the same in-memory state
+        this.database = Database.getInstance();
+        this.loadBalancer = new LoadBalancerService();
+        this.nodeManager = new NodeManager();
+        this.forecastService = new ForecastService(this.database);
+        this.autoScalingService = new AutoScalingService(this.forecastService);
+        this.jobQueue = new JobQueueService(this.database);
+        this.authService = new AuthService(this.database);
+        this.signingService = new RequestSigningService(this.database);
+        this.metricsHistory = new MetricsHistoryService(this.database);
+        this.reservationService = new CapacityReservationService(this.database);
+        this.orchestrationService = new OrchestrationService(
+            this.database,
+            this.loadBalancer,
+            this.nodeManager,
+            this.autoScalingService,
+            this.jobQueue,
+            this.signingService,
+            this.metricsHistory,
+            this.reservationService
+        );
+        this.prometheusService = new PrometheusService(this.orchestrationService);
+        this.webhookService = new WebhookService(this.database, this.orchestrationService, this.autoScalingService);
+        this.alertNotificationService = new AlertNotificationService(this.autoScalingService);
+        this.scalingHistoryService = new ScalingHistoryService(
+            this.database,
+            this.autoScalingService,
+            this.alertNotificationService
+        );
+        this.provisioningService = new ProvisioningService(this.database, this.orchestrationService, this.authService);
+        this.autoScalingService.setProvisioningService(this.provisioningService);
+        this.scheduleService = new ScheduleService(this.database, this.orchestrationService, this.reservationService);
+        this.artifactService = new ArtifactService(this.database, this.orchestrationService);
+        this.retentionService = new RetentionService(this.database, this.artifactService);
+        this.postProcessingService = new PostProcessingService(this.database, this.orchestrationService, this.artifactService);
     }
 
     async initialize(): Promise<void> {
@@ -44,11 +123,41 @@ class RecordingOrchestratorApp {
             this.logger.info('Database connected successfully');
 
             // Initialize services
+            await this.authService.initialize();
+            initializeAuth(this.authService);
+            initializeSignatureVerification(this.signingService);
+
+            // Reservations must be known before restored jobs are placed
+            await this.reservationService.initialize();
+
             await this.orchestrationService.initialize();
             this.logger.info('Orchestration service initialized');
 
-            // Initialize scaling routes with service dependencies
-            initializeScalingRoutes(this.orchestrationService, this.orchestrationService.getAutoScalingService());
+            await this.webhookService.initialize();
+            await this.provisioningService.initialize();
+            await this.scheduleService.initialize();
+            this.artifactService.initialize();
+            await this.retentionService.initialize();
+            await this.postProcessingService.initialize();
+
+            // Initialize routes with service dependencies
+            initializeNodeRoutes(this.orchestrationService);
+            initializeRecordingRoutes(this.orchestrationService, this.artifactService, this.postProcessingService);
+            initializeScalingRoutes(
+                this.orchestrationService,
+                this.autoScalingService,
+                this.alertNotificationService,
+                this.scalingHistoryService,
+                this.provisioningService,
+                this.forecastService,
+                this.reservationService
+            );
+            initializeAuthRoutes(this.authService);
+            initializePrometheusRoutes(this.prometheusService);
+            initializeMetricsRoutes(this.orchestrationService);
+            initializeWebhookRoutes(this.webhookService);
+            initializeScheduleRoutes(this.scheduleService);
+            initializeRetentionRoutes(this.retentionService);
 
             // Setup Express app
             this.setupMiddleware();
@@ -85,12 +194,13 @@ class RecordingOrchestratorApp {
         this.app.use(compression());
 
         // Body parsing
-        this.app.use(express.json({ limit: '10mb' }));
+        // Raw bytes are kept for verifying node request signatures
+        this.app.use(express.json({ limit: '10mb', verify: captureRawBody }));
         this.app.use(express.urlencoded({ extended: true }));
 
         // Custom middleware
         this.app.use(LoggingMiddleware);
-        // Note: AuthMiddleware removed for simplified deployment
+        // Authentication is enforced per route - see AuthMiddleware.authorize
     }
 
     private setupRoutes(): void {
@@ -98,7 +208,13 @@ class RecordingOrchestratorApp {
         this.app.use('/api/nodes', nodeRoutes);
         this.app.use('/api/recordings', recordingRoutes);
         this.app.use('/api/scaling', scalingRoutes); // New scaling routes
+        this.app.use('/api/auth', authRoutes);
+        this.app.use('/api/metrics', metricsRoutes);
+        this.app.use('/api/webhooks', webhookRoutes);
+        this.app.use('/api/schedules', scheduleRoutes);
+        this.app.use('/api/retention', retentionRoutes);
         this.app.use('/health', healthRoutes);
+        this.app.use('/metrics', prometheusRoutes);
 
         // Root endpoint
         this.app.get('/', (req, res) => {
@@ -114,7 +230,11 @@ class RecordingOrchestratorApp {
                     nodes: '/api/nodes',
                     recordings: '/api/recordings',
                     scaling: '/api/scaling',
-                    health: '/health'
+                    auth: '/api/auth',
+                    metrics: '/api/metrics',
+                    webhooks: '/api/webhooks',
+                    health: '/health',
+                    prometheus: '/metrics'
                 },
                 timestamp: new Date().toISOString()
             });
@@ -129,7 +249,11 @@ class RecordingOrchestratorApp {
                     '/api/nodes',
                     '/api/recordings',
                     '/api/scaling',
-                    '/health'
+                    '/api/auth',
+                    '/api/metrics',
+                    '/api/webhooks',
+                    '/health',
+                    '/metrics'
                 ]
             });
         });
@@ -154,6 +278,30 @@ class RecordingOrchestratorApp {
         this.wss = new WebSocketServer({ server: this.server });
 
         this.wss.on('connection', (ws, req) => {
+            // Browsers can't set headers on WebSocket upgrades, so a token query parameter is accepted too
+            if (this.authService.isEnabled()) {
+                const token = new URL(req.url || '/', 'http://localhost').searchParams.get('token');
+                const credential = extractCredential(req.headers) || token;
+
+                try {
+                    if (!credential) {
+                        throw new Error('Authentication required');
+                    }
+
+                    const principal = this.authService.authenticate(credential);
+                    if (principal.kind !== 'operator' && principal.kind !== 'service') {
+                        throw new Error(`${principal.kind} credentials cannot subscribe to events`);
+                    }
+                } catch (error) {
+                    this.logger.warn('WebSocket connection rejected', {
+                        ip: req.socket.remoteAddress,
+                        reason: error instanceof Error ? error.message : error
+                    });
+                    ws.close(1008, 'Unauthorized');
+                    return;
+                }
+            }
+
             this.logger.info('WebSocket connection established', { ip: req.socket.remoteAddress });
 
             ws.on('message', (message) => {
@@ -177,7 +325,10 @@ class RecordingOrchestratorApp {
                 this.orchestrationService.subscribeToMetrics(ws);
                 break;
             case 'subscribe_recordings':
-                this.orchestrationService.subscribeToRecordings(ws);
+                this.orchestrationService.subscribeToRecordings(ws, {
+                    roomServerId: data.roomServerId,
+                    roomId: data.roomId
+                });
                 break;
             case 'subscribe_scaling_alerts':
                 this.subscribeToScalingAlerts(ws);
@@ -188,7 +339,7 @@ class RecordingOrchestratorApp {
     }
 
     private subscribeToScalingAlerts(ws: any): void {
-        const autoScalingService = this.orchestrationService.getAutoScalingService();
+        const autoScalingService = this.autoScalingService;
 
         if (autoScalingService) {
             autoScalingService.subscribeToScalingEvents((event) => {
@@ -224,12 +375,30 @@ class RecordingOrchestratorApp {
         // Start health monitoring
         this.orchestrationService.startHealthMonitoring();
 
-        // Start auto-scaling (monitoring only)
+        // Fit load forecasts before auto-scaling starts asking for them
+        this.forecastService.start();
+
+        // Start auto-scaling (provisions nodes when a provider is configured)
         this.orchestrationService.startAutoScaling();
 
         // Start metrics collection
         this.orchestrationService.startMetricsCollection();
 
+        // Start webhook retries
+        this.webhookService.start();
+
+        // Start alert tracking and Slack and email notifications
+        this.alertNotificationService.start();
+
+        // Start firing scheduled recordings
+        this.scheduleService.start();
+
+        // Start retention sweeps
+        this.retentionService.start();
+
+        // Start placing post-processing steps on FFmpeg nodes
+        this.postProcessingService.start();
+
         this.logger.info('Background services started');
     }
 
@@ -249,7 +418,7 @@ class RecordingOrchestratorApp {
             thresholds: configSummary.autoScaling.thresholds
         });
 
-        if (!configSummary.autoScaling.enabled) {
+        if (!configSummary.features.autoDeployment) {
             this.logger.info('🔧 Manual Scaling Mode: Deploy FFmpeg nodes manually, system will provide recommendations');
         }
     }
@@ -260,6 +429,14 @@ class RecordingOrchestratorApp {
         // Close WebSocket server
         this.wss.close();
 
+        // Stop webhook retries and alert notifications
+        this.webhookService.stop();
+        this.alertNotificationService.stop();
+        this.forecastService.stop();
+        this.scheduleService.stop();
+        this.retentionService.stop();
+        this.postProcessingService.stop();
+
         // Stop orchestration service
         await this.orchestrationService.shutdown();
 
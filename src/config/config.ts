@@ -1,5 +1,5 @@
 import { ConfigLoader } from '../utils/ConfigLoader';
-import { AppConfig } from '../types/interfaces';
+import { AppConfig, AlertLevel, NodeProviderType } from '../types/interfaces';
 
 const defaultConfig: AppConfig = {
     server: {
@@ -33,7 +33,8 @@ const defaultConfig: AppConfig = {
         nodeTimeoutMs: parseInt(process.env.NODE_TIMEOUT_MS || '60000'),
         maxRetries: parseInt(process.env.MAX_RETRIES || '3'),
         autoScaling: {
-            enabled: false, // Auto-deployment disabled - monitoring only
+            // Acts on recommendations only with a provisioning provider configured
+            enabled: process.env.AUTO_SCALING_ENABLED === 'true',
             minNodes: parseInt(process.env.MIN_NODES || '2'),
             maxNodes: parseInt(process.env.MAX_NODES || '10'),
             scaleUpThreshold: parseInt(process.env.SCALE_UP_THRESHOLD || '80'),
@@ -45,16 +46,150 @@ const defaultConfig: AppConfig = {
         defaultQuality: 'medium',
         maxConcurrentPerNode: parseInt(process.env.MAX_CONCURRENT_PER_NODE || '6'),
         outputDirectory: process.env.OUTPUT_DIR || '/recordings',
-        cleanupAfterDays: parseInt(process.env.CLEANUP_DAYS || '30')
+        cleanupAfterDays: parseInt(process.env.CLEANUP_DAYS || '30'),
+        initializingTimeoutMs: parseInt(process.env.INITIALIZING_TIMEOUT_MS || '120000'),
+        supervisorInterval: parseInt(process.env.SUPERVISOR_INTERVAL || '10000'),
+        suspendForwardingOnPause: process.env.PAUSE_SUSPEND_FORWARDING === 'true'
+    },
+    provisioning: {
+        provider: (process.env.PROVISIONING_PROVIDER || 'none') as NodeProviderType,
+        regions: process.env.PROVISIONING_REGIONS?.split(',').filter(Boolean) || [],
+        orchestratorUrl: process.env.ORCHESTRATOR_URL || 'http://localhost:8080',
+        registrationTimeoutMs: parseInt(process.env.PROVISIONING_REGISTRATION_TIMEOUT_MS || '600000'),
+        drainMode: process.env.PROVISIONING_DRAIN_MODE === 'wait' ? 'wait' : 'migrate',
+        docker: {
+            socketPath: process.env.DOCKER_SOCKET_PATH || '/var/run/docker.sock',
+            apiUrl: process.env.DOCKER_API_URL,
+            apiVersion: process.env.DOCKER_API_VERSION || 'v1.41',
+            image: process.env.DOCKER_FFMPEG_IMAGE || 'edumeet/recording-ffmpeg-node:latest',
+            network: process.env.DOCKER_NETWORK,
+            env: process.env.DOCKER_FFMPEG_ENV?.split(',').filter(Boolean) || []
+        },
+        http: {
+            url: process.env.PROVISIONING_HTTP_URL,
+            authToken: process.env.PROVISIONING_HTTP_TOKEN,
+            timeoutMs: parseInt(process.env.PROVISIONING_HTTP_TIMEOUT_MS || '30000')
+        },
+        script: {
+            provisionCommand: process.env.PROVISIONING_SCRIPT_PROVISION,
+            deprovisionCommand: process.env.PROVISIONING_SCRIPT_DEPROVISION,
+            timeoutMs: parseInt(process.env.PROVISIONING_SCRIPT_TIMEOUT_MS || '120000')
+        }
+    },
+    forecast: {
+        enabled: process.env.FORECAST_ENABLED !== 'false',
+        historyDays: parseInt(process.env.FORECAST_HISTORY_DAYS || '28'),
+        minHistoryHours: parseInt(process.env.FORECAST_MIN_HISTORY_HOURS || '72'),
+        refreshInterval: parseInt(process.env.FORECAST_REFRESH_INTERVAL || '3600000'),
+        horizonHours: parseInt(process.env.FORECAST_HORIZON_HOURS || '24'),
+        leadTimeMinutes: parseInt(process.env.FORECAST_LEAD_TIME_MINUTES || '30'),
+        confidence: parseFloat(process.env.FORECAST_CONFIDENCE || '0.9'),
+        timezone: process.env.FORECAST_TIMEZONE || 'UTC'
+    },
+    schedules: {
+        enabled: process.env.SCHEDULES_ENABLED !== 'false',
+        defaultGraceMinutes: parseInt(process.env.SCHEDULE_GRACE_MINUTES || '15'),
+        defaultTimezone: process.env.SCHEDULE_TIMEZONE || process.env.FORECAST_TIMEZONE || 'UTC',
+        maxDurationMinutes: parseInt(process.env.SCHEDULE_MAX_DURATION_MINUTES || '480')
+    },
+    artifacts: {
+        enabled: process.env.ARTIFACTS_ENABLED !== 'false',
+        storage: process.env.ARTIFACT_STORAGE === 's3' ? 's3' : 'local',
+        downloadUrlTtlSeconds: parseInt(process.env.ARTIFACT_URL_TTL_SECONDS || '3600'),
+        local: {
+            publicUrl: process.env.ARTIFACT_PUBLIC_URL || process.env.ORCHESTRATOR_URL || 'http://localhost:8080',
+            urlSecret: process.env.ARTIFACT_URL_SECRET
+        },
+        s3: {
+            endpoint: process.env.S3_ENDPOINT,
+            region: process.env.S3_REGION || 'us-east-1',
+            bucket: process.env.S3_BUCKET,
+            accessKeyId: process.env.S3_ACCESS_KEY_ID,
+            secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+            forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+            prefix: process.env.S3_PREFIX || 'recordings/',
+            deleteLocalCopy: process.env.S3_DELETE_LOCAL_COPY === 'true',
+            timeoutMs: parseInt(process.env.S3_TIMEOUT_MS || '600000')
+        }
+    },
+    retention: {
+        enabled: process.env.RETENTION_ENABLED === 'true',
+        sweepCron: process.env.RETENTION_SWEEP_CRON || '0 3 * * *',
+        timezone: process.env.RETENTION_TIMEZONE || process.env.SCHEDULE_TIMEZONE || process.env.FORECAST_TIMEZONE || 'UTC',
+        defaultJobAction: process.env.RETENTION_DEFAULT_JOB_ACTION === 'delete' ? 'delete' : 'anonymize',
+        batchSize: parseInt(process.env.RETENTION_BATCH_SIZE || '500')
+    },
+    postProcessing: {
+        enabled: process.env.POST_PROCESSING_ENABLED !== 'false',
+        defaults: {
+            renditions: (process.env.POST_PROCESSING_RENDITIONS?.split(',').filter(Boolean) || []) as Array<'mp4' | 'webm' | 'mkv'>,
+            thumbnail: process.env.POST_PROCESSING_THUMBNAIL === 'true',
+            spriteSheet: process.env.POST_PROCESSING_SPRITE_SHEET === 'true',
+            packaging: (process.env.POST_PROCESSING_PACKAGING?.split(',').filter(Boolean) || []) as Array<'hls' | 'dash'>
+        },
+        maxAttempts: parseInt(process.env.POST_PROCESSING_MAX_ATTEMPTS || '3'),
+        stepTimeoutMs: parseInt(process.env.POST_PROCESSING_STEP_TIMEOUT_MS || '3600000'),
+        dispatchInterval: parseInt(process.env.POST_PROCESSING_DISPATCH_INTERVAL || '15000')
+    },
+    streaming: {
+        maxOutputsPerJob: parseInt(process.env.STREAM_MAX_OUTPUTS_PER_JOB || '4'),
+        maxAutoRestarts: parseInt(process.env.STREAM_OUTPUT_MAX_AUTO_RESTARTS || '3'),
+        restartDelayMs: parseInt(process.env.STREAM_OUTPUT_RESTART_DELAY_MS || '10000'),
+        healthTimeoutMs: parseInt(process.env.STREAM_OUTPUT_HEALTH_TIMEOUT_MS || '30000')
     },
     alerts: {
         webhookUrl: process.env.ALERT_WEBHOOK_URL,
+        webhookSecret: process.env.ALERT_WEBHOOK_SECRET,
         emailRecipients: process.env.ALERT_EMAILS?.split(','),
-        slackChannel: process.env.SLACK_CHANNEL
+        slackChannel: process.env.SLACK_CHANNEL,
+        enableScalingAlerts: process.env.ENABLE_SCALING_ALERTS === 'true',
+        scalingAlertCooldown: parseInt(process.env.SCALING_ALERT_COOLDOWN || '300'),
+        minLevel: (process.env.ALERT_MIN_LEVEL || 'medium') as AlertLevel,
+        evaluationInterval: parseInt(process.env.ALERT_EVALUATION_INTERVAL || '60000'),
+        slack: {
+            transport: process.env.SLACK_TRANSPORT === 'log' ? 'log' : 'webhook',
+            webhookUrl: process.env.SLACK_WEBHOOK_URL
+        },
+        email: {
+            transport: process.env.EMAIL_TRANSPORT === 'log' ? 'log' : 'smtp',
+            from: process.env.ALERT_EMAIL_FROM || 'recording-orchestrator@localhost',
+            smtp: {
+                host: process.env.SMTP_HOST,
+                port: parseInt(process.env.SMTP_PORT || '587'),
+                secure: process.env.SMTP_SECURE === 'true',
+                user: process.env.SMTP_USER,
+                password: process.env.SMTP_PASSWORD
+            }
+        }
+    },
+    webhooks: {
+        timeoutMs: parseInt(process.env.WEBHOOK_TIMEOUT_MS || '10000'),
+        maxAttempts: parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '8'),
+        initialBackoffMs: parseInt(process.env.WEBHOOK_INITIAL_BACKOFF_MS || '5000'),
+        maxBackoffMs: parseInt(process.env.WEBHOOK_MAX_BACKOFF_MS || '3600000'),
+        retryInterval: parseInt(process.env.WEBHOOK_RETRY_INTERVAL || '5000'),
+        deliveryRetentionDays: parseInt(process.env.WEBHOOK_DELIVERY_RETENTION_DAYS || '30')
+    },
+    auth: {
+        enabled: process.env.AUTH_ENABLED !== 'false',
+        jwtSecret: process.env.JWT_SECRET || '',
+        previousJwtSecrets: process.env.JWT_PREVIOUS_SECRETS?.split(',').filter(Boolean) || [],
+        tokenExpiry: process.env.TOKEN_EXPIRY || '1h',
+        bootstrapApiKey: process.env.AUTH_BOOTSTRAP_API_KEY,
+        keyRotationGracePeriodMs: parseInt(process.env.KEY_ROTATION_GRACE_PERIOD_MS || '86400000'),
+        requireSignedCallbacks: process.env.REQUIRE_SIGNED_CALLBACKS !== 'false',
+        signatureToleranceMs: parseInt(process.env.SIGNATURE_TOLERANCE_MS || '300000')
     },
     monitoring: {
         metricsInterval: parseInt(process.env.METRICS_INTERVAL || '15000'),
-        enableDetailedLogging: process.env.DETAILED_LOGGING === 'true'
+        enableDetailedLogging: process.env.DETAILED_LOGGING === 'true',
+        rollupInterval: parseInt(process.env.METRICS_ROLLUP_INTERVAL || '60000'),
+        retention: {
+            rawHours: parseInt(process.env.METRICS_RAW_RETENTION_HOURS || '24'),
+            minuteDays: parseInt(process.env.METRICS_MINUTE_RETENTION_DAYS || '7'),
+            hourDays: parseInt(process.env.METRICS_HOUR_RETENTION_DAYS || '90'),
+            dayDays: parseInt(process.env.METRICS_DAY_RETENTION_DAYS || '730')
+        }
     }
 };
 
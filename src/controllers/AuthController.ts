@@ -0,0 +1,174 @@
+import { Request, Response } from 'express';
+import { AuthService } from '../services/AuthService';
+import { Logger } from '../utils/Logger';
+import Joi from 'joi';
+
+export class AuthController {
+    private authService: AuthService;
+    private logger: Logger;
+
+    constructor(authService: AuthService) {
+        this.authService = authService;
+        this.logger = new Logger('AuthController');
+    }
+
+    // EXCHANGE API KEY FOR TOKEN
+    async issueToken(req: Request, res: Response): Promise<void> {
+        try {
+            if (!req.principal) {
+                res.status(400).json({
+                    success: false,
+                    error: 'Authentication is disabled'
+                });
+                return;
+            }
+
+            const token = this.authService.issueToken(req.principal);
+
+            res.json({
+                success: true,
+                data: {
+                    ...token,
+                    principal: req.principal
+                }
+            });
+
+        } catch (error) {
+            this.logger.error('Failed to issue token:', error);
+
+            res.status(400).json({
+                success: false,
+                error: error instanceof Error ? error.message : 'Failed to issue token'
+            });
+        }
+    }
+
+    // LIST API KEYS
+    async listApiKeys(req: Request, res: Response): Promise<void> {
+        try {
+            const keys = this.authService.listApiKeys();
+
+            res.json({
+                success: true,
+                data: keys,
+                timestamp: Date.now()
+            });
+
+        } catch (error) {
+            this.logger.error('Failed to list API keys:', error);
+
+            res.status(500).json({
+                success: false,
+                error: 'Failed to list API keys'
+            });
+        }
+    }
+
+    // CREATE API KEY
+    async createApiKey(req: Request, res: Response): Promise<void> {
+        try {
+            const schema = Joi.object({
+                name: Joi.string().max(255).required(),
+                kind: Joi.string().valid('node', 'service', 'operator').required(),
+                roles: Joi.array().items(Joi.string().valid('viewer', 'operator', 'admin')).when('kind', {
+                    is: 'operator',
+                    then: Joi.array().min(1).required(),
+                    otherwise: Joi.forbidden()
+                }),
+                nodeId: Joi.string().when('kind', {
+                    is: 'node',
+                    then: Joi.optional(),
+                    otherwise: Joi.forbidden()
+                }),
+                expiresAt: Joi.number().greater(Date.now())
+            });
+
+            const { error, value } = schema.validate(req.body);
+            if (error) {
+                res.status(400).json({
+                    success: false,
+                    error: 'Validation error',
+                    details: error.details.map(d => d.message)
+                });
+                return;
+            }
+
+            const { apiKey, key } = await this.authService.createApiKey(value);
+
+            this.logger.info('API key created', {
+                keyId: key.keyId,
+                kind: key.kind,
+                createdBy: req.principal?.id
+            });
+
+            // The key itself is only ever shown in this response
+            res.status(201).json({
+                success: true,
+                message: 'API key created - store it now, it cannot be retrieved later',
+                data: { apiKey, key }
+            });
+
+        } catch (error) {
+            this.logger.error('Failed to create API key:', error);
+
+            res.status(500).json({
+                success: false,
+                error: error instanceof Error ? error.message : 'Failed to create API key'
+            });
+        }
+    }
+
+    // ROTATE API KEY
+    async rotateApiKey(req: Request, res: Response): Promise<void> {
+        try {
+            const { keyId } = req.params;
+
+            const result = await this.authService.rotateApiKey(keyId!);
+
+            this.logger.info('API key rotated', {
+                keyId,
+                replacement: result.key.keyId,
+                rotatedBy: req.principal?.id
+            });
+
+            res.json({
+                success: true,
+                message: 'API key rotated - the previous key stays valid until its expiry',
+                data: result
+            });
+
+        } catch (error) {
+            this.logger.error('Failed to rotate API key:', error);
+
+            res.status(500).json({
+                success: false,
+                error: error instanceof Error ? error.message : 'Failed to rotate API key'
+            });
+        }
+    }
+
+    // REVOKE API KEY
+    async revokeApiKey(req: Request, res: Response): Promise<void> {
+        try {
+            const { keyId } = req.params;
+
+            const key = await this.authService.revokeApiKey(keyId!);
+
+            this.logger.info('API key revoked', { keyId, revokedBy: req.principal?.id });
+
+            res.json({
+                success: true,
+                message: 'API key revoked',
+                data: key
+            });
+
+        } catch (error) {
+            this.logger.error('Failed to revoke API key:', error);
+
+            res.status(500).json({
+                success: false,
+                error: error instanceof Error ? error.message : 'Failed to revoke API key'
+            });
+        }
+    }
+}
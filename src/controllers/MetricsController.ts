@@ -1,6 +1,7 @@
 import { Request, Response } from 'express';
 import { OrchestrationService } from '../services/OrchestrationService';
 import { Logger } from '../utils/Logger';
+import Joi from 'joi';
 
 export class MetricsController {
     private orchestrationService: OrchestrationService;
@@ -37,7 +38,14 @@ export class MetricsController {
         try {
             const { region } = req.params;
 
-            const metrics = this.orchestrationService.getRegionalMetrics(region);
+            const metrics = this.orchestrationService.getRegionalMetrics(region!);
+            if (!metrics) {
+                res.status(404).json({
+                    success: false,
+                    error: `No nodes registered in region ${region}`
+                });
+                return;
+            }
 
             res.json({
                 success: true,
@@ -59,29 +67,33 @@ export class MetricsController {
     // GET HISTORICAL METRICS
     async getHistoricalMetrics(req: Request, res: Response): Promise<void> {
         try {
-            const startDate = req.query.start as string;
-            const endDate = req.query.end as string;
-            const interval = req.query.interval as string || 'hour';
+            const schema = Joi.object({
+                start: Joi.date().iso().required(),
+                end: Joi.date().iso().greater(Joi.ref('start')).required(),
+                interval: Joi.string().valid('raw', 'minute', 'hour', 'day').default('hour')
+            });
 
-            if (!startDate || !endDate) {
+            const { error, value } = schema.validate(req.query);
+            if (error) {
                 res.status(400).json({
                     success: false,
-                    error: 'Start and end dates are required'
+                    error: 'Validation error',
+                    details: error.details.map(d => d.message)
                 });
                 return;
             }
 
             const metrics = await this.orchestrationService.getHistoricalMetrics({
-                startDate: new Date(startDate),
-                endDate: new Date(endDate),
-                interval
+                startDate: value.start,
+                endDate: value.end,
+                interval: value.interval
             });
 
             res.json({
                 success: true,
                 data: metrics,
-                interval,
-                dateRange: { start: startDate, end: endDate }
+                interval: value.interval,
+                dateRange: { start: value.start.toISOString(), end: value.end.toISOString() }
             });
 
         } catch (error) {
@@ -89,7 +101,7 @@ export class MetricsController {
 
             res.status(500).json({
                 success: false,
-                error: 'Failed to get historical metrics'
+                error: error instanceof Error ? error.message : 'Failed to get historical metrics'
             });
         }
     }
@@ -1,8 +1,21 @@
 import { Request, Response } from 'express';
 import { OrchestrationService } from '../services/OrchestrationService';
 import { Logger } from '../utils/Logger';
+import { getErrorStatus } from '../utils/Errors';
+import { NodeType } from '../types/interfaces';
 import Joi from 'joi';
 
+// Streams a room server reports for a peer; they are forwarded as reported
+const rtpStreamSchema = Joi.object({
+    kind: Joi.string().valid('audio', 'video').required(),
+    port: Joi.number().integer().min(1).max(65535).required(),
+    payloadType: Joi.number().integer().min(0).max(127).required(),
+    ssrc: Joi.number().integer().min(0).max(0xffffffff).required(),
+    codecName: Joi.string().required(),
+    clockRate: Joi.number().integer().min(1),
+    channels: Joi.number().integer().min(1)
+});
+
 export class NodesController {
     private orchestrationService: OrchestrationService;
     private logger: Logger;
@@ -40,7 +53,7 @@ export class NodesController {
                 return;
             }
 
-            const serverId = await this.orchestrationService.registerRoomServer(value);
+            const { nodeId: serverId, signingSecret } = await this.orchestrationService.registerRoomServer(value);
 
             this.logger.info('Room server registered', { serverId, url: value.url });
 
@@ -49,6 +62,7 @@ export class NodesController {
                 message: 'Room server registered successfully',
                 data: {
                     serverId,
+                    signingSecret,
                     registrationTime: Date.now()
                 }
             });
@@ -78,6 +92,10 @@ export class NodesController {
                     networkBandwidth: Joi.number().min(0)
                 }).required(),
                 supportedCodecs: Joi.array().items(Joi.string()).default(['h264', 'vp8', 'opus']),
+                portRange: Joi.object({
+                    start: Joi.number().integer().min(1024).max(65534).multiple(2).required(),
+                    end: Joi.number().integer().greater(Joi.ref('start')).max(65535).required()
+                }).optional(),
                 metadata: Joi.object().default({})
             });
 
@@ -91,7 +109,7 @@ export class NodesController {
                 return;
             }
 
-            const nodeId = await this.orchestrationService.registerFFmpegNode(value);
+            const { nodeId, signingSecret } = await this.orchestrationService.registerFFmpegNode(value);
 
             this.logger.info('FFmpeg node registered', { nodeId, url: value.url });
 
@@ -100,6 +118,7 @@ export class NodesController {
                 message: 'FFmpeg node registered successfully',
                 data: {
                     nodeId,
+                    signingSecret,
                     registrationTime: Date.now()
                 }
             });
@@ -120,7 +139,21 @@ export class NodesController {
             const schema = Joi.object({
                 serverId: Joi.string().required(),
                 currentLoad: Joi.number().min(0).required(),
-                rooms: Joi.array().items(Joi.string()).default([]),
+                rooms: Joi.array().items(
+                    Joi.alternatives().try(
+                        Joi.string(),
+                        Joi.object({
+                            roomId: Joi.string().required(),
+                            activeSpeakerId: Joi.string().optional(),
+                            peers: Joi.array().items(Joi.object({
+                                peerId: Joi.string().required(),
+                                displayName: Joi.string().optional(),
+                                roles: Joi.array().items(Joi.string()).optional(),
+                                rtpStreams: Joi.array().items(rtpStreamSchema).default([])
+                            })).optional()
+                        })
+                    )
+                ).default([]),
                 systemMetrics: Joi.object().default({})
             });
 
@@ -191,7 +224,7 @@ export class NodesController {
     // LIST NODES
     async listNodes(req: Request, res: Response): Promise<void> {
         try {
-            const nodeType = req.query.type as string;
+            const nodeType = req.query.type as NodeType | undefined;
             const region = req.query.region as string;
             const healthyOnly = req.query.healthy === 'true';
 
@@ -217,11 +250,34 @@ export class NodesController {
         }
     }
 
+    // GET PORT LEASES
+    async getPortLeases(req: Request, res: Response): Promise<void> {
+        try {
+            const nodeId = req.query.nodeId as string | undefined;
+
+            const leases = this.orchestrationService.getPortLeases(nodeId);
+
+            res.json({
+                success: true,
+                data: leases,
+                count: leases.length
+            });
+
+        } catch (error) {
+            this.logger.error('Failed to get port leases:', error);
+
+            res.status(500).json({
+                success: false,
+                error: 'Failed to get port leases'
+            });
+        }
+    }
+
     // GET NODE STATUS
     async getNodeStatus(req: Request, res: Response): Promise<void> {
         try {
             const { nodeId } = req.params;
-            const nodeType = req.query.type as string;
+            const nodeType = req.query.type as NodeType | undefined;
 
             const node = this.orchestrationService.getNode(nodeId, nodeType);
             if (!node) {
@@ -247,11 +303,117 @@ export class NodesController {
         }
     }
 
+    // CORDON NODE
+    async cordonNode(req: Request, res: Response): Promise<void> {
+        try {
+            const { nodeId } = req.params;
+            const nodeType = req.query.type as NodeType | undefined;
+
+            const schema = Joi.object({
+                reason: Joi.string().max(500).optional()
+            });
+
+            const { error, value } = schema.validate(req.body || {});
+            if (error) {
+                res.status(400).json({
+                    success: false,
+                    error: 'Validation error',
+                    details: error.details.map(d => d.message)
+                });
+                return;
+            }
+
+            const scheduling = await this.orchestrationService.cordonNode(nodeId!, value.reason, nodeType);
+
+            this.logger.info('Node cordoned', { nodeId, reason: value.reason });
+
+            res.json({
+                success: true,
+                message: 'Node cordoned successfully',
+                data: scheduling
+            });
+
+        } catch (error) {
+            this.logger.error('Failed to cordon node:', error);
+
+            res.status(getErrorStatus(error)).json({
+                success: false,
+                error: error instanceof Error ? error.message : 'Failed to cordon node'
+            });
+        }
+    }
+
+    // UNCORDON NODE
+    async uncordonNode(req: Request, res: Response): Promise<void> {
+        try {
+            const { nodeId } = req.params;
+            const nodeType = req.query.type as NodeType | undefined;
+
+            await this.orchestrationService.uncordonNode(nodeId!, nodeType);
+
+            this.logger.info('Node uncordoned', { nodeId });
+
+            res.json({
+                success: true,
+                message: 'Node uncordoned successfully'
+            });
+
+        } catch (error) {
+            this.logger.error('Failed to uncordon node:', error);
+
+            res.status(getErrorStatus(error)).json({
+                success: false,
+                error: error instanceof Error ? error.message : 'Failed to uncordon node'
+            });
+        }
+    }
+
+    // DRAIN NODE
+    async drainNode(req: Request, res: Response): Promise<void> {
+        try {
+            const { nodeId } = req.params;
+            const nodeType = req.query.type as NodeType | undefined;
+
+            const schema = Joi.object({
+                mode: Joi.string().valid('wait', 'migrate').default('wait'),
+                reason: Joi.string().max(500).optional()
+            });
+
+            const { error, value } = schema.validate(req.body || {});
+            if (error) {
+                res.status(400).json({
+                    success: false,
+                    error: 'Validation error',
+                    details: error.details.map(d => d.message)
+                });
+                return;
+            }
+
+            const scheduling = await this.orchestrationService.drainNode(nodeId!, value.mode, value.reason, nodeType);
+
+            this.logger.info('Node drain started', { nodeId, mode: value.mode });
+
+            res.status(202).json({
+                success: true,
+                message: scheduling.state === 'drained' ? 'Node drained and deregistered' : 'Node drain started',
+                data: scheduling
+            });
+
+        } catch (error) {
+            this.logger.error('Failed to drain node:', error);
+
+            res.status(getErrorStatus(error)).json({
+                success: false,
+                error: error instanceof Error ? error.message : 'Failed to drain node'
+            });
+        }
+    }
+
     // REMOVE NODE
     async removeNode(req: Request, res: Response): Promise<void> {
         try {
             const { nodeId } = req.params;
-            const nodeType = req.query.type as string;
+            const nodeType = req.query.type as NodeType | undefined;
 
             await this.orchestrationService.removeNode(nodeId, nodeType);
 
@@ -265,9 +427,9 @@ export class NodesController {
         } catch (error) {
             this.logger.error('Failed to remove node:', error);
 
-            res.status(500).json({
+            res.status(getErrorStatus(error)).json({
                 success: false,
-                error: error.message || 'Failed to remove node'
+                error: error instanceof Error ? error.message : 'Failed to remove node'
             });
         }
     }
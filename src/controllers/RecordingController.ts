@@ -1,15 +1,57 @@
 import { Request, Response } from 'express';
 import { OrchestrationService } from '../services/OrchestrationService';
+import { ArtifactService } from '../services/ArtifactService';
+import { PostProcessingService } from '../services/PostProcessingService';
 import { Logger } from '../utils/Logger';
+import { getErrorStatus } from '../utils/Errors';
 import { ValidationMiddleware } from '../middleware/ValidationMiddleware';
+import { config } from '../config/config';
 import Joi from 'joi';
 
+// What to produce from the recording once it completes
+const postProcessingSchema = Joi.object({
+    renditions: Joi.array().items(Joi.string().valid('mp4', 'webm', 'mkv')).unique(),
+    thumbnail: Joi.boolean(),
+    spriteSheet: Joi.boolean(),
+    packaging: Joi.array().items(Joi.string().valid('hls', 'dash')).unique()
+});
+
+// The file and the live streams a recording goes to - just the file by default
+const outputsSchema = Joi.array().items(Joi.object({
+    type: Joi.string().valid('file', 'rtmp', 'srt', 'll-hls').required(),
+    url: Joi.string().when('type', {
+        switch: [
+            { is: 'file', then: Joi.forbidden() },
+            { is: 'rtmp', then: Joi.string().uri({ scheme: ['rtmp', 'rtmps'] }).required() },
+            { is: 'srt', then: Joi.string().uri({ scheme: ['srt'] }).required() }
+        ],
+        // LL-HLS segments are pushed to the origin over HTTP
+        otherwise: Joi.string().uri({ scheme: ['http', 'https'] }).required()
+    }),
+    streamKey: Joi.string().max(512).when('type', { is: Joi.valid('rtmp', 'srt'), otherwise: Joi.forbidden() }),
+    // SRT takes passphrases of 10 to 79 characters
+    passphrase: Joi.string().min(10).max(79).when('type', { is: 'srt', otherwise: Joi.forbidden() }),
+    playbackUrl: Joi.string().uri({ scheme: ['http', 'https'] })
+}))
+    .min(1)
+    .max(config.streaming.maxOutputsPerJob)
+    .unique((a, b) => a.type === 'file' && b.type === 'file')
+    .default([{ type: 'file' }]);
+
 export class RecordingController {
     private orchestrationService: OrchestrationService;
+    private artifactService: ArtifactService;
+    private postProcessingService: PostProcessingService;
     private logger: Logger;
 
-    constructor(orchestrationService: OrchestrationService) {
+    constructor(
+        orchestrationService: OrchestrationService,
+        artifactService: ArtifactService,
+        postProcessingService: PostProcessingService
+    ) {
         this.orchestrationService = orchestrationService;
+        this.artifactService = artifactService;
+        this.postProcessingService = postProcessingService;
         this.logger = new Logger('RecordingController');
     }
 
@@ -39,14 +81,19 @@ export class RecordingController {
                     format: Joi.string().valid('mp4', 'webm', 'mkv').default('mp4'),
                     includeAudio: Joi.boolean().default(true),
                     includeVideo: Joi.boolean().default(true),
-                    maxDuration: Joi.number().min(1).max(7200) // Max 2 hours
+                    maxDuration: Joi.number().min(1000).max(7200000), // Milliseconds, max 2 hours
+                    postProcessing: postProcessingSchema
                 }).default({}),
                 requesterInfo: Joi.object({
                     userId: Joi.string().allow(''),
+                    tenantId: Joi.string(),
                     ip: Joi.string().required(),
                     userAgent: Joi.string().allow(''),
                     timestamp: Joi.number().required()
-                }).required()
+                }).required(),
+                // Runs the recording on capacity reserved for it
+                reservationId: Joi.string(),
+                outputs: outputsSchema
             });
 
             const { error, value } = schema.validate(req.body);
@@ -88,6 +135,86 @@ export class RecordingController {
         }
     }
 
+    // START ROOM COMPOSITE RECORDING
+    async startCompositeRecording(req: Request, res: Response): Promise<void> {
+        try {
+            const rtpStreamSchema = Joi.object({
+                kind: Joi.string().valid('audio', 'video').required(),
+                port: Joi.number().required(),
+                payloadType: Joi.number().required(),
+                ssrc: Joi.number().required(),
+                codecName: Joi.string().required()
+            });
+
+            const schema = Joi.object({
+                roomServerId: Joi.string().required(),
+                roomId: Joi.string().required(),
+                layout: Joi.string().valid('grid', 'active-speaker', 'presenter-thumbnails').default('grid'),
+                participants: Joi.array().items(Joi.object({
+                    peerId: Joi.string().required(),
+                    displayName: Joi.string().allow(''),
+                    roles: Joi.array().items(Joi.string()).default([]),
+                    rtpStreams: Joi.array().items(rtpStreamSchema).default([])
+                })).optional(),
+                options: Joi.object({
+                    quality: Joi.string().valid('low', 'medium', 'high').default('medium'),
+                    format: Joi.string().valid('mp4', 'webm', 'mkv').default('mp4'),
+                    includeAudio: Joi.boolean().default(true),
+                    includeVideo: Joi.boolean().default(true),
+                    maxDuration: Joi.number().min(1000).max(7200000), // Milliseconds, max 2 hours
+                    postProcessing: postProcessingSchema
+                }).default({}),
+                requesterInfo: Joi.object({
+                    userId: Joi.string().allow(''),
+                    tenantId: Joi.string(),
+                    ip: Joi.string().required(),
+                    userAgent: Joi.string().allow(''),
+                    timestamp: Joi.number().required()
+                }).required(),
+                // Runs the recording on capacity reserved for it
+                reservationId: Joi.string(),
+                outputs: outputsSchema
+            });
+
+            const { error, value } = schema.validate(req.body);
+            if (error) {
+                res.status(400).json({
+                    success: false,
+                    error: 'Validation error',
+                    details: error.details.map(d => d.message)
+                });
+                return;
+            }
+
+            const jobId = await this.orchestrationService.startCompositeRecording(value);
+
+            this.logger.info('Composite recording started successfully', {
+                jobId,
+                roomId: value.roomId,
+                layout: value.layout
+            });
+
+            res.status(201).json({
+                success: true,
+                message: 'Composite recording started successfully',
+                data: {
+                    jobId,
+                    status: 'pending',
+                    timestamp: Date.now()
+                }
+            });
+
+        } catch (error) {
+            this.logger.error('Failed to start composite recording:', error);
+
+            res.status(500).json({
+                success: false,
+                error: error instanceof Error ? error.message : 'Failed to start composite recording',
+                timestamp: Date.now()
+            });
+        }
+    }
+
     // STOP DISTRIBUTED RECORDING
     async stopRecording(req: Request, res: Response): Promise<void> {
         try {
@@ -118,9 +245,196 @@ export class RecordingController {
         } catch (error) {
             this.logger.error('Failed to stop recording:', error);
 
-            res.status(500).json({
+            res.status(getErrorStatus(error)).json({
+                success: false,
+                error: error instanceof Error ? error.message : 'Failed to stop recording',
+                timestamp: Date.now()
+            });
+        }
+    }
+
+    // CANCEL DISTRIBUTED RECORDING
+    async cancelRecording(req: Request, res: Response): Promise<void> {
+        try {
+            const { jobId } = req.params;
+
+            const schema = Joi.object({
+                reason: Joi.string().max(500).default('Cancelled by user request'),
+                requesterInfo: Joi.object({
+                    userId: Joi.string().allow(''),
+                    ip: Joi.string(),
+                    userAgent: Joi.string().allow('')
+                }).default({})
+            });
+
+            const { error, value } = schema.validate(req.body || {});
+            if (error) {
+                res.status(400).json({
+                    success: false,
+                    error: 'Validation error',
+                    details: error.details.map(d => d.message)
+                });
+                return;
+            }
+
+            const requestedBy = {
+                ...value.requesterInfo,
+                ip: value.requesterInfo.ip || req.ip || 'unknown',
+                userAgent: value.requesterInfo.userAgent || req.headers['user-agent'],
+                timestamp: Date.now()
+            };
+
+            const job = await this.orchestrationService.cancelDistributedRecording(jobId, value.reason, requestedBy);
+
+            this.logger.info('Recording cancelled successfully', { jobId, reason: value.reason });
+
+            res.json({
+                success: true,
+                message: 'Recording cancelled successfully',
+                data: {
+                    jobId,
+                    status: job.status,
+                    cancellation: job.cancellation,
+                    timestamp: Date.now()
+                }
+            });
+
+        } catch (error) {
+            this.logger.error('Failed to cancel recording:', error);
+
+            res.status(getErrorStatus(error)).json({
+                success: false,
+                error: error instanceof Error ? error.message : 'Failed to cancel recording',
+                timestamp: Date.now()
+            });
+        }
+    }
+
+    // PAUSE RECORDING
+    async pauseRecording(req: Request, res: Response): Promise<void> {
+        try {
+            const { jobId } = req.params;
+
+            const schema = Joi.object({
+                reason: Joi.string().max(500),
+                // Defaults to PAUSE_SUSPEND_FORWARDING
+                suspendForwarding: Joi.boolean()
+            });
+
+            const { error, value } = schema.validate(req.body || {});
+            if (error) {
+                res.status(400).json({
+                    success: false,
+                    error: 'Validation error',
+                    details: error.details.map(d => d.message)
+                });
+                return;
+            }
+
+            const job = await this.orchestrationService.pauseRecording(jobId!, {
+                ...value,
+                requestedBy: req.principal?.id
+            });
+
+            res.json({
+                success: true,
+                message: 'Recording paused',
+                data: {
+                    jobId,
+                    status: job.status,
+                    pause: job.pauses![job.pauses!.length - 1],
+                    timestamp: Date.now()
+                }
+            });
+
+        } catch (error) {
+            this.logger.error('Failed to pause recording:', error);
+
+            res.status(getErrorStatus(error)).json({
                 success: false,
-                error: error.message || 'Failed to stop recording',
+                error: error instanceof Error ? error.message : 'Failed to pause recording',
+                timestamp: Date.now()
+            });
+        }
+    }
+
+    // RESUME PAUSED RECORDING
+    async resumeRecording(req: Request, res: Response): Promise<void> {
+        try {
+            const { jobId } = req.params;
+
+            const job = await this.orchestrationService.resumeRecording(jobId!);
+
+            this.logger.info('Recording resumed', { jobId, requestedBy: req.principal?.id });
+
+            res.json({
+                success: true,
+                message: 'Recording resumed',
+                data: {
+                    jobId,
+                    status: job.status,
+                    pause: job.pauses![job.pauses!.length - 1],
+                    timestamp: Date.now()
+                }
+            });
+
+        } catch (error) {
+            this.logger.error('Failed to resume recording:', error);
+
+            res.status(getErrorStatus(error)).json({
+                success: false,
+                error: error instanceof Error ? error.message : 'Failed to resume recording',
+                timestamp: Date.now()
+            });
+        }
+    }
+
+    // MIGRATE RECORDING TO ANOTHER FFMPEG NODE
+    async migrateRecording(req: Request, res: Response): Promise<void> {
+        try {
+            const { jobId } = req.params;
+
+            const schema = Joi.object({
+                targetNodeId: Joi.string(),
+                reason: Joi.string().max(500).default('Operator request')
+            });
+
+            const { error, value } = schema.validate(req.body || {});
+            if (error) {
+                res.status(400).json({
+                    success: false,
+                    error: 'Validation error',
+                    details: error.details.map(d => d.message)
+                });
+                return;
+            }
+
+            const job = await this.orchestrationService.migrateRecording(jobId!, value);
+
+            this.logger.info('Recording migration started', {
+                jobId,
+                from: job.migration?.sourceNodeId,
+                to: job.migration?.targetNodeId
+            });
+
+            // Cutover happens once the target node reports it is recording
+            res.status(202).json({
+                success: true,
+                message: 'Recording migration started',
+                data: {
+                    jobId,
+                    status: job.status,
+                    migration: job.migration,
+                    timestamp: Date.now()
+                }
+            });
+
+        } catch (error) {
+            this.logger.error('Failed to migrate recording:', error);
+
+            res.status(getErrorStatus(error)).json({
+                success: false,
+                error: error instanceof Error ? error.message : 'Failed to migrate recording',
                 timestamp: Date.now()
             });
         }
@@ -131,7 +445,7 @@ export class RecordingController {
         try {
             const { jobId } = req.params;
 
-            const job = this.orchestrationService.getRecordingJob(jobId);
+            const job = await this.orchestrationService.getRecordingJob(jobId!);
             if (!job) {
                 res.status(404).json({
                     success: false,
@@ -152,6 +466,13 @@ export class RecordingController {
                     duration: job.endTime ? job.endTime - job.startTime : Date.now() - job.startTime,
                     outputPath: job.outputPath,
                     errorMessage: job.errorMessage,
+                    termination: job.termination,
+                    segments: job.segments,
+                    migration: job.migration,
+                    pauses: job.pauses,
+                    stitching: job.stitching,
+                    postProcessing: await this.postProcessingService.getState(job.jobId),
+                    outputs: await this.orchestrationService.getRecordingOutputs(job.jobId),
                     ffmpegNodeId: job.ffmpegNodeId,
                     roomServerId: job.roomServerId
                 }
@@ -162,7 +483,7 @@ export class RecordingController {
 
             res.status(500).json({
                 success: false,
-                error: error.message || 'Failed to get recording status'
+                error: error instanceof Error ? error.message : 'Failed to get recording status'
             });
         }
     }
@@ -184,11 +505,11 @@ export class RecordingController {
 
             res.json({
                 success: true,
-                data: recordings,
+                data: recordings.records,
                 pagination: {
                     page,
                     limit,
-                    total: recordings.length
+                    total: recordings.total
                 }
             });
 
@@ -197,7 +518,121 @@ export class RecordingController {
 
             res.status(500).json({
                 success: false,
-                error: error.message || 'Failed to list recordings'
+                error: error instanceof Error ? error.message : 'Failed to list recordings'
+            });
+        }
+    }
+
+    // LIST RECORDING OUTPUTS
+    async listRecordingOutputs(req: Request, res: Response): Promise<void> {
+        try {
+            const { jobId } = req.params;
+
+            const outputs = await this.orchestrationService.getRecordingOutputs(jobId!);
+            if (!outputs) {
+                res.status(404).json({
+                    success: false,
+                    error: 'Recording job not found'
+                });
+                return;
+            }
+
+            res.json({
+                success: true,
+                data: {
+                    jobId,
+                    outputs
+                },
+                timestamp: Date.now()
+            });
+
+        } catch (error) {
+            this.logger.error('Failed to list recording outputs:', error);
+
+            res.status(500).json({
+                success: false,
+                error: error instanceof Error ? error.message : 'Failed to list recording outputs'
+            });
+        }
+    }
+
+    // RESTART A SINGLE OUTPUT
+    async restartRecordingOutput(req: Request, res: Response): Promise<void> {
+        try {
+            const { jobId, outputId } = req.params;
+
+            const outputs = await this.orchestrationService.getRecordingOutputs(jobId!);
+            if (!outputs || !outputs.some(output => output.id === outputId)) {
+                res.status(404).json({
+                    success: false,
+                    error: 'Recording output not found'
+                });
+                return;
+            }
+
+            this.logger.info(`Restart of output ${outputId} requested`, { jobId, requestedBy: req.principal?.id });
+
+            const output = await this.orchestrationService.restartOutput(jobId!, outputId!);
+
+            res.json({
+                success: true,
+                message: 'Output restarting',
+                data: output
+            });
+
+        } catch (error) {
+            this.logger.error('Failed to restart recording output:', error);
+
+            res.status(getErrorStatus(error)).json({
+                success: false,
+                error: error instanceof Error ? error.message : 'Failed to restart recording output'
+            });
+        }
+    }
+
+    // GET JOB QUEUE
+    async getQueue(req: Request, res: Response): Promise<void> {
+        try {
+            const queue = this.orchestrationService.getQueueStatus();
+
+            res.json({
+                success: true,
+                data: queue,
+                timestamp: Date.now()
+            });
+
+        } catch (error) {
+            this.logger.error('Failed to get job queue:', error);
+
+            res.status(500).json({
+                success: false,
+                error: 'Failed to get job queue'
+            });
+        }
+    }
+
+    // GET JOB AUDIT TRAIL
+    async getRecordingAudit(req: Request, res: Response): Promise<void> {
+        try {
+            const { jobId } = req.params;
+
+            const records = await this.orchestrationService.getJobAuditRecords(jobId!);
+
+            res.json({
+                success: true,
+                data: {
+                    jobId,
+                    records
+                },
+                timestamp: Date.now()
+            });
+
+        } catch (error) {
+            this.logger.error('Failed to get recording audit trail:', error);
+
+            res.status(500).json({
+                success: false,
+                error: 'Failed to get recording audit trail'
             });
         }
     }
@@ -235,7 +670,177 @@ export class RecordingController {
 
             res.status(500).json({
                 success: false,
-                error: error.message || 'Failed to get recording history'
+                error: error instanceof Error ? error.message : 'Failed to get recording history'
+            });
+        }
+    }
+
+    // LIST RECORDING ARTIFACTS
+    async listRecordingArtifacts(req: Request, res: Response): Promise<void> {
+        try {
+            const { jobId } = req.params;
+
+            const schema = Joi.object({
+                expiresIn: Joi.number().integer().min(60).max(config.artifacts.downloadUrlTtlSeconds)
+                    .default(config.artifacts.downloadUrlTtlSeconds)
+            });
+
+            const { error, value } = schema.validate(req.query);
+            if (error) {
+                res.status(400).json({
+                    success: false,
+                    error: 'Validation error',
+                    details: error.details.map(d => d.message)
+                });
+                return;
+            }
+
+            // Empty until the job's output is final and registered
+            const artifacts = await this.artifactService.listArtifacts(jobId!, value.expiresIn);
+
+            res.json({
+                success: true,
+                data: {
+                    jobId,
+                    artifacts
+                },
+                timestamp: Date.now()
+            });
+
+        } catch (error) {
+            this.logger.error('Failed to list recording artifacts:', error);
+
+            res.status(500).json({
+                success: false,
+                error: error instanceof Error ? error.message : 'Failed to list recording artifacts'
+            });
+        }
+    }
+
+    // GET POST-PROCESSING STATUS
+    async getPostProcessing(req: Request, res: Response): Promise<void> {
+        try {
+            const { jobId } = req.params;
+
+            const state = await this.postProcessingService.getState(jobId!);
+            if (!state) {
+                res.status(404).json({
+                    success: false,
+                    error: 'No post-processing for this recording job'
+                });
+                return;
+            }
+
+            res.json({
+                success: true,
+                data: {
+                    jobId,
+                    ...state
+                }
+            });
+
+        } catch (error) {
+            this.logger.error('Failed to get post-processing status:', error);
+
+            res.status(500).json({
+                success: false,
+                error: error instanceof Error ? error.message : 'Failed to get post-processing status'
+            });
+        }
+    }
+
+    // RETRY FAILED POST-PROCESSING STEP
+    async retryPostProcessingStep(req: Request, res: Response): Promise<void> {
+        try {
+            const { jobId, stepId } = req.params;
+
+            const state = await this.postProcessingService.getState(jobId!);
+            if (!state || !state.steps.some(step => step.id === stepId)) {
+                res.status(404).json({
+                    success: false,
+                    error: 'Post-processing step not found'
+                });
+                return;
+            }
+
+            this.logger.info(`Retry of post-processing step ${stepId} requested`, { jobId, requestedBy: req.principal?.id });
+
+            const updated = await this.postProcessingService.retryStep(jobId!, stepId!);
+
+            res.json({
+                success: true,
+                message: 'Post-processing step queued for retry',
+                data: {
+                    jobId,
+                    ...updated
+                }
+            });
+
+        } catch (error) {
+            this.logger.error('Failed to retry post-processing step:', error);
+
+            res.status(getErrorStatus(error)).json({
+                success: false,
+                error: error instanceof Error ? error.message : 'Failed to retry post-processing step'
+            });
+        }
+    }
+
+    // DOWNLOAD RECORDING ARTIFACT (signed link to local storage)
+    async downloadRecordingArtifact(req: Request, res: Response): Promise<void> {
+        try {
+            const { jobId, artifactId } = req.params;
+
+            const schema = Joi.object({
+                expires: Joi.number().integer().required(),
+                signature: Joi.string().hex().required()
+            });
+
+            const { error, value } = schema.validate(req.query);
+            if (error) {
+                res.status(400).json({
+                    success: false,
+                    error: 'Validation error',
+                    details: error.details.map(d => d.message)
+                });
+                return;
+            }
+
+            const artifact = await this.artifactService.getArtifact(jobId!, artifactId!);
+            if (!artifact) {
+                res.status(404).json({
+                    success: false,
+                    error: 'Recording artifact not found'
+                });
+                return;
+            }
+
+            const filePath = this.artifactService.resolveLocalDownload(artifact, value.expires, value.signature);
+            if (!filePath) {
+                res.status(403).json({
+                    success: false,
+                    error: 'Download link is invalid or has expired'
+                });
+                return;
+            }
+
+            res.download(filePath, artifact.fileName, error => {
+                if (error && !res.headersSent) {
+                    this.logger.error(`Failed to send artifact ${artifact.id}:`, error);
+
+                    res.status(404).json({
+                        success: false,
+                        error: 'Recording artifact file is missing'
+                    });
+                }
+            });
+
+        } catch (error) {
+            this.logger.error('Failed to download recording artifact:', error);
+
+            res.status(500).json({
+                success: false,
+                error: 'Failed to download recording artifact'
             });
         }
     }
@@ -245,7 +850,7 @@ export class RecordingController {
         try {
             const schema = Joi.object({
                 jobId: Joi.string().required(),
-                event: Joi.string().valid('started', 'progress', 'completed', 'failed').required(),
+                event: Joi.string().valid('started', 'progress', 'completed', 'failed', 'output').required(),
                 data: Joi.object().default({})
             });
 
@@ -258,19 +863,65 @@ export class RecordingController {
                 return;
             }
 
-            await this.orchestrationService.handleRecordingEvent(value);
+            const job = await this.orchestrationService.handleRecordingEvent(value, req.signedNodeId);
 
             res.json({
                 success: true,
-                message: 'Event processed successfully'
+                message: 'Event processed successfully',
+                data: {
+                    jobId: job.jobId,
+                    status: job.status,
+                    timestamp: Date.now()
+                }
             });
 
         } catch (error) {
             this.logger.error('Failed to handle recording event:', error);
 
-            res.status(500).json({
+            res.status(getErrorStatus(error)).json({
+                success: false,
+                error: error instanceof Error ? error.message : 'Failed to process event'
+            });
+        }
+    }
+
+    // HANDLE POST-PROCESSING EVENTS FROM FFMPEG NODES
+    async handlePostProcessingEvent(req: Request, res: Response): Promise<void> {
+        try {
+            const schema = Joi.object({
+                jobId: Joi.string().required(),
+                stepId: Joi.string().required(),
+                event: Joi.string().valid('completed', 'failed').required(),
+                data: Joi.object().default({})
+            });
+
+            const { error, value } = schema.validate(req.body);
+            if (error) {
+                res.status(400).json({
+                    success: false,
+                    error: 'Invalid event data'
+                });
+                return;
+            }
+
+            const state = await this.postProcessingService.handleEvent(value, req.signedNodeId);
+
+            res.json({
+                success: true,
+                message: 'Event processed successfully',
+                data: {
+                    jobId: value.jobId,
+                    status: state.status,
+                    timestamp: Date.now()
+                }
+            });
+
+        } catch (error) {
+            this.logger.error('Failed to handle post-processing event:', error);
+
+            res.status(getErrorStatus(error)).json({
                 success: false,
-                error: error.message || 'Failed to process event'
+                error: error instanceof Error ? error.message : 'Failed to process event'
             });
         }
     }
@@ -0,0 +1,280 @@
+import { Request, Response } from 'express';
+import { RetentionService } from '../services/RetentionService';
+import { Logger } from '../utils/Logger';
+import Joi from 'joi';
+
+export class RetentionController {
+    private retentionService: RetentionService;
+    private logger: Logger;
+
+    constructor(retentionService: RetentionService) {
+        this.retentionService = retentionService;
+        this.logger = new Logger('RetentionController');
+    }
+
+    // LIST POLICIES
+    async listPolicies(req: Request, res: Response): Promise<void> {
+        try {
+            res.json({
+                success: true,
+                data: this.retentionService.listPolicies(),
+                timestamp: Date.now()
+            });
+
+        } catch (error) {
+            this.logger.error('Failed to list retention policies:', error);
+
+            res.status(500).json({
+                success: false,
+                error: 'Failed to list retention policies'
+            });
+        }
+    }
+
+    // CREATE POLICY
+    async createPolicy(req: Request, res: Response): Promise<void> {
+        try {
+            const schema = Joi.object({
+                name: Joi.string().max(255).required(),
+                scope: Joi.string().valid('room', 'tenant', 'role').required(),
+                match: Joi.string().max(255).required(),
+                retentionDays: Joi.number().integer().min(1).required(),
+                jobAction: Joi.string().valid('anonymize', 'delete')
+            });
+
+            const { error, value } = schema.validate(req.body);
+            if (error) {
+                res.status(400).json({
+                    success: false,
+                    error: 'Validation error',
+                    details: error.details.map(d => d.message)
+                });
+                return;
+            }
+
+            const policy = await this.retentionService.createPolicy(value, req.principal?.id);
+
+            res.status(201).json({
+                success: true,
+                message: 'Retention policy created',
+                data: policy
+            });
+
+        } catch (error) {
+            this.logger.error('Failed to create retention policy:', error);
+
+            res.status(500).json({
+                success: false,
+                error: error instanceof Error ? error.message : 'Failed to create retention policy'
+            });
+        }
+    }
+
+    // UPDATE POLICY
+    async updatePolicy(req: Request, res: Response): Promise<void> {
+        try {
+            const { policyId } = req.params;
+
+            const schema = Joi.object({
+                name: Joi.string().max(255),
+                scope: Joi.string().valid('room', 'tenant', 'role'),
+                match: Joi.string().max(255),
+                retentionDays: Joi.number().integer().min(1),
+                jobAction: Joi.string().valid('anonymize', 'delete')
+            }).min(1);
+
+            const { error, value } = schema.validate(req.body);
+            if (error) {
+                res.status(400).json({
+                    success: false,
+                    error: 'Validation error',
+                    details: error.details.map(d => d.message)
+                });
+                return;
+            }
+
+            if (!this.retentionService.getPolicy(policyId!)) {
+                res.status(404).json({
+                    success: false,
+                    error: 'Retention policy not found'
+                });
+                return;
+            }
+
+            const policy = await this.retentionService.updatePolicy(policyId!, value);
+
+            res.json({
+                success: true,
+                message: 'Retention policy updated',
+                data: policy
+            });
+
+        } catch (error) {
+            this.logger.error('Failed to update retention policy:', error);
+
+            res.status(500).json({
+                success: false,
+                error: error instanceof Error ? error.message : 'Failed to update retention policy'
+            });
+        }
+    }
+
+    // DELETE POLICY
+    async deletePolicy(req: Request, res: Response): Promise<void> {
+        try {
+            const { policyId } = req.params;
+
+            if (!this.retentionService.getPolicy(policyId!)) {
+                res.status(404).json({
+                    success: false,
+                    error: 'Retention policy not found'
+                });
+                return;
+            }
+
+            await this.retentionService.deletePolicy(policyId!);
+
+            res.json({
+                success: true,
+                message: 'Retention policy deleted'
+            });
+
+        } catch (error) {
+            this.logger.error('Failed to delete retention policy:', error);
+
+            res.status(500).json({
+                success: false,
+                error: error instanceof Error ? error.message : 'Failed to delete retention policy'
+            });
+        }
+    }
+
+    // LIST LEGAL HOLDS
+    async listHolds(req: Request, res: Response): Promise<void> {
+        try {
+            res.json({
+                success: true,
+                data: this.retentionService.listHolds(),
+                timestamp: Date.now()
+            });
+
+        } catch (error) {
+            this.logger.error('Failed to list legal holds:', error);
+
+            res.status(500).json({
+                success: false,
+                error: 'Failed to list legal holds'
+            });
+        }
+    }
+
+    // PLACE LEGAL HOLD
+    async placeHold(req: Request, res: Response): Promise<void> {
+        try {
+            const { jobId } = req.params;
+
+            const schema = Joi.object({
+                reason: Joi.string().max(1000).required()
+            });
+
+            const { error, value } = schema.validate(req.body);
+            if (error) {
+                res.status(400).json({
+                    success: false,
+                    error: 'Validation error',
+                    details: error.details.map(d => d.message)
+                });
+                return;
+            }
+
+            const hold = await this.retentionService.placeHold(jobId!, value.reason, req.principal?.id);
+
+            res.json({
+                success: true,
+                message: 'Legal hold placed',
+                data: hold
+            });
+
+        } catch (error) {
+            this.logger.error('Failed to place legal hold:', error);
+
+            res.status(500).json({
+                success: false,
+                error: error instanceof Error ? error.message : 'Failed to place legal hold'
+            });
+        }
+    }
+
+    // RELEASE LEGAL HOLD
+    async releaseHold(req: Request, res: Response): Promise<void> {
+        try {
+            const { jobId } = req.params;
+
+            if (!this.retentionService.getHold(jobId!)) {
+                res.status(404).json({
+                    success: false,
+                    error: 'Legal hold not found'
+                });
+                return;
+            }
+
+            await this.retentionService.releaseHold(jobId!, req.principal?.id);
+
+            res.json({
+                success: true,
+                message: 'Legal hold released'
+            });
+
+        } catch (error) {
+            this.logger.error('Failed to release legal hold:', error);
+
+            res.status(500).json({
+                success: false,
+                error: error instanceof Error ? error.message : 'Failed to release legal hold'
+            });
+        }
+    }
+
+    // DRY-RUN REPORT
+    async getReport(req: Request, res: Response): Promise<void> {
+        try {
+            const report = await this.retentionService.getReport();
+
+            res.json({
+                success: true,
+                data: report
+            });
+
+        } catch (error) {
+            this.logger.error('Failed to build retention report:', error);
+
+            res.status(500).json({
+                success: false,
+                error: 'Failed to build retention report'
+            });
+        }
+    }
+
+    // RUN SWEEP NOW
+    async runSweep(req: Request, res: Response): Promise<void> {
+        try {
+            this.logger.info('Retention sweep requested', { requestedBy: req.principal?.id });
+
+            const report = await this.retentionService.sweep();
+
+            res.json({
+                success: true,
+                message: 'Retention sweep finished',
+                data: report
+            });
+
+        } catch (error) {
+            this.logger.error('Failed to run retention sweep:', error);
+
+            res.status(500).json({
+                success: false,
+                error: error instanceof Error ? error.message : 'Failed to run retention sweep'
+            });
+        }
+    }
+}
@@ -0,0 +1,285 @@
+import { Request, Response } from 'express';
+import { ScheduleService } from '../services/ScheduleService';
+import { Logger } from '../utils/Logger';
+import { config } from '../config/config';
+import { isValidTimezone, parseCron, parseRRule } from '../utils/ScheduleRules';
+import Joi from 'joi';
+
+// Reports what is wrong with a cron expression, RRULE or time zone as a validation error
+const rule = (check: (value: string) => void) => (value: string, helpers: Joi.CustomHelpers) => {
+    try {
+        check(value);
+        return value;
+    } catch (error) {
+        return helpers.message({ custom: `{{#label}} is invalid: ${error instanceof Error ? error.message : error}` });
+    }
+};
+
+const timezone = () => Joi.string().custom(rule(value => {
+    if (!isValidTimezone(value)) throw new Error('unknown time zone');
+}));
+
+const optionsSchema = Joi.object({
+    quality: Joi.string().valid('low', 'medium', 'high').default('medium'),
+    format: Joi.string().valid('mp4', 'webm', 'mkv').default('mp4'),
+    includeAudio: Joi.boolean().default(true),
+    includeVideo: Joi.boolean().default(true),
+    maxDuration: Joi.number().min(1000).max(7200000), // Milliseconds, max 2 hours
+    postProcessing: Joi.object({
+        renditions: Joi.array().items(Joi.string().valid('mp4', 'webm', 'mkv')).unique(),
+        thumbnail: Joi.boolean(),
+        spriteSheet: Joi.boolean(),
+        packaging: Joi.array().items(Joi.string().valid('hls', 'dash')).unique()
+    })
+});
+
+export class ScheduleController {
+    private scheduleService: ScheduleService;
+    private logger: Logger;
+
+    constructor(scheduleService: ScheduleService) {
+        this.scheduleService = scheduleService;
+        this.logger = new Logger('ScheduleController');
+    }
+
+    // LIST SCHEDULES
+    async listSchedules(req: Request, res: Response): Promise<void> {
+        try {
+            const schema = Joi.object({
+                roomId: Joi.string(),
+                enabled: Joi.boolean()
+            });
+
+            const { error, value } = schema.validate(req.query);
+            if (error) {
+                res.status(400).json({
+                    success: false,
+                    error: 'Validation error',
+                    details: error.details.map(d => d.message)
+                });
+                return;
+            }
+
+            res.json({
+                success: true,
+                data: this.scheduleService.listSchedules(value),
+                timestamp: Date.now()
+            });
+
+        } catch (error) {
+            this.logger.error('Failed to list recording schedules:', error);
+
+            res.status(500).json({
+                success: false,
+                error: 'Failed to list recording schedules'
+            });
+        }
+    }
+
+    // GET SCHEDULE
+    async getSchedule(req: Request, res: Response): Promise<void> {
+        try {
+            const { scheduleId } = req.params;
+
+            const schedule = this.scheduleService.getSchedule(scheduleId!);
+            if (!schedule) {
+                res.status(404).json({
+                    success: false,
+                    error: 'Recording schedule not found'
+                });
+                return;
+            }
+
+            res.json({
+                success: true,
+                data: schedule
+            });
+
+        } catch (error) {
+            this.logger.error('Failed to get recording schedule:', error);
+
+            res.status(500).json({
+                success: false,
+                error: 'Failed to get recording schedule'
+            });
+        }
+    }
+
+    // CREATE SCHEDULE
+    async createSchedule(req: Request, res: Response): Promise<void> {
+        try {
+            const schema = Joi.object({
+                name: Joi.string().max(255).required(),
+                roomId: Joi.string().required(),
+                roomServerId: Joi.string(),
+                // Without a peer the whole room is recorded as a composite
+                peerId: Joi.string(),
+                layout: Joi.string().valid('grid', 'active-speaker', 'presenter-thumbnails').default('grid'),
+                options: optionsSchema.default(),
+                recurrence: Joi.string().valid('once', 'cron', 'rrule').required(),
+                startAt: Joi.number().integer().min(0).when('recurrence', {
+                    is: Joi.valid('once', 'rrule'),
+                    then: Joi.required()
+                }),
+                cron: Joi.string().custom(rule(parseCron)).when('recurrence', {
+                    is: 'cron',
+                    then: Joi.required(),
+                    otherwise: Joi.forbidden()
+                }),
+                rrule: Joi.string().custom(rule(parseRRule)).when('recurrence', {
+                    is: 'rrule',
+                    then: Joi.required(),
+                    otherwise: Joi.forbidden()
+                }),
+                timezone: timezone(),
+                durationMinutes: Joi.number().integer().min(1).max(config.schedules.maxDurationMinutes).required(),
+                graceMinutes: Joi.number().integer().min(1),
+                enabled: Joi.boolean()
+            });
+
+            const { error, value } = schema.validate(req.body);
+            if (error) {
+                res.status(400).json({
+                    success: false,
+                    error: 'Validation error',
+                    details: error.details.map(d => d.message)
+                });
+                return;
+            }
+
+            const schedule = await this.scheduleService.createSchedule(value, req.principal?.id);
+
+            this.logger.info('Recording schedule created', {
+                scheduleId: schedule.id,
+                roomId: schedule.roomId,
+                createdBy: req.principal?.id
+            });
+
+            res.status(201).json({
+                success: true,
+                message: 'Recording schedule created',
+                data: schedule
+            });
+
+        } catch (error) {
+            this.logger.error('Failed to create recording schedule:', error);
+
+            res.status(500).json({
+                success: false,
+                error: error instanceof Error ? error.message : 'Failed to create recording schedule'
+            });
+        }
+    }
+
+    // UPDATE SCHEDULE
+    async updateSchedule(req: Request, res: Response): Promise<void> {
+        try {
+            const { scheduleId } = req.params;
+
+            // Whether the recurrence fields fit together is checked against the merged schedule
+            const schema = Joi.object({
+                name: Joi.string().max(255),
+                roomId: Joi.string(),
+                roomServerId: Joi.string().allow(null),
+                peerId: Joi.string().allow(null),
+                layout: Joi.string().valid('grid', 'active-speaker', 'presenter-thumbnails'),
+                options: optionsSchema,
+                recurrence: Joi.string().valid('once', 'cron', 'rrule'),
+                startAt: Joi.number().integer().min(0),
+                cron: Joi.string().custom(rule(parseCron)),
+                rrule: Joi.string().custom(rule(parseRRule)),
+                timezone: timezone(),
+                durationMinutes: Joi.number().integer().min(1).max(config.schedules.maxDurationMinutes),
+                graceMinutes: Joi.number().integer().min(1),
+                enabled: Joi.boolean()
+            }).min(1);
+
+            const { error, value } = schema.validate(req.body);
+            if (error) {
+                res.status(400).json({
+                    success: false,
+                    error: 'Validation error',
+                    details: error.details.map(d => d.message)
+                });
+                return;
+            }
+
+            const schedule = await this.scheduleService.updateSchedule(scheduleId!, value);
+
+            res.json({
+                success: true,
+                message: 'Recording schedule updated',
+                data: schedule
+            });
+
+        } catch (error) {
+            this.logger.error('Failed to update recording schedule:', error);
+
+            res.status(500).json({
+                success: false,
+                error: error instanceof Error ? error.message : 'Failed to update recording schedule'
+            });
+        }
+    }
+
+    // DELETE SCHEDULE
+    async deleteSchedule(req: Request, res: Response): Promise<void> {
+        try {
+            const { scheduleId } = req.params;
+
+            await this.scheduleService.deleteSchedule(scheduleId!);
+
+            this.logger.info('Recording schedule deleted', { scheduleId, deletedBy: req.principal?.id });
+
+            res.json({
+                success: true,
+                message: 'Recording schedule deleted'
+            });
+
+        } catch (error) {
+            this.logger.error('Failed to delete recording schedule:', error);
+
+            res.status(500).json({
+                success: false,
+                error: error instanceof Error ? error.message : 'Failed to delete recording schedule'
+            });
+        }
+    }
+
+    // SCHEDULE RUNS
+    async getScheduleRuns(req: Request, res: Response): Promise<void> {
+        try {
+            const { scheduleId } = req.params;
+
+            const schema = Joi.object({
+                limit: Joi.number().integer().min(1).max(500).default(50)
+            });
+
+            const { error, value } = schema.validate(req.query);
+            if (error) {
+                res.status(400).json({
+                    success: false,
+                    error: 'Validation error',
+                    details: error.details.map(d => d.message)
+                });
+                return;
+            }
+
+            // Runs outlive their schedule, so a deleted schedule still has a history
+            const runs = await this.scheduleService.getRuns(scheduleId!, value.limit);
+
+            res.json({
+                success: true,
+                data: runs
+            });
+
+        } catch (error) {
+            this.logger.error('Failed to get recording schedule runs:', error);
+
+            res.status(500).json({
+                success: false,
+                error: 'Failed to get recording schedule runs'
+            });
+        }
+    }
+}
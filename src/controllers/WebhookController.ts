@@ -0,0 +1,338 @@
+import { Request, Response } from 'express';
+import { WebhookService } from '../services/WebhookService';
+import { Logger } from '../utils/Logger';
+import Joi from 'joi';
+
+const EVENT_TYPES = [
+    'recording_started',
+    'recording_completed',
+    'recording_failed',
+    'recording_cancelled',
+    'recording_migrated',
+    'node_failed',
+    'node_drained',
+    'scale_up_recommended',
+    'scale_down_recommended',
+    'webhook_test'
+];
+
+export class WebhookController {
+    private webhookService: WebhookService;
+    private logger: Logger;
+
+    constructor(webhookService: WebhookService) {
+        this.webhookService = webhookService;
+        this.logger = new Logger('WebhookController');
+    }
+
+    // LIST SUBSCRIPTIONS
+    async listSubscriptions(req: Request, res: Response): Promise<void> {
+        try {
+            res.json({
+                success: true,
+                data: this.webhookService.listSubscriptions(),
+                timestamp: Date.now()
+            });
+
+        } catch (error) {
+            this.logger.error('Failed to list webhook subscriptions:', error);
+
+            res.status(500).json({
+                success: false,
+                error: 'Failed to list webhook subscriptions'
+            });
+        }
+    }
+
+    // GET SUBSCRIPTION
+    async getSubscription(req: Request, res: Response): Promise<void> {
+        try {
+            const { subscriptionId } = req.params;
+
+            const subscription = this.webhookService.getSubscription(subscriptionId!);
+            if (!subscription) {
+                res.status(404).json({
+                    success: false,
+                    error: 'Webhook subscription not found'
+                });
+                return;
+            }
+
+            res.json({
+                success: true,
+                data: subscription
+            });
+
+        } catch (error) {
+            this.logger.error('Failed to get webhook subscription:', error);
+
+            res.status(500).json({
+                success: false,
+                error: 'Failed to get webhook subscription'
+            });
+        }
+    }
+
+    // CREATE SUBSCRIPTION
+    async createSubscription(req: Request, res: Response): Promise<void> {
+        try {
+            const schema = Joi.object({
+                url: Joi.string().uri({ scheme: ['http', 'https'] }).required(),
+                events: Joi.array().items(Joi.string().valid('*', ...EVENT_TYPES)).min(1).unique().required(),
+                description: Joi.string().max(500),
+                enabled: Joi.boolean()
+            });
+
+            const { error, value } = schema.validate(req.body);
+            if (error) {
+                res.status(400).json({
+                    success: false,
+                    error: 'Validation error',
+                    details: error.details.map(d => d.message)
+                });
+                return;
+            }
+
+            const result = await this.webhookService.createSubscription(value);
+
+            this.logger.info('Webhook subscription created', {
+                subscriptionId: result.subscription.id,
+                createdBy: req.principal?.id
+            });
+
+            // The secret is only ever shown on creation and rotation
+            res.status(201).json({
+                success: true,
+                message: 'Webhook subscription created - store the secret now, it cannot be retrieved later',
+                data: result
+            });
+
+        } catch (error) {
+            this.logger.error('Failed to create webhook subscription:', error);
+
+            res.status(500).json({
+                success: false,
+                error: error instanceof Error ? error.message : 'Failed to create webhook subscription'
+            });
+        }
+    }
+
+    // UPDATE SUBSCRIPTION
+    async updateSubscription(req: Request, res: Response): Promise<void> {
+        try {
+            const { subscriptionId } = req.params;
+
+            const schema = Joi.object({
+                url: Joi.string().uri({ scheme: ['http', 'https'] }),
+                events: Joi.array().items(Joi.string().valid('*', ...EVENT_TYPES)).min(1).unique(),
+                description: Joi.string().max(500).allow(''),
+                enabled: Joi.boolean()
+            }).min(1);
+
+            const { error, value } = schema.validate(req.body);
+            if (error) {
+                res.status(400).json({
+                    success: false,
+                    error: 'Validation error',
+                    details: error.details.map(d => d.message)
+                });
+                return;
+            }
+
+            const subscription = await this.webhookService.updateSubscription(subscriptionId!, value);
+
+            res.json({
+                success: true,
+                message: 'Webhook subscription updated',
+                data: subscription
+            });
+
+        } catch (error) {
+            this.logger.error('Failed to update webhook subscription:', error);
+
+            res.status(500).json({
+                success: false,
+                error: error instanceof Error ? error.message : 'Failed to update webhook subscription'
+            });
+        }
+    }
+
+    // ROTATE SUBSCRIPTION SECRET
+    async rotateSecret(req: Request, res: Response): Promise<void> {
+        try {
+            const { subscriptionId } = req.params;
+
+            const result = await this.webhookService.rotateSecret(subscriptionId!);
+
+            this.logger.info('Webhook secret rotated', { subscriptionId, rotatedBy: req.principal?.id });
+
+            res.json({
+                success: true,
+                message: 'Webhook secret rotated - payloads are signed with the new secret from now on',
+                data: result
+            });
+
+        } catch (error) {
+            this.logger.error('Failed to rotate webhook secret:', error);
+
+            res.status(500).json({
+                success: false,
+                error: error instanceof Error ? error.message : 'Failed to rotate webhook secret'
+            });
+        }
+    }
+
+    // DELETE SUBSCRIPTION
+    async deleteSubscription(req: Request, res: Response): Promise<void> {
+        try {
+            const { subscriptionId } = req.params;
+
+            await this.webhookService.deleteSubscription(subscriptionId!);
+
+            this.logger.info('Webhook subscription deleted', { subscriptionId, deletedBy: req.principal?.id });
+
+            res.json({
+                success: true,
+                message: 'Webhook subscription deleted'
+            });
+
+        } catch (error) {
+            this.logger.error('Failed to delete webhook subscription:', error);
+
+            res.status(500).json({
+                success: false,
+                error: error instanceof Error ? error.message : 'Failed to delete webhook subscription'
+            });
+        }
+    }
+
+    // SEND TEST EVENT
+    async sendTestEvent(req: Request, res: Response): Promise<void> {
+        try {
+            const { subscriptionId } = req.params;
+
+            const delivery = await this.webhookService.sendTestEvent(subscriptionId!);
+
+            res.json({
+                success: true,
+                message: delivery.status === 'delivered' ? 'Test event delivered' : 'Test event not delivered yet',
+                data: delivery
+            });
+
+        } catch (error) {
+            this.logger.error('Failed to send webhook test event:', error);
+
+            res.status(500).json({
+                success: false,
+                error: error instanceof Error ? error.message : 'Failed to send webhook test event'
+            });
+        }
+    }
+
+    // DELIVERY HISTORY
+    async getDeliveries(req: Request, res: Response): Promise<void> {
+        try {
+            const schema = Joi.object({
+                subscriptionId: Joi.string(),
+                status: Joi.string().valid('pending', 'delivered', 'dead_letter'),
+                eventType: Joi.string().valid(...EVENT_TYPES),
+                page: Joi.number().integer().min(1).default(1),
+                limit: Joi.number().integer().min(1).max(500).default(50)
+            });
+
+            const { error, value } = schema.validate(req.query);
+            if (error) {
+                res.status(400).json({
+                    success: false,
+                    error: 'Validation error',
+                    details: error.details.map(d => d.message)
+                });
+                return;
+            }
+
+            const { page, limit, ...filters } = value;
+            const { records, total } = await this.webhookService.getDeliveries({
+                ...filters,
+                limit,
+                offset: (page - 1) * limit
+            });
+
+            res.json({
+                success: true,
+                data: records,
+                pagination: {
+                    page,
+                    limit,
+                    total,
+                    totalPages: Math.ceil(total / limit)
+                }
+            });
+
+        } catch (error) {
+            this.logger.error('Failed to get webhook deliveries:', error);
+
+            res.status(500).json({
+                success: false,
+                error: 'Failed to get webhook deliveries'
+            });
+        }
+    }
+
+    // GET DELIVERY
+    async getDelivery(req: Request, res: Response): Promise<void> {
+        try {
+            const { deliveryId } = req.params;
+
+            const delivery = await this.webhookService.getDelivery(deliveryId!);
+            if (!delivery) {
+                res.status(404).json({
+                    success: false,
+                    error: 'Webhook delivery not found'
+                });
+                return;
+            }
+
+            res.json({
+                success: true,
+                data: delivery
+            });
+
+        } catch (error) {
+            this.logger.error('Failed to get webhook delivery:', error);
+
+            res.status(500).json({
+                success: false,
+                error: 'Failed to get webhook delivery'
+            });
+        }
+    }
+
+    // REPLAY DELIVERY
+    async redeliver(req: Request, res: Response): Promise<void> {
+        try {
+            const { deliveryId } = req.params;
+
+            const delivery = await this.webhookService.redeliver(deliveryId!);
+
+            this.logger.info('Webhook delivery replayed', {
+                deliveryId,
+                replay: delivery.id,
+                requestedBy: req.principal?.id
+            });
+
+            res.status(202).json({
+                success: true,
+                message: 'Webhook event replayed',
+                data: delivery
+            });
+
+        } catch (error) {
+            this.logger.error('Failed to replay webhook delivery:', error);
+
+            res.status(500).json({
+                success: false,
+                error: error instanceof Error ? error.message : 'Failed to replay webhook delivery'
+            });
+        }
+    }
+}
@@ -5,7 +5,26 @@ import {
     RoomServerNode,
     FFmpegNode,
     DistributedRecordingJob,
-    SystemMetrics
+    SystemMetrics,
+    PersistedQueueEntry,
+    JobAuditRecord,
+    ApiKeyRecord,
+    MetricsSample,
+    MetricsDataPoint,
+    MetricsResolution,
+    WebhookSubscription,
+    WebhookDelivery,
+    WebhookDeliveryStatus,
+    ScalingEvent,
+    ScalingEventType,
+    ProvisionedNode,
+    RecordingSchedule,
+    ScheduleRun,
+    CapacityReservation,
+    RecordingArtifact,
+    RetentionPolicy,
+    LegalHold,
+    PostProcessingState
 } from '../types/interfaces';
 
 export class Database {
@@ -84,8 +103,8 @@ export class Database {
         const query = `
       INSERT INTO room_servers (
         id, url, region, rooms, capacity, current_load, 
-        is_healthy, last_heartbeat, specs, metadata, created_at, updated_at
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, NOW(), NOW())
+        is_healthy, last_heartbeat, specs, metadata, scheduling, created_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, NOW(), NOW())
       ON CONFLICT (id) DO UPDATE SET
         url = EXCLUDED.url,
         region = EXCLUDED.region,
@@ -96,6 +115,7 @@ export class Database {
         last_heartbeat = EXCLUDED.last_heartbeat,
         specs = EXCLUDED.specs,
         metadata = EXCLUDED.metadata,
+        scheduling = EXCLUDED.scheduling,
         updated_at = NOW()
     `;
 
@@ -109,7 +129,8 @@ export class Database {
             roomServer.isHealthy,
             new Date(roomServer.lastHeartbeat),
             JSON.stringify(roomServer.specs),
-            JSON.stringify(roomServer.metadata || {})
+            JSON.stringify(roomServer.metadata || {}),
+            roomServer.scheduling ? JSON.stringify(roomServer.scheduling) : null
         ]);
     }
 
@@ -117,7 +138,7 @@ export class Database {
         const query = 'SELECT * FROM room_servers WHERE is_healthy = true ORDER BY created_at';
         const result = await this.query(query);
 
-        return result.rows.map(function (row: { id: any; url: any; region: any; rooms: string; capacity: any; current_load: any; is_healthy: any; last_heartbeat: string | number | Date; specs: string; metadata: string; }) {
+        return result.rows.map(function (row: { id: any; url: any; region: any; rooms: string; capacity: any; current_load: any; is_healthy: any; last_heartbeat: string | number | Date; specs: string; metadata: string; scheduling: string | null; }) {
             return ({
                 id: row.id,
                 url: row.url,
@@ -128,19 +149,24 @@ export class Database {
                 isHealthy: row.is_healthy,
                 lastHeartbeat: new Date(row.last_heartbeat).getTime(),
                 specs: JSON.parse(row.specs),
+                scheduling: row.scheduling ? JSON.parse(row.scheduling) : undefined,
                 metadata: JSON.parse(row.metadata)
             });
         });
     }
 
+    async deleteRoomServer(id: string): Promise<void> {
+        await this.query('DELETE FROM room_servers WHERE id = $1', [id]);
+    }
+
     // FFMPEG NODE OPERATIONS
     async saveFFmpegNode(ffmpegNode: FFmpegNode): Promise<void> {
         const query = `
       INSERT INTO ffmpeg_nodes (
         id, url, region, capacity, current_load, is_healthy, 
         last_heartbeat, specs, supported_codecs, active_jobs, 
-        metadata, created_at, updated_at
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, NOW(), NOW())
+        metadata, port_range, scheduling, created_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, NOW(), NOW())
       ON CONFLICT (id) DO UPDATE SET
         url = EXCLUDED.url,
         region = EXCLUDED.region,
@@ -152,6 +178,8 @@ export class Database {
         supported_codecs = EXCLUDED.supported_codecs,
         active_jobs = EXCLUDED.active_jobs,
         metadata = EXCLUDED.metadata,
+        port_range = EXCLUDED.port_range,
+        scheduling = EXCLUDED.scheduling,
         updated_at = NOW()
     `;
 
@@ -166,7 +194,9 @@ export class Database {
             JSON.stringify(ffmpegNode.specs),
             JSON.stringify(ffmpegNode.supportedCodecs),
             JSON.stringify(ffmpegNode.activeJobs),
-            JSON.stringify(ffmpegNode.metadata || {})
+            JSON.stringify(ffmpegNode.metadata || {}),
+            ffmpegNode.portRange ? JSON.stringify(ffmpegNode.portRange) : null,
+            ffmpegNode.scheduling ? JSON.stringify(ffmpegNode.scheduling) : null
         ]);
     }
 
@@ -174,7 +204,7 @@ export class Database {
         const query = 'SELECT * FROM ffmpeg_nodes WHERE is_healthy = true ORDER BY created_at';
         const result = await this.query(query);
 
-        return result.rows.map((row: { id: any; url: any; region: any; capacity: any; current_load: any; is_healthy: any; last_heartbeat: string | number | Date; specs: string; supported_codecs: string; active_jobs: string; metadata: string; }) => {
+        return result.rows.map((row: { id: any; url: any; region: any; capacity: any; current_load: any; is_healthy: any; last_heartbeat: string | number | Date; specs: string; supported_codecs: string; active_jobs: string; metadata: string; port_range: string | null; scheduling: string | null; }) => {
             return ({
                 id: row.id,
                 url: row.url,
@@ -186,27 +216,45 @@ export class Database {
                 specs: JSON.parse(row.specs),
                 supportedCodecs: JSON.parse(row.supported_codecs),
                 activeJobs: JSON.parse(row.active_jobs),
+                portRange: row.port_range ? JSON.parse(row.port_range) : undefined,
+                scheduling: row.scheduling ? JSON.parse(row.scheduling) : undefined,
                 metadata: JSON.parse(row.metadata)
             });
         });
     }
 
+    async deleteFFmpegNode(id: string): Promise<void> {
+        await this.query('DELETE FROM ffmpeg_nodes WHERE id = $1', [id]);
+    }
+
     // RECORDING JOB OPERATIONS
     async saveRecordingJob(job: DistributedRecordingJob): Promise<void> {
         const query = `
       INSERT INTO recording_jobs (
         job_id, room_server_id, room_id, peer_id, peer_info, ffmpeg_node_id,
         rtp_streams, rtp_forwarding, options, status, start_time, end_time,
-        output_path, error_message, requester_info, metrics, created_at, updated_at
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, NOW(), NOW())
+        output_path, error_message, requester_info, metrics, cancellation, job_type, composite,
+        termination, assigned_at, recording_started_at, segments, migration, stitching, reservation_id, outputs, pauses, created_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22, $23, $24, $25, $26, $27, $28, NOW(), NOW())
       ON CONFLICT (job_id) DO UPDATE SET
         ffmpeg_node_id = EXCLUDED.ffmpeg_node_id,
+        rtp_streams = EXCLUDED.rtp_streams,
         rtp_forwarding = EXCLUDED.rtp_forwarding,
         status = EXCLUDED.status,
         end_time = EXCLUDED.end_time,
         output_path = EXCLUDED.output_path,
         error_message = EXCLUDED.error_message,
         metrics = EXCLUDED.metrics,
+        cancellation = EXCLUDED.cancellation,
+        composite = EXCLUDED.composite,
+        termination = EXCLUDED.termination,
+        assigned_at = EXCLUDED.assigned_at,
+        recording_started_at = EXCLUDED.recording_started_at,
+        segments = EXCLUDED.segments,
+        migration = EXCLUDED.migration,
+        stitching = EXCLUDED.stitching,
+        outputs = EXCLUDED.outputs,
+        pauses = EXCLUDED.pauses,
         updated_at = NOW()
     `;
 
@@ -226,7 +274,19 @@ export class Database {
             job.outputPath,
             job.errorMessage,
             JSON.stringify(job.requesterInfo),
-            JSON.stringify(job.metrics || {})
+            JSON.stringify(job.metrics || {}),
+            job.cancellation ? JSON.stringify(job.cancellation) : null,
+            job.type || 'peer',
+            job.composite ? JSON.stringify(job.composite) : null,
+            job.termination ? JSON.stringify(job.termination) : null,
+            job.assignedAt ? new Date(job.assignedAt) : null,
+            job.recordingStartedAt ? new Date(job.recordingStartedAt) : null,
+            job.segments ? JSON.stringify(job.segments) : null,
+            job.migration ? JSON.stringify(job.migration) : null,
+            job.stitching ? JSON.stringify(job.stitching) : null,
+            job.reservationId || null,
+            job.outputs ? JSON.stringify(job.outputs) : null,
+            job.pauses ? JSON.stringify(job.pauses) : null
         ]);
     }
 
@@ -234,10 +294,29 @@ export class Database {
         await this.saveRecordingJob(job); // Uses ON CONFLICT to update
     }
 
+    // Post-processing state has its own writer - saving the job leaves it alone
+    async updatePostProcessing(jobId: string, state: PostProcessingState): Promise<void> {
+        await this.query(
+            'UPDATE recording_jobs SET post_processing = $2, updated_at = NOW() WHERE job_id = $1',
+            [jobId, JSON.stringify(state)]
+        );
+    }
+
+    async getJobsWithRunningPostProcessing(): Promise<DistributedRecordingJob[]> {
+        const query = `
+      SELECT * FROM recording_jobs
+      WHERE post_processing IS NOT NULL AND post_processing->>'status' = 'running'
+      ORDER BY end_time ASC
+    `;
+        const result = await this.query(query);
+
+        return result.rows.map(this.mapRowToRecordingJob);
+    }
+
     async getActiveRecordingJobs(): Promise<DistributedRecordingJob[]> {
         const query = `
       SELECT * FROM recording_jobs 
-      WHERE status IN ('pending', 'initializing', 'recording') 
+      WHERE status IN ('pending', 'initializing', 'recording', 'paused') 
       ORDER BY created_at DESC
     `;
         const result = await this.query(query);
@@ -245,25 +324,32 @@ export class Database {
         return result.rows.map(this.mapRowToRecordingJob);
     }
 
+    async getRecordingJob(jobId: string): Promise<DistributedRecordingJob | null> {
+        const query = 'SELECT * FROM recording_jobs WHERE job_id = $1';
+        const result = await this.query(query, [jobId]);
+
+        return result.rows.length > 0 ? this.mapRowToRecordingJob(result.rows[0]) : null;
+    }
+
     async getRecordingJobHistory(filters: any): Promise<{ records: DistributedRecordingJob[], total: number }> {
         let whereClause = 'WHERE 1=1';
         const params: any[] = [];
         let paramIndex = 1;
 
         if (filters.status) {
-            whereClause += ` AND status = ${paramIndex}`;
+            whereClause += ` AND status = $${paramIndex}`;
             params.push(filters.status);
             paramIndex++;
         }
 
         if (filters.startDate) {
-            whereClause += ` AND created_at >= ${paramIndex}`;
+            whereClause += ` AND created_at >= $${paramIndex}`;
             params.push(filters.startDate);
             paramIndex++;
         }
 
         if (filters.endDate) {
-            whereClause += ` AND created_at <= ${paramIndex}`;
+            whereClause += ` AND created_at <= $${paramIndex}`;
             params.push(filters.endDate);
             paramIndex++;
         }
@@ -278,7 +364,7 @@ export class Database {
         const recordsQuery = `
       SELECT * FROM recording_jobs ${whereClause}
       ORDER BY created_at DESC
-      LIMIT ${paramIndex} OFFSET ${paramIndex + 1}
+      LIMIT $${paramIndex} OFFSET $${paramIndex + 1}
     `;
         params.push(filters.limit, offset);
 
@@ -306,10 +392,183 @@ export class Database {
             outputPath: row.output_path,
             errorMessage: row.error_message,
             requesterInfo: JSON.parse(row.requester_info),
-            metrics: JSON.parse(row.metrics)
+            metrics: JSON.parse(row.metrics),
+            cancellation: row.cancellation ? JSON.parse(row.cancellation) : undefined,
+            type: row.job_type || 'peer',
+            composite: row.composite ? JSON.parse(row.composite) : undefined,
+            termination: row.termination ? JSON.parse(row.termination) : undefined,
+            assignedAt: row.assigned_at ? new Date(row.assigned_at).getTime() : undefined,
+            recordingStartedAt: row.recording_started_at ? new Date(row.recording_started_at).getTime() : undefined,
+            segments: row.segments ? JSON.parse(row.segments) : undefined,
+            migration: row.migration ? JSON.parse(row.migration) : undefined,
+            stitching: row.stitching ? JSON.parse(row.stitching) : undefined,
+            postProcessing: row.post_processing ? JSON.parse(row.post_processing) : undefined,
+            outputs: row.outputs ? JSON.parse(row.outputs) : undefined,
+            pauses: row.pauses ? JSON.parse(row.pauses) : undefined,
+            reservationId: row.reservation_id || undefined
         };
     }
 
+    // Start times with the region they ran in; the region is unknown once both nodes are gone
+    async getRecordingStarts(since: Date): Promise<Array<{ startTime: number; region?: string | undefined }>> {
+        const query = `
+      SELECT j.start_time, COALESCE(f.region, r.region) AS region
+      FROM recording_jobs j
+      LEFT JOIN ffmpeg_nodes f ON f.id = j.ffmpeg_node_id
+      LEFT JOIN room_servers r ON r.id = j.room_server_id
+      WHERE j.start_time >= $1
+    `;
+
+        const result = await this.query(query, [since]);
+
+        return result.rows.map((row: any) => ({
+            startTime: new Date(row.start_time).getTime(),
+            region: row.region || undefined
+        }));
+    }
+
+    // JOB AUDIT OPERATIONS
+    async saveJobAuditRecord(record: JobAuditRecord): Promise<void> {
+        const query = `
+      INSERT INTO recording_job_audit (job_id, action, message, details, created_at)
+      VALUES ($1, $2, $3, $4, $5)
+    `;
+
+        await this.query(query, [
+            record.jobId,
+            record.action,
+            record.message,
+            JSON.stringify(record.details),
+            new Date(record.timestamp)
+        ]);
+    }
+
+    async getJobAuditRecords(jobId: string): Promise<JobAuditRecord[]> {
+        const query = `
+      SELECT * FROM recording_job_audit
+      WHERE job_id = $1
+      ORDER BY created_at ASC
+    `;
+        const result = await this.query(query, [jobId]);
+
+        return result.rows.map((row: any) => ({
+            jobId: row.job_id,
+            action: row.action,
+            message: row.message,
+            details: JSON.parse(row.details),
+            timestamp: new Date(row.created_at).getTime()
+        }));
+    }
+
+    // API KEY OPERATIONS
+    async saveApiKey(record: ApiKeyRecord): Promise<void> {
+        const query = `
+      INSERT INTO api_keys (
+        key_id, name, kind, roles, node_id, secret_hash,
+        created_at, expires_at, revoked_at, rotated_from
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+      ON CONFLICT (key_id) DO UPDATE SET
+        expires_at = EXCLUDED.expires_at,
+        revoked_at = EXCLUDED.revoked_at
+    `;
+
+        await this.query(query, [
+            record.keyId,
+            record.name,
+            record.kind,
+            JSON.stringify(record.roles),
+            record.nodeId || null,
+            record.secretHash,
+            new Date(record.createdAt),
+            record.expiresAt ? new Date(record.expiresAt) : null,
+            record.revokedAt ? new Date(record.revokedAt) : null,
+            record.rotatedFrom || null
+        ]);
+    }
+
+    async getApiKeys(): Promise<ApiKeyRecord[]> {
+        const query = 'SELECT * FROM api_keys ORDER BY created_at';
+        const result = await this.query(query);
+
+        return result.rows.map((row: any) => ({
+            keyId: row.key_id,
+            name: row.name,
+            kind: row.kind,
+            roles: JSON.parse(row.roles),
+            nodeId: row.node_id || undefined,
+            secretHash: row.secret_hash,
+            createdAt: new Date(row.created_at).getTime(),
+            expiresAt: row.expires_at ? new Date(row.expires_at).getTime() : undefined,
+            revokedAt: row.revoked_at ? new Date(row.revoked_at).getTime() : undefined,
+            rotatedFrom: row.rotated_from || undefined
+        }));
+    }
+
+    // NODE SIGNING SECRET OPERATIONS
+    async saveNodeSigningSecret(nodeId: string, secret: string): Promise<void> {
+        const query = `
+      INSERT INTO node_signing_secrets (node_id, secret, issued_at)
+      VALUES ($1, $2, NOW())
+      ON CONFLICT (node_id) DO UPDATE SET
+        secret = EXCLUDED.secret,
+        issued_at = NOW()
+    `;
+
+        await this.query(query, [nodeId, secret]);
+    }
+
+    async getNodeSigningSecrets(): Promise<Array<{ nodeId: string; secret: string }>> {
+        const result = await this.query('SELECT node_id, secret FROM node_signing_secrets');
+
+        return result.rows.map((row: any) => ({
+            nodeId: row.node_id,
+            secret: row.secret
+        }));
+    }
+
+    async deleteNodeSigningSecret(nodeId: string): Promise<void> {
+        await this.query('DELETE FROM node_signing_secrets WHERE node_id = $1', [nodeId]);
+    }
+
+    // JOB QUEUE OPERATIONS
+    async saveQueueEntries(entries: PersistedQueueEntry[]): Promise<void> {
+        // Drop entries for jobs that left the queue
+        await this.query(
+            'DELETE FROM recording_job_queue WHERE NOT (job_id = ANY($1))',
+            [entries.map(entry => entry.jobId)]
+        );
+
+        const query = `
+      INSERT INTO recording_job_queue (job_id, position, priority, enqueued_at, updated_at)
+      VALUES ($1, $2, $3, $4, NOW())
+      ON CONFLICT (job_id) DO UPDATE SET
+        position = EXCLUDED.position,
+        priority = EXCLUDED.priority,
+        updated_at = NOW()
+    `;
+
+        for (const entry of entries) {
+            await this.query(query, [
+                entry.jobId,
+                entry.position,
+                entry.priority,
+                new Date(entry.enqueuedAt)
+            ]);
+        }
+    }
+
+    async getQueueEntries(): Promise<PersistedQueueEntry[]> {
+        const query = 'SELECT * FROM recording_job_queue ORDER BY position';
+        const result = await this.query(query);
+
+        return result.rows.map((row: any) => ({
+            jobId: row.job_id,
+            position: row.position,
+            priority: row.priority,
+            enqueuedAt: new Date(row.enqueued_at).getTime()
+        }));
+    }
+
     // METRICS OPERATIONS
     async saveMetrics(metrics: SystemMetrics): Promise<void> {
         const query = `
@@ -334,14 +593,789 @@ export class Database {
         ]);
     }
 
-    async getHistoricalMetrics(filters: any): Promise<any[]> {
+    async getRawMetrics(startDate: Date, endDate: Date): Promise<MetricsSample[]> {
         const query = `
       SELECT * FROM system_metrics
-      WHERE timestamp >= $1 AND timestamp <= $2
+      WHERE timestamp >= $1 AND timestamp < $2
       ORDER BY timestamp
     `;
 
-        const result = await this.query(query, [filters.startDate, filters.endDate]);
-        return result.rows;
+        const result = await this.query(query, [startDate, endDate]);
+
+        return result.rows.map((row: any) => ({
+            timestamp: new Date(row.timestamp).getTime(),
+            metrics: {
+                totalRoomServers: row.total_room_servers,
+                healthyRoomServers: row.healthy_room_servers,
+                totalFFmpegNodes: row.total_ffmpeg_nodes,
+                healthyFFmpegNodes: row.healthy_ffmpeg_nodes,
+                activeRecordings: row.active_recordings,
+                totalCapacity: row.total_capacity,
+                currentLoad: row.current_load,
+                queueLength: row.queue_length,
+                byRegion: JSON.parse(row.regional_metrics)
+            }
+        }));
+    }
+
+    async deleteRawMetricsBefore(date: Date): Promise<number> {
+        const result = await this.query('DELETE FROM system_metrics WHERE timestamp < $1', [date]);
+        return result.rowCount || 0;
+    }
+
+    // METRICS ROLLUP OPERATIONS
+    async saveMetricsRollups(resolution: MetricsResolution, points: MetricsDataPoint[]): Promise<void> {
+        const query = `
+      INSERT INTO system_metrics_rollups (resolution, bucket_start, samples, metrics, regional_metrics, updated_at)
+      VALUES ($1, $2, $3, $4, $5, NOW())
+      ON CONFLICT (resolution, bucket_start) DO UPDATE SET
+        samples = EXCLUDED.samples,
+        metrics = EXCLUDED.metrics,
+        regional_metrics = EXCLUDED.regional_metrics,
+        updated_at = NOW()
+    `;
+
+        for (const point of points) {
+            const { timestamp, samples, byRegion, ...metrics } = point;
+
+            await this.query(query, [
+                resolution,
+                new Date(timestamp),
+                samples,
+                JSON.stringify(metrics),
+                JSON.stringify(byRegion)
+            ]);
+        }
+    }
+
+    async getMetricsRollups(resolution: MetricsResolution, startDate: Date, endDate: Date): Promise<MetricsDataPoint[]> {
+        const query = `
+      SELECT * FROM system_metrics_rollups
+      WHERE resolution = $1 AND bucket_start >= $2 AND bucket_start < $3
+      ORDER BY bucket_start
+    `;
+
+        const result = await this.query(query, [resolution, startDate, endDate]);
+
+        return result.rows.map((row: any) => ({
+            ...JSON.parse(row.metrics),
+            timestamp: new Date(row.bucket_start).getTime(),
+            samples: row.samples,
+            byRegion: JSON.parse(row.regional_metrics)
+        }));
+    }
+
+    async getLatestMetricsRollup(resolution: MetricsResolution): Promise<number | null> {
+        const result = await this.query(
+            'SELECT MAX(bucket_start) AS latest FROM system_metrics_rollups WHERE resolution = $1',
+            [resolution]
+        );
+
+        const latest = result.rows[0]?.latest;
+        return latest ? new Date(latest).getTime() : null;
+    }
+
+    async deleteMetricsRollupsBefore(resolution: MetricsResolution, date: Date): Promise<number> {
+        const result = await this.query(
+            'DELETE FROM system_metrics_rollups WHERE resolution = $1 AND bucket_start < $2',
+            [resolution, date]
+        );
+        return result.rowCount || 0;
+    }
+
+    // WEBHOOK OPERATIONS
+    async saveWebhookSubscription(subscription: WebhookSubscription): Promise<void> {
+        const query = `
+      INSERT INTO webhook_subscriptions (
+        id, url, events, secret, description, enabled, created_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+      ON CONFLICT (id) DO UPDATE SET
+        url = EXCLUDED.url,
+        events = EXCLUDED.events,
+        secret = EXCLUDED.secret,
+        description = EXCLUDED.description,
+        enabled = EXCLUDED.enabled,
+        updated_at = EXCLUDED.updated_at
+    `;
+
+        await this.query(query, [
+            subscription.id,
+            subscription.url,
+            JSON.stringify(subscription.events),
+            subscription.secret,
+            subscription.description || null,
+            subscription.enabled,
+            new Date(subscription.createdAt),
+            new Date(subscription.updatedAt)
+        ]);
+    }
+
+    async getWebhookSubscriptions(): Promise<WebhookSubscription[]> {
+        const result = await this.query('SELECT * FROM webhook_subscriptions ORDER BY created_at');
+
+        return result.rows.map((row: any) => ({
+            id: row.id,
+            url: row.url,
+            events: JSON.parse(row.events),
+            secret: row.secret,
+            description: row.description || undefined,
+            enabled: row.enabled,
+            createdAt: new Date(row.created_at).getTime(),
+            updatedAt: new Date(row.updated_at).getTime()
+        }));
+    }
+
+    async deleteWebhookSubscription(id: string): Promise<void> {
+        await this.query('DELETE FROM webhook_subscriptions WHERE id = $1', [id]);
+        await this.query('DELETE FROM webhook_deliveries WHERE subscription_id = $1', [id]);
+    }
+
+    async saveWebhookDelivery(delivery: WebhookDelivery): Promise<void> {
+        const query = `
+      INSERT INTO webhook_deliveries (
+        id, subscription_id, event_id, event_type, event, status, attempts,
+        next_attempt_at, last_attempt_at, response_status, last_error,
+        created_at, delivered_at, redelivery_of
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
+      ON CONFLICT (id) DO UPDATE SET
+        status = EXCLUDED.status,
+        attempts = EXCLUDED.attempts,
+        next_attempt_at = EXCLUDED.next_attempt_at,
+        last_attempt_at = EXCLUDED.last_attempt_at,
+        response_status = EXCLUDED.response_status,
+        last_error = EXCLUDED.last_error,
+        delivered_at = EXCLUDED.delivered_at
+    `;
+
+        await this.query(query, [
+            delivery.id,
+            delivery.subscriptionId,
+            delivery.event.id,
+            delivery.event.type,
+            JSON.stringify(delivery.event),
+            delivery.status,
+            delivery.attempts,
+            delivery.nextAttemptAt ? new Date(delivery.nextAttemptAt) : null,
+            delivery.lastAttemptAt ? new Date(delivery.lastAttemptAt) : null,
+            delivery.responseStatus || null,
+            delivery.lastError || null,
+            new Date(delivery.createdAt),
+            delivery.deliveredAt ? new Date(delivery.deliveredAt) : null,
+            delivery.redeliveryOf || null
+        ]);
+    }
+
+    async getWebhookDelivery(id: string): Promise<WebhookDelivery | null> {
+        const result = await this.query('SELECT * FROM webhook_deliveries WHERE id = $1', [id]);
+        return result.rows.length > 0 ? this.mapRowToWebhookDelivery(result.rows[0]) : null;
+    }
+
+    async getDueWebhookDeliveries(limit: number): Promise<WebhookDelivery[]> {
+        const query = `
+      SELECT * FROM webhook_deliveries
+      WHERE status = 'pending' AND next_attempt_at <= NOW()
+      ORDER BY next_attempt_at
+      LIMIT $1
+    `;
+
+        const result = await this.query(query, [limit]);
+        return result.rows.map((row: any) => this.mapRowToWebhookDelivery(row));
+    }
+
+    async getWebhookDeliveries(filters: {
+        subscriptionId?: string | undefined;
+        status?: WebhookDeliveryStatus | undefined;
+        eventType?: string | undefined;
+        limit: number;
+        offset: number;
+    }): Promise<{ records: WebhookDelivery[], total: number }> {
+        const conditions: string[] = [];
+        const params: any[] = [];
+
+        if (filters.subscriptionId) {
+            params.push(filters.subscriptionId);
+            conditions.push(`subscription_id = $${params.length}`);
+        }
+
+        if (filters.status) {
+            params.push(filters.status);
+            conditions.push(`status = $${params.length}`);
+        }
+
+        if (filters.eventType) {
+            params.push(filters.eventType);
+            conditions.push(`event_type = $${params.length}`);
+        }
+
+        const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+        const countResult = await this.query(`SELECT COUNT(*) AS total FROM webhook_deliveries ${whereClause}`, params);
+        const recordsResult = await this.query(
+            `SELECT * FROM webhook_deliveries ${whereClause} ORDER BY created_at DESC LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+            [...params, filters.limit, filters.offset]
+        );
+
+        return {
+            records: recordsResult.rows.map((row: any) => this.mapRowToWebhookDelivery(row)),
+            total: parseInt(countResult.rows[0].total)
+        };
+    }
+
+    // Dead letters are kept until they are replayed or their subscription is removed
+    async deleteDeliveredWebhooksBefore(date: Date): Promise<number> {
+        const result = await this.query(
+            "DELETE FROM webhook_deliveries WHERE status = 'delivered' AND created_at < $1",
+            [date]
+        );
+        return result.rowCount || 0;
+    }
+
+    private mapRowToWebhookDelivery(row: any): WebhookDelivery {
+        return {
+            id: row.id,
+            subscriptionId: row.subscription_id,
+            event: JSON.parse(row.event),
+            status: row.status,
+            attempts: row.attempts,
+            nextAttemptAt: row.next_attempt_at ? new Date(row.next_attempt_at).getTime() : undefined,
+            lastAttemptAt: row.last_attempt_at ? new Date(row.last_attempt_at).getTime() : undefined,
+            responseStatus: row.response_status || undefined,
+            lastError: row.last_error || undefined,
+            createdAt: new Date(row.created_at).getTime(),
+            deliveredAt: row.delivered_at ? new Date(row.delivered_at).getTime() : undefined,
+            redeliveryOf: row.redelivery_of || undefined
+        };
+    }
+
+    // SCALING EVENT OPERATIONS
+    async saveScalingEvent(event: ScalingEvent): Promise<void> {
+        const query = `
+      INSERT INTO scaling_events (type, region, level, reason, details, created_at)
+      VALUES ($1, $2, $3, $4, $5, $6)
+    `;
+
+        await this.query(query, [
+            event.type,
+            event.region || null,
+            event.level || null,
+            event.reason,
+            JSON.stringify(event.details),
+            new Date(event.timestamp)
+        ]);
+    }
+
+    async getScalingEvents(filters: {
+        since: Date;
+        type?: ScalingEventType | undefined;
+        region?: string | undefined;
+        limit: number;
+    }): Promise<{ events: ScalingEvent[], counts: Record<string, number> }> {
+        const conditions = ['created_at >= $1'];
+        const params: any[] = [filters.since];
+
+        if (filters.type) {
+            params.push(filters.type);
+            conditions.push(`type = $${params.length}`);
+        }
+
+        if (filters.region) {
+            params.push(filters.region);
+            conditions.push(`region = $${params.length}`);
+        }
+
+        const whereClause = `WHERE ${conditions.join(' AND ')}`;
+
+        // Counts cover the whole period, not just the returned page
+        const countResult = await this.query(
+            `SELECT type, COUNT(*) AS count FROM scaling_events ${whereClause} GROUP BY type`,
+            params
+        );
+        const eventsResult = await this.query(
+            `SELECT * FROM scaling_events ${whereClause} ORDER BY created_at DESC, id DESC LIMIT $${params.length + 1}`,
+            [...params, filters.limit]
+        );
+
+        return {
+            events: eventsResult.rows.map((row: any) => ({
+                id: row.id,
+                type: row.type,
+                region: row.region || undefined,
+                level: row.level || undefined,
+                reason: row.reason,
+                details: JSON.parse(row.details),
+                timestamp: new Date(row.created_at).getTime()
+            })),
+            counts: Object.fromEntries(countResult.rows.map((row: any) => [row.type, parseInt(row.count)]))
+        };
+    }
+
+    // PROVISIONED NODE OPERATIONS
+    async saveProvisionedNode(node: ProvisionedNode): Promise<void> {
+        const query = `
+      INSERT INTO provisioned_nodes (
+        provision_id, provider, region, status, instance_id, node_id, api_key_id, reason,
+        requested_at, registered_at, removal_requested_at, removed_at, error, details, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, NOW())
+      ON CONFLICT (provision_id) DO UPDATE SET
+        status = EXCLUDED.status,
+        instance_id = EXCLUDED.instance_id,
+        node_id = EXCLUDED.node_id,
+        api_key_id = EXCLUDED.api_key_id,
+        registered_at = EXCLUDED.registered_at,
+        removal_requested_at = EXCLUDED.removal_requested_at,
+        removed_at = EXCLUDED.removed_at,
+        error = EXCLUDED.error,
+        details = EXCLUDED.details,
+        updated_at = NOW()
+    `;
+
+        await this.query(query, [
+            node.provisionId,
+            node.provider,
+            node.region,
+            node.status,
+            node.instanceId || null,
+            node.nodeId || null,
+            node.apiKeyId || null,
+            node.reason,
+            new Date(node.requestedAt),
+            node.registeredAt ? new Date(node.registeredAt) : null,
+            node.removalRequestedAt ? new Date(node.removalRequestedAt) : null,
+            node.removedAt ? new Date(node.removedAt) : null,
+            node.error || null,
+            JSON.stringify(node.details || {})
+        ]);
+    }
+
+    // Nodes that still exist or are on their way, or every node when includeFinished is set
+    async getProvisionedNodes(includeFinished: boolean = false, limit: number = 500): Promise<ProvisionedNode[]> {
+        const whereClause = includeFinished ? '' : "WHERE status NOT IN ('removed', 'failed')";
+        const result = await this.query(
+            `SELECT * FROM provisioned_nodes ${whereClause} ORDER BY requested_at DESC LIMIT $1`,
+            [limit]
+        );
+
+        return result.rows.map((row: any) => ({
+            provisionId: row.provision_id,
+            provider: row.provider,
+            region: row.region,
+            status: row.status,
+            instanceId: row.instance_id || undefined,
+            nodeId: row.node_id || undefined,
+            apiKeyId: row.api_key_id || undefined,
+            reason: row.reason,
+            requestedAt: new Date(row.requested_at).getTime(),
+            registeredAt: row.registered_at ? new Date(row.registered_at).getTime() : undefined,
+            removalRequestedAt: row.removal_requested_at ? new Date(row.removal_requested_at).getTime() : undefined,
+            removedAt: row.removed_at ? new Date(row.removed_at).getTime() : undefined,
+            error: row.error || undefined,
+            details: JSON.parse(row.details)
+        }));
+    }
+
+    // RECORDING SCHEDULE OPERATIONS
+    async saveRecordingSchedule(schedule: RecordingSchedule): Promise<void> {
+        const query = `
+      INSERT INTO recording_schedules (
+        id, name, room_id, room_server_id, peer_id, layout, options, recurrence, start_at, cron, rrule,
+        timezone, duration_minutes, grace_minutes, enabled, next_run_at, created_by, created_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19)
+      ON CONFLICT (id) DO UPDATE SET
+        name = EXCLUDED.name,
+        room_id = EXCLUDED.room_id,
+        room_server_id = EXCLUDED.room_server_id,
+        peer_id = EXCLUDED.peer_id,
+        layout = EXCLUDED.layout,
+        options = EXCLUDED.options,
+        recurrence = EXCLUDED.recurrence,
+        start_at = EXCLUDED.start_at,
+        cron = EXCLUDED.cron,
+        rrule = EXCLUDED.rrule,
+        timezone = EXCLUDED.timezone,
+        duration_minutes = EXCLUDED.duration_minutes,
+        grace_minutes = EXCLUDED.grace_minutes,
+        enabled = EXCLUDED.enabled,
+        next_run_at = EXCLUDED.next_run_at,
+        updated_at = EXCLUDED.updated_at
+    `;
+
+        await this.query(query, [
+            schedule.id,
+            schedule.name,
+            schedule.roomId,
+            schedule.roomServerId || null,
+            schedule.peerId || null,
+            schedule.layout,
+            JSON.stringify(schedule.options),
+            schedule.recurrence,
+            schedule.startAt ? new Date(schedule.startAt) : null,
+            schedule.cron || null,
+            schedule.rrule || null,
+            schedule.timezone,
+            schedule.durationMinutes,
+            schedule.graceMinutes,
+            schedule.enabled,
+            schedule.nextRunAt ? new Date(schedule.nextRunAt) : null,
+            schedule.createdBy || null,
+            new Date(schedule.createdAt),
+            new Date(schedule.updatedAt)
+        ]);
+    }
+
+    async getRecordingSchedules(): Promise<RecordingSchedule[]> {
+        const result = await this.query('SELECT * FROM recording_schedules ORDER BY created_at');
+
+        return result.rows.map((row: any) => ({
+            id: row.id,
+            name: row.name,
+            roomId: row.room_id,
+            roomServerId: row.room_server_id || undefined,
+            peerId: row.peer_id || undefined,
+            layout: row.layout,
+            options: JSON.parse(row.options),
+            recurrence: row.recurrence,
+            startAt: row.start_at ? new Date(row.start_at).getTime() : undefined,
+            cron: row.cron || undefined,
+            rrule: row.rrule || undefined,
+            timezone: row.timezone,
+            durationMinutes: row.duration_minutes,
+            graceMinutes: row.grace_minutes,
+            enabled: row.enabled,
+            nextRunAt: row.next_run_at ? new Date(row.next_run_at).getTime() : undefined,
+            createdBy: row.created_by || undefined,
+            createdAt: new Date(row.created_at).getTime(),
+            updatedAt: new Date(row.updated_at).getTime()
+        }));
+    }
+
+    // Runs are kept as the schedule's history
+    async deleteRecordingSchedule(id: string): Promise<void> {
+        await this.query('DELETE FROM recording_schedules WHERE id = $1', [id]);
+    }
+
+    // False when the occurrence was already claimed, e.g. before a restart
+    async claimScheduleRun(run: ScheduleRun): Promise<boolean> {
+        const result = await this.query(`
+      INSERT INTO recording_schedule_runs (
+        id, schedule_id, occurrence_at, deadline_at, end_at, status, attempts
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+      ON CONFLICT (schedule_id, occurrence_at) DO NOTHING
+      RETURNING id
+    `, [
+            run.id,
+            run.scheduleId,
+            new Date(run.occurrenceAt),
+            new Date(run.deadlineAt),
+            new Date(run.endAt),
+            run.status,
+            run.attempts
+        ]);
+
+        return result.rows.length > 0;
+    }
+
+    async updateScheduleRun(run: ScheduleRun): Promise<void> {
+        await this.query(`
+      UPDATE recording_schedule_runs SET
+        status = $2, job_id = $3, room_server_id = $4, attempts = $5, last_error = $6,
+        started_at = $7, finished_at = $8
+      WHERE id = $1
+    `, [
+            run.id,
+            run.status,
+            run.jobId || null,
+            run.roomServerId || null,
+            run.attempts,
+            run.lastError || null,
+            run.startedAt ? new Date(run.startedAt) : null,
+            run.finishedAt ? new Date(run.finishedAt) : null
+        ]);
+    }
+
+    // Runs still waiting for their room or recording, or a schedule's latest runs
+    async getScheduleRuns(filter: { scheduleId?: string; openOnly?: boolean } = {}, limit: number = 100): Promise<ScheduleRun[]> {
+        const conditions: string[] = [];
+        const params: any[] = [];
+
+        if (filter.scheduleId) {
+            params.push(filter.scheduleId);
+            conditions.push(`schedule_id = $${params.length}`);
+        }
+        if (filter.openOnly) {
+            conditions.push("status IN ('waiting', 'recording')");
+        }
+
+        params.push(limit);
+        const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+        const result = await this.query(
+            `SELECT * FROM recording_schedule_runs ${whereClause} ORDER BY occurrence_at DESC LIMIT $${params.length}`,
+            params
+        );
+
+        return result.rows.map((row: any) => ({
+            id: row.id,
+            scheduleId: row.schedule_id,
+            occurrenceAt: new Date(row.occurrence_at).getTime(),
+            deadlineAt: new Date(row.deadline_at).getTime(),
+            endAt: new Date(row.end_at).getTime(),
+            status: row.status,
+            jobId: row.job_id || undefined,
+            roomServerId: row.room_server_id || undefined,
+            attempts: row.attempts,
+            lastError: row.last_error || undefined,
+            startedAt: row.started_at ? new Date(row.started_at).getTime() : undefined,
+            finishedAt: row.finished_at ? new Date(row.finished_at).getTime() : undefined
+        }));
+    }
+
+    // CAPACITY RESERVATION OPERATIONS
+    async saveCapacityReservation(reservation: CapacityReservation): Promise<void> {
+        await this.query(`
+      INSERT INTO capacity_reservations (
+        id, name, region, starts_at, ends_at, load_units, schedule_id, created_by, created_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+    `, [
+            reservation.id,
+            reservation.name,
+            reservation.region,
+            new Date(reservation.startsAt),
+            new Date(reservation.endsAt),
+            reservation.loadUnits,
+            reservation.scheduleId || null,
+            reservation.createdBy || null,
+            new Date(reservation.createdAt)
+        ]);
+    }
+
+    // Reservations that have not ended by `endingAfter`
+    async getCapacityReservations(endingAfter: Date): Promise<CapacityReservation[]> {
+        const result = await this.query(
+            'SELECT * FROM capacity_reservations WHERE ends_at > $1 ORDER BY starts_at',
+            [endingAfter]
+        );
+
+        return result.rows.map((row: any) => ({
+            id: row.id,
+            name: row.name,
+            region: row.region,
+            startsAt: new Date(row.starts_at).getTime(),
+            endsAt: new Date(row.ends_at).getTime(),
+            loadUnits: row.load_units,
+            scheduleId: row.schedule_id || undefined,
+            createdBy: row.created_by || undefined,
+            createdAt: new Date(row.created_at).getTime()
+        }));
+    }
+
+    async deleteCapacityReservation(id: string): Promise<void> {
+        await this.query('DELETE FROM capacity_reservations WHERE id = $1', [id]);
+    }
+
+    // RECORDING ARTIFACT OPERATIONS
+    // Registering the same stored file again refreshes it and keeps its id
+    async saveRecordingArtifact(artifact: RecordingArtifact): Promise<RecordingArtifact> {
+        const result = await this.query(`
+      INSERT INTO recording_artifacts (
+        id, job_id, kind, file_name, storage, storage_key, size_bytes, sha256,
+        duration_ms, container, video_codec, audio_codec, created_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+      ON CONFLICT (job_id, storage, storage_key) DO UPDATE SET
+        kind = EXCLUDED.kind,
+        file_name = EXCLUDED.file_name,
+        size_bytes = EXCLUDED.size_bytes,
+        sha256 = EXCLUDED.sha256,
+        duration_ms = EXCLUDED.duration_ms,
+        container = EXCLUDED.container,
+        video_codec = EXCLUDED.video_codec,
+        audio_codec = EXCLUDED.audio_codec
+      RETURNING *
+    `, [
+            artifact.id,
+            artifact.jobId,
+            artifact.kind,
+            artifact.fileName,
+            artifact.storage,
+            artifact.storageKey,
+            artifact.sizeBytes,
+            artifact.sha256,
+            artifact.durationMs ?? null,
+            artifact.container,
+            artifact.videoCodec || null,
+            artifact.audioCodec || null,
+            new Date(artifact.createdAt)
+        ]);
+
+        return this.mapRowToRecordingArtifact(result.rows[0]);
+    }
+
+    async getRecordingArtifacts(jobId: string): Promise<RecordingArtifact[]> {
+        const result = await this.query(
+            'SELECT * FROM recording_artifacts WHERE job_id = $1 ORDER BY created_at',
+            [jobId]
+        );
+
+        return result.rows.map((row: any) => this.mapRowToRecordingArtifact(row));
+    }
+
+    async getRecordingArtifact(id: string): Promise<RecordingArtifact | null> {
+        const result = await this.query('SELECT * FROM recording_artifacts WHERE id = $1', [id]);
+        return result.rows.length > 0 ? this.mapRowToRecordingArtifact(result.rows[0]) : null;
+    }
+
+    async deleteRecordingArtifact(id: string): Promise<void> {
+        await this.query('DELETE FROM recording_artifacts WHERE id = $1', [id]);
+    }
+
+    // BIGINT columns come back from pg as strings
+    private mapRowToRecordingArtifact(row: any): RecordingArtifact {
+        return {
+            id: row.id,
+            jobId: row.job_id,
+            kind: row.kind,
+            fileName: row.file_name,
+            storage: row.storage,
+            storageKey: row.storage_key,
+            sizeBytes: Number(row.size_bytes),
+            sha256: row.sha256,
+            durationMs: row.duration_ms !== null ? Number(row.duration_ms) : undefined,
+            container: row.container,
+            videoCodec: row.video_codec || undefined,
+            audioCodec: row.audio_codec || undefined,
+            createdAt: new Date(row.created_at).getTime()
+        };
+    }
+
+    // RETENTION OPERATIONS
+    async saveRetentionPolicy(policy: RetentionPolicy): Promise<void> {
+        await this.query(`
+      INSERT INTO retention_policies (
+        id, name, scope, match_value, retention_days, job_action, created_by, created_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+      ON CONFLICT (id) DO UPDATE SET
+        name = EXCLUDED.name,
+        scope = EXCLUDED.scope,
+        match_value = EXCLUDED.match_value,
+        retention_days = EXCLUDED.retention_days,
+        job_action = EXCLUDED.job_action,
+        updated_at = EXCLUDED.updated_at
+    `, [
+            policy.id,
+            policy.name,
+            policy.scope,
+            policy.match,
+            policy.retentionDays,
+            policy.jobAction,
+            policy.createdBy || null,
+            new Date(policy.createdAt),
+            new Date(policy.updatedAt)
+        ]);
+    }
+
+    async getRetentionPolicies(): Promise<RetentionPolicy[]> {
+        const result = await this.query('SELECT * FROM retention_policies ORDER BY scope, match_value');
+
+        return result.rows.map((row: any) => ({
+            id: row.id,
+            name: row.name,
+            scope: row.scope,
+            match: row.match_value,
+            retentionDays: row.retention_days,
+            jobAction: row.job_action,
+            createdBy: row.created_by || undefined,
+            createdAt: new Date(row.created_at).getTime(),
+            updatedAt: new Date(row.updated_at).getTime()
+        }));
+    }
+
+    async deleteRetentionPolicy(id: string): Promise<void> {
+        await this.query('DELETE FROM retention_policies WHERE id = $1', [id]);
+    }
+
+    async saveLegalHold(hold: LegalHold): Promise<void> {
+        await this.query(`
+      INSERT INTO recording_legal_holds (job_id, reason, placed_by, placed_at)
+      VALUES ($1, $2, $3, $4)
+      ON CONFLICT (job_id) DO UPDATE SET
+        reason = EXCLUDED.reason,
+        placed_by = EXCLUDED.placed_by,
+        placed_at = EXCLUDED.placed_at
+    `, [
+            hold.jobId,
+            hold.reason,
+            hold.placedBy || null,
+            new Date(hold.placedAt)
+        ]);
+    }
+
+    async getLegalHolds(): Promise<LegalHold[]> {
+        const result = await this.query('SELECT * FROM recording_legal_holds ORDER BY placed_at');
+
+        return result.rows.map((row: any) => ({
+            jobId: row.job_id,
+            reason: row.reason,
+            placedBy: row.placed_by || undefined,
+            placedAt: new Date(row.placed_at).getTime()
+        }));
+    }
+
+    async deleteLegalHold(jobId: string): Promise<void> {
+        await this.query('DELETE FROM recording_legal_holds WHERE job_id = $1', [jobId]);
+    }
+
+    // Ended jobs no sweep has processed and no legal hold keeps, oldest first.
+    // Pages continue after the last job of the previous page.
+    async getRetentionCandidates(
+        endedBefore: Date,
+        limit: number,
+        after?: { endedAt: number; jobId: string }
+    ): Promise<DistributedRecordingJob[]> {
+        const params: any[] = [endedBefore, limit];
+        let cursor = '';
+
+        if (after) {
+            cursor = 'AND (COALESCE(j.end_time, j.start_time), j.job_id) > ($3, $4)';
+            params.push(new Date(after.endedAt), after.jobId);
+        }
+
+        const result = await this.query(`
+      SELECT j.* FROM recording_jobs j
+      WHERE j.status IN ('completed', 'failed', 'cancelled')
+        AND j.retention_applied_at IS NULL
+        AND COALESCE(j.end_time, j.start_time) < $1
+        AND NOT EXISTS (SELECT 1 FROM recording_legal_holds h WHERE h.job_id = j.job_id)
+        ${cursor}
+      ORDER BY COALESCE(j.end_time, j.start_time), j.job_id
+      LIMIT $2
+    `, params);
+
+        return result.rows.map(this.mapRowToRecordingJob);
+    }
+
+    // Overwrites the personal data of a job a retention sweep processed
+    async anonymizeRecordingJob(job: DistributedRecordingJob): Promise<void> {
+        await this.query(`
+      UPDATE recording_jobs SET
+        peer_id = $2,
+        peer_info = $3,
+        requester_info = $4,
+        cancellation = $5,
+        composite = $6,
+        output_path = NULL,
+        retention_applied_at = NOW(),
+        updated_at = NOW()
+      WHERE job_id = $1
+    `, [
+            job.jobId,
+            job.peerId,
+            JSON.stringify(job.peerInfo),
+            JSON.stringify(job.requesterInfo),
+            job.cancellation ? JSON.stringify(job.cancellation) : null,
+            job.composite ? JSON.stringify(job.composite) : null
+        ]);
+    }
+
+    // Queue entries and audit records go with the job
+    async deleteRecordingJob(jobId: string): Promise<void> {
+        await this.query('DELETE FROM recording_jobs WHERE job_id = $1', [jobId]);
     }
 }
\ No newline at end of file
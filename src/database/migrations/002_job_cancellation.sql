@@ -0,0 +1,4 @@
+-- Cancellation details for recording jobs (reason, requester, discarded output)
+
+ALTER TABLE recording_jobs
+ADD COLUMN IF NOT EXISTS cancellation JSONB;
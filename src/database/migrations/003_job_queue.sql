@@ -0,0 +1,11 @@
+-- Persistent recording job queue (dispatch order survives restarts)
+
+CREATE TABLE IF NOT EXISTS recording_job_queue (
+    job_id VARCHAR(255) PRIMARY KEY REFERENCES recording_jobs(job_id) ON DELETE CASCADE,
+    position INTEGER NOT NULL,
+    priority INTEGER NOT NULL,
+    enqueued_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_recording_job_queue_position ON recording_job_queue(position);
@@ -0,0 +1,7 @@
+-- Room-level composite recordings (one file for all peers of a room)
+
+ALTER TABLE recording_jobs
+ADD COLUMN IF NOT EXISTS job_type VARCHAR(50) NOT NULL DEFAULT 'peer';
+
+ALTER TABLE recording_jobs
+ADD COLUMN IF NOT EXISTS composite JSONB;
@@ -0,0 +1,22 @@
+-- Supervisor enforcement of maxDuration and stale initialization
+
+ALTER TABLE recording_jobs
+ADD COLUMN IF NOT EXISTS termination JSONB;
+
+ALTER TABLE recording_jobs
+ADD COLUMN IF NOT EXISTS assigned_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE recording_jobs
+ADD COLUMN IF NOT EXISTS recording_started_at TIMESTAMP WITH TIME ZONE;
+
+-- Why a job was ended by the orchestrator
+CREATE TABLE IF NOT EXISTS recording_job_audit (
+    id SERIAL PRIMARY KEY,
+    job_id VARCHAR(255) NOT NULL REFERENCES recording_jobs(job_id) ON DELETE CASCADE,
+    action VARCHAR(100) NOT NULL,
+    message TEXT NOT NULL,
+    details JSONB DEFAULT '{}',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_recording_job_audit_job_id ON recording_job_audit(job_id);
@@ -0,0 +1,4 @@
+-- RTP port range each FFmpeg node accepts forwarded media on
+
+ALTER TABLE ffmpeg_nodes
+ADD COLUMN IF NOT EXISTS port_range JSONB;
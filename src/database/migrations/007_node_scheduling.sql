@@ -0,0 +1,7 @@
+-- Cordon / drain state of nodes (NULL = schedulable)
+
+ALTER TABLE room_servers
+ADD COLUMN IF NOT EXISTS scheduling JSONB;
+
+ALTER TABLE ffmpeg_nodes
+ADD COLUMN IF NOT EXISTS scheduling JSONB;
@@ -0,0 +1,11 @@
+-- Segments written by each FFmpeg node a recording ran on, the in-flight
+-- live migration, and the state of stitching the segments together
+
+ALTER TABLE recording_jobs
+ADD COLUMN IF NOT EXISTS segments JSONB;
+
+ALTER TABLE recording_jobs
+ADD COLUMN IF NOT EXISTS migration JSONB;
+
+ALTER TABLE recording_jobs
+ADD COLUMN IF NOT EXISTS stitching JSONB;
@@ -0,0 +1,16 @@
+-- API keys for nodes, services and operators. Only a hash of the secret is stored.
+
+CREATE TABLE IF NOT EXISTS api_keys (
+    key_id VARCHAR(64) PRIMARY KEY,
+    name VARCHAR(255) NOT NULL,
+    kind VARCHAR(20) NOT NULL,
+    roles JSONB DEFAULT '[]',
+    node_id VARCHAR(255),
+    secret_hash VARCHAR(128) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    expires_at TIMESTAMP WITH TIME ZONE,
+    revoked_at TIMESTAMP WITH TIME ZONE,
+    rotated_from VARCHAR(64)
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_keys_kind ON api_keys(kind);
@@ -0,0 +1,7 @@
+-- Per-node HMAC secrets for signed requests between the orchestrator and its nodes
+
+CREATE TABLE IF NOT EXISTS node_signing_secrets (
+    node_id VARCHAR(255) PRIMARY KEY,
+    secret VARCHAR(128) NOT NULL,
+    issued_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
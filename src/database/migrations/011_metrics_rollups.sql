@@ -0,0 +1,13 @@
+-- Time-bucketed aggregates of system_metrics (minute / hour / day)
+
+CREATE TABLE IF NOT EXISTS system_metrics_rollups (
+    resolution VARCHAR(10) NOT NULL,
+    bucket_start TIMESTAMP WITH TIME ZONE NOT NULL,
+    samples INTEGER NOT NULL,
+    metrics JSONB NOT NULL,
+    regional_metrics JSONB DEFAULT '{}',
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (resolution, bucket_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_system_metrics_rollups_bucket ON system_metrics_rollups(bucket_start);
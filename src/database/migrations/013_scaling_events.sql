@@ -0,0 +1,14 @@
+-- Audit trail of scaling recommendations, alert transitions and manual evaluations
+
+CREATE TABLE IF NOT EXISTS scaling_events (
+    id SERIAL PRIMARY KEY,
+    type VARCHAR(50) NOT NULL,
+    region VARCHAR(100),
+    level VARCHAR(20),
+    reason TEXT NOT NULL,
+    details JSONB DEFAULT '{}',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_scaling_events_created_at ON scaling_events(created_at);
+CREATE INDEX IF NOT EXISTS idx_scaling_events_type ON scaling_events(type, created_at);
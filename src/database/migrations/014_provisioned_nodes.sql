@@ -0,0 +1,22 @@
+-- FFmpeg nodes started and stopped through a provisioning provider
+
+CREATE TABLE IF NOT EXISTS provisioned_nodes (
+    provision_id VARCHAR(255) PRIMARY KEY,
+    provider VARCHAR(20) NOT NULL,
+    region VARCHAR(100) NOT NULL,
+    status VARCHAR(20) NOT NULL,
+    instance_id VARCHAR(255),
+    node_id VARCHAR(255),
+    api_key_id VARCHAR(255),
+    reason TEXT NOT NULL,
+    requested_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    registered_at TIMESTAMP WITH TIME ZONE,
+    removal_requested_at TIMESTAMP WITH TIME ZONE,
+    removed_at TIMESTAMP WITH TIME ZONE,
+    error TEXT,
+    details JSONB DEFAULT '{}',
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_provisioned_nodes_status ON provisioned_nodes(status);
+CREATE INDEX IF NOT EXISTS idx_provisioned_nodes_requested_at ON provisioned_nodes(requested_at);
@@ -0,0 +1,45 @@
+-- Recording schedules and the occurrences fired from them
+
+CREATE TABLE IF NOT EXISTS recording_schedules (
+    id VARCHAR(255) PRIMARY KEY,
+    name VARCHAR(255) NOT NULL,
+    room_id VARCHAR(255) NOT NULL,
+    room_server_id VARCHAR(255),
+    peer_id VARCHAR(255),
+    layout VARCHAR(30) NOT NULL,
+    options JSONB NOT NULL DEFAULT '{}',
+    recurrence VARCHAR(10) NOT NULL,
+    start_at TIMESTAMP WITH TIME ZONE,
+    cron VARCHAR(255),
+    rrule TEXT,
+    timezone VARCHAR(100) NOT NULL,
+    duration_minutes INTEGER NOT NULL,
+    grace_minutes INTEGER NOT NULL,
+    enabled BOOLEAN NOT NULL DEFAULT TRUE,
+    next_run_at TIMESTAMP WITH TIME ZONE,
+    created_by VARCHAR(255),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_recording_schedules_room_id ON recording_schedules(room_id);
+
+-- The unique occurrence is what keeps an occurrence from firing twice
+CREATE TABLE IF NOT EXISTS recording_schedule_runs (
+    id VARCHAR(255) PRIMARY KEY,
+    schedule_id VARCHAR(255) NOT NULL,
+    occurrence_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    deadline_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    end_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    status VARCHAR(20) NOT NULL,
+    job_id VARCHAR(255),
+    room_server_id VARCHAR(255),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT,
+    started_at TIMESTAMP WITH TIME ZONE,
+    finished_at TIMESTAMP WITH TIME ZONE,
+    UNIQUE (schedule_id, occurrence_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_recording_schedule_runs_status ON recording_schedule_runs(status);
+CREATE INDEX IF NOT EXISTS idx_recording_schedule_runs_job_id ON recording_schedule_runs(job_id);
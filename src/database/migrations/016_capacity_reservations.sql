@@ -0,0 +1,18 @@
+-- Capacity held back from ad-hoc recordings for a region and time window
+
+CREATE TABLE IF NOT EXISTS capacity_reservations (
+    id VARCHAR(255) PRIMARY KEY,
+    name VARCHAR(255) NOT NULL,
+    region VARCHAR(100) NOT NULL,
+    starts_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    ends_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    load_units INTEGER NOT NULL,
+    schedule_id VARCHAR(255),
+    created_by VARCHAR(255),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_capacity_reservations_region_window ON capacity_reservations(region, starts_at, ends_at);
+
+ALTER TABLE recording_jobs
+ADD COLUMN IF NOT EXISTS reservation_id VARCHAR(255);
@@ -0,0 +1,20 @@
+-- Files recordings produced, with where each one is stored
+
+CREATE TABLE IF NOT EXISTS recording_artifacts (
+    id VARCHAR(255) PRIMARY KEY,
+    job_id VARCHAR(255) NOT NULL,
+    kind VARCHAR(50) NOT NULL,
+    file_name VARCHAR(500) NOT NULL,
+    storage VARCHAR(20) NOT NULL,
+    storage_key TEXT NOT NULL,
+    size_bytes BIGINT NOT NULL,
+    sha256 VARCHAR(64) NOT NULL,
+    duration_ms BIGINT,
+    container VARCHAR(20) NOT NULL,
+    video_codec VARCHAR(50),
+    audio_codec VARCHAR(50),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    UNIQUE (job_id, storage, storage_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_recording_artifacts_job_id ON recording_artifacts(job_id);
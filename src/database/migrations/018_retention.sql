@@ -0,0 +1,28 @@
+-- Retention policies, legal holds and the jobs sweeps have already processed
+
+CREATE TABLE IF NOT EXISTS retention_policies (
+    id VARCHAR(255) PRIMARY KEY,
+    name VARCHAR(255) NOT NULL,
+    scope VARCHAR(20) NOT NULL,
+    match_value VARCHAR(255) NOT NULL,
+    retention_days INTEGER NOT NULL,
+    job_action VARCHAR(20) NOT NULL,
+    created_by VARCHAR(255),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    UNIQUE (scope, match_value)
+);
+
+CREATE TABLE IF NOT EXISTS recording_legal_holds (
+    job_id VARCHAR(255) PRIMARY KEY REFERENCES recording_jobs(job_id) ON DELETE CASCADE,
+    reason TEXT NOT NULL,
+    placed_by VARCHAR(255),
+    placed_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+-- Set once a sweep anonymized the job
+ALTER TABLE recording_jobs
+ADD COLUMN IF NOT EXISTS retention_applied_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_recording_jobs_retention ON recording_jobs(COALESCE(end_time, start_time))
+WHERE retention_applied_at IS NULL;
@@ -0,0 +1,7 @@
+-- Post-processing steps run on a recording's output after the job completed
+
+ALTER TABLE recording_jobs
+ADD COLUMN IF NOT EXISTS post_processing JSONB;
+
+CREATE INDEX IF NOT EXISTS idx_recording_jobs_post_processing ON recording_jobs((post_processing->>'status'))
+WHERE post_processing IS NOT NULL;
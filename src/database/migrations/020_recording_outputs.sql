@@ -0,0 +1,4 @@
+-- File and live stream outputs of a recording job, each with its own status
+
+ALTER TABLE recording_jobs
+ADD COLUMN IF NOT EXISTS outputs JSONB;
@@ -0,0 +1,4 @@
+-- Pauses of a recording job, open while the job is paused
+
+ALTER TABLE recording_jobs
+ADD COLUMN IF NOT EXISTS pauses JSONB;
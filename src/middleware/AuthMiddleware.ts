@@ -0,0 +1,127 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { AuthService } from '../services/AuthService';
+import { AuthPrincipal, OperatorRole } from '../types/interfaces';
+import { Logger } from '../utils/Logger';
+
+const logger = new Logger('AuthMiddleware');
+
+declare global {
+    namespace Express {
+        interface Request {
+            principal?: AuthPrincipal;
+        }
+    }
+}
+
+// Bound to the app's AuthService during initialization
+let authService: AuthService;
+
+export const initializeAuth = (service: AuthService) => {
+    authService = service;
+};
+
+export interface AccessPolicy {
+    node?: boolean;
+    service?: boolean;
+    // Minimum role an operator needs; operators are refused when unset
+    operator?: OperatorRole;
+    // Body field naming the node a node credential is acting as
+    nodeIdField?: string;
+}
+
+// Credentials come as "Authorization: Bearer <token or API key>" or "X-API-Key: <API key>"
+export const extractCredential = (headers: Request['headers']): string | null => {
+    const authorization = headers.authorization;
+    if (authorization?.startsWith('Bearer ')) {
+        return authorization.slice('Bearer '.length).trim() || null;
+    }
+
+    const apiKey = headers['x-api-key'];
+    return typeof apiKey === 'string' && apiKey ? apiKey : null;
+};
+
+export const authorize = (policy: AccessPolicy): RequestHandler => {
+    return (req: Request, res: Response, next: NextFunction): void => {
+        if (!authService.isEnabled()) {
+            next();
+            return;
+        }
+
+        const credential = extractCredential(req.headers);
+        if (!credential) {
+            unauthorized(res, 'Authentication required');
+            return;
+        }
+
+        let principal: AuthPrincipal;
+        try {
+            principal = authService.authenticate(credential);
+        } catch (error) {
+            logger.warn('Authentication failed', {
+                path: req.originalUrl,
+                ip: req.ip,
+                reason: error instanceof Error ? error.message : error
+            });
+            unauthorized(res, error instanceof Error ? error.message : 'Invalid credentials');
+            return;
+        }
+
+        req.principal = principal;
+
+        const reason = getDenialReason(principal, policy, req.body);
+        if (reason) {
+            logger.warn('Access denied', {
+                path: req.originalUrl,
+                principal: principal.id,
+                kind: principal.kind,
+                reason
+            });
+
+            res.status(403).json({
+                success: false,
+                error: 'Forbidden',
+                message: reason
+            });
+            return;
+        }
+
+        next();
+    };
+};
+
+const getDenialReason = (principal: AuthPrincipal, policy: AccessPolicy, body: any): string | null => {
+    switch (principal.kind) {
+        case 'node':
+            if (!policy.node) {
+                return 'Node credentials cannot access this endpoint';
+            }
+            // Node keys bound to a node may only speak for that node
+            if (principal.nodeId && policy.nodeIdField && body?.[policy.nodeIdField] !== principal.nodeId) {
+                return `Credentials are bound to node ${principal.nodeId}`;
+            }
+            return null;
+
+        case 'service':
+            return policy.service ? null : 'Service credentials cannot access this endpoint';
+
+        case 'operator':
+            if (!policy.operator) {
+                return 'Operator credentials cannot access this endpoint';
+            }
+            return authService.hasRole(principal, policy.operator)
+                ? null
+                : `Requires the ${policy.operator} role`;
+
+        default:
+            return 'Unknown principal';
+    }
+};
+
+const unauthorized = (res: Response, message: string): void => {
+    res.set('WWW-Authenticate', 'Bearer realm="recording-orchestrator"');
+    res.status(401).json({
+        success: false,
+        error: 'Unauthorized',
+        message
+    });
+};
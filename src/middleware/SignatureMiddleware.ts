@@ -0,0 +1,75 @@
+import { Request, Response, NextFunction } from 'express';
+import { RequestSigningService } from '../services/RequestSigningService';
+import { config } from '../config/config';
+import { Logger } from '../utils/Logger';
+
+const logger = new Logger('SignatureMiddleware');
+
+declare global {
+    namespace Express {
+        interface Request {
+            // Exact bytes received, captured by the JSON body parser for signature checks
+            rawBody?: Buffer;
+            // Node whose signature was verified for this request
+            signedNodeId?: string;
+        }
+    }
+}
+
+// Bound to the app's RequestSigningService during initialization
+let signingService: RequestSigningService;
+
+export const initializeSignatureVerification = (service: RequestSigningService) => {
+    signingService = service;
+};
+
+export const captureRawBody = (req: Request, res: Response, buffer: Buffer): void => {
+    req.rawBody = buffer;
+};
+
+export const verifyNodeSignature = (req: Request, res: Response, next: NextFunction): void => {
+    if (!config.auth.requireSignedCallbacks) {
+        next();
+        return;
+    }
+
+    const { HEADERS } = RequestSigningService;
+    const nodeId = req.get(HEADERS.nodeId);
+
+    try {
+        if (!nodeId) {
+            throw new Error('Unsigned request');
+        }
+
+        signingService.verify({
+            nodeId,
+            method: req.method,
+            path: req.originalUrl,
+            body: req.rawBody ? req.rawBody.toString('utf8') : '',
+            timestamp: req.get(HEADERS.timestamp),
+            nonce: req.get(HEADERS.nonce),
+            signature: req.get(HEADERS.signature)
+        });
+    } catch (error) {
+        const reason = error instanceof Error ? error.message : 'Invalid signature';
+
+        logger.warn('Security event: rejected node request', {
+            securityEvent: 'signature_rejected',
+            reason,
+            nodeId,
+            path: req.originalUrl,
+            ip: req.ip,
+            userAgent: req.headers['user-agent']
+        });
+
+        res.status(401).json({
+            success: false,
+            error: 'Unauthorized',
+            message: reason
+        });
+        return;
+    }
+
+    req.signedNodeId = nodeId;
+    next();
+};
@@ -0,0 +1,228 @@
+// src/models/CompositeRecording.ts
+import {
+    CompositeLayout,
+    CompositeLayoutType,
+    CompositeParticipant,
+    CompositeRecordingState,
+    CompositeTile,
+    RecordingOptions,
+    RoomPeerReport,
+    RTPStreamInfo
+} from '../types/interfaces';
+import { Logger } from '../utils/Logger';
+
+export class CompositeRecordingModel {
+    private logger: Logger;
+
+    constructor() {
+        this.logger = new Logger('CompositeRecordingModel');
+    }
+
+    // Create initial composite state from the peers currently in the room
+    create(layout: CompositeLayoutType, peers: RoomPeerReport[], activeSpeakerId?: string): CompositeRecordingState {
+        const now = Date.now();
+        const participants = peers.map(peer => this.toParticipant(peer, now));
+
+        return {
+            layout,
+            participants,
+            activeSpeakerId,
+            participantHistory: participants.map(participant => ({
+                peerId: participant.peerId,
+                event: 'joined' as const,
+                timestamp: now
+            }))
+        };
+    }
+
+    private toParticipant(peer: RoomPeerReport, joinedAt: number): CompositeParticipant {
+        return {
+            peerId: peer.peerId,
+            displayName: peer.displayName || peer.peerId,
+            roles: peer.roles || [],
+            rtpStreams: peer.rtpStreams || [],
+            joinedAt
+        };
+    }
+
+    // Compare the tracked participants with the latest room report
+    diffParticipants(state: CompositeRecordingState, peers: RoomPeerReport[]): {
+        joined: RoomPeerReport[];
+        left: CompositeParticipant[];
+    } {
+        const reportedIds = new Set(peers.map(peer => peer.peerId));
+        const trackedIds = new Set(state.participants.map(participant => participant.peerId));
+
+        return {
+            joined: peers.filter(peer => !trackedIds.has(peer.peerId) && (peer.rtpStreams || []).length > 0),
+            left: state.participants.filter(participant => !reportedIds.has(participant.peerId))
+        };
+    }
+
+    // Apply joins (with their forwarded streams) and leaves to the state
+    applyParticipantChanges(
+        state: CompositeRecordingState,
+        joined: Array<{ peer: RoomPeerReport; rtpStreams: RTPStreamInfo[] }>,
+        leftPeerIds: string[],
+        activeSpeakerId?: string
+    ): CompositeRecordingState {
+        const now = Date.now();
+        const left = new Set(leftPeerIds);
+
+        const participants = [
+            ...state.participants.filter(participant => !left.has(participant.peerId)),
+            ...joined.map(({ peer, rtpStreams }) => this.toParticipant({ ...peer, rtpStreams }, now))
+        ];
+
+        const history = [
+            ...state.participantHistory,
+            ...joined.map(({ peer }) => ({ peerId: peer.peerId, event: 'joined' as const, timestamp: now })),
+            ...leftPeerIds.map(peerId => ({ peerId, event: 'left' as const, timestamp: now }))
+        ];
+
+        if (joined.length > 0 || leftPeerIds.length > 0) {
+            this.logger.debug('Composite participants changed', {
+                joined: joined.map(({ peer }) => peer.peerId),
+                left: leftPeerIds,
+                participants: participants.length
+            });
+        }
+
+        return {
+            ...state,
+            participants,
+            participantHistory: history,
+            activeSpeakerId: activeSpeakerId !== undefined ? activeSpeakerId : state.activeSpeakerId
+        };
+    }
+
+    getAllStreams(state: CompositeRecordingState): RTPStreamInfo[] {
+        return state.participants.flatMap(participant => participant.rtpStreams);
+    }
+
+    // Layout description sent to the FFmpeg node
+    buildLayout(state: CompositeRecordingState, options: RecordingOptions): CompositeLayout {
+        const canvas = this.getCanvasSize(options.quality);
+        const videoParticipants = state.participants.filter(participant =>
+            participant.rtpStreams.some(stream => stream.kind === 'video')
+        );
+
+        let tiles: CompositeTile[];
+
+        switch (state.layout) {
+            case 'active-speaker':
+                tiles = this.buildActiveSpeakerTiles(videoParticipants, canvas, state.activeSpeakerId);
+                break;
+            case 'presenter-thumbnails':
+                tiles = this.buildPresenterTiles(videoParticipants, canvas);
+                break;
+            case 'grid':
+            default:
+                tiles = this.buildGridTiles(videoParticipants, canvas);
+                break;
+        }
+
+        return {
+            type: state.layout,
+            canvas,
+            tiles,
+            audioPeerIds: state.participants
+                .filter(participant => participant.rtpStreams.some(stream => stream.kind === 'audio'))
+                .map(participant => participant.peerId),
+            activeSpeakerId: state.activeSpeakerId
+        };
+    }
+
+    private getCanvasSize(quality: RecordingOptions['quality']): { width: number; height: number } {
+        const sizes = {
+            low: { width: 854, height: 480 },
+            medium: { width: 1280, height: 720 },
+            high: { width: 1920, height: 1080 }
+        };
+
+        return sizes[quality || 'medium'];
+    }
+
+    private buildGridTiles(participants: CompositeParticipant[], canvas: { width: number; height: number }): CompositeTile[] {
+        if (participants.length === 0) return [];
+
+        const columns = Math.ceil(Math.sqrt(participants.length));
+        const rows = Math.ceil(participants.length / columns);
+        const width = Math.floor(canvas.width / columns);
+        const height = Math.floor(canvas.height / rows);
+
+        return participants.map((participant, index) => ({
+            peerId: participant.peerId,
+            x: (index % columns) * width,
+            y: Math.floor(index / columns) * height,
+            width,
+            height,
+            zIndex: 0
+        }));
+    }
+
+    private buildActiveSpeakerTiles(
+        participants: CompositeParticipant[],
+        canvas: { width: number; height: number },
+        activeSpeakerId?: string
+    ): CompositeTile[] {
+        const speaker = participants.find(participant => participant.peerId === activeSpeakerId) || participants[0];
+        if (!speaker) return [];
+
+        return [{
+            peerId: speaker.peerId,
+            x: 0,
+            y: 0,
+            width: canvas.width,
+            height: canvas.height,
+            zIndex: 0
+        }];
+    }
+
+    private buildPresenterTiles(participants: CompositeParticipant[], canvas: { width: number; height: number }): CompositeTile[] {
+        const presenter = participants.find(participant => participant.roles.includes('presenter')) || participants[0];
+        if (!presenter) return [];
+
+        const others = participants.filter(participant => participant.peerId !== presenter.peerId);
+
+        // Presenter fills the canvas when alone, otherwise leaves a thumbnail strip at the bottom
+        const stripHeight = others.length > 0 ? Math.floor(canvas.height / 5) : 0;
+        const tiles: CompositeTile[] = [{
+            peerId: presenter.peerId,
+            x: 0,
+            y: 0,
+            width: canvas.width,
+            height: canvas.height - stripHeight,
+            zIndex: 0
+        }];
+
+        const thumbnailWidth = Math.floor(stripHeight * 16 / 9);
+        const maxThumbnails = thumbnailWidth > 0 ? Math.floor(canvas.width / thumbnailWidth) : 0;
+
+        others.slice(0, maxThumbnails).forEach((participant, index) => {
+            tiles.push({
+                peerId: participant.peerId,
+                x: index * thumbnailWidth,
+                y: canvas.height - stripHeight,
+                width: thumbnailWidth,
+                height: stripHeight,
+                zIndex: 1
+            });
+        });
+
+        return tiles;
+    }
+
+    // One composite job counts as a single, heavier recording: decoding every
+    // participant plus one encode of the composed canvas
+    estimateLoad(state: CompositeRecordingState, options: RecordingOptions): number {
+        const videoParticipants = state.participants.filter(participant =>
+            participant.rtpStreams.some(stream => stream.kind === 'video')
+        ).length;
+
+        const encodeLoad = options.quality === 'high' ? 3 : options.quality === 'medium' ? 2 : 1;
+        const decodeLoad = videoParticipants * 0.5;
+
+        return Math.min(1 + encodeLoad + decodeLoad, 8);
+    }
+}
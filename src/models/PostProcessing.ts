@@ -0,0 +1,74 @@
+// src/models/PostProcessing.ts
+import { randomBytes } from 'crypto';
+import {
+    DistributedRecordingJob,
+    PostProcessingOptions,
+    PostProcessingState,
+    PostProcessingStep
+} from '../types/interfaces';
+
+export class PostProcessingModel {
+    // The steps the job asks for, or the configured defaults when it asks for nothing
+    plan(job: DistributedRecordingJob, defaults: PostProcessingOptions): PostProcessingStep[] {
+        const options = job.options.postProcessing || defaults;
+        const steps: PostProcessingStep[] = [];
+
+        // The recording already is in its own format
+        for (const format of new Set(options.renditions || [])) {
+            if (format !== job.options.format) {
+                steps.push(this.createStep('transcode', format));
+            }
+        }
+
+        // Images need a video track to be taken from
+        if (job.options.includeVideo) {
+            if (options.thumbnail) steps.push(this.createStep('thumbnail'));
+            if (options.spriteSheet) steps.push(this.createStep('sprite'));
+        }
+
+        for (const packaging of new Set(options.packaging || [])) {
+            steps.push(this.createStep(packaging));
+        }
+
+        return steps;
+    }
+
+    begin(steps: PostProcessingStep[]): PostProcessingState {
+        return {
+            status: 'running',
+            steps,
+            startedAt: Date.now()
+        };
+    }
+
+    getStep(state: PostProcessingState, stepId: string): PostProcessingStep | undefined {
+        return state.steps.find(step => step.id === stepId);
+    }
+
+    // Replaces one step; the state finishes with its last step and fails if
+    // any step failed. A retried step puts a finished state back to running.
+    updateStep(state: PostProcessingState, stepId: string, changes: Partial<PostProcessingStep>): PostProcessingState {
+        const steps = state.steps.map(step => step.id === stepId ? { ...step, ...changes } : step);
+
+        if (!steps.every(step => step.status === 'completed' || step.status === 'failed')) {
+            return { ...state, steps, status: 'running', finishedAt: undefined };
+        }
+
+        return {
+            ...state,
+            steps,
+            status: steps.some(step => step.status === 'failed') ? 'failed' : 'completed',
+            finishedAt: Date.now()
+        };
+    }
+
+    private createStep(type: PostProcessingStep['type'], format?: PostProcessingStep['format']): PostProcessingStep {
+        return {
+            id: `pps_${randomBytes(6).toString('hex')}`,
+            type,
+            ...(format && { format }),
+            status: 'pending',
+            attempts: 0
+        };
+    }
+}
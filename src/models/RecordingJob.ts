@@ -9,12 +9,19 @@ import {
     JobMetrics
 } from '../types/interfaces';
 import { Logger } from '../utils/Logger';
+import { ConflictError } from '../utils/Errors';
+import { RecordingOutputModel } from './RecordingOutput';
+import { RecordingPauseModel } from './RecordingPause';
 
 export class RecordingJobModel {
     private logger: Logger;
+    private outputModel: RecordingOutputModel;
+    private pauseModel: RecordingPauseModel;
 
     constructor() {
         this.logger = new Logger('RecordingJobModel');
+        this.outputModel = new RecordingOutputModel();
+        this.pauseModel = new RecordingPauseModel();
     }
 
     // Create new recording job
@@ -43,7 +50,8 @@ export class RecordingJobModel {
                 includeAudio: data.options.includeAudio !== false,
                 includeVideo: data.options.includeVideo !== false,
                 ...(data.options.maxDuration && { maxDuration: data.options.maxDuration }),
-                ...(data.options.customFFmpegArgs && { customFFmpegArgs: data.options.customFFmpegArgs })
+                ...(data.options.customFFmpegArgs && { customFFmpegArgs: data.options.customFFmpegArgs }),
+                ...(data.options.postProcessing && { postProcessing: data.options.postProcessing })
             },
             status: 'pending',
             startTime: Date.now(),
@@ -251,7 +259,7 @@ export class RecordingJobModel {
     updateStatus(job: DistributedRecordingJob, newStatus: JobStatus, additionalData?: Partial<DistributedRecordingJob>): DistributedRecordingJob {
         // Validate status transition
         if (!this.isValidStatusTransition(job.status, newStatus)) {
-            throw new Error(`Invalid status transition from ${job.status} to ${newStatus}`);
+            throw new ConflictError(`Invalid status transition from ${job.status} to ${newStatus}`);
         }
 
         const updatedJob: DistributedRecordingJob = {
@@ -259,6 +267,8 @@ export class RecordingJobModel {
             status: newStatus,
             ...additionalData
         };
+        updatedJob.outputs = this.outputModel.followJobStatus(updatedJob.outputs, newStatus);
+        updatedJob.pauses = this.pauseModel.followJobStatus(updatedJob.pauses, newStatus);
 
         // Set end time for terminal statuses
         if (['completed', 'failed', 'cancelled'].includes(newStatus) && !updatedJob.endTime) {
@@ -282,8 +292,11 @@ export class RecordingJobModel {
     private isValidStatusTransition(currentStatus: JobStatus, newStatus: JobStatus): boolean {
         const validTransitions: Record<JobStatus, JobStatus[]> = {
             'pending': ['initializing', 'failed', 'cancelled'],
-            'initializing': ['recording', 'failed', 'cancelled'],
-            'recording': ['completed', 'failed', 'cancelled'],
+            // A paused job that failed over starts paused on its new node. A stop
+            // can come before the node confirmed the start.
+            'initializing': ['recording', 'paused', 'completed', 'failed', 'cancelled'],
+            'recording': ['paused', 'completed', 'failed', 'cancelled'],
+            'paused': ['recording', 'completed', 'failed', 'cancelled'],
             'completed': [], // Terminal state
             'failed': [], // Terminal state
             'cancelled': [] // Terminal state
@@ -294,7 +307,7 @@ export class RecordingJobModel {
 
     // Job state checks
     isActive(job: DistributedRecordingJob): boolean {
-        return ['pending', 'initializing', 'recording'].includes(job.status);
+        return ['pending', 'initializing', 'recording', 'paused'].includes(job.status);
     }
 
     isTerminal(job: DistributedRecordingJob): boolean {
@@ -309,6 +322,10 @@ export class RecordingJobModel {
         return job.status === 'recording';
     }
 
+    isPaused(job: DistributedRecordingJob): boolean {
+        return job.status === 'paused';
+    }
+
     isSuccessful(job: DistributedRecordingJob): boolean {
         return job.status === 'completed';
     }
@@ -328,10 +345,21 @@ export class RecordingJobModel {
             return null;
         }
 
-        const elapsed = this.getDuration(job);
+        const elapsed = this.getRecordingDuration(job);
         return Math.max(0, job.options.maxDuration - elapsed);
     }
 
+    // Time actually spent recording - queue wait, node setup and pauses don't
+    // count against maxDuration
+    getRecordingDuration(job: DistributedRecordingJob): number {
+        const endTime = job.endTime || Date.now();
+        return endTime - (job.recordingStartedAt || job.startTime) - this.pauseModel.getPausedDuration(job, endTime);
+    }
+
+    getPausedDuration(job: DistributedRecordingJob): number {
+        return this.pauseModel.getPausedDuration(job, job.endTime || Date.now());
+    }
+
     // Timeout checks
     hasTimedOut(job: DistributedRecordingJob, timeoutMs: number = 3600000): boolean {
         if (!this.isActive(job)) return false;
@@ -341,12 +369,19 @@ export class RecordingJobModel {
     }
 
     hasExceededMaxDuration(job: DistributedRecordingJob): boolean {
-        if (!job.options.maxDuration || this.isTerminal(job)) return false;
+        if (!job.options.maxDuration || !this.isRecording(job)) return false;
 
-        const duration = this.getDuration(job);
+        const duration = this.getRecordingDuration(job);
         return duration > job.options.maxDuration;
     }
 
+    // Assigned to a node but never confirmed as started
+    hasInitializationTimedOut(job: DistributedRecordingJob, timeoutMs: number): boolean {
+        if (job.status !== 'initializing') return false;
+
+        return Date.now() - (job.assignedAt || job.startTime) > timeoutMs;
+    }
+
     // Priority calculation for queue processing
     getPriority(job: DistributedRecordingJob): number {
         let priority = 50; // Base priority
@@ -467,9 +502,12 @@ export class RecordingJobModel {
             pending: 'Waiting for available FFmpeg node',
             initializing: 'Setting up recording infrastructure',
             recording: 'Recording in progress',
+            paused: 'Recording paused',
             completed: 'Recording completed successfully',
             failed: `Recording failed: ${job.errorMessage || 'Unknown error'}`,
-            cancelled: 'Recording was cancelled by user request'
+            cancelled: job.cancellation ?
+                `Recording was cancelled: ${job.cancellation.reason}` :
+                'Recording was cancelled by user request'
         };
 
         return statusDescriptions[job.status] || 'Unknown status';
@@ -498,6 +536,7 @@ export class RecordingJobModel {
                 statusDescription: this.getStatusDescription(job),
                 duration,
                 durationFormatted: this.formatDuration(duration),
+                pausedDuration: this.getPausedDuration(job),
                 startTime: job.startTime,
                 endTime: job.endTime,
                 isCompleted,
@@ -571,6 +610,7 @@ export class RecordingJobModel {
                 pending: jobs.filter(job => job.status === 'pending').length,
                 initializing: jobs.filter(job => job.status === 'initializing').length,
                 recording: jobs.filter(job => job.status === 'recording').length,
+                paused: jobs.filter(job => job.status === 'paused').length,
                 completed: completedJobs.length,
                 failed: failedJobs.length,
                 cancelled: jobs.filter(job => job.status === 'cancelled').length
@@ -609,10 +649,71 @@ export class RecordingJobModel {
         );
     }
 
+    // Strips who was recorded and who asked for it, keeping what statistics need:
+    // roles, timings, options and the tenant. Composite participants become
+    // participant-1, participant-2 ... consistently across the job.
+    anonymize(job: DistributedRecordingJob): DistributedRecordingJob {
+        const aliases = new Map<string, string>();
+        const alias = (peerId: string): string => {
+            if (!aliases.has(peerId)) aliases.set(peerId, `participant-${aliases.size + 1}`);
+            return aliases.get(peerId)!;
+        };
+
+        const stripRequester = (requester: RequesterInfo): RequesterInfo => ({
+            ip: '',
+            timestamp: requester.timestamp,
+            ...(requester.tenantId && { tenantId: requester.tenantId })
+        });
+
+        // Composite jobs are named after the room, not a person
+        const peerId = job.type === 'room-composite' ? job.peerId : 'anonymized';
+
+        const { outputPath, ...rest } = job;
+
+        return {
+            ...rest,
+            peerId,
+            peerInfo: {
+                peerId,
+                displayName: '',
+                isAuthenticated: job.peerInfo.isAuthenticated,
+                roles: job.peerInfo.roles,
+                joinTime: job.peerInfo.joinTime
+            },
+            requesterInfo: stripRequester(job.requesterInfo),
+            ...(job.cancellation && {
+                cancellation: { ...job.cancellation, requestedBy: stripRequester(job.cancellation.requestedBy) }
+            }),
+            ...(job.composite && {
+                composite: {
+                    ...job.composite,
+                    participants: job.composite.participants.map(participant => ({
+                        ...participant,
+                        peerId: alias(participant.peerId),
+                        displayName: ''
+                    })),
+                    activeSpeakerId: job.composite.activeSpeakerId && alias(job.composite.activeSpeakerId),
+                    participantHistory: job.composite.participantHistory.map(event => ({
+                        ...event,
+                        peerId: alias(event.peerId)
+                    }))
+                }
+            })
+        };
+    }
+
     getTimedOutJobs(jobs: DistributedRecordingJob[], timeoutMs: number = 3600000): DistributedRecordingJob[] {
         return jobs.filter(job => this.hasTimedOut(job, timeoutMs));
     }
 
+    getJobsExceedingMaxDuration(jobs: DistributedRecordingJob[]): DistributedRecordingJob[] {
+        return jobs.filter(job => this.hasExceededMaxDuration(job));
+    }
+
+    getStaleInitializingJobs(jobs: DistributedRecordingJob[], timeoutMs: number): DistributedRecordingJob[] {
+        return jobs.filter(job => this.hasInitializationTimedOut(job, timeoutMs));
+    }
+
     // Export for external systems
     exportJobData(job: DistributedRecordingJob) {
         return {
@@ -0,0 +1,113 @@
+// src/models/RecordingOutput.ts
+import { randomBytes } from 'crypto';
+import {
+    DistributedRecordingJob,
+    JobStatus,
+    RecordingOutput,
+    RecordingOutputTarget
+} from '../types/interfaces';
+
+export class RecordingOutputModel {
+    // Jobs that ask for nothing get the file they always got
+    create(targets: RecordingOutputTarget[] = [{ type: 'file' }]): RecordingOutput[] {
+        const now = Date.now();
+
+        return targets.map(target => ({
+            ...target,
+            id: `out_${randomBytes(6).toString('hex')}`,
+            status: 'pending',
+            restarts: 0,
+            updatedAt: now
+        }));
+    }
+
+    isLive(output: RecordingOutput): boolean {
+        return output.type !== 'file';
+    }
+
+    get(job: DistributedRecordingJob, outputId: string): RecordingOutput | undefined {
+        return (job.outputs || []).find(output => output.id === outputId);
+    }
+
+    update(job: DistributedRecordingJob, outputId: string, changes: Partial<RecordingOutput>): DistributedRecordingJob {
+        return {
+            ...job,
+            outputs: (job.outputs || []).map(output =>
+                output.id === outputId ? { ...output, ...changes, updatedAt: Date.now() } : output
+            )
+        };
+    }
+
+    // Outputs follow the job as a whole. A node taking the job opens all of
+    // them; live outputs only go active once the node reports them, the file
+    // as soon as the job records.
+    followJobStatus(outputs: RecordingOutput[] | undefined, status: JobStatus): RecordingOutput[] | undefined {
+        if (!outputs) return undefined;
+
+        const now = Date.now();
+
+        return outputs.map(output => {
+            switch (status) {
+                case 'initializing':
+                    return { ...output, status: 'starting', error: undefined, health: undefined, updatedAt: now };
+                case 'recording':
+                    if (!this.isLive(output)) {
+                        return { ...output, status: 'active', startedAt: output.startedAt || now, updatedAt: now };
+                    }
+                    // Time to go live counts from the start of the recording
+                    return output.status === 'starting' ? { ...output, updatedAt: now } : output;
+                case 'completed':
+                case 'cancelled':
+                    return output.status === 'failed' || output.status === 'stopped'
+                        ? output
+                        : { ...output, status: 'stopped', stoppedAt: now, updatedAt: now };
+                case 'failed':
+                    return output.status === 'failed' || output.status === 'stopped'
+                        ? output
+                        : { ...output, status: 'failed', stoppedAt: now, updatedAt: now };
+                default:
+                    return output;
+            }
+        });
+    }
+
+    // What the FFmpeg node needs to open the outputs. Live outputs are left
+    // out while they are still published from another node.
+    toNodeTargets(outputs: RecordingOutput[], includeLive: boolean): Array<RecordingOutputTarget & { id: string }> {
+        return outputs
+            .filter(output => includeLive || !this.isLive(output))
+            .map(output => ({
+                id: output.id,
+                type: output.type,
+                ...(output.url && { url: output.url }),
+                ...(output.streamKey && { streamKey: output.streamKey }),
+                ...(output.passphrase && { passphrase: output.passphrase })
+            }));
+    }
+
+    // Stream keys and passphrases publish to the CDN - they stay out of API responses
+    redact(outputs: RecordingOutput[] | undefined): RecordingOutput[] | undefined {
+        return outputs?.map(({ streamKey, passphrase, ...output }) => ({
+            ...output,
+            ...(output.url && { url: this.stripCredentials(output.url) })
+        }));
+    }
+
+    // The job as it may leave the orchestrator - in API responses, history and WebSocket messages
+    redactJob(job: DistributedRecordingJob): DistributedRecordingJob {
+        return job.outputs ? { ...job, outputs: this.redact(job.outputs) } : job;
+    }
+
+    private stripCredentials(url: string): string {
+        try {
+            const parsed = new URL(url);
+            if (!parsed.username && !parsed.password) return url;
+
+            parsed.username = '';
+            parsed.password = '';
+            return parsed.toString();
+        } catch {
+            return url;
+        }
+    }
+}
@@ -0,0 +1,39 @@
+// src/models/RecordingPause.ts
+import {
+    DistributedRecordingJob,
+    JobPause,
+    JobStatus
+} from '../types/interfaces';
+
+export class RecordingPauseModel {
+    getOpen(job: DistributedRecordingJob): JobPause | undefined {
+        const last = job.pauses?.[job.pauses.length - 1];
+        return last && !last.resumedAt ? last : undefined;
+    }
+
+    open(job: DistributedRecordingJob, pause: Omit<JobPause, 'pausedAt' | 'resumedAt'>): JobPause[] {
+        return [...(job.pauses || []), { ...pause, pausedAt: Date.now() }];
+    }
+
+    setForwardingSuspended(job: DistributedRecordingJob, forwardingSuspended: boolean): JobPause[] | undefined {
+        const open = this.getOpen(job);
+        return job.pauses?.map(pause => pause === open ? { ...pause, forwardingSuspended } : pause);
+    }
+
+    // The open pause ends when the job records again or ends. A failover
+    // keeps it open - the new node starts paused.
+    followJobStatus(pauses: JobPause[] | undefined, status: JobStatus): JobPause[] | undefined {
+        if (!pauses || !['recording', 'completed', 'failed', 'cancelled'].includes(status)) return pauses;
+
+        const now = Date.now();
+        return pauses.map(pause => pause.resumedAt ? pause : { ...pause, resumedAt: now });
+    }
+
+    // Paused time up to the given moment, the open pause included
+    getPausedDuration(job: DistributedRecordingJob, until: number = Date.now()): number {
+        return (job.pauses || []).reduce(
+            (total, pause) => total + Math.max(0, Math.min(pause.resumedAt || until, until) - pause.pausedAt),
+            0
+        );
+    }
+}
@@ -0,0 +1,120 @@
+// src/models/RecordingSegment.ts
+import {
+    DistributedRecordingJob,
+    RecordingSegment,
+    SegmentReason,
+    SegmentStatus
+} from '../types/interfaces';
+import { Logger } from '../utils/Logger';
+
+export class RecordingSegmentModel {
+    private logger: Logger;
+
+    constructor() {
+        this.logger = new Logger('RecordingSegmentModel');
+    }
+
+    // Open a new segment for the node the job is being assigned to
+    begin(job: DistributedRecordingJob, ffmpegNodeId: string, reason: SegmentReason): RecordingSegment {
+        const segments = job.segments || [];
+        const segment: RecordingSegment = {
+            index: segments.length,
+            ffmpegNodeId,
+            reason,
+            status: 'starting',
+            startedAt: Date.now()
+        };
+
+        job.segments = [...segments, segment];
+
+        this.logger.debug(`Segment ${segment.index} opened for job ${job.jobId}`, { ffmpegNodeId, reason });
+
+        return segment;
+    }
+
+    // The segment recording on the job's current node
+    getActive(job: DistributedRecordingJob): RecordingSegment | undefined {
+        const segments = job.segments || [];
+
+        for (let i = segments.length - 1; i >= 0; i--) {
+            if (segments[i]!.ffmpegNodeId === job.ffmpegNodeId) {
+                return segments[i];
+            }
+        }
+
+        return undefined;
+    }
+
+    get(job: DistributedRecordingJob, index: number): RecordingSegment | undefined {
+        return (job.segments || []).find(segment => segment.index === index);
+    }
+
+    // Events from nodes that predate segments carry no index - they are
+    // about the active segment
+    resolveIndex(job: DistributedRecordingJob, data: Record<string, any>): number | undefined {
+        if (typeof data.segmentIndex === 'number') {
+            return data.segmentIndex;
+        }
+
+        return this.getActive(job)?.index;
+    }
+
+    update(
+        job: DistributedRecordingJob,
+        index: number,
+        status: SegmentStatus,
+        changes: Partial<RecordingSegment> = {}
+    ): DistributedRecordingJob {
+        const isFinal = status === 'completed' || status === 'failed';
+
+        return {
+            ...job,
+            segments: (job.segments || []).map(segment =>
+                segment.index === index
+                    ? {
+                        ...segment,
+                        ...changes,
+                        status,
+                        ...(isFinal && !segment.endedAt && { endedAt: changes.endedAt || Date.now() })
+                    }
+                    : segment
+            )
+        };
+    }
+
+    // A segment that is no longer the active one
+    isSuperseded(job: DistributedRecordingJob, index: number): boolean {
+        const active = this.getActive(job);
+        return active !== undefined && index < active.index;
+    }
+
+    // Stitching needs every segment finished and more than one with output
+    isReadyToStitch(job: DistributedRecordingJob): boolean {
+        const segments = job.segments || [];
+
+        return segments.length > 1 &&
+            segments.every(segment => segment.status === 'completed' || segment.status === 'failed') &&
+            this.getStitchableSegments(job).length > 1;
+    }
+
+    // The job's output file won't change anymore: every segment has finished
+    // and, when there was more than one to join, they were stitched
+    hasFinalOutput(job: DistributedRecordingJob): boolean {
+        if (job.status !== 'completed' || !job.outputPath) {
+            return false;
+        }
+
+        const segments = job.segments || [];
+        if (!segments.every(segment => segment.status === 'completed' || segment.status === 'failed')) {
+            return false;
+        }
+
+        return this.getStitchableSegments(job).length <= 1 || job.stitching?.status === 'completed';
+    }
+
+    getStitchableSegments(job: DistributedRecordingJob): RecordingSegment[] {
+        return (job.segments || [])
+            .filter(segment => segment.status === 'completed' && segment.outputPath)
+            .sort((a, b) => a.index - b.index);
+    }
+}
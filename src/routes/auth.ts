@@ -0,0 +1,25 @@
+import { Router } from 'express';
+import { AuthController } from '../controllers/AuthController';
+import { AuthService } from '../services/AuthService';
+import { authorize } from '../middleware/AuthMiddleware';
+
+const router = Router();
+
+// Controller is bound to the shared service graph built by the app
+let authController: AuthController;
+
+// Initialize route dependencies
+export const initializeAuthRoutes = (authService: AuthService) => {
+    authController = new AuthController(authService);
+};
+
+// Any API key can be exchanged for a token carrying the same principal
+router.post('/token', authorize({ node: true, service: true, operator: 'viewer' }), (req, res) => authController.issueToken(req, res));
+
+// Key management
+router.get('/keys', authorize({ operator: 'admin' }), (req, res) => authController.listApiKeys(req, res));
+router.post('/keys', authorize({ operator: 'admin' }), (req, res) => authController.createApiKey(req, res));
+router.post('/keys/:keyId/rotate', authorize({ operator: 'admin' }), (req, res) => authController.rotateApiKey(req, res));
+router.delete('/keys/:keyId', authorize({ operator: 'admin' }), (req, res) => authController.revokeApiKey(req, res));
+
+export default router;
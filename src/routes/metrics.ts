@@ -0,0 +1,23 @@
+import { Router } from 'express';
+import { MetricsController } from '../controllers/MetricsController';
+import { OrchestrationService } from '../services/OrchestrationService';
+import { authorize } from '../middleware/AuthMiddleware';
+
+const router = Router();
+
+// Controller is bound to the shared service graph built by the app
+let metricsController: MetricsController;
+
+// Initialize route dependencies
+export const initializeMetricsRoutes = (orchService: OrchestrationService) => {
+    metricsController = new MetricsController(orchService);
+};
+
+const viewer = authorize({ operator: 'viewer' });
+
+router.get('/', viewer, (req, res) => metricsController.getSystemMetrics(req, res));
+router.get('/regions/:region', viewer, (req, res) => metricsController.getRegionalMetrics(req, res));
+router.get('/history', viewer, (req, res) => metricsController.getHistoricalMetrics(req, res));
+router.get('/performance', viewer, (req, res) => metricsController.getPerformanceStats(req, res));
+
+export default router;
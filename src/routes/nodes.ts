@@ -1,22 +1,38 @@
 import { Router } from 'express';
 import { NodesController } from '../controllers/NodesController';
 import { OrchestrationService } from '../services/OrchestrationService';
+import { authorize } from '../middleware/AuthMiddleware';
 
 const router = Router();
-const orchestrationService = new OrchestrationService();
-const nodesController = new NodesController(orchestrationService);
+
+// Controller is bound to the shared service graph built by the app
+let nodesController: NodesController;
+
+// Initialize route dependencies
+export const initializeNodeRoutes = (orchService: OrchestrationService) => {
+    nodesController = new NodesController(orchService);
+};
+
+const viewer = authorize({ operator: 'viewer' });
+const operator = authorize({ operator: 'operator' });
 
 // Node registration
-router.post('/room-servers/register', (req, res) => nodesController.registerRoomServer(req, res));
-router.post('/ffmpeg-nodes/register', (req, res) => nodesController.registerFFmpegNode(req, res));
+router.post('/room-servers/register', authorize({ node: true, nodeIdField: 'serverId' }), (req, res) => nodesController.registerRoomServer(req, res));
+router.post('/ffmpeg-nodes/register', authorize({ node: true }), (req, res) => nodesController.registerFFmpegNode(req, res));
 
 // Heartbeats
-router.post('/room-servers/heartbeat', (req, res) => nodesController.roomServerHeartbeat(req, res));
-router.post('/ffmpeg-nodes/heartbeat', (req, res) => nodesController.ffmpegNodeHeartbeat(req, res));
+router.post('/room-servers/heartbeat', authorize({ node: true, nodeIdField: 'serverId' }), (req, res) => nodesController.roomServerHeartbeat(req, res));
+router.post('/ffmpeg-nodes/heartbeat', authorize({ node: true, nodeIdField: 'nodeId' }), (req, res) => nodesController.ffmpegNodeHeartbeat(req, res));
+
+// Node management
+router.get('/', viewer, (req, res) => nodesController.listNodes(req, res));
+router.get('/ports/leases', viewer, (req, res) => nodesController.getPortLeases(req, res));
+router.get('/:nodeId', viewer, (req, res) => nodesController.getNodeStatus(req, res));
+router.delete('/:nodeId', operator, (req, res) => nodesController.removeNode(req, res));
 
-// Node management (no auth required for simplified deployment)
-router.get('/', (req, res) => nodesController.listNodes(req, res));
-router.get('/:nodeId', (req, res) => nodesController.getNodeStatus(req, res));
-router.delete('/:nodeId', (req, res) => nodesController.removeNode(req, res));
+// Maintenance
+router.post('/:nodeId/cordon', operator, (req, res) => nodesController.cordonNode(req, res));
+router.post('/:nodeId/uncordon', operator, (req, res) => nodesController.uncordonNode(req, res));
+router.post('/:nodeId/drain', operator, (req, res) => nodesController.drainNode(req, res));
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,29 @@
+import { Router, Request, Response } from 'express';
+import { PrometheusService } from '../services/PrometheusService';
+import { authorize } from '../middleware/AuthMiddleware';
+import { PROMETHEUS_CONTENT_TYPE } from '../utils/Prometheus';
+import { Logger } from '../utils/Logger';
+
+const router = Router();
+const logger = new Logger('PrometheusRoute');
+
+// Bound to the app's PrometheusService during initialization
+let prometheusService: PrometheusService;
+
+// Initialize route dependencies
+export const initializePrometheusRoutes = (service: PrometheusService) => {
+    prometheusService = service;
+};
+
+// Prometheus scrape endpoint - configure the scrape job with a viewer key as bearer token
+router.get('/', authorize({ operator: 'viewer' }), (req: Request, res: Response) => {
+    try {
+        res.set('Content-Type', PROMETHEUS_CONTENT_TYPE);
+        res.send(prometheusService.render());
+    } catch (error) {
+        logger.error('Failed to render metrics:', error);
+        res.status(500).send('# failed to render metrics\n');
+    }
+});
+
+export default router;
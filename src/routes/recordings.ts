@@ -1,19 +1,55 @@
 import { Router } from 'express';
 import { RecordingController } from '../controllers/RecordingController';
 import { OrchestrationService } from '../services/OrchestrationService';
+import { ArtifactService } from '../services/ArtifactService';
+import { PostProcessingService } from '../services/PostProcessingService';
+import { authorize } from '../middleware/AuthMiddleware';
+import { verifyNodeSignature } from '../middleware/SignatureMiddleware';
 
 const router = Router();
-const orchestrationService = new OrchestrationService();
-const recordingController = new RecordingController(orchestrationService);
 
-// Recording management routes (no auth required)
-router.post('/start', (req, res) => recordingController.startRecording(req, res));
-router.post('/:jobId/stop', (req, res) => recordingController.stopRecording(req, res));
-router.get('/:jobId/status', (req, res) => recordingController.getRecordingStatus(req, res));
-router.get('/active', (req, res) => recordingController.listActiveRecordings(req, res));
-router.get('/history', (req, res) => recordingController.getRecordingHistory(req, res));
+// Controller is bound to the shared service graph built by the app
+let recordingController: RecordingController;
+
+// Initialize route dependencies
+export const initializeRecordingRoutes = (
+    orchService: OrchestrationService,
+    artifactService: ArtifactService,
+    postProcessingService: PostProcessingService
+) => {
+    recordingController = new RecordingController(orchService, artifactService, postProcessingService);
+};
+
+// Room servers drive recordings; operators can step in
+const manage = authorize({ service: true, operator: 'operator' });
+const read = authorize({ service: true, operator: 'viewer' });
+
+// Recording management routes
+router.post('/start', manage, (req, res) => recordingController.startRecording(req, res));
+router.post('/composite/start', manage, (req, res) => recordingController.startCompositeRecording(req, res));
+router.post('/:jobId/stop', manage, (req, res) => recordingController.stopRecording(req, res));
+router.post('/:jobId/cancel', manage, (req, res) => recordingController.cancelRecording(req, res));
+router.post('/:jobId/pause', manage, (req, res) => recordingController.pauseRecording(req, res));
+router.post('/:jobId/resume', manage, (req, res) => recordingController.resumeRecording(req, res));
+router.post('/:jobId/migrate', authorize({ operator: 'operator' }), (req, res) => recordingController.migrateRecording(req, res));
+router.get('/:jobId/status', read, (req, res) => recordingController.getRecordingStatus(req, res));
+router.get('/:jobId/audit', read, (req, res) => recordingController.getRecordingAudit(req, res));
+router.get('/:jobId/outputs', read, (req, res) => recordingController.listRecordingOutputs(req, res));
+router.post('/:jobId/outputs/:outputId/restart', manage, (req, res) => recordingController.restartRecordingOutput(req, res));
+router.get('/active', read, (req, res) => recordingController.listActiveRecordings(req, res));
+router.get('/history', read, (req, res) => recordingController.getRecordingHistory(req, res));
+router.get('/queue', read, (req, res) => recordingController.getQueue(req, res));
+
+// Artifacts - download links carry their own signature, so the LMS needs no credentials to follow them
+router.get('/:jobId/artifacts', read, (req, res) => recordingController.listRecordingArtifacts(req, res));
+router.get('/:jobId/artifacts/:artifactId/download', (req, res) => recordingController.downloadRecordingArtifact(req, res));
+
+// Post-processing steps run once the recording completed
+router.get('/:jobId/post-processing', read, (req, res) => recordingController.getPostProcessing(req, res));
+router.post('/:jobId/post-processing/:stepId/retry', authorize({ operator: 'operator' }), (req, res) => recordingController.retryPostProcessingStep(req, res));
 
 // Event handling (called by FFmpeg nodes)
-router.post('/events', (req, res) => recordingController.handleRecordingEvent(req, res));
+router.post('/events', authorize({ node: true }), verifyNodeSignature, (req, res) => recordingController.handleRecordingEvent(req, res));
+router.post('/post-processing/events', authorize({ node: true }), verifyNodeSignature, (req, res) => recordingController.handlePostProcessingEvent(req, res));
 
 export default router;
\ No newline at end of file
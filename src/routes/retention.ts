@@ -0,0 +1,31 @@
+import { Router } from 'express';
+import { RetentionController } from '../controllers/RetentionController';
+import { RetentionService } from '../services/RetentionService';
+import { authorize } from '../middleware/AuthMiddleware';
+
+const router = Router();
+
+// Controller is bound to the shared service graph built by the app
+let retentionController: RetentionController;
+
+// Initialize route dependencies
+export const initializeRetentionRoutes = (retentionService: RetentionService) => {
+    retentionController = new RetentionController(retentionService);
+};
+
+// Policies and sweeps delete recordings - admins only
+router.get('/policies', authorize({ operator: 'operator' }), (req, res) => retentionController.listPolicies(req, res));
+router.post('/policies', authorize({ operator: 'admin' }), (req, res) => retentionController.createPolicy(req, res));
+router.patch('/policies/:policyId', authorize({ operator: 'admin' }), (req, res) => retentionController.updatePolicy(req, res));
+router.delete('/policies/:policyId', authorize({ operator: 'admin' }), (req, res) => retentionController.deletePolicy(req, res));
+
+// Legal holds
+router.get('/holds', authorize({ operator: 'operator' }), (req, res) => retentionController.listHolds(req, res));
+router.put('/holds/:jobId', authorize({ operator: 'admin' }), (req, res) => retentionController.placeHold(req, res));
+router.delete('/holds/:jobId', authorize({ operator: 'admin' }), (req, res) => retentionController.releaseHold(req, res));
+
+// Sweeps
+router.get('/report', authorize({ operator: 'operator' }), (req, res) => retentionController.getReport(req, res));
+router.post('/sweep', authorize({ operator: 'admin' }), (req, res) => retentionController.runSweep(req, res));
+
+export default router;
@@ -2,8 +2,16 @@
 import { Router, Request, Response } from 'express';
 import { AutoScalingService } from '../services/AutoScalingService';
 import { OrchestrationService } from '../services/OrchestrationService';
+import { AlertNotificationService } from '../services/AlertNotificationService';
+import { ScalingHistoryService } from '../services/ScalingHistoryService';
+import { ProvisioningService } from '../services/ProvisioningService';
+import { ForecastService } from '../services/ForecastService';
+import { CapacityReservationService } from '../services/CapacityReservationService';
 import { Logger } from '../utils/Logger';
 import { ErrorUtils } from '../utils/NetworkUtils';
+import { authorize } from '../middleware/AuthMiddleware';
+import { config } from '../config/config';
+import Joi from 'joi';
 
 const router = Router();
 const logger = new Logger('ScalingRoutes');
@@ -11,15 +19,36 @@ const logger = new Logger('ScalingRoutes');
 // Initialize services (these would be injected in real implementation)
 let orchestrationService: OrchestrationService;
 let autoScalingService: AutoScalingService;
+let alertNotificationService: AlertNotificationService;
+let scalingHistoryService: ScalingHistoryService;
+let provisioningService: ProvisioningService;
+let forecastService: ForecastService;
+let reservationService: CapacityReservationService;
 
 // Initialize route dependencies
-export const initializeScalingRoutes = (orchService: OrchestrationService, autoService: AutoScalingService) => {
+export const initializeScalingRoutes = (
+    orchService: OrchestrationService,
+    autoService: AutoScalingService,
+    alertService: AlertNotificationService,
+    historyService: ScalingHistoryService,
+    provService: ProvisioningService,
+    fcService: ForecastService,
+    rsvService: CapacityReservationService
+) => {
     orchestrationService = orchService;
     autoScalingService = autoService;
+    alertNotificationService = alertService;
+    scalingHistoryService = historyService;
+    provisioningService = provService;
+    forecastService = fcService;
+    reservationService = rsvService;
 };
 
+const viewer = authorize({ operator: 'viewer' });
+const operator = authorize({ operator: 'operator' });
+
 // Get scaling recommendations
-router.get('/recommendations', async (req: Request, res: Response) => {
+router.get('/recommendations', viewer, async (req: Request, res: Response) => {
     try {
         if (!autoScalingService) {
             res.status(503).json({
@@ -54,7 +83,7 @@ router.get('/recommendations', async (req: Request, res: Response) => {
 });
 
 // Get system alerts
-router.get('/alerts', async (req: Request, res: Response) => {
+router.get('/alerts', viewer, async (req: Request, res: Response) => {
     try {
         if (!autoScalingService) {
             res.status(503).json({
@@ -88,8 +117,87 @@ router.get('/alerts', async (req: Request, res: Response) => {
     }
 });
 
+// Alerts currently tracked for Slack and email notifications
+router.get('/alerts/active', viewer, async (req: Request, res: Response) => {
+    try {
+        res.json({
+            success: true,
+            data: {
+                channels: alertNotificationService.getChannels(),
+                alerts: alertNotificationService.getActiveAlerts()
+            },
+            timestamp: Date.now()
+        });
+
+    } catch (error) {
+        logger.error('Failed to get active alerts:', error);
+
+        res.status(500).json({
+            success: false,
+            error: ErrorUtils.getErrorMessage(error),
+            timestamp: Date.now()
+        });
+    }
+});
+
+// Notifications sent to Slack and email, most recent first
+router.get('/alerts/notifications', viewer, async (req: Request, res: Response) => {
+    try {
+        const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+
+        res.json({
+            success: true,
+            data: alertNotificationService.getHistory(limit),
+            timestamp: Date.now()
+        });
+
+    } catch (error) {
+        logger.error('Failed to get alert notifications:', error);
+
+        res.status(500).json({
+            success: false,
+            error: ErrorUtils.getErrorMessage(error),
+            timestamp: Date.now()
+        });
+    }
+});
+
+// Send a test notification to every configured channel
+router.post('/alerts/test', operator, async (req: Request, res: Response) => {
+    try {
+        if (alertNotificationService.getChannels().length === 0) {
+            res.status(400).json({
+                success: false,
+                error: 'No alert channels configured'
+            });
+            return;
+        }
+
+        const results = await alertNotificationService.sendTestNotification();
+
+        logger.info('Test alert notification sent', {
+            results: results.map(result => `${result.channel}:${result.status}`)
+        });
+
+        res.json({
+            success: results.every(result => result.status === 'sent'),
+            data: results,
+            timestamp: Date.now()
+        });
+
+    } catch (error) {
+        logger.error('Failed to send test alert notification:', error);
+
+        res.status(500).json({
+            success: false,
+            error: ErrorUtils.getErrorMessage(error),
+            timestamp: Date.now()
+        });
+    }
+});
+
 // Get performance metrics
-router.get('/performance', async (req: Request, res: Response) => {
+router.get('/performance', viewer, async (req: Request, res: Response) => {
     try {
         if (!autoScalingService) {
             res.status(503).json({
@@ -119,7 +227,7 @@ router.get('/performance', async (req: Request, res: Response) => {
 });
 
 // Get scaling statistics
-router.get('/statistics', async (req: Request, res: Response) => {
+router.get('/statistics', viewer, async (req: Request, res: Response) => {
     try {
         if (!autoScalingService) {
             res.status(503).json({
@@ -149,7 +257,7 @@ router.get('/statistics', async (req: Request, res: Response) => {
 });
 
 // Force immediate scaling evaluation
-router.post('/evaluate', async (req: Request, res: Response) => {
+router.post('/evaluate', operator, async (req: Request, res: Response) => {
     try {
         if (!autoScalingService) {
             res.status(503).json({
@@ -161,7 +269,7 @@ router.post('/evaluate', async (req: Request, res: Response) => {
 
         logger.info('Manual scaling evaluation triggered');
 
-        const evaluation = await autoScalingService.forceEvaluation();
+        const evaluation = await autoScalingService.forceEvaluation(req.principal?.id);
 
         res.json({
             success: true,
@@ -181,7 +289,7 @@ router.post('/evaluate', async (req: Request, res: Response) => {
 });
 
 // Get node removal recommendations for specific region
-router.get('/regions/:region/removal-candidates', async (req: Request, res: Response) => {
+router.get('/regions/:region/removal-candidates', viewer, async (req: Request, res: Response) => {
     try {
         const { region } = req.params;
 
@@ -224,7 +332,7 @@ router.get('/regions/:region/removal-candidates', async (req: Request, res: Resp
 });
 
 // Get system capacity overview
-router.get('/capacity', async (req: Request, res: Response) => {
+router.get('/capacity', viewer, async (req: Request, res: Response) => {
     try {
         if (!orchestrationService) {
             res.status(503).json({
@@ -235,12 +343,17 @@ router.get('/capacity', async (req: Request, res: Response) => {
         }
 
         const metrics = orchestrationService.getSystemMetrics();
+        const reservationUsage = orchestrationService.getReservationUsage();
+        const heldBack = reservationService.getHeldBackCapacity(reservationUsage);
+        const totalHeldBack = Object.values(heldBack).reduce((sum, units) => sum + units, 0);
 
         const capacityOverview = {
             global: {
                 totalCapacity: metrics.totalCapacity,
                 currentLoad: metrics.currentLoad,
                 available: metrics.totalCapacity - metrics.currentLoad,
+                reserved: totalHeldBack,
+                availableForAdHoc: Math.max(0, metrics.totalCapacity - metrics.currentLoad - totalHeldBack),
                 utilizationPercentage: metrics.totalCapacity > 0 ?
                     Math.round((metrics.currentLoad / metrics.totalCapacity) * 100) : 0,
                 queueLength: metrics.queueLength || 0
@@ -256,12 +369,20 @@ router.get('/capacity', async (req: Request, res: Response) => {
                 capacity: data.capacity,
                 load: data.load,
                 available: data.capacity - data.load,
+                reserved: heldBack[region] || 0,
+                availableForAdHoc: Math.max(0, data.capacity - data.load - (heldBack[region] || 0)),
                 utilizationPercentage: Math.round(data.avgLoad),
                 status: data.avgLoad > 90 ? 'critical' :
                     data.avgLoad > 80 ? 'warning' :
                         data.avgLoad > 70 ? 'normal' :
                             data.avgLoad > 30 ? 'light' : 'idle'
             })),
+            // Open and upcoming windows; usage counts recordings running on each
+            reservations: reservationService.listReservations().map(reservation => ({
+                ...reservation,
+                active: reservation.startsAt <= Date.now(),
+                inUse: reservationUsage.get(reservation.id) || 0
+            })),
             timestamp: Date.now()
         };
 
@@ -281,40 +402,144 @@ router.get('/capacity', async (req: Request, res: Response) => {
     }
 });
 
-// Get scaling history (if implemented)
-router.get('/history', async (req: Request, res: Response) => {
+// Capacity reservations, earliest first
+router.get('/reservations', viewer, async (req: Request, res: Response) => {
     try {
-        const hours = parseInt(req.query.hours as string) || 24;
-        const limit = parseInt(req.query.limit as string) || 100;
-
-        // This would typically come from database
-        const scalingHistory = {
-            period: `${hours} hours`,
-            events: [
-                // Example scaling events
-                {
-                    timestamp: Date.now() - 3600000,
-                    type: 'scale_up_recommended',
-                    region: 'us-east-1',
-                    reason: 'High load: 85%',
-                    action: 'manual_intervention_required'
-                },
-                {
-                    timestamp: Date.now() - 7200000,
-                    type: 'alert_generated',
-                    level: 'warning',
-                    message: 'Queue length: 8 jobs',
-                    action: 'monitoring'
-                }
-            ],
-            summary: {
-                scaleUpRecommendations: 3,
-                scaleDownRecommendations: 1,
-                alertsGenerated: 5,
-                manualInterventionsRequired: 2
-            },
+        const region = typeof req.query.region === 'string' ? req.query.region : undefined;
+
+        res.json({
+            success: true,
+            data: reservationService.listReservations(region)
+        });
+
+    } catch (error) {
+        logger.error('Failed to list capacity reservations:', error);
+
+        res.status(500).json({
+            success: false,
+            error: ErrorUtils.getErrorMessage(error),
             timestamp: Date.now()
-        };
+        });
+    }
+});
+
+// Reserve load units of a region for a time window; over-subscription is rejected
+router.post('/reservations', operator, async (req: Request, res: Response) => {
+    try {
+        const schema = Joi.object({
+            name: Joi.string().max(255).required(),
+            region: Joi.string().required(),
+            startsAt: Joi.number().integer().min(0).required(),
+            endsAt: Joi.number().integer().greater(Joi.ref('startsAt')).required(),
+            loadUnits: Joi.number().integer().min(1).required(),
+            scheduleId: Joi.string()
+        });
+
+        const { error, value } = schema.validate(req.body);
+        if (error) {
+            res.status(400).json({
+                success: false,
+                error: 'Validation error',
+                details: error.details.map(d => d.message)
+            });
+            return;
+        }
+
+        // Reservations are checked against the FFmpeg nodes registered in the region now
+        const regionCapacity = orchestrationService.getSystemMetrics().byRegion[value.region]?.capacity || 0;
+
+        const reserved = reservationService.getPeakReserved(value.region, value.startsAt, value.endsAt);
+        if (reserved + value.loadUnits > regionCapacity) {
+            res.status(409).json({
+                success: false,
+                error: 'Reservation would over-subscribe the region',
+                details: { region: value.region, capacity: regionCapacity, reserved, requested: value.loadUnits }
+            });
+            return;
+        }
+
+        const reservation = await reservationService.createReservation(value, regionCapacity, req.principal?.id);
+
+        res.status(201).json({
+            success: true,
+            message: 'Capacity reserved',
+            data: reservation
+        });
+
+    } catch (error) {
+        logger.error('Failed to create capacity reservation:', error);
+
+        res.status(500).json({
+            success: false,
+            error: ErrorUtils.getErrorMessage(error),
+            timestamp: Date.now()
+        });
+    }
+});
+
+// Cancel a reservation - recordings running on it are not affected
+router.delete('/reservations/:reservationId', operator, async (req: Request, res: Response) => {
+    try {
+        const { reservationId } = req.params;
+
+        if (!reservationService.getReservation(reservationId!)) {
+            res.status(404).json({
+                success: false,
+                error: 'Capacity reservation not found'
+            });
+            return;
+        }
+
+        await reservationService.deleteReservation(reservationId!);
+
+        logger.info('Capacity reservation deleted', { reservationId, deletedBy: req.principal?.id });
+
+        res.json({
+            success: true,
+            message: 'Capacity reservation deleted'
+        });
+
+    } catch (error) {
+        logger.error('Failed to delete capacity reservation:', error);
+
+        res.status(500).json({
+            success: false,
+            error: ErrorUtils.getErrorMessage(error),
+            timestamp: Date.now()
+        });
+    }
+});
+
+// Get scaling history - recommendations, alert transitions and manual evaluations
+router.get('/history', viewer, async (req: Request, res: Response) => {
+    try {
+        const schema = Joi.object({
+            hours: Joi.number().integer().min(1).max(24 * 365).default(24),
+            limit: Joi.number().integer().min(1).max(1000).default(100),
+            type: Joi.string().valid(
+                'scale_up_recommended',
+                'scale_down_recommended',
+                'alert_raised',
+                'alert_escalated',
+                'alert_resolved',
+                'manual_evaluation',
+                'scale_up_executed',
+                'scale_down_executed'
+            ),
+            region: Joi.string()
+        });
+
+        const { error, value } = schema.validate(req.query);
+        if (error) {
+            res.status(400).json({
+                success: false,
+                error: 'Validation error',
+                details: error.details.map(d => d.message)
+            });
+            return;
+        }
+
+        const scalingHistory = await scalingHistoryService.getHistory(value);
 
         res.json({
             success: true,
@@ -332,18 +557,198 @@ router.get('/history', async (req: Request, res: Response) => {
     }
 });
 
+// Per-region capacity forecast with confidence bounds and upcoming peaks
+router.get('/forecast', viewer, async (req: Request, res: Response) => {
+    try {
+        if (!forecastService.isEnabled()) {
+            res.status(503).json({
+                success: false,
+                error: 'Load forecasting is disabled'
+            });
+            return;
+        }
+
+        const schema = Joi.object({
+            hours: Joi.number().integer().min(1).max(168).default(config.forecast.horizonHours),
+            region: Joi.string()
+        });
+
+        const { error, value } = schema.validate(req.query);
+        if (error) {
+            res.status(400).json({
+                success: false,
+                error: 'Validation error',
+                details: error.details.map(d => d.message)
+            });
+            return;
+        }
+
+        res.json({
+            success: true,
+            data: {
+                trainedAt: forecastService.getTrainedAt(),
+                leadTimeMinutes: config.forecast.leadTimeMinutes,
+                timezone: config.forecast.timezone,
+                regions: forecastService.getForecast(value.hours, value.region)
+            },
+            timestamp: Date.now()
+        });
+
+    } catch (error) {
+        logger.error('Failed to get capacity forecast:', error);
+
+        res.status(500).json({
+            success: false,
+            error: ErrorUtils.getErrorMessage(error),
+            timestamp: Date.now()
+        });
+    }
+});
+
+// Refit the forecast models now instead of at the next refresh
+router.post('/forecast/refresh', operator, async (req: Request, res: Response) => {
+    try {
+        if (!forecastService.isEnabled()) {
+            res.status(503).json({
+                success: false,
+                error: 'Load forecasting is disabled'
+            });
+            return;
+        }
+
+        await forecastService.refresh();
+
+        res.json({
+            success: true,
+            message: 'Forecast models refitted',
+            data: { trainedAt: forecastService.getTrainedAt() }
+        });
+
+    } catch (error) {
+        logger.error('Failed to refresh capacity forecast:', error);
+
+        res.status(500).json({
+            success: false,
+            error: ErrorUtils.getErrorMessage(error),
+            timestamp: Date.now()
+        });
+    }
+});
+
+// Nodes started through the provisioning provider
+router.get('/provisioning', viewer, async (req: Request, res: Response) => {
+    try {
+        const includeFinished = req.query.includeFinished === 'true';
+
+        res.json({
+            success: true,
+            data: {
+                provider: provisioningService.getProviderName(),
+                autoDeploymentEnabled: autoScalingService.isAutoDeploymentEnabled(),
+                nodes: await provisioningService.listNodes(includeFinished)
+            },
+            timestamp: Date.now()
+        });
+
+    } catch (error) {
+        logger.error('Failed to list provisioned nodes:', error);
+
+        res.status(500).json({
+            success: false,
+            error: ErrorUtils.getErrorMessage(error),
+            timestamp: Date.now()
+        });
+    }
+});
+
+// Provision a node by hand, outside the auto-scaling cooldown
+router.post('/provisioning', operator, async (req: Request, res: Response) => {
+    try {
+        const schema = Joi.object({
+            region: Joi.string().required()
+        });
+
+        const { error, value } = schema.validate(req.body);
+        if (error) {
+            res.status(400).json({
+                success: false,
+                error: 'Validation error',
+                details: error.details.map(d => d.message)
+            });
+            return;
+        }
+
+        const node = await provisioningService.provisionNode(
+            value.region,
+            `Requested by ${req.principal?.id || 'operator'}`
+        );
+
+        res.status(202).json({
+            success: true,
+            message: 'Node provisioning started - it is used once it registers',
+            data: node
+        });
+
+    } catch (error) {
+        logger.error('Failed to provision node:', error);
+
+        res.status(500).json({
+            success: false,
+            error: ErrorUtils.getErrorMessage(error),
+            timestamp: Date.now()
+        });
+    }
+});
+
+// Drain a provisioned node and remove it once drained
+router.post('/provisioning/:provisionId/remove', operator, async (req: Request, res: Response) => {
+    try {
+        const { provisionId } = req.params;
+
+        if (!provisioningService.getNode(provisionId!)) {
+            res.status(404).json({
+                success: false,
+                error: 'Provisioned node not found'
+            });
+            return;
+        }
+
+        const node = await provisioningService.removeNode(
+            provisionId!,
+            `Removal requested by ${req.principal?.id || 'operator'}`
+        );
+
+        res.status(202).json({
+            success: true,
+            message: 'Node is draining and will be removed once drained',
+            data: node
+        });
+
+    } catch (error) {
+        logger.error('Failed to remove provisioned node:', error);
+
+        res.status(500).json({
+            success: false,
+            error: ErrorUtils.getErrorMessage(error),
+            timestamp: Date.now()
+        });
+    }
+});
+
 // Health check for scaling service
-router.get('/health', async (req: Request, res: Response) => {
+router.get('/health', viewer, async (req: Request, res: Response) => {
     try {
         const health = {
             autoScalingService: autoScalingService ? 'available' : 'unavailable',
             orchestrationService: orchestrationService ? 'available' : 'unavailable',
-            mode: 'monitoring_only',
+            mode: autoScalingService?.isAutoDeploymentEnabled() ? 'auto_scaling' : 'monitoring_only',
+            provider: provisioningService?.getProviderName() || 'none',
             features: {
                 recommendations: true,
                 alerts: true,
                 performanceMetrics: true,
-                autoDeployment: false,
+                autoDeployment: autoScalingService?.isAutoDeploymentEnabled() || false,
+                predictiveScaling: forecastService?.isEnabled() || false,
                 manualScaling: true
             },
             timestamp: Date.now()
@@ -0,0 +1,27 @@
+import { Router } from 'express';
+import { ScheduleController } from '../controllers/ScheduleController';
+import { ScheduleService } from '../services/ScheduleService';
+import { authorize } from '../middleware/AuthMiddleware';
+
+const router = Router();
+
+// Controller is bound to the shared service graph built by the app
+let scheduleController: ScheduleController;
+
+// Initialize route dependencies
+export const initializeScheduleRoutes = (scheduleService: ScheduleService) => {
+    scheduleController = new ScheduleController(scheduleService);
+};
+
+// LMS integrations and room servers schedule recordings like they start them
+const manage = authorize({ service: true, operator: 'operator' });
+const read = authorize({ service: true, operator: 'viewer' });
+
+router.get('/', read, (req, res) => scheduleController.listSchedules(req, res));
+router.post('/', manage, (req, res) => scheduleController.createSchedule(req, res));
+router.get('/:scheduleId', read, (req, res) => scheduleController.getSchedule(req, res));
+router.patch('/:scheduleId', manage, (req, res) => scheduleController.updateSchedule(req, res));
+router.delete('/:scheduleId', manage, (req, res) => scheduleController.deleteSchedule(req, res));
+router.get('/:scheduleId/runs', read, (req, res) => scheduleController.getScheduleRuns(req, res));
+
+export default router;
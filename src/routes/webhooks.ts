@@ -0,0 +1,30 @@
+import { Router } from 'express';
+import { WebhookController } from '../controllers/WebhookController';
+import { WebhookService } from '../services/WebhookService';
+import { authorize } from '../middleware/AuthMiddleware';
+
+const router = Router();
+
+// Controller is bound to the shared service graph built by the app
+let webhookController: WebhookController;
+
+// Initialize route dependencies
+export const initializeWebhookRoutes = (webhookService: WebhookService) => {
+    webhookController = new WebhookController(webhookService);
+};
+
+// Delivery history and dead letters
+router.get('/deliveries', authorize({ operator: 'operator' }), (req, res) => webhookController.getDeliveries(req, res));
+router.get('/deliveries/:deliveryId', authorize({ operator: 'operator' }), (req, res) => webhookController.getDelivery(req, res));
+router.post('/deliveries/:deliveryId/redeliver', authorize({ operator: 'operator' }), (req, res) => webhookController.redeliver(req, res));
+
+// Subscriptions - changing them exposes or replaces signing secrets
+router.get('/', authorize({ operator: 'operator' }), (req, res) => webhookController.listSubscriptions(req, res));
+router.post('/', authorize({ operator: 'admin' }), (req, res) => webhookController.createSubscription(req, res));
+router.get('/:subscriptionId', authorize({ operator: 'operator' }), (req, res) => webhookController.getSubscription(req, res));
+router.patch('/:subscriptionId', authorize({ operator: 'admin' }), (req, res) => webhookController.updateSubscription(req, res));
+router.delete('/:subscriptionId', authorize({ operator: 'admin' }), (req, res) => webhookController.deleteSubscription(req, res));
+router.post('/:subscriptionId/rotate-secret', authorize({ operator: 'admin' }), (req, res) => webhookController.rotateSecret(req, res));
+router.post('/:subscriptionId/test', authorize({ operator: 'operator' }), (req, res) => webhookController.sendTestEvent(req, res));
+
+export default router;
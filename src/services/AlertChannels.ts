@@ -0,0 +1,113 @@
+// src/services/AlertChannels.ts
+import nodemailer, { Transporter } from 'nodemailer';
+import { Logger } from '../utils/Logger';
+import { RenderedAlert } from '../utils/AlertTemplates';
+import { AlertConfig } from '../types/interfaces';
+
+export interface AlertChannel {
+    readonly name: string;
+    send(message: RenderedAlert): Promise<void>;
+}
+
+// Slack incoming webhook
+export class SlackAlertChannel implements AlertChannel {
+    readonly name = 'slack';
+    private webhookUrl: string;
+    private channel: string | undefined;
+
+    private static readonly TIMEOUT_MS = 10000;
+
+    constructor(webhookUrl: string, channel?: string) {
+        this.webhookUrl = webhookUrl;
+        this.channel = channel;
+    }
+
+    async send(message: RenderedAlert): Promise<void> {
+        const response = await fetch(this.webhookUrl, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+                ...(this.channel && { channel: this.channel }),
+                text: message.subject,
+                attachments: [{
+                    color: message.color,
+                    fallback: message.subject,
+                    text: message.text
+                }]
+            }),
+            signal: AbortSignal.timeout(SlackAlertChannel.TIMEOUT_MS)
+        });
+
+        if (!response.ok) {
+            throw new Error(`Slack responded with HTTP ${response.status}`);
+        }
+    }
+}
+
+export class EmailAlertChannel implements AlertChannel {
+    readonly name = 'email';
+    private transporter: Transporter;
+    private from: string;
+    private recipients: string[];
+
+    constructor(emailConfig: AlertConfig['email'], recipients: string[]) {
+        const { smtp } = emailConfig;
+
+        this.transporter = nodemailer.createTransport({
+            host: smtp.host,
+            port: smtp.port,
+            secure: smtp.secure,
+            ...(smtp.user && { auth: { user: smtp.user, pass: smtp.password } })
+        });
+        this.from = emailConfig.from;
+        this.recipients = recipients;
+    }
+
+    async send(message: RenderedAlert): Promise<void> {
+        await this.transporter.sendMail({
+            from: this.from,
+            to: this.recipients.join(', '),
+            subject: message.subject,
+            text: message.text
+        });
+    }
+}
+
+// Local stand-in for a real channel - writes the rendered message to the log
+export class LogAlertChannel implements AlertChannel {
+    readonly name: string;
+    private logger: Logger;
+
+    constructor(name: string) {
+        this.name = name;
+        this.logger = new Logger(`AlertChannel:${name}`);
+    }
+
+    async send(message: RenderedAlert): Promise<void> {
+        this.logger.info(message.subject, { text: message.text });
+    }
+}
+
+// Channels that are configured well enough to send. Missing settings are logged, not fatal.
+export const createAlertChannels = (alerts: AlertConfig, logger: Logger): AlertChannel[] => {
+    const channels: AlertChannel[] = [];
+
+    if (alerts.slack.transport === 'log') {
+        channels.push(new LogAlertChannel('slack'));
+    } else if (alerts.slack.webhookUrl) {
+        channels.push(new SlackAlertChannel(alerts.slack.webhookUrl, alerts.slackChannel));
+    }
+
+    const recipients = (alerts.emailRecipients || []).map(recipient => recipient.trim()).filter(Boolean);
+    if (recipients.length > 0) {
+        if (alerts.email.transport === 'log') {
+            channels.push(new LogAlertChannel('email'));
+        } else if (alerts.email.smtp.host) {
+            channels.push(new EmailAlertChannel(alerts.email, recipients));
+        } else {
+            logger.warn('ALERT_EMAILS is set but SMTP_HOST is not - email alerts are disabled');
+        }
+    }
+
+    return channels;
+};
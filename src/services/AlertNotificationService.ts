@@ -0,0 +1,232 @@
+// src/services/AlertNotificationService.ts
+import { EventEmitter } from 'events';
+import { randomBytes } from 'crypto';
+import { Logger } from '../utils/Logger';
+import { config } from '../config/config';
+import { renderAlertNotification } from '../utils/AlertTemplates';
+import { AutoScalingService } from './AutoScalingService';
+import { AlertChannel, createAlertChannels } from './AlertChannels';
+import {
+    AlertLevel,
+    AlertNotification,
+    AlertNotificationRecord,
+    AlertTransition,
+    ScalingAlert
+} from '../types/interfaces';
+
+interface TrackedAlert {
+    alert: ScalingAlert;
+    raisedAt: number;
+    // Whether recipients know about this alert, so its resolution is worth sending
+    notified: boolean;
+}
+
+// Polls the auto-scaling alert status and notifies Slack and email when an
+// alert is raised, escalates to a higher level or resolves. Identical
+// notifications within the cooldown are suppressed, so a flapping condition
+// doesn't flood the channels. Every transition is also emitted as an
+// alertTransition event, whether or not it was sent anywhere.
+export class AlertNotificationService extends EventEmitter {
+    private logger: Logger;
+    private autoScalingService: AutoScalingService;
+    private channels: AlertChannel[];
+    private activeAlerts: Map<string, TrackedAlert> = new Map(); // alert key -> state
+    private lastSent: Map<string, number> = new Map(); // `${key}:${transition}:${level}` -> sent at
+    private history: AlertNotificationRecord[] = [];
+    private evaluationInterval: NodeJS.Timeout | null = null;
+
+    private static readonly LEVEL_RANK: Record<AlertLevel, number> = { low: 0, medium: 1, high: 2, critical: 3 };
+    private static readonly MAX_HISTORY = 200;
+
+    constructor(autoScalingService: AutoScalingService) {
+        super();
+        this.logger = new Logger('AlertNotificationService');
+        this.autoScalingService = autoScalingService;
+        this.channels = createAlertChannels(config.alerts, this.logger);
+    }
+
+    start(): void {
+        if (this.channels.length === 0) {
+            this.logger.info('No alert channels configured - Slack and email notifications are disabled');
+        }
+
+        this.evaluationInterval = setInterval(() => {
+            this.evaluate().catch(error =>
+                this.logger.error('Failed to evaluate alerts for notification:', error)
+            );
+        }, config.alerts.evaluationInterval);
+
+        this.logger.info('Alert notifications started', {
+            channels: this.channels.map(channel => channel.name),
+            minLevel: config.alerts.minLevel
+        });
+    }
+
+    stop(): void {
+        if (this.evaluationInterval) {
+            clearInterval(this.evaluationInterval);
+            this.evaluationInterval = null;
+        }
+    }
+
+    getChannels(): string[] {
+        return this.channels.map(channel => channel.name);
+    }
+
+    getActiveAlerts(): Array<ScalingAlert & { raisedAt: number; notified: boolean }> {
+        return Array.from(this.activeAlerts.values()).map(tracked => ({
+            ...tracked.alert,
+            raisedAt: tracked.raisedAt,
+            notified: tracked.notified
+        }));
+    }
+
+    // Most recent first
+    getHistory(limit: number): AlertNotificationRecord[] {
+        return this.history.slice(-limit).reverse();
+    }
+
+    // Goes to every channel regardless of level and cooldown
+    async sendTestNotification(): Promise<AlertNotificationRecord[]> {
+        const now = Date.now();
+        const notification = this.createNotification('test', {
+            key: 'test',
+            level: 'low',
+            message: 'Alert channel test',
+            action: 'None',
+            impact: 'None'
+        }, now);
+
+        return this.dispatch(notification);
+    }
+
+    async evaluate(): Promise<void> {
+        const { alerts } = this.autoScalingService.getAlertStatus() as { alerts: ScalingAlert[] };
+        const now = Date.now();
+        const currentKeys = new Set(alerts.map(alert => alert.key));
+
+        for (const alert of alerts) {
+            const tracked = this.activeAlerts.get(alert.key);
+
+            if (!tracked) {
+                const raised: TrackedAlert = { alert, raisedAt: now, notified: false };
+                this.activeAlerts.set(alert.key, raised);
+
+                const notification = this.createNotification('raised', alert, now);
+                this.emit('alertTransition', notification);
+
+                if (this.meetsMinLevel(alert.level)) {
+                    raised.notified = await this.notify(notification);
+                }
+                continue;
+            }
+
+            const previousLevel = tracked.alert.level;
+            tracked.alert = alert;
+
+            // De-escalations are tracked silently; the resolution is what matters
+            if (this.rank(alert.level) > this.rank(previousLevel)) {
+                const notification = this.createNotification('escalated', alert, tracked.raisedAt, previousLevel);
+                this.emit('alertTransition', notification);
+
+                if (this.meetsMinLevel(alert.level)) {
+                    const notified = await this.notify(notification);
+                    tracked.notified = tracked.notified || notified;
+                }
+            }
+        }
+
+        for (const [key, tracked] of this.activeAlerts) {
+            if (currentKeys.has(key)) continue;
+
+            this.activeAlerts.delete(key);
+
+            const notification = this.createNotification('resolved', tracked.alert, tracked.raisedAt);
+            this.emit('alertTransition', notification);
+
+            if (tracked.notified) {
+                await this.notify(notification);
+            }
+        }
+    }
+
+    // True when recipients have been told - by this notification or an identical one within the cooldown
+    private async notify(notification: AlertNotification): Promise<boolean> {
+        const { alert, transition } = notification;
+        const fingerprint = `${alert.key}:${transition}:${alert.level}`;
+        const lastSent = this.lastSent.get(fingerprint);
+
+        if (lastSent && notification.timestamp - lastSent < config.alerts.scalingAlertCooldown * 1000) {
+            this.record(notification, 'all', 'suppressed');
+            this.logger.debug(`Suppressed duplicate ${transition} notification for ${alert.key}`);
+            return true;
+        }
+
+        const records = await this.dispatch(notification);
+        const delivered = records.some(record => record.status === 'sent');
+
+        if (delivered) {
+            this.lastSent.set(fingerprint, notification.timestamp);
+        }
+
+        return delivered;
+    }
+
+    private async dispatch(notification: AlertNotification): Promise<AlertNotificationRecord[]> {
+        const message = renderAlertNotification(notification, config.server.environment);
+
+        const results = await Promise.allSettled(this.channels.map(channel => channel.send(message)));
+
+        return results.map((result, index) => {
+            const channel = this.channels[index]!.name;
+
+            if (result.status === 'rejected') {
+                const error = result.reason instanceof Error ? result.reason.message : String(result.reason);
+                this.logger.error(`Failed to send ${notification.transition} alert to ${channel}:`, error);
+                return this.record(notification, channel, 'failed', error);
+            }
+
+            return this.record(notification, channel, 'sent');
+        });
+    }
+
+    private createNotification(
+        transition: AlertTransition,
+        alert: ScalingAlert,
+        raisedAt: number,
+        previousLevel?: AlertLevel
+    ): AlertNotification {
+        return {
+            id: `alt_${randomBytes(8).toString('hex')}`,
+            transition,
+            alert,
+            previousLevel,
+            raisedAt,
+            timestamp: Date.now()
+        };
+    }
+
+    private record(
+        notification: AlertNotification,
+        channel: string,
+        status: AlertNotificationRecord['status'],
+        error?: string
+    ): AlertNotificationRecord {
+        const record: AlertNotificationRecord = { notification, channel, status, error, timestamp: Date.now() };
+
+        this.history.push(record);
+        if (this.history.length > AlertNotificationService.MAX_HISTORY) {
+            this.history.shift();
+        }
+
+        return record;
+    }
+
+    private meetsMinLevel(level: AlertLevel): boolean {
+        return this.rank(level) >= this.rank(config.alerts.minLevel);
+    }
+
+    private rank(level: AlertLevel): number {
+        return AlertNotificationService.LEVEL_RANK[level];
+    }
+}
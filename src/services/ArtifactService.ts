@@ -0,0 +1,216 @@
+// src/services/ArtifactService.ts
+import path from 'path';
+import { createReadStream } from 'fs';
+import { stat, unlink } from 'fs/promises';
+import { createHash, randomBytes } from 'crypto';
+import { Logger } from '../utils/Logger';
+import { Database } from '../database/Database';
+import { config } from '../config/config';
+import { OrchestrationService } from './OrchestrationService';
+import { PostProcessingModel } from '../models/PostProcessing';
+import { RecordingJobModel } from '../models/RecordingJob';
+import { ArtifactStorage, DownloadUrl, LocalArtifactStorage, createArtifactStorage } from './ArtifactStorage';
+import { ArtifactKind, DistributedRecordingJob, RecordingArtifact } from '../types/interfaces';
+
+export interface RecordingArtifactView extends RecordingArtifact {
+    download: DownloadUrl;
+}
+
+// What the FFmpeg node knows about a file it wrote, from its 'completed' event
+export interface ArtifactProbe {
+    durationMs?: number | undefined;
+    container?: string | undefined;
+    videoCodec?: string | undefined;
+    audioCodec?: string | undefined;
+}
+
+// Catalogs the files recordings produce. Once a job's output is final it is
+// measured and checksummed on the recording volume, handed to the configured
+// storage backend and registered; downloads go through expiring signed URLs.
+export class ArtifactService {
+    private logger: Logger;
+    private database: Database;
+    private orchestrationService: OrchestrationService;
+    private storage: ArtifactStorage;
+    private postProcessingModel: PostProcessingModel;
+    private jobModel: RecordingJobModel;
+    private outputDirectory: string;
+
+    private static readonly CONTENT_TYPES: Record<string, string> = {
+        mp4: 'video/mp4',
+        webm: 'video/webm',
+        mkv: 'video/x-matroska',
+        jpg: 'image/jpeg',
+        png: 'image/png',
+        m3u8: 'application/vnd.apple.mpegurl',
+        ts: 'video/mp2t',
+        mpd: 'application/dash+xml',
+        m4s: 'video/iso.segment'
+    };
+
+    constructor(database: Database, orchestrationService: OrchestrationService) {
+        this.logger = new Logger('ArtifactService');
+        this.database = database;
+        this.orchestrationService = orchestrationService;
+        this.outputDirectory = path.resolve(config.recording.outputDirectory);
+        this.storage = createArtifactStorage(config.artifacts, this.outputDirectory);
+        this.postProcessingModel = new PostProcessingModel();
+        this.jobModel = new RecordingJobModel();
+    }
+
+    initialize(): void {
+        if (!config.artifacts.enabled) {
+            this.logger.info('Artifact catalog disabled');
+            return;
+        }
+
+        this.orchestrationService.on('recordingOutputReady', (job: DistributedRecordingJob, data: Record<string, any>) => {
+            this.registerJobOutput(job, data).catch(error =>
+                this.logger.error(`Failed to register the output of job ${job.jobId}:`, error)
+            );
+        });
+
+        this.logger.info('Artifact catalog initialized', { storage: this.storage.name });
+    }
+
+    async registerJobOutput(job: DistributedRecordingJob, data: Record<string, any> = {}): Promise<RecordingArtifact> {
+        // Reported durations describe a single segment, not the stitched file
+        const reportedDuration = typeof data.duration === 'number' && !job.stitching ? Math.round(data.duration * 1000) : undefined;
+        const recordedDuration = job.recordingStartedAt && job.endTime ? this.jobModel.getRecordingDuration(job) : undefined;
+
+        // Post-processing reads the recording from the volume - it drops the copy once done
+        const keepLocalCopy = config.postProcessing.enabled &&
+            this.postProcessingModel.plan(job, config.postProcessing.defaults).length > 0;
+
+        return this.registerFile(job, job.outputPath!, 'recording', {
+            durationMs: reportedDuration ?? recordedDuration,
+            container: typeof data.container === 'string' ? data.container : undefined,
+            ...(job.options.includeVideo && typeof data.videoCodec === 'string' && { videoCodec: data.videoCodec }),
+            ...(job.options.includeAudio && typeof data.audioCodec === 'string' && { audioCodec: data.audioCodec })
+        }, keepLocalCopy);
+    }
+
+    async registerFile(
+        job: DistributedRecordingJob,
+        outputPath: string,
+        kind: ArtifactKind,
+        probe: ArtifactProbe = {},
+        keepLocalCopy: boolean = false
+    ): Promise<RecordingArtifact> {
+        const localPath = this.resolveOutputPath(outputPath);
+        const fileName = path.basename(localPath);
+        const container = (probe.container || path.extname(fileName).slice(1) || job.options.format).toLowerCase();
+
+        const { size } = await stat(localPath);
+        const sha256 = await this.checksum(localPath);
+
+        // Post-processing outputs get a folder per kind - HLS and DASH segments share names
+        const key = kind === 'recording' ? `${job.jobId}/${fileName}` : `${job.jobId}/${kind}/${fileName}`;
+
+        const storageKey = await this.storage.store(localPath, key, {
+            contentType: ArtifactService.CONTENT_TYPES[container] || 'application/octet-stream',
+            sha256,
+            sizeBytes: size,
+            keepLocalCopy
+        });
+
+        const artifact = await this.database.saveRecordingArtifact({
+            id: `art_${randomBytes(8).toString('hex')}`,
+            jobId: job.jobId,
+            kind,
+            fileName,
+            storage: this.storage.name,
+            storageKey,
+            sizeBytes: size,
+            sha256,
+            durationMs: probe.durationMs,
+            container,
+            videoCodec: probe.videoCodec,
+            audioCodec: probe.audioCodec,
+            createdAt: Date.now()
+        });
+
+        this.logger.info(`Artifact ${artifact.id} registered for job ${job.jobId}`, {
+            fileName,
+            storage: artifact.storage,
+            sizeBytes: artifact.sizeBytes
+        });
+
+        return artifact;
+    }
+
+    // Every artifact of the job with a fresh download URL
+    async listArtifacts(jobId: string, expiresInSeconds: number = config.artifacts.downloadUrlTtlSeconds): Promise<RecordingArtifactView[]> {
+        const artifacts = await this.database.getRecordingArtifacts(jobId);
+        return artifacts.map(artifact => ({ ...artifact, download: this.createDownloadUrl(artifact, expiresInSeconds) }));
+    }
+
+    async getArtifact(jobId: string, artifactId: string): Promise<RecordingArtifact | null> {
+        const artifact = await this.database.getRecordingArtifact(artifactId);
+        return artifact && artifact.jobId === jobId ? artifact : null;
+    }
+
+    createDownloadUrl(artifact: RecordingArtifact, expiresInSeconds: number = config.artifacts.downloadUrlTtlSeconds): DownloadUrl {
+        if (artifact.storage !== this.storage.name) {
+            throw new Error(`Artifact ${artifact.id} is stored in ${artifact.storage} but ${this.storage.name} storage is configured`);
+        }
+
+        return this.storage.createDownloadUrl(artifact, expiresInSeconds);
+    }
+
+    // Removes the stored file, then the catalog entry
+    async deleteArtifact(artifact: RecordingArtifact): Promise<void> {
+        if (artifact.storage !== this.storage.name) {
+            throw new Error(`Artifact ${artifact.id} is stored in ${artifact.storage} but ${this.storage.name} storage is configured`);
+        }
+
+        await this.storage.delete(artifact.storageKey);
+        await this.database.deleteRecordingArtifact(artifact.id);
+
+        this.logger.info(`Artifact ${artifact.id} of job ${artifact.jobId} deleted`, { storage: artifact.storage });
+    }
+
+    // Removes the recording from the volume once nothing reads it there anymore,
+    // when the storage backend is configured to keep no local copies
+    async releaseLocalCopy(job: DistributedRecordingJob): Promise<void> {
+        if (!config.artifacts.enabled || this.storage.name !== 's3' || !config.artifacts.s3.deleteLocalCopy || !job.outputPath) {
+            return;
+        }
+
+        await unlink(this.resolveOutputPath(job.outputPath)).catch(error => {
+            if (error.code !== 'ENOENT') throw error;
+        });
+    }
+
+    // The file behind a local download link, or null when the link is invalid or expired
+    resolveLocalDownload(artifact: RecordingArtifact, expires: number, signature: string): string | null {
+        if (!(this.storage instanceof LocalArtifactStorage) || artifact.storage !== 'local') {
+            return null;
+        }
+
+        return this.storage.verifyDownload(artifact, expires, signature) ? this.storage.resolvePath(artifact.storageKey) : null;
+    }
+
+    // Output paths are reported by nodes - only files below the output directory are taken
+    private resolveOutputPath(outputPath: string): string {
+        const resolved = path.resolve(this.outputDirectory, outputPath);
+        const relative = path.relative(this.outputDirectory, resolved);
+
+        if (!relative || relative.split(path.sep)[0] === '..' || path.isAbsolute(relative)) {
+            throw new Error(`Output path ${outputPath} is outside the output directory ${this.outputDirectory}`);
+        }
+
+        return resolved;
+    }
+
+    private checksum(filePath: string): Promise<string> {
+        return new Promise((resolve, reject) => {
+            const hash = createHash('sha256');
+
+            createReadStream(filePath)
+                .on('data', chunk => hash.update(chunk))
+                .on('end', () => resolve(hash.digest('hex')))
+                .on('error', reject);
+        });
+    }
+}
@@ -0,0 +1,286 @@
+// src/services/ArtifactStorage.ts
+import http from 'http';
+import https from 'https';
+import path from 'path';
+import { createReadStream } from 'fs';
+import { unlink } from 'fs/promises';
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { ArtifactConfig, ArtifactStorageType, RecordingArtifact } from '../types/interfaces';
+
+export interface StoreOptions {
+    contentType: string;
+    // Hex SHA-256 of the file, already computed when it was registered
+    sha256: string;
+    sizeBytes: number;
+    // The file is still needed on the recording volume, e.g. as post-processing input
+    keepLocalCopy?: boolean | undefined;
+}
+
+export interface DownloadUrl {
+    url: string;
+    expiresAt: number;
+}
+
+// Where recording files live once they are final. Files arrive on the
+// recording volume below the output directory; a backend either serves them
+// from there or moves them elsewhere.
+export interface ArtifactStorage {
+    readonly name: ArtifactStorageType;
+    // Takes over a file from the recording volume, key suggests where to put it.
+    // Resolves to the storage key the artifact is registered with.
+    store(localPath: string, key: string, options: StoreOptions): Promise<string>;
+    createDownloadUrl(artifact: RecordingArtifact, expiresInSeconds: number, now?: number): DownloadUrl;
+    delete(storageKey: string): Promise<void>;
+}
+
+// Leaves files on the recording volume and serves them through the
+// orchestrator with HMAC-signed, expiring links
+export class LocalArtifactStorage implements ArtifactStorage {
+    readonly name = 'local';
+    private root: string;
+    private config: ArtifactConfig['local'];
+    private urlSecret: string;
+
+    constructor(outputDirectory: string, localConfig: ArtifactConfig['local']) {
+        this.root = path.resolve(outputDirectory);
+        this.config = localConfig;
+        this.urlSecret = localConfig.urlSecret || randomBytes(32).toString('hex');
+    }
+
+    async store(localPath: string): Promise<string> {
+        return path.relative(this.root, localPath);
+    }
+
+    createDownloadUrl(artifact: RecordingArtifact, expiresInSeconds: number, now: number = Date.now()): DownloadUrl {
+        const expires = Math.floor(now / 1000) + expiresInSeconds;
+        const base = this.config.publicUrl.replace(/\/$/, '');
+        const downloadPath = `/api/recordings/${encodeURIComponent(artifact.jobId)}/artifacts/${encodeURIComponent(artifact.id)}/download`;
+
+        return {
+            url: `${base}${downloadPath}?expires=${expires}&signature=${this.sign(artifact, expires)}`,
+            expiresAt: expires * 1000
+        };
+    }
+
+    // The signature covers the file's checksum, so a re-registered file invalidates old links
+    verifyDownload(artifact: RecordingArtifact, expires: number, signature: string): boolean {
+        if (!Number.isInteger(expires) || expires * 1000 < Date.now()) {
+            return false;
+        }
+
+        const expected = Buffer.from(this.sign(artifact, expires), 'hex');
+        const provided = Buffer.from(signature, 'hex');
+
+        return provided.length === expected.length && timingSafeEqual(provided, expected);
+    }
+
+    resolvePath(storageKey: string): string {
+        return path.join(this.root, storageKey);
+    }
+
+    async delete(storageKey: string): Promise<void> {
+        await unlink(this.resolvePath(storageKey)).catch(error => {
+            if (error.code !== 'ENOENT') throw error;
+        });
+    }
+
+    private sign(artifact: RecordingArtifact, expires: number): string {
+        return createHmac('sha256', this.urlSecret)
+            .update(`${artifact.jobId}/${artifact.id}:${artifact.sha256}:${expires}`)
+            .digest('hex');
+    }
+}
+
+const sha256Hex = (data: string): string => createHash('sha256').update(data).digest('hex');
+
+// Percent-encoding of the canonical request - encodeURIComponent leaves !'()* alone
+const encodeRfc3986 = (value: string): string =>
+    encodeURIComponent(value).replace(/[!'()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+
+const toAmzDate = (time: number): string => new Date(time).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// Uploads to AWS S3 or any store speaking its API (MinIO, Ceph, R2 ...) and
+// hands out presigned GET URLs, signed with AWS Signature Version 4
+export class S3ArtifactStorage implements ArtifactStorage {
+    readonly name = 's3';
+    private config: ArtifactConfig['s3'];
+
+    // A single PUT takes objects of up to 5 GiB
+    private static readonly MAX_OBJECT_BYTES = 5 * 1024 ** 3;
+
+    constructor(s3Config: ArtifactConfig['s3']) {
+        this.config = s3Config;
+    }
+
+    async store(localPath: string, key: string, options: StoreOptions): Promise<string> {
+        if (options.sizeBytes > S3ArtifactStorage.MAX_OBJECT_BYTES) {
+            throw new Error(`${path.basename(localPath)} is larger than the 5 GiB a single S3 upload takes`);
+        }
+
+        const objectKey = `${this.config.prefix}${key}`;
+
+        // S3 checks the upload against the checksum it is signed with
+        const status = await this.request('PUT', objectKey, {
+            'content-length': String(options.sizeBytes),
+            'content-type': options.contentType
+        }, options.sha256, localPath);
+
+        if (status !== 200) {
+            throw new Error(`S3 upload of ${objectKey} failed: HTTP ${status}`);
+        }
+
+        if (this.config.deleteLocalCopy && !options.keepLocalCopy) {
+            await unlink(localPath);
+        }
+
+        return objectKey;
+    }
+
+    createDownloadUrl(artifact: RecordingArtifact, expiresInSeconds: number, now: number = Date.now()): DownloadUrl {
+        const url = this.presign('GET', artifact.storageKey, expiresInSeconds, now, {
+            'response-content-disposition': `attachment; filename="${artifact.fileName.replace(/"/g, '')}"`
+        });
+
+        return { url, expiresAt: (Math.floor(now / 1000) + expiresInSeconds) * 1000 };
+    }
+
+    async delete(storageKey: string): Promise<void> {
+        const status = await this.request('DELETE', storageKey, {}, sha256Hex(''));
+
+        // Deleting a missing key is not an error for S3 either
+        if (status !== 204 && status !== 200 && status !== 404) {
+            throw new Error(`S3 delete of ${storageKey} failed: HTTP ${status}`);
+        }
+    }
+
+    private presign(method: string, objectKey: string, expiresInSeconds: number, now: number, params: Record<string, string> = {}): string {
+        const { origin, host, canonicalUri } = this.locate(objectKey);
+        const amzDate = toAmzDate(now);
+
+        const query = this.canonicalQuery({
+            ...params,
+            'X-Amz-Algorithm': 'AWS4-HMAC-SHA256',
+            'X-Amz-Credential': `${this.config.accessKeyId}/${this.scope(amzDate)}`,
+            'X-Amz-Date': amzDate,
+            'X-Amz-Expires': String(expiresInSeconds),
+            'X-Amz-SignedHeaders': 'host'
+        });
+
+        const signature = this.sign(method, canonicalUri, query, { host }, 'UNSIGNED-PAYLOAD', amzDate);
+
+        return `${origin}${canonicalUri}?${query}&X-Amz-Signature=${signature}`;
+    }
+
+    private request(
+        method: string,
+        objectKey: string,
+        headers: Record<string, string>,
+        payloadHash: string,
+        bodyPath?: string
+    ): Promise<number> {
+        const { origin, host, canonicalUri } = this.locate(objectKey);
+        const amzDate = toAmzDate(Date.now());
+
+        const signedHeaders: Record<string, string> = {
+            ...headers,
+            host,
+            'x-amz-content-sha256': payloadHash,
+            'x-amz-date': amzDate
+        };
+        const names = Object.keys(signedHeaders).sort().join(';');
+        const signature = this.sign(method, canonicalUri, '', signedHeaders, payloadHash, amzDate);
+
+        const url = new URL(`${origin}${canonicalUri}`);
+        const transport = url.protocol === 'https:' ? https : http;
+
+        return new Promise((resolve, reject) => {
+            const req = transport.request(url, {
+                method,
+                headers: {
+                    ...signedHeaders,
+                    authorization: `AWS4-HMAC-SHA256 Credential=${this.config.accessKeyId}/${this.scope(amzDate)}, ` +
+                        `SignedHeaders=${names}, Signature=${signature}`
+                },
+                timeout: this.config.timeoutMs
+            }, res => {
+                // Drain the body - errors come back as XML we only need the status of
+                res.resume();
+                res.on('end', () => resolve(res.statusCode || 0));
+            });
+
+            req.on('timeout', () => req.destroy(new Error(`S3 request timed out: ${method} ${objectKey}`)));
+            req.on('error', reject);
+
+            if (bodyPath) {
+                const body = createReadStream(bodyPath);
+                body.on('error', error => req.destroy(error));
+                body.pipe(req);
+            } else {
+                req.end();
+            }
+        });
+    }
+
+    // Path-style puts the bucket in the path, virtual-hosted style in the host name
+    private locate(objectKey: string): { origin: string; host: string; canonicalUri: string } {
+        const endpoint = new URL(this.config.endpoint || `https://s3.${this.config.region}.amazonaws.com`);
+        const keyPath = objectKey.split('/').map(encodeRfc3986).join('/');
+
+        if (this.config.forcePathStyle) {
+            return {
+                origin: endpoint.origin,
+                host: endpoint.host,
+                canonicalUri: `/${encodeRfc3986(this.config.bucket!)}/${keyPath}`
+            };
+        }
+
+        const host = `${this.config.bucket}.${endpoint.host}`;
+        return { origin: `${endpoint.protocol}//${host}`, host, canonicalUri: `/${keyPath}` };
+    }
+
+    private canonicalQuery(params: Record<string, string>): string {
+        return Object.keys(params)
+            .sort()
+            .map(name => `${encodeRfc3986(name)}=${encodeRfc3986(params[name]!)}`)
+            .join('&');
+    }
+
+    private scope(amzDate: string): string {
+        return `${amzDate.slice(0, 8)}/${this.config.region}/s3/aws4_request`;
+    }
+
+    private sign(
+        method: string,
+        canonicalUri: string,
+        canonicalQuery: string,
+        headers: Record<string, string>,
+        payloadHash: string,
+        amzDate: string
+    ): string {
+        const names = Object.keys(headers).sort();
+        const canonicalRequest = [
+            method,
+            canonicalUri,
+            canonicalQuery,
+            names.map(name => `${name}:${headers[name]!.trim()}\n`).join(''),
+            names.join(';'),
+            payloadHash
+        ].join('\n');
+
+        const stringToSign = ['AWS4-HMAC-SHA256', amzDate, this.scope(amzDate), sha256Hex(canonicalRequest)].join('\n');
+
+        const signingKey = [amzDate.slice(0, 8), this.config.region, 's3', 'aws4_request']
+            .reduce<Buffer | string>((key, part) => createHmac('sha256', key).update(part).digest(), `AWS4${this.config.secretAccessKey}`);
+
+        return createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+    }
+}
+
+export const createArtifactStorage = (artifacts: ArtifactConfig, outputDirectory: string): ArtifactStorage => {
+    switch (artifacts.storage) {
+        case 's3':
+            return new S3ArtifactStorage(artifacts.s3);
+        default:
+            return new LocalArtifactStorage(outputDirectory, artifacts.local);
+    }
+};
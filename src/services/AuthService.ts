@@ -0,0 +1,267 @@
+// src/services/AuthService.ts
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import jwt from 'jsonwebtoken';
+import { Logger } from '../utils/Logger';
+import { Database } from '../database/Database';
+import { config } from '../config/config';
+import { ApiKeyRecord, AuthPrincipal, OperatorRole, PrincipalKind } from '../types/interfaces';
+
+// API key as returned to clients - the secret hash never leaves the service
+export type ApiKeyView = Omit<ApiKeyRecord, 'secretHash'>;
+
+export interface ApiKeyRequest {
+    name: string;
+    kind: PrincipalKind;
+    roles?: OperatorRole[];
+    nodeId?: string | undefined;
+    expiresAt?: number | undefined;
+}
+
+export class AuthService {
+    private logger: Logger;
+    private database: Database;
+    private apiKeys: Map<string, ApiKeyRecord> = new Map();
+
+    // Keys look like rok_<keyId>_<secret>
+    private static readonly KEY_PATTERN = /^rok_([0-9a-f]{16})_(.+)$/;
+    private static readonly TOKEN_ISSUER = 'edumeet-recording-orchestrator';
+    private static readonly ROLE_RANK: Record<OperatorRole, number> = { viewer: 1, operator: 2, admin: 3 };
+
+    constructor(database: Database) {
+        this.logger = new Logger('AuthService');
+        this.database = database;
+    }
+
+    async initialize(): Promise<void> {
+        const records = await this.database.getApiKeys();
+        this.apiKeys = new Map(records.map(record => [record.keyId, record]));
+
+        this.logger.info('API keys loaded', {
+            total: records.length,
+            usable: records.filter(record => this.isUsable(record)).length,
+            bootstrapKey: !!config.auth.bootstrapApiKey
+        });
+    }
+
+    isEnabled(): boolean {
+        return config.auth.enabled;
+    }
+
+    // Resolve an API key or a bearer token to the principal it belongs to
+    authenticate(credential: string): AuthPrincipal {
+        if (config.auth.bootstrapApiKey && this.safeEqual(credential, config.auth.bootstrapApiKey)) {
+            return {
+                id: 'bootstrap',
+                kind: 'operator',
+                name: 'Bootstrap operator',
+                roles: ['admin'],
+                credential: 'api-key'
+            };
+        }
+
+        if (AuthService.KEY_PATTERN.test(credential)) {
+            return this.authenticateApiKey(credential);
+        }
+
+        return this.verifyToken(credential);
+    }
+
+    hasRole(principal: AuthPrincipal, required: OperatorRole): boolean {
+        return principal.roles.some(role => AuthService.ROLE_RANK[role] >= AuthService.ROLE_RANK[required]);
+    }
+
+    // Exchange an API key for a short-lived JWT, so keys don't travel on every request
+    issueToken(principal: AuthPrincipal): { token: string; tokenType: 'Bearer'; expiresAt: number } {
+        if (principal.credential !== 'api-key') {
+            throw new Error('Tokens can only be issued for API key credentials');
+        }
+
+        const token: string = jwt.sign(
+            {
+                kind: principal.kind,
+                name: principal.name,
+                roles: principal.roles,
+                ...(principal.nodeId && { nodeId: principal.nodeId })
+            },
+            config.auth.jwtSecret,
+            {
+                subject: principal.id,
+                issuer: AuthService.TOKEN_ISSUER,
+                expiresIn: config.auth.tokenExpiry
+            }
+        );
+
+        const { exp } = jwt.decode(token) as { exp: number };
+
+        return { token, tokenType: 'Bearer', expiresAt: exp * 1000 };
+    }
+
+    // API KEY MANAGEMENT
+    async createApiKey(request: ApiKeyRequest, rotatedFrom?: string): Promise<{ apiKey: string; key: ApiKeyView }> {
+        if (request.kind === 'operator' && (!request.roles || request.roles.length === 0)) {
+            throw new Error('Operator keys need at least one role');
+        }
+
+        const keyId = randomBytes(8).toString('hex');
+        const secret = randomBytes(32).toString('base64url');
+
+        const record: ApiKeyRecord = {
+            keyId,
+            name: request.name,
+            kind: request.kind,
+            // Roles only carry meaning for operators
+            roles: request.kind === 'operator' ? request.roles! : [],
+            nodeId: request.kind === 'node' ? request.nodeId : undefined,
+            secretHash: this.hashSecret(secret),
+            createdAt: Date.now(),
+            expiresAt: request.expiresAt,
+            rotatedFrom
+        };
+
+        await this.database.saveApiKey(record);
+        this.apiKeys.set(keyId, record);
+
+        this.logger.info(`API key ${keyId} created`, {
+            name: record.name,
+            kind: record.kind,
+            roles: record.roles,
+            rotatedFrom
+        });
+
+        return { apiKey: `rok_${keyId}_${secret}`, key: this.toView(record) };
+    }
+
+    // Issue a replacement key. The old key keeps working for the grace
+    // period so clients can be reconfigured without downtime.
+    async rotateApiKey(keyId: string): Promise<{ apiKey: string; key: ApiKeyView; previousKey: ApiKeyView }> {
+        const record = this.apiKeys.get(keyId);
+        if (!record || !this.isUsable(record)) {
+            throw new Error(`API key ${keyId} not found or no longer valid`);
+        }
+
+        const replacement = await this.createApiKey({
+            name: record.name,
+            kind: record.kind,
+            roles: record.roles,
+            nodeId: record.nodeId
+        }, keyId);
+
+        const graceExpiry = Date.now() + config.auth.keyRotationGracePeriodMs;
+        const previous: ApiKeyRecord = {
+            ...record,
+            expiresAt: record.expiresAt ? Math.min(record.expiresAt, graceExpiry) : graceExpiry
+        };
+
+        await this.database.saveApiKey(previous);
+        this.apiKeys.set(keyId, previous);
+
+        this.logger.info(`API key ${keyId} rotated`, {
+            replacement: replacement.key.keyId,
+            expiresAt: new Date(previous.expiresAt!).toISOString()
+        });
+
+        return { ...replacement, previousKey: this.toView(previous) };
+    }
+
+    async revokeApiKey(keyId: string): Promise<ApiKeyView> {
+        const record = this.apiKeys.get(keyId);
+        if (!record) {
+            throw new Error(`API key ${keyId} not found`);
+        }
+
+        const revoked: ApiKeyRecord = { ...record, revokedAt: record.revokedAt || Date.now() };
+
+        await this.database.saveApiKey(revoked);
+        this.apiKeys.set(keyId, revoked);
+
+        this.logger.warn(`API key ${keyId} revoked`, { name: record.name, kind: record.kind });
+
+        return this.toView(revoked);
+    }
+
+    listApiKeys(): ApiKeyView[] {
+        return Array.from(this.apiKeys.values()).map(record => this.toView(record));
+    }
+
+    private authenticateApiKey(apiKey: string): AuthPrincipal {
+        const [, keyId, secret] = apiKey.match(AuthService.KEY_PATTERN)!;
+        const record = this.apiKeys.get(keyId!);
+
+        if (!record || !this.safeEqual(this.hashSecret(secret!), record.secretHash)) {
+            throw new Error('Invalid API key');
+        }
+
+        if (record.revokedAt) {
+            throw new Error('API key has been revoked');
+        }
+
+        if (record.expiresAt && record.expiresAt <= Date.now()) {
+            throw new Error('API key has expired');
+        }
+
+        return {
+            id: record.keyId,
+            kind: record.kind,
+            name: record.name,
+            roles: record.roles,
+            nodeId: record.nodeId,
+            credential: 'api-key'
+        };
+    }
+
+    // Try the current signing secret first, then the ones it replaced
+    private verifyToken(token: string): AuthPrincipal {
+        const secrets = [config.auth.jwtSecret, ...config.auth.previousJwtSecrets];
+
+        for (const secret of secrets) {
+            try {
+                const claims = jwt.verify(token, secret, { issuer: AuthService.TOKEN_ISSUER }) as Record<string, any>;
+
+                // Revoking a key also ends the tokens issued for it
+                const record = this.apiKeys.get(claims.sub);
+                if (record && !this.isUsable(record)) {
+                    throw new Error('Token was issued for a revoked or expired API key');
+                }
+
+                return {
+                    id: claims.sub,
+                    kind: claims.kind,
+                    name: claims.name,
+                    roles: claims.roles || [],
+                    nodeId: claims.nodeId,
+                    credential: 'jwt'
+                };
+            } catch (error) {
+                if (error instanceof jwt.TokenExpiredError) {
+                    throw new Error('Token has expired');
+                }
+
+                if (!(error instanceof jwt.JsonWebTokenError)) {
+                    throw error;
+                }
+            }
+        }
+
+        throw new Error('Invalid token');
+    }
+
+    private isUsable(record: ApiKeyRecord): boolean {
+        return !record.revokedAt && (!record.expiresAt || record.expiresAt > Date.now());
+    }
+
+    private hashSecret(secret: string): string {
+        return createHash('sha256').update(secret).digest('hex');
+    }
+
+    private safeEqual(a: string, b: string): boolean {
+        const bufferA = Buffer.from(a);
+        const bufferB = Buffer.from(b);
+
+        return bufferA.length === bufferB.length && timingSafeEqual(bufferA, bufferB);
+    }
+
+    private toView(record: ApiKeyRecord): ApiKeyView {
+        const { secretHash, ...view } = record;
+        return view;
+    }
+}
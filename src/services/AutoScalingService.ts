@@ -2,23 +2,39 @@
 import { EventEmitter } from 'events';
 import { Logger } from '../utils/Logger';
 import { config } from '../config/config';
-import { SystemMetrics } from '../types/interfaces';
+import { ProvisioningService } from './ProvisioningService';
+import { ForecastService } from './ForecastService';
+import { CapacityForecastPoint, ScalingAlert, SystemMetrics } from '../types/interfaces';
 
 export class AutoScalingService extends EventEmitter {
     private logger: Logger;
     private orchestrationService: any;
-    private scalingCooldown: Map<string, number> = new Map();
+    private forecastService: ForecastService;
+    private provisioningService: ProvisioningService | null = null;
+    private scalingCooldown: Map<string, number> = new Map(); // region -> last scaling action
     private scalingInterval: NodeJS.Timer | null = null;
 
-    constructor() {
+    constructor(forecastService: ForecastService) {
         super();
         this.logger = new Logger('AutoScalingService');
+        this.forecastService = forecastService;
+    }
+
+    // Set after construction - the provisioning service depends on the orchestration service, which depends on this one
+    setProvisioningService(provisioningService: ProvisioningService): void {
+        this.provisioningService = provisioningService;
+    }
+
+    // Recommendations are only acted on with auto-scaling enabled and a provider to act through
+    isAutoDeploymentEnabled(): boolean {
+        return config.orchestration.autoScaling.enabled && !!this.provisioningService?.isEnabled();
     }
 
     async initialize(): Promise<void> {
-        this.logger.info('Auto-scaling service initialized (deployment disabled - monitoring only)', {
+        this.logger.info(`Auto-scaling service initialized (${this.isAutoDeploymentEnabled() ? 'automatic provisioning' : 'monitoring only'})`, {
             enabled: config.orchestration.autoScaling.enabled,
-            monitoringOnly: true,
+            provider: config.provisioning.provider,
+            monitoringOnly: !this.isAutoDeploymentEnabled(),
             scaleUpThreshold: config.orchestration.autoScaling.scaleUpThreshold,
             scaleDownThreshold: config.orchestration.autoScaling.scaleDownThreshold
         });
@@ -32,7 +48,9 @@ export class AutoScalingService extends EventEmitter {
             await this.evaluateScaling();
         }, 60000); // Check every minute
 
-        this.logger.info('Auto-scaling monitoring started (no automatic deployment)');
+        this.logger.info(this.isAutoDeploymentEnabled() ?
+            'Auto-scaling started (automatic provisioning)' :
+            'Auto-scaling monitoring started (no automatic deployment)');
     }
 
     async stop(): Promise<void> {
@@ -46,11 +64,23 @@ export class AutoScalingService extends EventEmitter {
 
     private async evaluateScaling(): Promise<void> {
         try {
+            if (this.isAutoDeploymentEnabled()) {
+                await this.provisioningService!.reconcile();
+            }
+
             const metrics = this.orchestrationService.getSystemMetrics();
+            const regions: Record<string, any> = { ...metrics.byRegion };
+
+            // Configured regions are kept at minNodes even before their first node registers
+            if (this.isAutoDeploymentEnabled()) {
+                for (const region of config.provisioning.regions) {
+                    regions[region] = regions[region] || { ffmpegNodes: 0, avgLoad: 0 };
+                }
+            }
 
-            // Evaluate each region separately for monitoring
-            for (const [region, regionMetrics] of Object.entries(metrics.byRegion)) {
-                await this.evaluateRegionScaling(region, regionMetrics as any, metrics);
+            // Evaluate each region separately
+            for (const [region, regionMetrics] of Object.entries(regions)) {
+                await this.evaluateRegionScaling(region, regionMetrics, metrics);
             }
 
         } catch (error) {
@@ -73,10 +103,20 @@ export class AutoScalingService extends EventEmitter {
             queueLength > 5
         ) && nodeCount < config.orchestration.autoScaling.maxNodes;
 
+        // Nodes needed by a predicted peak within the lead time
+        const forecast = this.getForecastDemand(region, regionMetrics);
+        const expectedNodes = nodeCount + (this.provisioningService?.getPendingCount(region) || 0);
+
+        const wouldScaleAhead = !!forecast &&
+            forecast.requiredNodes > expectedNodes &&
+            expectedNodes < config.orchestration.autoScaling.maxNodes;
+
+        // A region about to need its nodes isn't shrunk
         const wouldScaleDown = (
             avgLoad < config.orchestration.autoScaling.scaleDownThreshold &&
             queueLength === 0
-        ) && nodeCount > config.orchestration.autoScaling.minNodes;
+        ) && nodeCount > config.orchestration.autoScaling.minNodes &&
+            (!forecast || forecast.requiredNodes < nodeCount);
 
         if (wouldScaleUp) {
             this.logger.warn(`Region ${region} would benefit from more FFmpeg nodes`, {
@@ -95,6 +135,25 @@ export class AutoScalingService extends EventEmitter {
             });
         }
 
+        if (wouldScaleAhead && !wouldScaleUp) {
+            this.logger.info(`Region ${region} needs more FFmpeg nodes for a predicted peak`, {
+                currentNodes: nodeCount,
+                requiredNodes: forecast!.requiredNodes,
+                peakAt: new Date(forecast!.timestamp).toISOString()
+            });
+
+            this.emit('scaleUpRecommended', {
+                region,
+                currentNodes: nodeCount,
+                recommendedAction: 'deploy_additional_nodes',
+                reason: 'predicted_peak',
+                urgency: 'medium',
+                requiredNodes: forecast!.requiredNodes,
+                peakAt: forecast!.timestamp,
+                predictedLoad: forecast!.upperBound
+            });
+        }
+
         if (wouldScaleDown) {
             this.logger.info(`Region ${region} has underutilized FFmpeg nodes`, {
                 currentNodes: nodeCount,
@@ -110,6 +169,100 @@ export class AutoScalingService extends EventEmitter {
                 urgency: 'low'
             });
         }
+
+        if (this.isAutoDeploymentEnabled()) {
+            const forecastNodes = forecast?.requiredNodes || 0;
+            await this.applyRegionScaling(region, nodeCount, forecastNodes, wouldScaleUp, wouldScaleDown).catch(error =>
+                this.logger.error(`Failed to scale region ${region}:`, error)
+            );
+        }
+    }
+
+    // Acts on the evaluation through the provisioning service. Nodes still
+    // starting count towards maxNodes, and nothing else happens in a region
+    // while a node is draining or within the cooldown of the last action.
+    private async applyRegionScaling(
+        region: string,
+        nodeCount: number,
+        forecastNodes: number,
+        wouldScaleUp: boolean,
+        wouldScaleDown: boolean
+    ): Promise<void> {
+        const provisioning = this.provisioningService!;
+        const { minNodes, maxNodes, cooldownPeriod } = config.orchestration.autoScaling;
+
+        if (provisioning.hasRemovalInProgress(region)) return;
+
+        const pending = provisioning.getPendingCount(region);
+        const expectedNodes = nodeCount + pending;
+
+        // The floor isn't a load decision, so it ignores the cooldown
+        const missing = Math.min(minNodes, maxNodes) - expectedNodes;
+        if (missing > 0) {
+            await this.scaleUp(region, missing, expectedNodes, 'below_min_nodes');
+            return;
+        }
+
+        // Known peaks are provisioned for ahead of time, regardless of the cooldown.
+        // Nodes still starting count as present, so this doesn't repeat every evaluation.
+        const ahead = Math.min(forecastNodes, maxNodes) - expectedNodes;
+        if (ahead > 0) {
+            await this.scaleUp(region, ahead, expectedNodes, 'predicted_peak');
+            return;
+        }
+
+        const lastAction = this.scalingCooldown.get(region);
+        if (lastAction && Date.now() - lastAction < cooldownPeriod * 1000) return;
+
+        // Wait for requested nodes to take load before asking for more
+        if (wouldScaleUp && pending === 0 && expectedNodes < maxNodes) {
+            await this.scaleUp(region, 1, expectedNodes, 'high_load');
+            return;
+        }
+
+        if (wouldScaleDown && pending === 0 && nodeCount > minNodes) {
+            const managed = new Map(provisioning.getRemovableNodes(region).map(record => [record.nodeId, record]));
+            const nodes = this.orchestrationService.getNodes({ type: 'ffmpeg-node', region })
+                .filter((node: any) => managed.has(node.id) && node.activeJobIds.length === 0);
+            const [candidate] = this.selectNodesForRemoval(nodes);
+
+            if (!candidate) {
+                this.logger.debug(`No idle provisioned node to remove in ${region}`);
+                return;
+            }
+
+            const record = managed.get(candidate.id)!;
+            await provisioning.removeNode(record.provisionId, `Auto-scaling: low utilization in ${region}`);
+
+            this.scalingCooldown.set(region, Date.now());
+            this.emit('scaleDownExecuted', {
+                region,
+                currentNodes: nodeCount,
+                nodeId: candidate.id,
+                provisionId: record.provisionId,
+                reason: 'low_utilization'
+            });
+        }
+    }
+
+    private async scaleUp(region: string, count: number, currentNodes: number, reason: string): Promise<void> {
+        const provisionIds: string[] = [];
+
+        for (let i = 0; i < count; i++) {
+            const record = await this.provisioningService!.provisionNode(region, `Auto-scaling: ${reason}`);
+            provisionIds.push(record.provisionId);
+        }
+
+        this.scalingCooldown.set(region, Date.now());
+
+        this.logger.info(`Provisioning ${count} FFmpeg node(s) in ${region}`, { currentNodes, reason });
+
+        this.emit('scaleUpExecuted', {
+            region,
+            currentNodes,
+            provisionIds,
+            reason
+        });
     }
 
     // Get scaling recommendations for manual action
@@ -119,6 +272,7 @@ export class AutoScalingService extends EventEmitter {
 
         for (const [region, regionMetrics] of Object.entries(metrics.byRegion)) {
             const rm = regionMetrics as any;
+            const forecast = this.getForecastDemand(region, rm);
 
             if (rm.avgLoad > config.orchestration.autoScaling.scaleUpThreshold) {
                 const urgency = rm.avgLoad > 90 ? 'critical' : rm.avgLoad > 85 ? 'high' : 'medium';
@@ -133,6 +287,17 @@ export class AutoScalingService extends EventEmitter {
                     instructions: 'Deploy additional FFmpeg nodes manually',
                     estimatedBenefit: 'Reduce queue time and improve response time'
                 });
+            } else if (forecast && forecast.requiredNodes > rm.ffmpegNodes) {
+                recommendations.push({
+                    region,
+                    action: 'scale_up',
+                    priority: 'medium',
+                    reason: `Predicted peak: ${forecast.requiredNodes} nodes needed at ${new Date(forecast.timestamp).toISOString()}`,
+                    currentNodes: rm.ffmpegNodes,
+                    recommendedNodes: Math.min(forecast.requiredNodes, config.orchestration.autoScaling.maxNodes),
+                    instructions: `Deploy FFmpeg nodes within ${config.forecast.leadTimeMinutes} minutes`,
+                    estimatedBenefit: 'Capacity in place before the predicted peak'
+                });
             } else if (rm.avgLoad < config.orchestration.autoScaling.scaleDownThreshold && rm.ffmpegNodes > config.orchestration.autoScaling.minNodes) {
                 recommendations.push({
                     region,
@@ -175,24 +340,31 @@ export class AutoScalingService extends EventEmitter {
         };
     }
 
+    // The busiest hour within the forecast lead time, sized with the region's current nodes where it has any
+    private getForecastDemand(region: string, regionMetrics: any): CapacityForecastPoint | null {
+        if (!this.forecastService.isEnabled()) return null;
+
+        const nodeCapacity = regionMetrics.ffmpegNodes > 0 ? regionMetrics.capacity / regionMetrics.ffmpegNodes : undefined;
+        return this.forecastService.getRequiredNodes(region, nodeCapacity);
+    }
+
     // Get alert status for immediate attention
     getAlertStatus(): any {
         const metrics = this.orchestrationService.getSystemMetrics();
-        const alerts = [];
+        const alerts: ScalingAlert[] = [];
 
-        // Critical alerts
+        // Capacity alerts - one per condition, at its highest level, so it can be tracked over time
         if (metrics.totalCapacity > 0 && (metrics.currentLoad / metrics.totalCapacity) > 0.95) {
             alerts.push({
+                key: 'capacity',
                 level: 'critical',
                 message: 'System capacity at 95%+ utilization',
                 action: 'Deploy additional FFmpeg nodes immediately',
                 impact: 'New recording requests will be queued or rejected'
             });
-        }
-
-        // High priority alerts
-        if (metrics.totalCapacity > 0 && (metrics.currentLoad / metrics.totalCapacity) > 0.9) {
+        } else if (metrics.totalCapacity > 0 && (metrics.currentLoad / metrics.totalCapacity) > 0.9) {
             alerts.push({
+                key: 'capacity',
                 level: 'high',
                 message: 'System capacity at 90%+ utilization',
                 action: 'Deploy additional FFmpeg nodes soon',
@@ -203,6 +375,7 @@ export class AutoScalingService extends EventEmitter {
         // Queue backlog alerts
         if (metrics.queueLength > 15) {
             alerts.push({
+                key: 'queue_backlog',
                 level: 'high',
                 message: `${metrics.queueLength} jobs queued`,
                 action: 'Deploy more FFmpeg nodes to clear backlog',
@@ -210,6 +383,7 @@ export class AutoScalingService extends EventEmitter {
             });
         } else if (metrics.queueLength > 5) {
             alerts.push({
+                key: 'queue_backlog',
                 level: 'medium',
                 message: `${metrics.queueLength} jobs queued`,
                 action: 'Consider adding more FFmpeg nodes',
@@ -221,6 +395,7 @@ export class AutoScalingService extends EventEmitter {
         const unhealthyNodes = metrics.totalFFmpegNodes - metrics.healthyFFmpegNodes;
         if (unhealthyNodes > 0) {
             alerts.push({
+                key: 'unhealthy_nodes',
                 level: unhealthyNodes > 2 ? 'high' : 'medium',
                 message: `${unhealthyNodes} FFmpeg nodes are unhealthy`,
                 action: 'Check node status and restart if needed',
@@ -233,6 +408,7 @@ export class AutoScalingService extends EventEmitter {
             const rm = regionMetrics as any;
             if (rm.avgLoad > 95) {
                 alerts.push({
+                    key: `region_overload:${region}`,
                     level: 'critical',
                     message: `Region ${region} overloaded: ${Math.round(rm.avgLoad)}%`,
                     action: `Deploy FFmpeg nodes in ${region} immediately`,
@@ -257,7 +433,7 @@ export class AutoScalingService extends EventEmitter {
         };
     }
 
-    private determineOverallStatus(alerts: any[]): string {
+    private determineOverallStatus(alerts: ScalingAlert[]): string {
         if (alerts.some(a => a.level === 'critical')) return 'critical';
         if (alerts.some(a => a.level === 'high')) return 'warning';
         if (alerts.some(a => a.level === 'medium')) return 'caution';
@@ -277,7 +453,7 @@ export class AutoScalingService extends EventEmitter {
 
     // Manual node management helpers
     async recommendNodeRemoval(region: string): Promise<any[]> {
-        const nodes = this.orchestrationService.getFFmpegNodesByRegion(region);
+        const nodes = this.orchestrationService.getNodes({ type: 'ffmpeg-node', region });
         const candidates = this.selectNodesForRemoval(nodes);
 
         return candidates.map(node => ({
@@ -341,14 +517,19 @@ export class AutoScalingService extends EventEmitter {
 
     // Configuration and status
     getScalingStatistics(): any {
+        const autoDeployment = this.isAutoDeploymentEnabled();
+
         return {
-            mode: 'monitoring_only',
-            autoDeploymentEnabled: false,
+            mode: autoDeployment ? 'auto_scaling' : 'monitoring_only',
+            autoDeploymentEnabled: autoDeployment,
             monitoringEnabled: true,
+            provider: config.provisioning.provider,
             cooldownStatus: Object.fromEntries(this.scalingCooldown.entries()),
             configuration: {
                 ...config.orchestration.autoScaling,
-                note: 'Auto-deployment disabled - monitoring and recommendations only'
+                note: autoDeployment ?
+                    `Nodes are provisioned and removed through the ${config.provisioning.provider} provider` :
+                    'Auto-deployment disabled - monitoring and recommendations only'
             },
             lastEvaluationTime: Date.now(),
             nextEvaluationTime: Date.now() + 60000,
@@ -356,9 +537,11 @@ export class AutoScalingService extends EventEmitter {
                 loadMonitoring: true,
                 alertGeneration: true,
                 recommendations: true,
-                autoDeployment: false,
-                nodeRemoval: false
-            }
+                autoDeployment: autoDeployment,
+                nodeRemoval: autoDeployment,
+                predictiveScaling: this.forecastService.isEnabled()
+            },
+            forecastTrainedAt: this.forecastService.getTrainedAt()
         };
     }
 
@@ -382,15 +565,19 @@ export class AutoScalingService extends EventEmitter {
     }
 
     // Manual trigger for immediate evaluation
-    async forceEvaluation(): Promise<any> {
-        this.logger.info('Manual scaling evaluation triggered');
+    async forceEvaluation(requestedBy?: string): Promise<any> {
+        this.logger.info('Manual scaling evaluation triggered', { requestedBy });
         await this.evaluateScaling();
 
-        return {
+        const evaluation = {
             message: 'Scaling evaluation completed',
             recommendations: await this.getScalingRecommendations(),
             alerts: this.getAlertStatus(),
             timestamp: Date.now()
         };
+
+        this.emit('evaluationForced', { requestedBy, evaluation });
+
+        return evaluation;
     }
 }
\ No newline at end of file
@@ -0,0 +1,179 @@
+// src/services/CapacityReservationService.ts
+import { randomBytes } from 'crypto';
+import { Logger } from '../utils/Logger';
+import { Database } from '../database/Database';
+import { CapacityReservation } from '../types/interfaces';
+
+export interface CapacityReservationRequest {
+    name: string;
+    region: string;
+    startsAt: number;
+    endsAt: number;
+    loadUnits: number;
+    scheduleId?: string | undefined;
+}
+
+// A running job started against a reservation, with the region of its FFmpeg node
+export interface ReservationClaim {
+    reservationId: string;
+    region: string;
+    load: number;
+}
+
+// Reservations hold load units of a region back from ad-hoc recordings while
+// their window is open. Jobs started against a reservation use up its units
+// instead, so the load balancer only holds back what is still unused.
+export class CapacityReservationService {
+    private logger: Logger;
+    private database: Database;
+    private reservations: Map<string, CapacityReservation> = new Map(); // until their window ends
+
+    constructor(database: Database) {
+        this.logger = new Logger('CapacityReservationService');
+        this.database = database;
+    }
+
+    async initialize(): Promise<void> {
+        const reservations = await this.database.getCapacityReservations(new Date());
+        for (const reservation of reservations) {
+            this.reservations.set(reservation.id, reservation);
+        }
+
+        this.logger.info('Capacity reservation service initialized', { reservations: this.reservations.size });
+    }
+
+    // Active and upcoming reservations, earliest first
+    listReservations(region?: string): CapacityReservation[] {
+        this.pruneEnded();
+
+        return Array.from(this.reservations.values())
+            .filter(reservation => !region || reservation.region === region)
+            .sort((a, b) => a.startsAt - b.startsAt);
+    }
+
+    getReservation(id: string): CapacityReservation | null {
+        this.pruneEnded();
+        return this.reservations.get(id) || null;
+    }
+
+    getActiveReservations(now: number = Date.now()): CapacityReservation[] {
+        return this.listReservations().filter(reservation => reservation.startsAt <= now && now < reservation.endsAt);
+    }
+
+    // The open reservation recordings of a schedule should run on
+    findActiveForSchedule(scheduleId: string, now: number = Date.now()): CapacityReservation | null {
+        return this.getActiveReservations(now).find(reservation => reservation.scheduleId === scheduleId) || null;
+    }
+
+    // Rejected when the region's reservations would need more than regionCapacity at any moment of the window
+    async createReservation(
+        request: CapacityReservationRequest,
+        regionCapacity: number,
+        createdBy?: string
+    ): Promise<CapacityReservation> {
+        if (request.endsAt <= request.startsAt) {
+            throw new Error('Reservation must end after it starts');
+        }
+        if (request.endsAt <= Date.now()) {
+            throw new Error('Reservation window has already ended');
+        }
+
+        const peak = this.getPeakReserved(request.region, request.startsAt, request.endsAt);
+        if (peak + request.loadUnits > regionCapacity) {
+            throw new Error(
+                `Region ${request.region} has ${regionCapacity} load units and ${peak} are already reserved ` +
+                `in this window - ${request.loadUnits} more would over-subscribe it`
+            );
+        }
+
+        const reservation: CapacityReservation = {
+            id: `rsv_${randomBytes(8).toString('hex')}`,
+            name: request.name,
+            region: request.region,
+            startsAt: request.startsAt,
+            endsAt: request.endsAt,
+            loadUnits: request.loadUnits,
+            scheduleId: request.scheduleId,
+            createdBy,
+            createdAt: Date.now()
+        };
+
+        await this.database.saveCapacityReservation(reservation);
+        this.reservations.set(reservation.id, reservation);
+
+        this.logger.info(`Capacity reservation ${reservation.id} created`, {
+            region: reservation.region,
+            loadUnits: reservation.loadUnits,
+            startsAt: reservation.startsAt,
+            endsAt: reservation.endsAt
+        });
+
+        return reservation;
+    }
+
+    // Recordings already running on the reservation keep running
+    async deleteReservation(id: string): Promise<void> {
+        if (!this.reservations.has(id)) {
+            throw new Error(`Capacity reservation ${id} not found`);
+        }
+
+        await this.database.deleteCapacityReservation(id);
+        this.reservations.delete(id);
+
+        this.logger.info(`Capacity reservation ${id} deleted`);
+    }
+
+    // Most load units the region's reservations hold at once within the window
+    getPeakReserved(region: string, from: number, to: number): number {
+        const overlapping = this.listReservations(region).filter(reservation =>
+            reservation.startsAt < to && reservation.endsAt > from
+        );
+
+        // Reserved load only rises when a reservation starts
+        const starts = [from, ...overlapping.map(reservation => reservation.startsAt).filter(start => start > from)];
+
+        return starts.reduce((peak, moment) => Math.max(peak, overlapping
+            .filter(reservation => reservation.startsAt <= moment && moment < reservation.endsAt)
+            .reduce((sum, reservation) => sum + reservation.loadUnits, 0)
+        ), 0);
+    }
+
+    // Load units the running jobs use of each reservation. A job only draws on
+    // its reservation in the reservation's region - elsewhere it runs on ad-hoc
+    // capacity - and a reservation's jobs never use more than its units.
+    getUsage(claims: ReservationClaim[]): Map<string, number> {
+        const usage = new Map<string, number>();
+
+        for (const claim of claims) {
+            const reservation = this.getReservation(claim.reservationId);
+            if (!reservation || reservation.region !== claim.region) continue;
+
+            const used = usage.get(reservation.id) || 0;
+            usage.set(reservation.id, Math.min(reservation.loadUnits, used + claim.load));
+        }
+
+        return usage;
+    }
+
+    // Unused units of the open reservations per region. usage holds the load units
+    // in use per reservation; the job's own reservation is not held back from it.
+    getHeldBackCapacity(usage: Map<string, number>, excludeReservationId?: string, now: number = Date.now()): Record<string, number> {
+        const heldBack: Record<string, number> = {};
+
+        for (const reservation of this.getActiveReservations(now)) {
+            if (reservation.id === excludeReservationId) continue;
+
+            const unused = Math.max(0, reservation.loadUnits - (usage.get(reservation.id) || 0));
+            heldBack[reservation.region] = (heldBack[reservation.region] || 0) + unused;
+        }
+
+        return heldBack;
+    }
+
+    private pruneEnded(): void {
+        const now = Date.now();
+        for (const [id, reservation] of this.reservations) {
+            if (reservation.endsAt <= now) this.reservations.delete(id);
+        }
+    }
+}
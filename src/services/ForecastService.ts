@@ -0,0 +1,214 @@
+// src/services/ForecastService.ts
+import { Logger } from '../utils/Logger';
+import { Database } from '../database/Database';
+import { config } from '../config/config';
+import {
+    SeasonalModel,
+    SeriesPoint,
+    Z_SCORES,
+    fitSeasonalModel,
+    predict,
+    seasonalSlot,
+    weeklyCoverage
+} from '../utils/Forecasting';
+import { CapacityForecastPoint, RegionCapacityForecast } from '../types/interfaces';
+
+interface RegionModel {
+    model: SeasonalModel;
+    // Average capacity of one FFmpeg node in the region over the history
+    nodeCapacity: number;
+    // Expected recording starts in each hour of the week
+    startsByHourOfWeek: number[];
+    historyHours: number;
+}
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+// Fits a per-region seasonal model to the hourly peak load in the metrics
+// history, and counts recording starts per hour of the week. Forecasts turn
+// the predicted load into the node count that keeps the region below the
+// scale-up threshold, so capacity can be added ahead of known peaks.
+export class ForecastService {
+    private logger: Logger;
+    private database: Database;
+    private models: Map<string, RegionModel> = new Map();
+    private trainedAt: number | null = null;
+    private refreshInterval: NodeJS.Timeout | null = null;
+
+    // An hour is a start peak when it sees this many times the average starts
+    private static readonly START_PEAK_FACTOR = 2;
+
+    constructor(database: Database) {
+        this.logger = new Logger('ForecastService');
+        this.database = database;
+    }
+
+    start(): void {
+        if (!config.forecast.enabled) {
+            this.logger.info('Load forecasting disabled');
+            return;
+        }
+
+        this.refresh().catch(error => this.logger.error('Failed to fit load forecasts:', error));
+
+        this.refreshInterval = setInterval(() => {
+            this.refresh().catch(error => this.logger.error('Failed to fit load forecasts:', error));
+        }, config.forecast.refreshInterval);
+    }
+
+    stop(): void {
+        if (this.refreshInterval) {
+            clearInterval(this.refreshInterval);
+            this.refreshInterval = null;
+        }
+    }
+
+    isEnabled(): boolean {
+        return config.forecast.enabled;
+    }
+
+    getTrainedAt(): number | null {
+        return this.trainedAt;
+    }
+
+    async refresh(): Promise<void> {
+        const until = Math.floor(Date.now() / HOUR) * HOUR;
+        const since = new Date(until - config.forecast.historyDays * DAY);
+
+        const [rollups, starts] = await Promise.all([
+            this.database.getMetricsRollups('hour', since, new Date(until)),
+            this.database.getRecordingStarts(since)
+        ]);
+
+        const series = new Map<string, { points: SeriesPoint[]; nodeCapacities: number[] }>();
+        for (const point of rollups) {
+            for (const [region, rollup] of Object.entries(point.byRegion)) {
+                const entry = series.get(region) || { points: [], nodeCapacities: [] };
+
+                // Capacity has to cover the busiest moment of the hour, not its average
+                entry.points.push({ timestamp: point.timestamp, value: rollup.load.max });
+                if (rollup.ffmpegNodes.avg > 0) {
+                    entry.nodeCapacities.push(rollup.capacity.avg / rollup.ffmpegNodes.avg);
+                }
+
+                series.set(region, entry);
+            }
+        }
+
+        // Every hour of the week occurs historyDays / 7 times in the history
+        const occurrences = config.forecast.historyDays / 7;
+        const startsByRegion = new Map<string, number[]>();
+        for (const start of starts) {
+            if (!start.region) continue;
+
+            const slots = startsByRegion.get(start.region) || new Array(168).fill(0);
+            slots[seasonalSlot(start.startTime, config.forecast.timezone).hourOfWeek] += 1 / occurrences;
+            startsByRegion.set(start.region, slots);
+        }
+
+        const models = new Map<string, RegionModel>();
+        for (const [region, { points, nodeCapacities }] of series) {
+            if (points.length < config.forecast.minHistoryHours) continue;
+
+            const model = fitSeasonalModel(points, config.forecast.timezone);
+            if (!model) continue;
+
+            models.set(region, {
+                model,
+                nodeCapacity: nodeCapacities.length > 0 ?
+                    nodeCapacities.reduce((sum, capacity) => sum + capacity, 0) / nodeCapacities.length : 0,
+                startsByHourOfWeek: startsByRegion.get(region) || new Array(168).fill(0),
+                historyHours: points.length
+            });
+        }
+
+        this.models = models;
+        this.trainedAt = Date.now();
+
+        this.logger.info('Load forecasts fitted', {
+            regions: Array.from(models.keys()),
+            skippedRegions: Array.from(series.keys()).filter(region => !models.has(region)),
+            recordingStarts: starts.length
+        });
+    }
+
+    // Regions without enough history are left out
+    getForecast(hours: number, region?: string): RegionCapacityForecast[] {
+        const from = Math.floor(Date.now() / HOUR) * HOUR;
+
+        return Array.from(this.models.entries())
+            .filter(([name]) => !region || name === region)
+            .map(([name, regionModel]) => {
+                const points = this.forecastPoints(regionModel, from, hours, regionModel.nodeCapacity);
+
+                return {
+                    region: name,
+                    trainedAt: this.trainedAt!,
+                    historyHours: regionModel.historyHours,
+                    weeklyCoverage: Math.round(weeklyCoverage(regionModel.model) * 100) / 100,
+                    trendPerDay: this.round(regionModel.model.slopePerHour * 24),
+                    nodeCapacity: this.round(regionModel.nodeCapacity),
+                    confidence: config.forecast.confidence,
+                    points,
+                    peaks: this.findPeaks(points, regionModel)
+                };
+            });
+    }
+
+    // The most nodes any hour needs between now and the lead time, or null without a model.
+    // nodeCapacity overrides the historical average, e.g. with the current node size.
+    getRequiredNodes(region: string, nodeCapacity?: number): CapacityForecastPoint | null {
+        const regionModel = this.models.get(region);
+        if (!regionModel) return null;
+
+        const now = Date.now();
+        const from = Math.floor(now / HOUR) * HOUR;
+        const hours = Math.max(1, Math.ceil((now + config.forecast.leadTimeMinutes * 60 * 1000 - from) / HOUR));
+
+        const points = this.forecastPoints(regionModel, from, hours, nodeCapacity || regionModel.nodeCapacity);
+
+        return points.reduce((highest, point) => point.requiredNodes > highest.requiredNodes ? point : highest);
+    }
+
+    private forecastPoints(regionModel: RegionModel, from: number, hours: number, nodeCapacity: number): CapacityForecastPoint[] {
+        const z = Z_SCORES[String(config.forecast.confidence)]!;
+        const threshold = config.orchestration.autoScaling.scaleUpThreshold / 100;
+        const points: CapacityForecastPoint[] = [];
+
+        for (let i = 0; i < hours; i++) {
+            const timestamp = from + i * HOUR;
+            const { value, std } = predict(regionModel.model, timestamp, config.forecast.timezone);
+            const upperBound = value + z * std;
+            const requiredCapacity = upperBound / threshold;
+            const hourOfWeek = seasonalSlot(timestamp, config.forecast.timezone).hourOfWeek;
+
+            points.push({
+                timestamp,
+                predictedLoad: this.round(value),
+                lowerBound: this.round(Math.max(0, value - z * std)),
+                upperBound: this.round(upperBound),
+                expectedRecordingStarts: this.round(regionModel.startsByHourOfWeek[hourOfWeek]!),
+                requiredCapacity: this.round(requiredCapacity),
+                requiredNodes: nodeCapacity > 0 ? Math.ceil(requiredCapacity / nodeCapacity) : 0
+            });
+        }
+
+        return points;
+    }
+
+    // Hours needing more nodes than the hour before, or with an unusual number of recording starts
+    private findPeaks(points: CapacityForecastPoint[], regionModel: RegionModel): CapacityForecastPoint[] {
+        const averageStarts = regionModel.startsByHourOfWeek.reduce((sum, starts) => sum + starts, 0) / 168;
+
+        return points.filter((point, i) =>
+            (i > 0 && point.requiredNodes > points[i - 1]!.requiredNodes) ||
+            (point.expectedRecordingStarts >= 1 &&
+                point.expectedRecordingStarts >= averageStarts * ForecastService.START_PEAK_FACTOR)
+        );
+    }
+
+    private round(value: number): number {
+        return Math.round(value * 100) / 100;
+    }
+}
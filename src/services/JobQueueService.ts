@@ -0,0 +1,193 @@
+// src/services/JobQueueService.ts
+import { EventEmitter } from 'events';
+import { Logger } from '../utils/Logger';
+import { Database } from '../database/Database';
+import { RecordingJobModel } from '../models/RecordingJob';
+import { DistributedRecordingJob, QueueEntry, QueueSnapshot } from '../types/interfaces';
+
+interface QueuedJob {
+    job: DistributedRecordingJob;
+    enqueuedAt: number;
+}
+
+export class JobQueueService extends EventEmitter {
+    private logger: Logger;
+    private database: Database;
+    private jobModel: RecordingJobModel;
+
+    private queue: Map<string, QueuedJob> = new Map();
+    private recentDurations: number[] = [];
+
+    private static readonly DURATION_SAMPLE_SIZE = 50;
+    private static readonly DEFAULT_JOB_DURATION = 3600000; // 1 hour
+
+    constructor(database: Database) {
+        super();
+        this.logger = new Logger('JobQueueService');
+        this.database = database;
+        this.jobModel = new RecordingJobModel();
+    }
+
+    async enqueue(job: DistributedRecordingJob): Promise<number> {
+        this.queue.set(job.jobId, { job, enqueuedAt: Date.now() });
+
+        await this.persist();
+
+        const position = this.getPosition(job.jobId)!;
+
+        this.logger.info(`Job ${job.jobId} queued`, {
+            position,
+            priority: this.jobModel.getPriority(job),
+            queueLength: this.queue.size
+        });
+
+        this.emit('jobQueued', job, position);
+
+        return position;
+    }
+
+    async remove(jobId: string): Promise<boolean> {
+        if (!this.queue.delete(jobId)) {
+            return false;
+        }
+
+        await this.persist();
+
+        this.emit('jobDequeued', jobId);
+
+        return true;
+    }
+
+    has(jobId: string): boolean {
+        return this.queue.has(jobId);
+    }
+
+    size(): number {
+        return this.queue.size;
+    }
+
+    // Jobs in dispatch order. Priorities age over time, so the order is
+    // recomputed on every call rather than kept sorted on insert.
+    getOrderedJobs(): DistributedRecordingJob[] {
+        return this.getOrderedEntries().map(entry => entry.job);
+    }
+
+    getPosition(jobId: string): number | null {
+        const index = this.getOrderedEntries().findIndex(entry => entry.job.jobId === jobId);
+        return index > -1 ? index + 1 : null;
+    }
+
+    // Feed completed recording durations into the wait estimate
+    recordJobDuration(durationMs: number): void {
+        if (durationMs <= 0) return;
+
+        this.recentDurations.push(durationMs);
+        if (this.recentDurations.length > JobQueueService.DURATION_SAMPLE_SIZE) {
+            this.recentDurations.shift();
+        }
+    }
+
+    getSnapshot(capacity: { availableSlots: number; totalSlots: number }): QueueSnapshot {
+        const now = Date.now();
+        const averageJobDuration = this.getAverageJobDuration();
+
+        const entries: QueueEntry[] = this.getOrderedEntries().map((entry, index) => {
+            const position = index + 1;
+
+            return {
+                jobId: entry.job.jobId,
+                position,
+                priority: this.jobModel.getPriority(entry.job),
+                roomServerId: entry.job.roomServerId,
+                roomId: entry.job.roomId,
+                peerId: entry.job.peerId,
+                peerName: entry.job.peerInfo.displayName,
+                enqueuedAt: entry.enqueuedAt,
+                waitingMs: now - entry.enqueuedAt,
+                estimatedWaitMs: this.estimateWait(position, capacity, averageJobDuration)
+            };
+        });
+
+        return {
+            length: entries.length,
+            averageJobDuration,
+            availableSlots: capacity.availableSlots,
+            totalSlots: capacity.totalSlots,
+            entries,
+            timestamp: now
+        };
+    }
+
+    // Rebuild the queue from pending jobs after a restart, keeping the
+    // persisted enqueue times so aging carries over
+    async restore(pendingJobs: DistributedRecordingJob[]): Promise<void> {
+        const persisted = await this.database.getQueueEntries();
+        const enqueuedAtByJob = new Map(persisted.map(entry => [entry.jobId, entry.enqueuedAt]));
+
+        this.queue.clear();
+        for (const job of pendingJobs) {
+            this.queue.set(job.jobId, {
+                job,
+                enqueuedAt: enqueuedAtByJob.get(job.jobId) || job.startTime
+            });
+        }
+
+        await this.persist();
+
+        this.logger.info('Job queue restored', {
+            restored: this.queue.size,
+            persistedEntries: persisted.length
+        });
+    }
+
+    private getOrderedEntries(): QueuedJob[] {
+        return Array.from(this.queue.values()).sort((a, b) =>
+            this.jobModel.getPriority(b.job) - this.jobModel.getPriority(a.job) ||
+            a.enqueuedAt - b.enqueuedAt
+        );
+    }
+
+    private estimateWait(
+        position: number,
+        capacity: { availableSlots: number; totalSlots: number },
+        averageJobDuration: number
+    ): number | null {
+        // Picked up on the next queue pass
+        if (position <= capacity.availableSlots) {
+            return 0;
+        }
+
+        // No nodes to ever free up a slot
+        if (capacity.totalSlots === 0) {
+            return null;
+        }
+
+        const waves = Math.ceil((position - capacity.availableSlots) / capacity.totalSlots);
+        return waves * averageJobDuration;
+    }
+
+    private getAverageJobDuration(): number {
+        if (this.recentDurations.length === 0) {
+            return JobQueueService.DEFAULT_JOB_DURATION;
+        }
+
+        const total = this.recentDurations.reduce((sum, duration) => sum + duration, 0);
+        return Math.round(total / this.recentDurations.length);
+    }
+
+    private async persist(): Promise<void> {
+        const entries = this.getOrderedEntries().map((entry, index) => ({
+            jobId: entry.job.jobId,
+            position: index + 1,
+            priority: this.jobModel.getPriority(entry.job),
+            enqueuedAt: entry.enqueuedAt
+        }));
+
+        try {
+            await this.database.saveQueueEntries(entries);
+        } catch (error) {
+            // The in-memory queue stays authoritative; the next change retries
+            this.logger.error('Failed to persist job queue:', error);
+        }
+    }
+}
@@ -16,6 +16,10 @@ export class LoadBalancerService {
         this.logger = new Logger('LoadBalancerService');
     }
 
+    isSchedulable(node: FFmpegNode | RoomServerNode): boolean {
+        return !node.scheduling || node.scheduling.state === 'active';
+    }
+
     async selectOptimalFFmpegNode(
         availableNodes: FFmpegNode[],
         requirements: RecordingRequirements
@@ -26,16 +30,26 @@ export class LoadBalancerService {
             requirements
         });
 
-        // Filter by availability
-        const healthyNodes = availableNodes.filter(node =>
-            node.isHealthy && node.currentLoad < node.capacity
+        // Filter by availability - cordoned and draining nodes take no new jobs,
+        // and the job's whole estimated load has to fit on the node
+        const schedulableNodes = availableNodes.filter(node =>
+            node.isHealthy && this.isSchedulable(node) && node.capacity - node.currentLoad >= requirements.estimatedLoad
         );
 
-        if (healthyNodes.length === 0) {
+        if (schedulableNodes.length === 0) {
             this.logger.warn('No healthy FFmpeg nodes available');
             return null;
         }
 
+        const healthyNodes = this.filterReservedRegions(schedulableNodes, requirements.estimatedLoad, requirements.heldBackCapacity);
+
+        if (healthyNodes.length === 0) {
+            this.logger.warn('Remaining FFmpeg node capacity is held back by capacity reservations', {
+                heldBackCapacity: requirements.heldBackCapacity
+            });
+            return null;
+        }
+
         // Filter by region preference
         const preferredRegionNodes = healthyNodes.filter(node =>
             node.region === requirements.region
@@ -101,6 +115,22 @@ export class LoadBalancerService {
         return selectedNode;
     }
 
+    // Drops the nodes of regions where the job's load doesn't fit next to the capacity held back by reservations
+    private filterReservedRegions(nodes: FFmpegNode[], estimatedLoad: number, heldBackCapacity?: Record<string, number>): FFmpegNode[] {
+        if (!heldBackCapacity || Object.keys(heldBackCapacity).length === 0) {
+            return nodes;
+        }
+
+        const freeByRegion = new Map<string, number>();
+        for (const node of nodes) {
+            freeByRegion.set(node.region, (freeByRegion.get(node.region) || 0) + node.capacity - node.currentLoad);
+        }
+
+        return nodes.filter(node =>
+            freeByRegion.get(node.region)! - (heldBackCapacity[node.region] || 0) >= estimatedLoad
+        );
+    }
+
     private calculateNodeScore(node: FFmpegNode, requirements: RecordingRequirements): number {
         let score = 0;
 
@@ -148,7 +178,7 @@ export class LoadBalancerService {
     ): RoomServerNode | null {
 
         const availableServers = roomServers.filter(server =>
-            server.isHealthy && server.currentLoad < server.capacity
+            server.isHealthy && this.isSchedulable(server) && server.currentLoad < server.capacity
         );
 
         if (availableServers.length === 0) {
@@ -422,38 +452,4 @@ export class LoadBalancerService {
 
         return recommendations;
     }
-
-    // Predict future load based on current trends
-    predictLoad(nodes: FFmpegNode[], timeHorizonMinutes: number = 30): any {
-        const currentTime = Date.now();
-        const predictions = [];
-
-        for (const node of nodes) {
-            const currentLoadPercentage = (node.currentLoad / node.capacity) * 100;
-
-            // Simple linear prediction based on current load trend
-            // In real implementation, this would use historical data
-            const predictedLoad = Math.min(100, currentLoadPercentage * 1.1);
-
-            predictions.push({
-                nodeId: node.id,
-                currentLoad: currentLoadPercentage,
-                predictedLoad,
-                timeHorizon: timeHorizonMinutes,
-                confidence: predictedLoad > 80 ? 'high' : 'medium',
-                recommendation: predictedLoad > 90 ? 'scale_up' :
-                    predictedLoad < 20 ? 'scale_down' : 'maintain'
-            });
-        }
-
-        return {
-            timestamp: currentTime,
-            timeHorizonMinutes,
-            predictions,
-            summary: {
-                nodesNeedingAttention: predictions.filter(p => p.predictedLoad > 80).length,
-                overallTrend: predictions.reduce((sum, p) => sum + p.predictedLoad, 0) / predictions.length
-            }
-        };
-    }
 }
\ No newline at end of file
@@ -0,0 +1,190 @@
+// src/services/MetricsHistoryService.ts
+import { Logger } from '../utils/Logger';
+import { Database } from '../database/Database';
+import { config } from '../config/config';
+import {
+    MetricsAggregate,
+    MetricsDataPoint,
+    MetricsInterval,
+    MetricsResolution,
+    MetricsSample,
+    RegionMetrics,
+    RegionMetricsRollup,
+    SystemMetrics
+} from '../types/interfaces';
+
+type AggregatedField = Exclude<keyof MetricsDataPoint, 'timestamp' | 'samples' | 'byRegion'>;
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+// Raw samples are rolled into minute buckets, minutes into hours and hours
+// into days. Every level has its own retention, so the history stays
+// bounded while long ranges remain queryable at a coarser resolution.
+export class MetricsHistoryService {
+    private logger: Logger;
+    private database: Database;
+
+    private static readonly LEVELS: Array<{ resolution: MetricsResolution; source: MetricsInterval; bucketMs: number }> = [
+        { resolution: 'minute', source: 'raw', bucketMs: MINUTE },
+        { resolution: 'hour', source: 'minute', bucketMs: HOUR },
+        { resolution: 'day', source: 'hour', bucketMs: DAY }
+    ];
+
+    private static readonly AGGREGATED_FIELDS: AggregatedField[] = [
+        'totalRoomServers', 'healthyRoomServers', 'totalFFmpegNodes', 'healthyFFmpegNodes',
+        'activeRecordings', 'totalCapacity', 'currentLoad', 'queueLength'
+    ];
+
+    private static readonly REGION_FIELDS: Array<keyof RegionMetrics> = [
+        'roomServers', 'ffmpegNodes', 'activeRecordings', 'capacity', 'load', 'avgLoad'
+    ];
+
+    // Keeps a single response to a sensible size
+    private static readonly MAX_POINTS = 10000;
+
+    constructor(database: Database) {
+        this.logger = new Logger('MetricsHistoryService');
+        this.database = database;
+    }
+
+    async record(metrics: SystemMetrics): Promise<void> {
+        await this.database.saveMetrics(metrics);
+    }
+
+    async query(startDate: Date, endDate: Date, interval: MetricsInterval): Promise<MetricsDataPoint[]> {
+        const bucketMs = interval === 'raw'
+            ? config.monitoring.metricsInterval
+            : MetricsHistoryService.LEVELS.find(level => level.resolution === interval)!.bucketMs;
+
+        const expectedPoints = (endDate.getTime() - startDate.getTime()) / bucketMs;
+        if (expectedPoints > MetricsHistoryService.MAX_POINTS) {
+            throw new Error(`Range is too large for '${interval}' resolution - use a coarser interval`);
+        }
+
+        if (interval === 'raw') {
+            const samples = await this.database.getRawMetrics(startDate, endDate);
+            return samples.map(sample => this.toDataPoint(sample));
+        }
+
+        return this.database.getMetricsRollups(interval, startDate, endDate);
+    }
+
+    async runMaintenance(): Promise<void> {
+        const rolledUp = await this.rollUp();
+        const pruned = await this.prune();
+
+        if (rolledUp > 0 || pruned > 0) {
+            this.logger.debug('Metrics history maintenance finished', { rolledUp, pruned });
+        }
+    }
+
+    // Only complete buckets are written; each level picks up where its last run stopped
+    private async rollUp(): Promise<number> {
+        let written = 0;
+
+        for (const level of MetricsHistoryService.LEVELS) {
+            const latest = await this.database.getLatestMetricsRollup(level.resolution);
+            const from = new Date(latest !== null ? latest + level.bucketMs : 0);
+            const until = new Date(Math.floor(Date.now() / level.bucketMs) * level.bucketMs);
+
+            if (from >= until) continue;
+
+            const points = level.source === 'raw'
+                ? (await this.database.getRawMetrics(from, until)).map(sample => this.toDataPoint(sample))
+                : await this.database.getMetricsRollups(level.source, from, until);
+
+            const buckets = this.aggregate(points, level.bucketMs);
+            if (buckets.length === 0) continue;
+
+            await this.database.saveMetricsRollups(level.resolution, buckets);
+            written += buckets.length;
+        }
+
+        return written;
+    }
+
+    private async prune(): Promise<number> {
+        const { retention } = config.monitoring;
+        const now = Date.now();
+
+        let deleted = await this.database.deleteRawMetricsBefore(new Date(now - retention.rawHours * HOUR));
+        deleted += await this.database.deleteMetricsRollupsBefore('minute', new Date(now - retention.minuteDays * DAY));
+        deleted += await this.database.deleteMetricsRollupsBefore('hour', new Date(now - retention.hourDays * DAY));
+        deleted += await this.database.deleteMetricsRollupsBefore('day', new Date(now - retention.dayDays * DAY));
+
+        return deleted;
+    }
+
+    private aggregate(points: MetricsDataPoint[], bucketMs: number): MetricsDataPoint[] {
+        const buckets = new Map<number, MetricsDataPoint[]>();
+
+        for (const point of points) {
+            const bucketStart = Math.floor(point.timestamp / bucketMs) * bucketMs;
+            const bucket = buckets.get(bucketStart) || [];
+            bucket.push(point);
+            buckets.set(bucketStart, bucket);
+        }
+
+        return Array.from(buckets.entries())
+            .sort(([a], [b]) => a - b)
+            .map(([bucketStart, bucketPoints]) => this.mergePoints(bucketStart, bucketPoints));
+    }
+
+    // Averages are weighted by sample count so coarser levels stay exact
+    private mergePoints(timestamp: number, points: MetricsDataPoint[]): MetricsDataPoint {
+        const samples = points.reduce((sum, point) => sum + point.samples, 0);
+
+        const merged = { timestamp, samples, byRegion: {} } as MetricsDataPoint;
+        for (const field of MetricsHistoryService.AGGREGATED_FIELDS) {
+            merged[field] = this.mergeAggregates(points.map(point => ({ aggregate: point[field], samples: point.samples })));
+        }
+
+        const regions = new Set(points.flatMap(point => Object.keys(point.byRegion)));
+        for (const region of regions) {
+            const regionPoints = points
+                .map(point => point.byRegion[region])
+                .filter((entry): entry is RegionMetricsRollup => !!entry);
+
+            const rollup = { samples: regionPoints.reduce((sum, entry) => sum + entry.samples, 0) } as RegionMetricsRollup;
+            for (const field of MetricsHistoryService.REGION_FIELDS) {
+                rollup[field] = this.mergeAggregates(regionPoints.map(entry => ({ aggregate: entry[field], samples: entry.samples })));
+            }
+
+            merged.byRegion[region] = rollup;
+        }
+
+        return merged;
+    }
+
+    private mergeAggregates(entries: Array<{ aggregate: MetricsAggregate; samples: number }>): MetricsAggregate {
+        const samples = entries.reduce((sum, entry) => sum + entry.samples, 0);
+        const weightedSum = entries.reduce((sum, entry) => sum + entry.aggregate.avg * entry.samples, 0);
+
+        return {
+            avg: samples > 0 ? Math.round((weightedSum / samples) * 100) / 100 : 0,
+            min: Math.min(...entries.map(entry => entry.aggregate.min)),
+            max: Math.max(...entries.map(entry => entry.aggregate.max))
+        };
+    }
+
+    private toDataPoint(sample: MetricsSample): MetricsDataPoint {
+        const single = (value: number): MetricsAggregate => ({ avg: value, min: value, max: value });
+        const point = { timestamp: sample.timestamp, samples: 1, byRegion: {} } as MetricsDataPoint;
+
+        for (const field of MetricsHistoryService.AGGREGATED_FIELDS) {
+            point[field] = single(sample.metrics[field] || 0);
+        }
+
+        for (const [region, metrics] of Object.entries(sample.metrics.byRegion || {})) {
+            const rollup = { samples: 1 } as RegionMetricsRollup;
+            for (const field of MetricsHistoryService.REGION_FIELDS) {
+                rollup[field] = single(metrics[field] || 0);
+            }
+            point.byRegion[region] = rollup;
+        }
+
+        return point;
+    }
+}
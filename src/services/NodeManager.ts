@@ -1,10 +1,19 @@
 import { EventEmitter } from 'events';
 import { Logger } from '../utils/Logger';
-import { RoomServerNode, FFmpegNode } from '../types/interfaces';
+import {
+    RoomServerNode,
+    FFmpegNode,
+    PortRange,
+    PortLease,
+    PortReconciliationResult
+} from '../types/interfaces';
 
 export class NodeManager extends EventEmitter {
     private logger: Logger;
-    private portAllocations: Map<string, Set<number>> = new Map();
+    private portRanges: Map<string, PortRange> = new Map();
+    private portLeases: Map<string, Map<number, PortLease>> = new Map(); // nodeId -> RTP port -> lease
+
+    private static readonly DEFAULT_PORT_RANGE: PortRange = { start: 5000, end: 6000 };
 
     constructor() {
         super();
@@ -16,18 +25,32 @@ export class NodeManager extends EventEmitter {
     }
 
     // PORT ALLOCATION MANAGEMENT
-    async allocateRTPPorts(nodeId: string, count: number): Promise<number[]> {
-        if (!this.portAllocations.has(nodeId)) {
-            this.portAllocations.set(nodeId, new Set());
+    registerPortRange(nodeId: string, range: PortRange = NodeManager.DEFAULT_PORT_RANGE): void {
+        if (range.start % 2 !== 0 || range.end <= range.start) {
+            throw new Error(`Invalid RTP port range ${range.start}-${range.end} for node ${nodeId}`);
+        }
+
+        this.portRanges.set(nodeId, range);
+        if (!this.portLeases.has(nodeId)) {
+            this.portLeases.set(nodeId, new Map());
+        }
+
+        this.logger.debug(`Registered port range for node ${nodeId}`, range);
+    }
+
+    // Hand out even RTP ports, each paired with the odd RTCP port above it
+    async allocateRTPPorts(nodeId: string, count: number, jobId: string): Promise<number[]> {
+        if (!this.portRanges.has(nodeId)) {
+            this.registerPortRange(nodeId);
         }
 
-        const allocatedPorts = this.portAllocations.get(nodeId)!;
+        const range = this.portRanges.get(nodeId)!;
+        const leases = this.portLeases.get(nodeId)!;
         const newPorts: number[] = [];
-        let currentPort = 5000; // Starting port
+        let currentPort = range.start;
 
-        while (newPorts.length < count && currentPort < 6000) {
-            if (!allocatedPorts.has(currentPort)) {
-                allocatedPorts.add(currentPort);
+        while (newPorts.length < count && currentPort + 1 <= range.end) {
+            if (!leases.has(currentPort)) {
                 newPorts.push(currentPort);
             }
             currentPort += 2; // RTP uses even ports, RTCP uses odd
@@ -37,18 +60,83 @@ export class NodeManager extends EventEmitter {
             throw new Error(`Could not allocate ${count} ports for node ${nodeId}`);
         }
 
-        this.logger.debug(`Allocated ports for node ${nodeId}`, { ports: newPorts });
+        const leasedAt = Date.now();
+        for (const port of newPorts) {
+            leases.set(port, { nodeId, jobId, rtpPort: port, rtcpPort: port + 1, leasedAt });
+        }
+
+        this.logger.debug(`Allocated ports for node ${nodeId}`, { jobId, ports: newPorts });
         return newPorts;
     }
 
+    // Re-create leases for jobs that were running before a restart
+    restorePortLeases(nodeId: string, jobId: string, ports: number[]): void {
+        if (!this.portRanges.has(nodeId)) {
+            this.registerPortRange(nodeId);
+        }
+
+        const leases = this.portLeases.get(nodeId)!;
+        const leasedAt = Date.now();
+        for (const port of ports) {
+            leases.set(port, { nodeId, jobId, rtpPort: port, rtcpPort: port + 1, leasedAt });
+        }
+    }
+
     releasePorts(nodeId: string, ports: number[]): void {
-        const allocatedPorts = this.portAllocations.get(nodeId);
-        if (allocatedPorts) {
-            ports.forEach(port => allocatedPorts.delete(port));
+        const leases = this.portLeases.get(nodeId);
+        if (leases) {
+            ports.forEach(port => leases.delete(port));
             this.logger.debug(`Released ports for node ${nodeId}`, { ports });
         }
     }
 
+    releaseJobPorts(nodeId: string, jobId: string): number[] {
+        const leases = this.portLeases.get(nodeId);
+        if (!leases) return [];
+
+        const released = Array.from(leases.values())
+            .filter(lease => lease.jobId === jobId)
+            .map(lease => lease.rtpPort);
+
+        if (released.length > 0) {
+            this.releasePorts(nodeId, released);
+        }
+
+        return released;
+    }
+
+    // Compare the leases held on a node with what the orchestrator and the
+    // node itself consider running. Leases of jobs neither side knows about
+    // are reclaimed.
+    reconcilePortLeases(nodeId: string, reportedJobIds: string[], activeJobIds: string[]): PortReconciliationResult {
+        const leases = this.portLeases.get(nodeId) || new Map<number, PortLease>();
+        const reported = new Set(reportedJobIds);
+        const active = new Set(activeJobIds);
+        const leasedJobIds = new Set(Array.from(leases.values()).map(lease => lease.jobId));
+
+        const orphanedJobIds = Array.from(leasedJobIds).filter(jobId => !reported.has(jobId) && !active.has(jobId));
+        const releasedPorts = orphanedJobIds.flatMap(jobId => this.releaseJobPorts(nodeId, jobId));
+
+        // Running on the node without a lease - the node allocated these itself
+        const untrackedJobIds = reportedJobIds.filter(jobId => !leasedJobIds.has(jobId));
+
+        if (releasedPorts.length > 0 || untrackedJobIds.length > 0) {
+            this.logger.warn(`Port lease reconciliation for node ${nodeId}`, {
+                releasedPorts,
+                orphanedJobIds,
+                untrackedJobIds
+            });
+        }
+
+        return { nodeId, releasedPorts, orphanedJobIds, untrackedJobIds };
+    }
+
+    getPortLeases(nodeId?: string): PortLease[] {
+        const nodes = nodeId ? [this.portLeases.get(nodeId)] : Array.from(this.portLeases.values());
+
+        return nodes.flatMap(leases => leases ? Array.from(leases.values()) : []);
+    }
+
     // NODE HEALTH ASSESSMENT
     assessNodeHealth(node: RoomServerNode | FFmpegNode): {
         isHealthy: boolean;
@@ -155,8 +243,8 @@ export class NodeManager extends EventEmitter {
         this.logger.info(`Performing maintenance on ${nodeType} ${nodeId}`);
 
         // Release allocated ports
-        if (this.portAllocations.has(nodeId)) {
-            this.portAllocations.delete(nodeId);
+        if (this.portLeases.has(nodeId)) {
+            this.portLeases.set(nodeId, new Map());
         }
 
         // Emit maintenance event
@@ -242,20 +330,21 @@ export class NodeManager extends EventEmitter {
     // CLEANUP OPERATIONS
     async cleanupNode(nodeId: string): Promise<void> {
         // Release ports
-        this.releasePorts(nodeId, []);
-        this.portAllocations.delete(nodeId);
+        this.portLeases.delete(nodeId);
+        this.portRanges.delete(nodeId);
 
         this.logger.info(`Cleaned up node ${nodeId}`);
     }
 
     getNodeStatistics(): any {
         return {
-            totalPortAllocations: Array.from(this.portAllocations.values())
-                .reduce((sum, ports) => sum + ports.size, 0),
-            nodesWithAllocations: this.portAllocations.size,
+            totalPortAllocations: Array.from(this.portLeases.values())
+                .reduce((sum, leases) => sum + leases.size, 0),
+            nodesWithAllocations: Array.from(this.portLeases.values())
+                .filter(leases => leases.size > 0).length,
             portsByNode: Object.fromEntries(
-                Array.from(this.portAllocations.entries())
-                    .map(([nodeId, ports]) => [nodeId, ports.size])
+                Array.from(this.portLeases.entries())
+                    .map(([nodeId, leases]) => [nodeId, leases.size])
             )
         };
     }
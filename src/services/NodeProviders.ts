@@ -0,0 +1,238 @@
+// src/services/NodeProviders.ts
+import http from 'http';
+import https from 'https';
+import { exec } from 'child_process';
+import { promisify } from 'util';
+import { NodeProviderType, NodeProvisionSpec, ProvisionedNode, ProvisioningConfig } from '../types/interfaces';
+
+const execAsync = promisify(exec);
+
+export interface ProvisionResult {
+    // Provider's handle for the instance, passed back on deprovision
+    instanceId: string;
+    details?: Record<string, any> | undefined;
+}
+
+// Starts and stops FFmpeg nodes. A provisioned node registers itself with the
+// orchestrator like any manually deployed node, carrying its provisionId in
+// the registration metadata.
+export interface NodeProvider {
+    readonly name: NodeProviderType;
+    provision(region: string, spec: NodeProvisionSpec): Promise<ProvisionResult>;
+    deprovision(node: ProvisionedNode): Promise<void>;
+}
+
+// Environment every provisioned node is started with
+const nodeEnvironment = (region: string, spec: NodeProvisionSpec): Record<string, string> => ({
+    ORCHESTRATOR_URL: spec.orchestratorUrl,
+    NODE_REGION: region,
+    PROVISION_ID: spec.provisionId,
+    ...(spec.apiKey && { NODE_API_KEY: spec.apiKey })
+});
+
+// Runs containers through the Docker Engine API, over the local socket or TCP
+export class DockerNodeProvider implements NodeProvider {
+    readonly name = 'docker';
+    private config: ProvisioningConfig['docker'];
+
+    private static readonly TIMEOUT_MS = 30000;
+    // Seconds a container gets to exit before it is killed
+    private static readonly STOP_GRACE_SECONDS = 30;
+
+    constructor(dockerConfig: ProvisioningConfig['docker']) {
+        this.config = dockerConfig;
+    }
+
+    async provision(region: string, spec: NodeProvisionSpec): Promise<ProvisionResult> {
+        const env = Object.entries(nodeEnvironment(region, spec)).map(([name, value]) => `${name}=${value}`);
+
+        const created = await this.request('POST', `/containers/create?name=edumeet-ffmpeg-${spec.provisionId}`, {
+            Image: this.config.image,
+            Env: [...this.config.env, ...env],
+            Labels: {
+                'edumeet.recording.provision-id': spec.provisionId,
+                'edumeet.recording.region': region
+            },
+            HostConfig: {
+                RestartPolicy: { Name: 'unless-stopped' },
+                ...(this.config.network && { NetworkMode: this.config.network })
+            }
+        });
+
+        if (created.status !== 201) {
+            throw new Error(`Docker refused to create the container: HTTP ${created.status} ${created.body?.message || ''}`.trim());
+        }
+
+        const containerId: string = created.body.Id;
+        const started = await this.request('POST', `/containers/${containerId}/start`);
+
+        if (started.status !== 204 && started.status !== 304) {
+            // Don't leave a created but stopped container behind
+            await this.request('DELETE', `/containers/${containerId}?force=true`).catch(() => undefined);
+            throw new Error(`Docker failed to start container ${containerId}: HTTP ${started.status} ${started.body?.message || ''}`.trim());
+        }
+
+        return {
+            instanceId: containerId,
+            details: { image: this.config.image, warnings: created.body.Warnings || [] }
+        };
+    }
+
+    async deprovision(node: ProvisionedNode): Promise<void> {
+        if (!node.instanceId) return;
+
+        // 304 - already stopped, 404 - already gone
+        const stopped = await this.request('POST', `/containers/${node.instanceId}/stop?t=${DockerNodeProvider.STOP_GRACE_SECONDS}`);
+        if (![204, 304, 404].includes(stopped.status)) {
+            throw new Error(`Docker failed to stop container ${node.instanceId}: HTTP ${stopped.status}`);
+        }
+
+        const removed = await this.request('DELETE', `/containers/${node.instanceId}?force=true`);
+        if (![204, 404].includes(removed.status)) {
+            throw new Error(`Docker failed to remove container ${node.instanceId}: HTTP ${removed.status}`);
+        }
+    }
+
+    private request(method: string, path: string, body?: any): Promise<{ status: number; body: any }> {
+        const target = this.config.apiUrl ? new URL(this.config.apiUrl) : undefined;
+        const payload = body ? JSON.stringify(body) : undefined;
+        const transport = target?.protocol === 'https:' ? https : http;
+
+        return new Promise((resolve, reject) => {
+            const req = transport.request({
+                ...(target ?
+                    { hostname: target.hostname, port: target.port, protocol: target.protocol } :
+                    { socketPath: this.config.socketPath }),
+                path: `/${this.config.apiVersion}${path}`,
+                method,
+                headers: {
+                    'Content-Type': 'application/json',
+                    ...(payload && { 'Content-Length': Buffer.byteLength(payload) })
+                },
+                timeout: DockerNodeProvider.TIMEOUT_MS
+            }, res => {
+                let data = '';
+                res.on('data', chunk => data += chunk);
+                res.on('end', () => {
+                    let parsed: any = undefined;
+                    try {
+                        parsed = data ? JSON.parse(data) : undefined;
+                    } catch {
+                        parsed = { message: data };
+                    }
+                    resolve({ status: res.statusCode || 0, body: parsed });
+                });
+            });
+
+            req.on('timeout', () => req.destroy(new Error(`Docker API request timed out: ${method} ${path}`)));
+            req.on('error', reject);
+
+            if (payload) req.write(payload);
+            req.end();
+        });
+    }
+}
+
+// Delegates to an external service, e.g. a cloud autoscaler front end:
+//   POST <url>/provision   { provisionId, region, orchestratorUrl, apiKey?, specs? } -> { instanceId, details? }
+//   POST <url>/deprovision { provisionId, region, instanceId, nodeId }
+export class HttpNodeProvider implements NodeProvider {
+    readonly name = 'http';
+    private config: ProvisioningConfig['http'];
+
+    constructor(httpConfig: ProvisioningConfig['http']) {
+        this.config = httpConfig;
+    }
+
+    async provision(region: string, spec: NodeProvisionSpec): Promise<ProvisionResult> {
+        const body = await this.post('/provision', {
+            provisionId: spec.provisionId,
+            region,
+            orchestratorUrl: spec.orchestratorUrl,
+            apiKey: spec.apiKey,
+            specs: spec.specs
+        });
+
+        if (!body?.instanceId) {
+            throw new Error('Provisioning service response is missing instanceId');
+        }
+
+        return { instanceId: String(body.instanceId), details: body.details };
+    }
+
+    async deprovision(node: ProvisionedNode): Promise<void> {
+        await this.post('/deprovision', {
+            provisionId: node.provisionId,
+            region: node.region,
+            instanceId: node.instanceId,
+            nodeId: node.nodeId
+        });
+    }
+
+    private async post(path: string, payload: any): Promise<any> {
+        const response = await fetch(`${this.config.url!.replace(/\/$/, '')}${path}`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                ...(this.config.authToken && { Authorization: `Bearer ${this.config.authToken}` })
+            },
+            body: JSON.stringify(payload),
+            signal: AbortSignal.timeout(this.config.timeoutMs)
+        });
+
+        if (!response.ok) {
+            throw new Error(`Provisioning service responded with HTTP ${response.status} to ${path}`);
+        }
+
+        const text = await response.text();
+        return text ? JSON.parse(text) : undefined;
+    }
+}
+
+// Runs operator-supplied commands. Node details are passed as environment
+// variables; the provision command prints the instance id on its last line.
+export class ScriptNodeProvider implements NodeProvider {
+    readonly name = 'script';
+    private config: ProvisioningConfig['script'];
+
+    constructor(scriptConfig: ProvisioningConfig['script']) {
+        this.config = scriptConfig;
+    }
+
+    async provision(region: string, spec: NodeProvisionSpec): Promise<ProvisionResult> {
+        const { stdout } = await this.run(this.config.provisionCommand!, nodeEnvironment(region, spec));
+        const lines = stdout.trim().split('\n').filter(Boolean);
+
+        return { instanceId: lines[lines.length - 1]?.trim() || spec.provisionId };
+    }
+
+    async deprovision(node: ProvisionedNode): Promise<void> {
+        await this.run(this.config.deprovisionCommand!, {
+            PROVISION_ID: node.provisionId,
+            NODE_REGION: node.region,
+            INSTANCE_ID: node.instanceId || '',
+            NODE_ID: node.nodeId || ''
+        });
+    }
+
+    private run(command: string, env: Record<string, string>): Promise<{ stdout: string; stderr: string }> {
+        return execAsync(command, {
+            env: { ...process.env, ...env },
+            timeout: this.config.timeoutMs
+        });
+    }
+}
+
+// Null when provisioning is disabled
+export const createNodeProvider = (provisioning: ProvisioningConfig): NodeProvider | null => {
+    switch (provisioning.provider) {
+        case 'docker':
+            return new DockerNodeProvider(provisioning.docker);
+        case 'http':
+            return new HttpNodeProvider(provisioning.http);
+        case 'script':
+            return new ScriptNodeProvider(provisioning.script);
+        default:
+            return null;
+    }
+};
@@ -4,6 +4,17 @@ import { Database } from '../database/Database';
 import { LoadBalancerService } from './LoadBalancerService';
 import { NodeManager } from './NodeManager';
 import { AutoScalingService } from './AutoScalingService';
+import { JobQueueService } from './JobQueueService';
+import { RequestSigningService } from './RequestSigningService';
+import { MetricsHistoryService } from './MetricsHistoryService';
+import { CapacityReservationService, ReservationClaim } from './CapacityReservationService';
+import { RecordingJobModel } from '../models/RecordingJob';
+import { CompositeRecordingModel } from '../models/CompositeRecording';
+import { RecordingSegmentModel } from '../models/RecordingSegment';
+import { RecordingOutputModel } from '../models/RecordingOutput';
+import { RecordingPauseModel } from '../models/RecordingPause';
+import { config } from '../config/config';
+import { ApiError, ConflictError, ForbiddenError, NotFoundError } from '../utils/Errors';
 import {
     RoomServerNode,
     FFmpegNode,
@@ -11,32 +22,93 @@ import {
     DistributedRecordingRequest,
     RTPForwardingConfig,
     SystemMetrics,
-    JobStatus
+    JobStatus,
+    JobMetrics,
+    RecordingEvent,
+    RequesterInfo,
+    QueueSnapshot,
+    RecordingRequirements,
+    RTPStreamInfo,
+    CompositeRecordingState,
+    CompositeRecordingRequest,
+    RoomReport,
+    RoomPeerReport,
+    JobAuditRecord,
+    JobTermination,
+    PortLease,
+    NodeType,
+    NodeFilter,
+    NodeSchedulingStatus,
+    NodeSchedulingState,
+    DrainMode,
+    SegmentReason,
+    NodeRegistrationResult,
+    MetricsDataPoint,
+    MetricsInterval,
+    RegionMetrics,
+    RecordingOutput,
+    RecordingOutputStatus
 } from '../types/interfaces';
 
+type NodeView = (RoomServerNode | FFmpegNode) & {
+    type: NodeType;
+    schedulingState: NodeSchedulingState;
+    activeJobIds: string[];
+};
+
 export class OrchestrationService extends EventEmitter {
     private logger: Logger;
     private database: Database;
     private loadBalancer: LoadBalancerService;
     private nodeManager: NodeManager;
     private autoScaling: AutoScalingService;
+    private jobQueue: JobQueueService;
+    private signingService: RequestSigningService;
+    private metricsHistory: MetricsHistoryService;
+    private reservations: CapacityReservationService;
+    private jobModel: RecordingJobModel;
+    private compositeModel: CompositeRecordingModel;
+    private segmentModel: RecordingSegmentModel;
+    private outputModel: RecordingOutputModel;
+    private pauseModel: RecordingPauseModel;
 
     private roomServers: Map<string, RoomServerNode> = new Map();
     private ffmpegNodes: Map<string, FFmpegNode> = new Map();
     private activeJobs: Map<string, DistributedRecordingJob> = new Map();
-    private jobQueue: DistributedRecordingJob[] = [];
+    private roomReports: Map<string, RoomReport> = new Map(); // keyed by `${roomServerId}/${roomId}`
 
     private healthCheckInterval: NodeJS.Timer | null = null;
     private metricsInterval: NodeJS.Timer | null = null;
+    private metricsRollupInterval: NodeJS.Timeout | null = null;
+    private supervisorInterval: NodeJS.Timeout | null = null;
     private subscribers: Set<any> = new Set();
-
-    constructor() {
+    private recordingSubscribers: Map<any, { roomServerId?: string; roomId?: string }> = new Map();
+
+    constructor(
+        database: Database,
+        loadBalancer: LoadBalancerService,
+        nodeManager: NodeManager,
+        autoScaling: AutoScalingService,
+        jobQueue: JobQueueService,
+        signingService: RequestSigningService,
+        metricsHistory: MetricsHistoryService,
+        reservations: CapacityReservationService
+    ) {
         super();
         this.logger = new Logger('OrchestrationService');
-        this.database = Database.getInstance();
-        this.loadBalancer = new LoadBalancerService();
-        this.nodeManager = new NodeManager();
-        this.autoScaling = new AutoScalingService();
+        this.database = database;
+        this.loadBalancer = loadBalancer;
+        this.nodeManager = nodeManager;
+        this.autoScaling = autoScaling;
+        this.jobQueue = jobQueue;
+        this.signingService = signingService;
+        this.metricsHistory = metricsHistory;
+        this.reservations = reservations;
+        this.jobModel = new RecordingJobModel();
+        this.compositeModel = new CompositeRecordingModel();
+        this.segmentModel = new RecordingSegmentModel();
+        this.outputModel = new RecordingOutputModel();
+        this.pauseModel = new RecordingPauseModel();
     }
 
     async initialize(): Promise<void> {
@@ -45,6 +117,7 @@ export class OrchestrationService extends EventEmitter {
         // Initialize sub-services
         await this.nodeManager.initialize();
         await this.autoScaling.initialize();
+        await this.signingService.initialize();
 
         // Restore state from database
         await this.restoreState();
@@ -56,7 +129,7 @@ export class OrchestrationService extends EventEmitter {
     }
 
     // ROOM SERVER MANAGEMENT
-    async registerRoomServer(registration: any): Promise<string> {
+    async registerRoomServer(registration: any): Promise<NodeRegistrationResult> {
         const roomServer: RoomServerNode = {
             id: registration.serverId,
             url: registration.url,
@@ -70,10 +143,17 @@ export class OrchestrationService extends EventEmitter {
             metadata: registration.metadata
         };
 
+        // A re-registering server keeps its cordon / drain state
+        const existing = this.roomServers.get(roomServer.id);
+        if (existing?.scheduling) {
+            roomServer.scheduling = existing.scheduling;
+        }
+
         this.roomServers.set(roomServer.id, roomServer);
 
         // Save to database
         await this.database.saveRoomServer(roomServer);
+        const signingSecret = await this.signingService.issueSecret(roomServer.id);
 
         this.logger.info('Room server registered:', {
             id: roomServer.id,
@@ -85,10 +165,10 @@ export class OrchestrationService extends EventEmitter {
         this.emit('roomServerRegistered', roomServer);
         this.broadcastToSubscribers('node_registered', { type: 'room-server', node: roomServer });
 
-        return roomServer.id;
+        return { nodeId: roomServer.id, signingSecret };
     }
 
-    async registerFFmpegNode(registration: any): Promise<string> {
+    async registerFFmpegNode(registration: any): Promise<NodeRegistrationResult> {
         const nodeId = `ffmpeg-${registration.region}-${Date.now()}-${Math.random().toString(36).substr(2, 4)}`;
 
         const ffmpegNode: FFmpegNode = {
@@ -102,13 +182,16 @@ export class OrchestrationService extends EventEmitter {
             specs: registration.specs,
             supportedCodecs: registration.supportedCodecs || ['h264', 'vp8', 'opus'],
             activeJobs: [],
+            portRange: registration.portRange,
             metadata: registration.metadata
         };
 
+        this.nodeManager.registerPortRange(nodeId, ffmpegNode.portRange);
         this.ffmpegNodes.set(nodeId, ffmpegNode);
 
         // Save to database
         await this.database.saveFFmpegNode(ffmpegNode);
+        const signingSecret = await this.signingService.issueSecret(nodeId);
 
         this.logger.info('FFmpeg node registered:', {
             id: nodeId,
@@ -121,7 +204,7 @@ export class OrchestrationService extends EventEmitter {
         this.emit('ffmpegNodeRegistered', ffmpegNode);
         this.broadcastToSubscribers('node_registered', { type: 'ffmpeg-node', node: ffmpegNode });
 
-        return nodeId;
+        return { nodeId, signingSecret };
     }
 
     // DISTRIBUTED RECORDING MANAGEMENT
@@ -140,6 +223,11 @@ export class OrchestrationService extends EventEmitter {
         if (!roomServer || !roomServer.isHealthy) {
             throw new Error(`Room server ${request.roomServerId} is not available`);
         }
+        if (!this.loadBalancer.isSchedulable(roomServer)) {
+            throw new Error(`Room server ${request.roomServerId} is ${roomServer.scheduling!.state} and accepts no new recordings`);
+        }
+
+        this.validateReservation(request.reservationId);
 
         // Create job
         const job: DistributedRecordingJob = {
@@ -153,73 +241,159 @@ export class OrchestrationService extends EventEmitter {
             options: request.options,
             status: 'pending',
             startTime: Date.now(),
-            requesterInfo: request.requesterInfo
+            requesterInfo: request.requesterInfo,
+            type: 'peer',
+            reservationId: request.reservationId,
+            outputs: this.outputModel.create(request.outputs)
+        };
+
+        await this.submitJob(job, roomServer);
+
+        return jobId;
+    }
+
+    async startCompositeRecording(request: CompositeRecordingRequest): Promise<string> {
+        const jobId = `rec-${Date.now()}-${Math.random().toString(36).substr(2, 8)}`;
+
+        this.logger.info('Starting room composite recording:', {
+            jobId,
+            roomServerId: request.roomServerId,
+            roomId: request.roomId,
+            layout: request.layout
+        });
+
+        // Validate room server
+        const roomServer = this.roomServers.get(request.roomServerId);
+        if (!roomServer || !roomServer.isHealthy) {
+            throw new Error(`Room server ${request.roomServerId} is not available`);
+        }
+        if (!this.loadBalancer.isSchedulable(roomServer)) {
+            throw new Error(`Room server ${request.roomServerId} is ${roomServer.scheduling!.state} and accepts no new recordings`);
+        }
+
+        this.validateReservation(request.reservationId);
+
+        // Fall back to the peers the room server last reported for this room
+        const report = this.roomReports.get(`${request.roomServerId}/${request.roomId}`);
+        const peers = request.participants || report?.peers || [];
+        const composite = this.compositeModel.create(request.layout, peers, report?.activeSpeakerId);
+
+        const job: DistributedRecordingJob = {
+            jobId,
+            roomServerId: request.roomServerId,
+            roomId: request.roomId,
+            peerId: `room:${request.roomId}`,
+            peerInfo: {
+                peerId: `room:${request.roomId}`,
+                displayName: `Room ${request.roomId}`,
+                isAuthenticated: true,
+                roles: ['room-composite'],
+                joinTime: Date.now()
+            },
+            ffmpegNodeId: '', // Will be assigned
+            rtpStreams: this.compositeModel.getAllStreams(composite),
+            options: request.options,
+            status: 'pending',
+            startTime: Date.now(),
+            requesterInfo: request.requesterInfo,
+            type: 'room-composite',
+            composite,
+            reservationId: request.reservationId,
+            outputs: this.outputModel.create(request.outputs)
         };
 
+        await this.submitJob(job, roomServer);
+
+        return jobId;
+    }
+
+    // Assign a new job to a node right away, or queue it
+    private async submitJob(job: DistributedRecordingJob, roomServer: RoomServerNode): Promise<void> {
+        const jobId = job.jobId;
+
         // Try to assign FFmpeg node immediately
         const selectedNode = await this.loadBalancer.selectOptimalFFmpegNode(
             Array.from(this.ffmpegNodes.values()),
-            {
-                region: roomServer.region,
-                codecRequirements: this.extractCodecRequirements(request.rtpStreams),
-                estimatedLoad: this.estimateRecordingLoad(request.rtpStreams, request.options)
-            }
+            this.buildRecordingRequirements(job, roomServer.region)
         );
 
         if (selectedNode) {
             // Assign immediately
             await this.assignJobToNode(job, selectedNode, roomServer);
-        } else {
-            // Add to queue
-            this.jobQueue.push(job);
-            this.logger.info(`Job ${jobId} queued. Queue length: ${this.jobQueue.length}`);
         }
 
-        // Track job
-        this.activeJobs.set(jobId, job);
+        // A failed assignment has already been saved and reported
+        if (job.status !== 'failed') {
+            this.activeJobs.set(jobId, job);
+            await this.database.saveRecordingJob(job);
+        }
 
-        // Save to database
-        await this.database.saveRecordingJob(job);
+        if (!selectedNode) {
+            // Add to queue once the job row exists
+            const position = await this.jobQueue.enqueue(job);
+            this.logger.info(`Job ${jobId} queued at position ${position}. Queue length: ${this.jobQueue.size()}`);
+        }
 
         this.emit('recordingJobCreated', job);
-        this.broadcastToSubscribers('recording_started', job);
-
-        return jobId;
+        this.broadcastToSubscribers('recording_started', this.outputModel.redactJob(job));
     }
 
     private async assignJobToNode(
         job: DistributedRecordingJob,
         ffmpegNode: FFmpegNode,
-        roomServer: RoomServerNode
+        roomServer: RoomServerNode,
+        segmentReason: SegmentReason = 'initial'
     ): Promise<void> {
+        const segment = this.segmentModel.begin(job, ffmpegNode.id, segmentReason);
+        let forwarding = false;
+
         try {
-            job.status = 'initializing';
+            this.setJobStatus(job, 'initializing');
             job.ffmpegNodeId = ffmpegNode.id;
+            job.assignedAt = Date.now();
 
             // Setup RTP forwarding
             await this.setupRTPForwarding(job, roomServer, ffmpegNode);
+            roomServer.currentLoad++;
+            forwarding = true;
 
             // Start recording on FFmpeg node
             await this.startRecordingOnNode(job, ffmpegNode);
 
-            // Update load counters
-            roomServer.currentLoad++;
-            ffmpegNode.currentLoad++;
+            // Update load counters - a composite takes more of the node than a single peer
+            job.nodeLoad = this.estimateJobLoad(job);
+            ffmpegNode.currentLoad += job.nodeLoad;
             ffmpegNode.activeJobs.push(job.jobId);
 
-            job.status = 'recording';
+            // Job stays 'initializing' until the FFmpeg node reports a 'started' event
 
             // Update database
             await this.database.updateRecordingJob(job);
 
-            this.logger.info(`Job ${job.jobId} assigned to FFmpeg node ${ffmpegNode.id}`);
+            this.logger.info(`Job ${job.jobId} assigned to FFmpeg node ${ffmpegNode.id}, awaiting start confirmation`);
 
         } catch (error) {
-            job.status = 'failed';
-            job.errorMessage = error.message;
+            this.setJobStatus(job, 'failed');
+            job.errorMessage = error instanceof Error ? error.message : String(error);
+            job.endTime = Date.now();
+            job.segments = this.segmentModel.update(job, segment.index, 'failed').segments!;
+
+            // The room server may already forward to a node that never started recording
+            if (forwarding) {
+                await this.stopRTPForwarding(job, roomServer, segment.index).catch(stopError => {
+                    this.logger.warn(`Failed to stop RTP forwarding of unassigned job ${job.jobId}:`, stopError);
+                });
+            }
+            this.releasePortLeases(job);
+            this.activeJobs.delete(job.jobId);
 
             this.logger.error(`Failed to assign job ${job.jobId}:`, error);
-            this.emit('recordingJobFailed', job, error);
+
+            await this.database.updateRecordingJob(job).catch(saveError => {
+                this.logger.error(`Failed to save failed job ${job.jobId}:`, saveError);
+            });
+
+            this.emit('recordingJobFailed', job, error, 'assignment_failed');
         }
     }
 
@@ -229,40 +403,121 @@ export class OrchestrationService extends EventEmitter {
         ffmpegNode: FFmpegNode
     ): Promise<void> {
 
+        if (job.composite) {
+            await this.setupCompositeForwarding(job, job.composite, roomServer, ffmpegNode);
+            return;
+        }
+
+        const forwardingConfig = await this.forwardPeerStreams(job, roomServer, ffmpegNode, job.peerId, job.rtpStreams);
+
+        job.rtpForwarding = forwardingConfig;
+
+        this.logger.info(`RTP forwarding configured for job ${job.jobId}`, {
+            targetIP: forwardingConfig.targetNode.ip,
+            ports: forwardingConfig.targetNode.ports
+        });
+    }
+
+    // Forward every participant of the room to the node, one forwarding per peer
+    private async setupCompositeForwarding(
+        job: DistributedRecordingJob,
+        composite: CompositeRecordingState,
+        roomServer: RoomServerNode,
+        ffmpegNode: FFmpegNode
+    ): Promise<void> {
+        const participants = [];
+        const forwardings: RTPForwardingConfig[] = [];
+
+        try {
+            for (const participant of composite.participants) {
+                const forwardingConfig = await this.forwardPeerStreams(
+                    job, roomServer, ffmpegNode, participant.peerId, participant.rtpStreams
+                );
+                forwardings.push(forwardingConfig);
+                participants.push({ ...participant, rtpStreams: forwardingConfig.rtpStreams });
+            }
+        } catch (error) {
+            // Peers already forwarded would keep sending to a node that never records them
+            for (const forwarding of forwardings) {
+                await this.stopPeerForwarding(job, roomServer, forwarding.peerId, forwarding.segmentIndex).catch(stopError => {
+                    this.logger.warn(`Failed to roll back forwarding of peer ${forwarding.peerId} for job ${job.jobId}`, {
+                        error: stopError instanceof Error ? stopError.message : stopError
+                    });
+                });
+                this.nodeManager.releasePorts(ffmpegNode.id, forwarding.targetNode.ports);
+            }
+            throw error;
+        }
+
+        job.composite = { ...composite, participants };
+        this.refreshCompositeForwarding(job, ffmpegNode);
+
+        this.logger.info(`Composite RTP forwarding configured for job ${job.jobId}`, {
+            participants: participants.length,
+            ports: job.rtpForwarding!.targetNode.ports
+        });
+    }
+
+    private async forwardPeerStreams(
+        job: DistributedRecordingJob,
+        roomServer: RoomServerNode,
+        ffmpegNode: FFmpegNode,
+        peerId: string,
+        rtpStreams: RTPStreamInfo[]
+    ): Promise<RTPForwardingConfig> {
+
         // Allocate RTP ports on FFmpeg node
-        const rtpPorts = await this.allocateRTPPorts(ffmpegNode, job.rtpStreams.length);
+        const rtpPorts = await this.nodeManager.allocateRTPPorts(ffmpegNode.id, rtpStreams.length, job.jobId);
+        const segment = this.segmentModel.getActive(job);
 
         const forwardingConfig: RTPForwardingConfig = {
             jobId: job.jobId,
-            peerId: job.peerId,
+            peerId,
             targetNode: {
                 ip: this.extractIPFromURL(ffmpegNode.url),
                 ports: rtpPorts
             },
-            rtpStreams: job.rtpStreams.map((stream, index) => ({
+            rtpStreams: rtpStreams.map((stream, index) => ({
                 ...stream,
                 port: rtpPorts[index]
-            }))
+            })),
+            // Lets the room server forward to two nodes while a job migrates
+            ...(segment && { segmentIndex: segment.index })
         };
 
         // Configure room server to forward RTP
-        const response = await fetch(`${roomServer.url}/configure-rtp-forwarding`, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify(forwardingConfig),
-            timeout: 10000
+        const response = await this.postToNode(
+            roomServer.id,
+            `${roomServer.url}/configure-rtp-forwarding`,
+            forwardingConfig,
+            10000
+        ).catch(error => {
+            this.nodeManager.releasePorts(ffmpegNode.id, rtpPorts);
+            throw error;
         });
 
         if (!response.ok) {
+            this.nodeManager.releasePorts(ffmpegNode.id, rtpPorts);
             throw new Error(`Failed to configure RTP forwarding: ${response.statusText}`);
         }
 
-        job.rtpForwarding = forwardingConfig;
+        return forwardingConfig;
+    }
 
-        this.logger.info(`RTP forwarding configured for job ${job.jobId}`, {
-            targetIP: forwardingConfig.targetNode.ip,
-            ports: forwardingConfig.targetNode.ports
-        });
+    // Keep the job-level forwarding summary in line with the composite participants
+    private refreshCompositeForwarding(job: DistributedRecordingJob, ffmpegNode: FFmpegNode): void {
+        const rtpStreams = this.compositeModel.getAllStreams(job.composite!);
+
+        job.rtpStreams = rtpStreams;
+        job.rtpForwarding = {
+            jobId: job.jobId,
+            peerId: job.peerId,
+            targetNode: {
+                ip: this.extractIPFromURL(ffmpegNode.url),
+                ports: rtpStreams.map(stream => stream.port)
+            },
+            rtpStreams
+        };
     }
 
     private async startRecordingOnNode(
@@ -270,24 +525,32 @@ export class OrchestrationService extends EventEmitter {
         ffmpegNode: FFmpegNode
     ): Promise<void> {
 
+        const segment = this.segmentModel.getActive(job);
+
         const recordingRequest = {
             jobId: job.jobId,
+            ...(segment && { segmentIndex: segment.index }),
             peerInfo: job.peerInfo,
             rtpStreams: job.rtpForwarding!.rtpStreams,
             options: job.options,
+            // Live outputs join a migration target at cutover - a CDN takes one publisher per stream
+            ...(job.outputs && { outputs: this.outputModel.toNodeTargets(job.outputs, segment?.reason !== 'migration') }),
+            // A paused job that fails over stays paused on its new node
+            ...(this.pauseModel.getOpen(job) && { paused: true }),
             roomInfo: {
                 roomServerId: job.roomServerId,
                 roomId: job.roomId
             },
-            orchestratorCallbackUrl: `${process.env.ORCHESTRATOR_CALLBACK_URL}/recording-events`
+            ...(job.composite && {
+                composite: {
+                    layout: this.compositeModel.buildLayout(job.composite, job.options),
+                    participants: job.composite.participants
+                }
+            }),
+            orchestratorCallbackUrl: `${process.env.ORCHESTRATOR_CALLBACK_URL}/api/recordings/events`
         };
 
-        const response = await fetch(`${ffmpegNode.url}/start-recording`, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify(recordingRequest),
-            timeout: 15000
-        });
+        const response = await this.postToNode(ffmpegNode.id, `${ffmpegNode.url}/start-recording`, recordingRequest, 15000);
 
         if (!response.ok) {
             throw new Error(`Failed to start recording on FFmpeg node: ${response.statusText}`);
@@ -297,14 +560,34 @@ export class OrchestrationService extends EventEmitter {
     }
 
     async stopDistributedRecording(jobId: string): Promise<string> {
-        const job = this.activeJobs.get(jobId);
+        const job = await this.getRecordingJob(jobId);
         if (!job) {
-            throw new Error(`Recording job ${jobId} not found`);
+            throw new NotFoundError(`Recording job ${jobId} not found`);
+        }
+        if (this.jobModel.isTerminal(job)) {
+            throw new ConflictError(`Recording job ${jobId} is already ${job.status}`);
+        }
+
+        // Never reached a node - there is nothing to stop, only a queue entry to drop
+        if (job.status === 'pending') {
+            await this.cancelDistributedRecording(jobId, 'Stopped before it was assigned to an FFmpeg node', job.requesterInfo);
+            return `Recording ${jobId} was stopped before it started`;
         }
 
         this.logger.info(`Stopping distributed recording ${jobId}`);
 
         try {
+            // The source node still holds the whole recording - drop the half-started target
+            if (job.migration) {
+                Object.assign(job, await this.abortMigration(job, 'Recording stopped'));
+                delete job.migration;
+            }
+
+            const segment = this.segmentModel.getActive(job);
+            if (segment) {
+                job.segments = this.segmentModel.update(job, segment.index, 'stopping').segments!;
+            }
+
             // Stop recording on FFmpeg node
             const ffmpegNode = this.ffmpegNodes.get(job.ffmpegNodeId);
             if (ffmpegNode) {
@@ -318,206 +601,1577 @@ export class OrchestrationService extends EventEmitter {
             }
 
             // Update job status
-            job.status = 'completed';
-            job.endTime = Date.now();
+            Object.assign(job, this.jobModel.updateStatus(job, 'completed'));
 
             // Update database
             await this.database.updateRecordingJob(job);
 
             // Cleanup
+            this.releasePortLeases(job);
             this.activeJobs.delete(jobId);
 
             this.emit('recordingJobCompleted', job);
-            this.broadcastToSubscribers('recording_completed', job);
+            this.broadcastToSubscribers('recording_completed', this.outputModel.redactJob(job));
 
             return job.outputPath || `Recording ${jobId} completed`;
 
         } catch (error) {
-            job.status = 'failed';
-            job.errorMessage = error.message;
+            this.setJobStatus(job, 'failed');
+            job.errorMessage = error instanceof Error ? error.message : String(error);
             job.endTime = Date.now();
+            this.releasePortLeases(job);
+            this.activeJobs.delete(jobId);
 
             this.logger.error(`Failed to stop recording ${jobId}:`, error);
-            this.emit('recordingJobFailed', job, error);
+
+            await this.database.updateRecordingJob(job).catch(saveError => {
+                this.logger.error(`Failed to save failed job ${jobId}:`, saveError);
+            });
+
+            this.emit('recordingJobFailed', job, error, 'stop_failed');
 
             throw error;
         }
     }
 
-    private async stopRecordingOnNode(job: DistributedRecordingJob, ffmpegNode: FFmpegNode): Promise<void> {
-        const response = await fetch(`${ffmpegNode.url}/stop-recording`, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ jobId: job.jobId }),
-            timeout: 10000
+    async cancelDistributedRecording(
+        jobId: string,
+        reason: string,
+        requestedBy: RequesterInfo
+    ): Promise<DistributedRecordingJob> {
+        const job = this.activeJobs.get(jobId);
+        if (!job) {
+            throw new NotFoundError(`Recording job ${jobId} not found`);
+        }
+
+        this.logger.info(`Cancelling distributed recording ${jobId}`, {
+            status: job.status,
+            reason,
+            requestedBy: requestedBy.userId || requestedBy.ip
         });
 
-        if (response.ok) {
-            // Update node load
-            ffmpegNode.currentLoad = Math.max(0, ffmpegNode.currentLoad - 1);
-            ffmpegNode.activeJobs = ffmpegNode.activeJobs.filter(id => id !== job.jobId);
+        let outputDiscarded = false;
+
+        if (job.migration) {
+            Object.assign(job, await this.abortMigration(job, 'Recording cancelled'));
+            delete job.migration;
         }
-    }
 
-    private async stopRTPForwarding(job: DistributedRecordingJob, roomServer: RoomServerNode): Promise<void> {
-        const response = await fetch(`${roomServer.url}/stop-rtp-forwarding`, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ jobId: job.jobId }),
-            timeout: 10000
+        if (job.status === 'pending') {
+            // Never reached a node - dropping it from the queue is enough
+            await this.jobQueue.remove(jobId);
+        } else {
+            // Tear down the FFmpeg process and tell the node to drop the partial file
+            const ffmpegNode = this.ffmpegNodes.get(job.ffmpegNodeId);
+            if (ffmpegNode) {
+                await this.stopRecordingOnNode(job, ffmpegNode, { discardOutput: true });
+                outputDiscarded = true;
+            }
+
+            const roomServer = this.roomServers.get(job.roomServerId);
+            if (roomServer) {
+                await this.stopRTPForwarding(job, roomServer);
+            }
+        }
+
+        const cancelledJob = this.jobModel.updateStatus(job, 'cancelled', {
+            cancellation: {
+                reason,
+                requestedBy,
+                cancelledAt: Date.now(),
+                outputDiscarded
+            }
         });
 
+        await this.database.updateRecordingJob(cancelledJob);
+
+        this.releasePortLeases(cancelledJob);
+        this.activeJobs.delete(jobId);
+
+        this.emit('recordingJobCancelled', cancelledJob);
+        this.broadcastToSubscribers('recording_cancelled', this.outputModel.redactJob(cancelledJob));
+        this.broadcastRecordingEvent(cancelledJob, 'cancelled', { reason });
+
+        return cancelledJob;
+    }
+
+    private async stopRecordingOnNode(
+        job: DistributedRecordingJob,
+        ffmpegNode: FFmpegNode,
+        options: { discardOutput?: boolean; segmentIndex?: number } = {}
+    ): Promise<void> {
+        const response = await this.postToNode(ffmpegNode.id, `${ffmpegNode.url}/stop-recording`, {
+            jobId: job.jobId,
+            discardOutput: options.discardOutput || false,
+            ...(options.segmentIndex !== undefined && { segmentIndex: options.segmentIndex })
+        }, 10000);
+
+        if (!response.ok) {
+            throw new Error(`FFmpeg node ${ffmpegNode.id} did not stop job ${job.jobId}: ${response.statusText}`);
+        }
+
+        this.releaseNodeLoad(job, ffmpegNode);
+    }
+
+    private async stopRTPForwarding(job: DistributedRecordingJob, roomServer: RoomServerNode, segmentIndex?: number): Promise<void> {
+        const response = await this.postToNode(roomServer.id, `${roomServer.url}/stop-rtp-forwarding`, {
+            jobId: job.jobId,
+            ...(segmentIndex !== undefined && { segmentIndex })
+        }, 10000);
+
         if (response.ok) {
             // Update room server load
             roomServer.currentLoad = Math.max(0, roomServer.currentLoad - 1);
         }
     }
 
-    // HEALTH MONITORING
-    startHealthMonitoring(): void {
-        this.healthCheckInterval = setInterval(async () => {
-            await this.performHealthChecks();
-        }, 30000); // Every 30 seconds
+    // RECORDING EVENT PIPELINE
+    async handleRecordingEvent(event: RecordingEvent, sourceNodeId?: string): Promise<DistributedRecordingJob> {
+        const job = this.activeJobs.get(event.jobId) || await this.database.getRecordingJob(event.jobId);
+        if (!job) {
+            throw new NotFoundError(`Recording job ${event.jobId} not found`);
+        }
 
-        this.logger.info('Health monitoring started');
-    }
+        // A validly signed node may still only report on jobs it has worked on
+        if (sourceNodeId && !this.isJobNode(job, sourceNodeId)) {
+            this.logger.warn('Security event: node reported on a job it does not run', {
+                securityEvent: 'foreign_job_event',
+                nodeId: sourceNodeId,
+                jobId: job.jobId,
+                event: event.event
+            });
+            throw new ForbiddenError(`Node ${sourceNodeId} is not assigned to job ${job.jobId}`);
+        }
 
-    private async performHealthChecks(): Promise<void> {
-        const now = Date.now();
-        const timeoutMs = 60000; // 1 minute timeout
+        this.logger.debug(`Recording event received for job ${event.jobId}`, {
+            event: event.event,
+            status: job.status
+        });
 
-        // Check room servers
-        for (const [id, roomServer] of this.roomServers) {
-            if (now - roomServer.lastHeartbeat > timeoutMs) {
-                await this.handleUnhealthyRoomServer(id, roomServer);
-            }
+        let updatedJob: DistributedRecordingJob;
+
+        switch (event.event) {
+            case 'started':
+                updatedJob = await this.applyStartedEvent(job, event.data);
+                break;
+            case 'progress':
+                updatedJob = this.applyProgressEvent(job, event.data);
+                break;
+            case 'completed':
+                updatedJob = await this.applyCompletedEvent(job, event.data);
+                break;
+            case 'failed':
+                updatedJob = await this.applyFailedEvent(job, event.data);
+                break;
+            case 'output':
+                updatedJob = this.applyOutputEvent(job, event.data, sourceNodeId);
+                break;
+            default:
+                throw new Error(`Unknown recording event: ${event.event}`);
         }
 
-        // Check FFmpeg nodes
-        for (const [id, ffmpegNode] of this.ffmpegNodes) {
-            if (now - ffmpegNode.lastHeartbeat > timeoutMs) {
-                await this.handleUnhealthyFFmpegNode(id, ffmpegNode);
-            }
+        if (this.jobModel.isActive(updatedJob)) {
+            this.activeJobs.set(updatedJob.jobId, updatedJob);
+        } else {
+            this.activeJobs.delete(updatedJob.jobId);
         }
 
-        // Process job queue
-        await this.processJobQueue();
-    }
+        await this.database.updateRecordingJob(updatedJob);
 
-    private async handleUnhealthyRoomServer(id: string, roomServer: RoomServerNode): Promise<void> {
-        roomServer.isHealthy = false;
+        this.broadcastRecordingEvent(updatedJob, event.event, event.data);
 
-        this.logger.warn(`Room server ${id} is unhealthy`);
+        if (this.segmentModel.hasFinalOutput(updatedJob) && !this.segmentModel.hasFinalOutput(job)) {
+            this.emit('recordingOutputReady', updatedJob, event.data);
+        }
 
-        // Find jobs that need to be handled
-        const affectedJobs = Array.from(this.activeJobs.values())
-            .filter(job => job.roomServerId === id && job.status === 'recording');
+        return updatedJob;
+    }
 
-        for (const job of affectedJobs) {
-            job.status = 'failed';
-            job.errorMessage = 'Room server became unhealthy';
-            job.endTime = Date.now();
+    private async applyStartedEvent(job: DistributedRecordingJob, data: Record<string, any>): Promise<DistributedRecordingJob> {
+        const segmentIndex = this.segmentModel.resolveIndex(job, data);
 
-            // Try to cleanup FFmpeg node
-            const ffmpegNode = this.ffmpegNodes.get(job.ffmpegNodeId);
-            if (ffmpegNode) {
-                await this.stopRecordingOnNode(job, ffmpegNode).catch(() => {});
-            }
+        // The migration target is recording - cut over to it
+        if (job.migration && segmentIndex === job.migration.segmentIndex) {
+            return this.completeMigration(job);
         }
 
-        this.emit('roomServerUnhealthy', roomServer);
-    }
+        // Duplicate 'started' events are tolerated - the node may retry its callback
+        if (job.status === 'recording' || job.status === 'paused') {
+            return job;
+        }
 
-    private async handleUnhealthyFFmpegNode(id: string, ffmpegNode: FFmpegNode): Promise<void> {
-        ffmpegNode.isHealthy = false;
+        let startedJob = this.jobModel.updateStatus(job, this.pauseModel.getOpen(job) ? 'paused' : 'recording', {
+            metrics: this.mergeJobMetrics(job.metrics, data),
+            // A failover restarts the node, not the recording
+            recordingStartedAt: job.recordingStartedAt || Date.now()
+        });
 
-        this.logger.warn(`FFmpeg node ${id} is unhealthy`);
+        if (segmentIndex !== undefined) {
+            startedJob = this.segmentModel.update(startedJob, segmentIndex, 'recording');
+        }
 
-        // Find jobs that need to be reassigned
-        const affectedJobs = Array.from(this.activeJobs.values())
-            .filter(job => job.ffmpegNodeId === id && job.status === 'recording');
+        this.emit('recordingJobStarted', startedJob);
 
-        for (const job of affectedJobs) {
-            // Try to reassign to another node
-            const newNode = await this.loadBalancer.selectOptimalFFmpegNode(
-                Array.from(this.ffmpegNodes.values()).filter(n => n.isHealthy && n.id !== id),
-                {
-                    region: job.peerInfo.displayName || 'default',
-                    codecRequirements: this.extractCodecRequirements(job.rtpStreams),
-                    estimatedLoad: 1
-                }
-            );
+        return startedJob;
+    }
 
-            if (newNode) {
-                // Reassign to new node
-                const roomServer = this.roomServers.get(job.roomServerId);
-                if (roomServer) {
-                    job.status = 'pending';
-                    job.ffmpegNodeId = '';
-                    await this.assignJobToNode(job, newNode, roomServer);
-                }
-            } else {
-                // No available nodes, mark as failed
-                job.status = 'failed';
-                job.errorMessage = 'No available FFmpeg nodes for reassignment';
-                job.endTime = Date.now();
-            }
+    private applyProgressEvent(job: DistributedRecordingJob, data: Record<string, any>): DistributedRecordingJob {
+        if (!this.jobModel.isActive(job)) {
+            throw new ConflictError(`Cannot apply progress to job ${job.jobId} in status ${job.status}`);
         }
 
-        this.emit('ffmpegNodeUnhealthy', ffmpegNode);
+        return {
+            ...job,
+            metrics: this.mergeJobMetrics(job.metrics, data)
+        };
     }
 
-    private async processJobQueue(): Promise<void> {
-        if (this.jobQueue.length === 0) return;
+    private async applyCompletedEvent(job: DistributedRecordingJob, data: Record<string, any>): Promise<DistributedRecordingJob> {
+        const segmentIndex = this.segmentModel.resolveIndex(job, data);
+        const segmentOutput = {
+            ...(data.outputPath && { outputPath: data.outputPath }),
+            ...(data.endTime && { endedAt: data.endTime })
+        };
 
-        const availableNodes = Array.from(this.ffmpegNodes.values())
-            .filter(node => node.isHealthy && node.currentLoad < node.capacity);
+        // A node left behind by a migration finished writing its segment
+        if (segmentIndex !== undefined && this.segmentModel.isSuperseded(job, segmentIndex)) {
+            const updatedJob = this.segmentModel.update(job, segmentIndex, 'completed', segmentOutput);
+            return this.stitchSegmentsIfReady(updatedJob);
+        }
 
-        for (const job of this.jobQueue.slice()) {
-            const roomServer = this.roomServers.get(job.roomServerId);
-            if (!roomServer || !roomServer.isHealthy) continue;
+        if (segmentIndex !== undefined) {
+            job = this.segmentModel.update(job, segmentIndex, 'completed', segmentOutput);
+        }
 
-            const selectedNode = await this.loadBalancer.selectOptimalFFmpegNode(
-                availableNodes,
-                {
-                    region: roomServer.region,
-                    codecRequirements: this.extractCodecRequirements(job.rtpStreams),
-                    estimatedLoad: this.estimateRecordingLoad(job.rtpStreams, job.options)
-                }
-            );
+        const completion: Partial<DistributedRecordingJob> = {
+            metrics: this.mergeJobMetrics(job.metrics, data),
+            ...(data.outputPath && { outputPath: data.outputPath }),
+            ...(data.endTime && { endTime: data.endTime })
+        };
 
-            if (selectedNode) {
-                // Remove from queue
-                const index = this.jobQueue.indexOf(job);
-                if (index > -1) {
-                    this.jobQueue.splice(index, 1);
-                }
+        // The job was already completed through stopDistributedRecording,
+        // the node is only reporting the final output
+        if (job.status === 'completed') {
+            return this.stitchSegmentsIfReady({
+                ...job,
+                ...completion,
+                endTime: job.endTime || completion.endTime || Date.now()
+            });
+        }
 
-                // Assign to node
-                await this.assignJobToNode(job, selectedNode, roomServer);
+        const completedJob = this.jobModel.updateStatus(job, 'completed', completion);
 
-                // Remove from available nodes list for this iteration
-                const nodeIndex = availableNodes.indexOf(selectedNode);
-                if (nodeIndex > -1) {
-                    availableNodes.splice(nodeIndex, 1);
-                }
-            }
-        }
+        await this.releaseJobResources(completedJob);
+
+        this.emit('recordingJobCompleted', completedJob);
+
+        return this.stitchSegmentsIfReady(completedJob);
     }
 
-    // METRICS AND MONITORING
-    startMetricsCollection(): void {
-        this.metricsInterval = setInterval(() => {
-            const metrics = this.getSystemMetrics();
-            this.broadcastToSubscribers('metrics_update', metrics);
+    private async applyFailedEvent(job: DistributedRecordingJob, data: Record<string, any>): Promise<DistributedRecordingJob> {
+        const errorMessage = data.error || data.message || 'FFmpeg node reported a failure';
+        const segmentIndex = this.segmentModel.resolveIndex(job, data);
+
+        // The migration target failed - keep recording on the source node
+        if (job.migration && segmentIndex === job.migration.segmentIndex) {
+            return this.abortMigration(job, errorMessage);
+        }
+
+        // A superseded segment failing doesn't affect the live recording
+        if (segmentIndex !== undefined && this.segmentModel.isSuperseded(job, segmentIndex)) {
+            return this.stitchSegmentsIfReady(this.segmentModel.update(job, segmentIndex, 'failed'));
+        }
+
+        if (job.migration) {
+            job = await this.abortMigration(job, 'Source node failed during migration');
+        }
+
+        if (segmentIndex !== undefined) {
+            job = this.segmentModel.update(job, segmentIndex, 'failed');
+        }
+
+        const failedJob = this.jobModel.updateStatus(job, 'failed', {
+            errorMessage,
+            metrics: this.mergeJobMetrics(job.metrics, data)
+        });
+
+        await this.releaseJobResources(failedJob);
+
+        this.emit('recordingJobFailed', failedJob, new Error(errorMessage), 'node_reported');
+
+        return failedJob;
+    }
+
+    // Status and ingest health of a single output, as the node publishing it sees it
+    private applyOutputEvent(job: DistributedRecordingJob, data: Record<string, any>, sourceNodeId?: string): DistributedRecordingJob {
+        const output = this.outputModel.get(job, data.outputId);
+        if (!output) {
+            throw new NotFoundError(`Output ${data.outputId} of job ${job.jobId} not found`);
+        }
+
+        // Until cutover a migration target publishes nothing live; afterwards the source doesn't
+        if (!this.jobModel.isActive(job) || (sourceNodeId && sourceNodeId !== job.ffmpegNodeId)) {
+            this.logger.debug(`Ignoring output event for ${output.id} of job ${job.jobId}`, { nodeId: sourceNodeId, status: job.status });
+            return job;
+        }
+
+        const status: RecordingOutputStatus | undefined = ['active', 'degraded', 'failed', 'stopped'].includes(data.status)
+            ? data.status
+            : undefined;
+
+        const health = data.health && typeof data.health === 'object' ? {
+            ...(typeof data.health.bitrateKbps === 'number' && { bitrateKbps: data.health.bitrateKbps }),
+            ...(typeof data.health.fps === 'number' && { fps: data.health.fps }),
+            ...(typeof data.health.droppedFrames === 'number' && { droppedFrames: data.health.droppedFrames }),
+            ...(typeof data.health.rttMs === 'number' && { rttMs: data.health.rttMs }),
+            ...(typeof data.health.packetLossPercent === 'number' && { packetLossPercent: data.health.packetLossPercent }),
+            reportedAt: Date.now()
+        } : undefined;
+
+        const updatedJob = this.outputModel.update(job, output.id, {
+            ...(status && { status }),
+            ...(health && { health }),
+            ...(status === 'active' && { startedAt: output.startedAt || Date.now(), error: undefined }),
+            ...(status === 'failed' && { error: typeof data.error === 'string' ? data.error : 'Output failed on the FFmpeg node' }),
+            ...(status === 'stopped' && { stoppedAt: Date.now() })
+        });
+
+        if (status && status !== output.status) {
+            this.logger.info(`Output ${output.id} of job ${job.jobId} is ${status}`, {
+                type: output.type,
+                error: data.error
+            });
+        }
+
+        if (status === 'failed' && output.status !== 'failed') {
+            this.emit('recordingOutputFailed', updatedJob, this.outputModel.get(updatedJob, output.id));
+        }
+
+        return updatedJob;
+    }
+
+    private mergeJobMetrics(current: JobMetrics | undefined, data: Record<string, any>): JobMetrics {
+        const metrics: JobMetrics = { ...current };
+
+        if (typeof data.processingTime === 'number') {
+            metrics.processingTime = data.processingTime;
+        }
+        if (typeof data.outputFileSize === 'number') {
+            metrics.outputFileSize = data.outputFileSize;
+        }
+        if (typeof data.averageFPS === 'number') {
+            metrics.averageFPS = data.averageFPS;
+        }
+
+        // Peaks only ever grow over the lifetime of a job
+        if (typeof data.peakCPUUsage === 'number') {
+            metrics.peakCPUUsage = Math.max(metrics.peakCPUUsage || 0, data.peakCPUUsage);
+        }
+        if (typeof data.peakMemoryUsage === 'number') {
+            metrics.peakMemoryUsage = Math.max(metrics.peakMemoryUsage || 0, data.peakMemoryUsage);
+        }
+
+        return metrics;
+    }
+
+    // Frees the FFmpeg node slot and the room server forwarding of a job
+    // that ended on the node side
+    private async releaseJobResources(job: DistributedRecordingJob): Promise<void> {
+        this.releasePortLeases(job);
+
+        const ffmpegNode = this.ffmpegNodes.get(job.ffmpegNodeId);
+        if (ffmpegNode) {
+            this.releaseNodeLoad(job, ffmpegNode);
+        }
+
+        const roomServer = this.roomServers.get(job.roomServerId);
+        if (roomServer && job.rtpForwarding) {
+            await this.stopRTPForwarding(job, roomServer).catch(error => {
+                this.logger.warn(`Failed to stop RTP forwarding for job ${job.jobId}`, {
+                    error: error instanceof Error ? error.message : error
+                });
+            });
+        }
+    }
+
+    // PAUSE AND RESUME
+    // The node holds the FFmpeg process and the file open through a pause,
+    // so a break doesn't fragment the recording. Forwarding can be suspended
+    // on the room server meanwhile to save bandwidth.
+    async pauseRecording(
+        jobId: string,
+        options: { suspendForwarding?: boolean | undefined; reason?: string | undefined; requestedBy?: string | undefined } = {}
+    ): Promise<DistributedRecordingJob> {
+        const job = this.activeJobs.get(jobId);
+        if (!job) {
+            throw new NotFoundError(`Recording job ${jobId} not found`);
+        }
+        if (job.status !== 'recording' || job.migration) {
+            throw new ConflictError(`Only recordings running on one node can be paused (job ${jobId} is ${job.migration ? 'migrating' : job.status})`);
+        }
+
+        const ffmpegNode = this.ffmpegNodes.get(job.ffmpegNodeId);
+        if (!ffmpegNode) {
+            throw new Error(`FFmpeg node ${job.ffmpegNodeId} of job ${jobId} is not registered`);
+        }
+
+        const response = await this.postToNode(ffmpegNode.id, `${ffmpegNode.url}/pause-recording`, { jobId }, 10000);
+        if (!response.ok) {
+            throw new Error(`FFmpeg node ${ffmpegNode.id} did not pause job ${jobId}: ${response.statusText}`);
+        }
+
+        // The node has paused either way - forwarding that carries on only costs bandwidth
+        let forwardingSuspended = false;
+        if (options.suspendForwarding ?? config.recording.suspendForwardingOnPause) {
+            try {
+                await this.suspendRTPForwarding(job, true);
+                forwardingSuspended = true;
+            } catch (error) {
+                this.logger.warn(`Failed to suspend RTP forwarding of paused job ${jobId}`, {
+                    error: error instanceof Error ? error.message : error
+                });
+            }
+        }
+
+        const pausedJob = this.jobModel.updateStatus(job, 'paused', {
+            pauses: this.pauseModel.open(job, {
+                reason: options.reason,
+                requestedBy: options.requestedBy,
+                forwardingSuspended
+            })
+        });
+
+        this.activeJobs.set(jobId, pausedJob);
+        await this.database.updateRecordingJob(pausedJob);
+
+        this.logger.info(`Recording ${jobId} paused`, {
+            reason: options.reason,
+            requestedBy: options.requestedBy,
+            forwardingSuspended
+        });
+        this.emit('recordingJobPaused', pausedJob);
+        this.broadcastRecordingEvent(pausedJob, 'paused', { reason: options.reason, forwardingSuspended });
+
+        return pausedJob;
+    }
+
+    async resumeRecording(jobId: string): Promise<DistributedRecordingJob> {
+        const job = this.activeJobs.get(jobId);
+        if (!job) {
+            throw new NotFoundError(`Recording job ${jobId} not found`);
+        }
+
+        const pause = this.pauseModel.getOpen(job);
+        if (job.status !== 'paused' || !pause) {
+            throw new ConflictError(`Only paused recordings can be resumed (job ${jobId} is ${job.status})`);
+        }
+
+        const ffmpegNode = this.ffmpegNodes.get(job.ffmpegNodeId);
+        if (!ffmpegNode) {
+            throw new Error(`FFmpeg node ${job.ffmpegNodeId} of job ${jobId} is not registered`);
+        }
+
+        // Media has to reach the node again before it writes any
+        if (pause.forwardingSuspended) {
+            await this.suspendRTPForwarding(job, false);
+        }
+
+        const response = await this.postToNode(ffmpegNode.id, `${ffmpegNode.url}/resume-recording`, { jobId }, 10000);
+        if (!response.ok) {
+            throw new Error(`FFmpeg node ${ffmpegNode.id} did not resume job ${jobId}: ${response.statusText}`);
+        }
+
+        const resumedJob = this.jobModel.updateStatus(job, 'recording');
+        const pausedFor = Date.now() - pause.pausedAt;
+
+        this.activeJobs.set(jobId, resumedJob);
+        await this.database.updateRecordingJob(resumedJob);
+
+        this.logger.info(`Recording ${jobId} resumed`, { pausedFor });
+        this.emit('recordingJobResumed', resumedJob);
+        this.broadcastRecordingEvent(resumedJob, 'resumed', { pausedFor });
+
+        return resumedJob;
+    }
+
+    private async suspendRTPForwarding(job: DistributedRecordingJob, suspend: boolean): Promise<void> {
+        const roomServer = this.roomServers.get(job.roomServerId);
+        if (!roomServer) {
+            throw new Error(`Room server ${job.roomServerId} of job ${job.jobId} is not registered`);
+        }
+
+        const action = suspend ? 'suspend' : 'resume';
+        const response = await this.postToNode(roomServer.id, `${roomServer.url}/${action}-rtp-forwarding`, {
+            jobId: job.jobId
+        }, 10000);
+
+        if (!response.ok) {
+            throw new Error(`Room server ${roomServer.id} did not ${action} RTP forwarding of job ${job.jobId}: ${response.statusText}`);
+        }
+    }
+
+    // LIVE OUTPUTS
+    // Restarts one live output on the job's node; the recording and the other outputs carry on
+    async restartOutput(jobId: string, outputId: string): Promise<RecordingOutput> {
+        const job = this.activeJobs.get(jobId);
+        if (!job) {
+            throw new NotFoundError(`Recording job ${jobId} not found`);
+        }
+
+        const output = this.outputModel.get(job, outputId);
+        if (!output) {
+            throw new NotFoundError(`Output ${outputId} of job ${jobId} not found`);
+        }
+        if (!this.outputModel.isLive(output)) {
+            throw new ConflictError('The file output is written by the recording itself and cannot be restarted');
+        }
+        if (job.status !== 'recording' || job.migration) {
+            throw new ConflictError(`Outputs can only be restarted while the job is recording on one node (job ${jobId} is ${job.migration ? 'migrating' : job.status})`);
+        }
+
+        const ffmpegNode = this.ffmpegNodes.get(job.ffmpegNodeId);
+        if (!ffmpegNode) {
+            throw new Error(`FFmpeg node ${job.ffmpegNodeId} of job ${jobId} is not registered`);
+        }
+
+        const restartedJob = this.outputModel.update(await this.startOutputOnNode(job, output, ffmpegNode), outputId, {
+            restarts: output.restarts + 1
+        });
+
+        this.activeJobs.set(jobId, restartedJob);
+        await this.database.updateRecordingJob(restartedJob);
+
+        this.logger.info(`Output ${outputId} of job ${jobId} restarted`, {
+            type: output.type,
+            restarts: output.restarts + 1
+        });
+        this.broadcastRecordingEvent(restartedJob, 'output_restarted', { outputId });
+
+        return this.outputModel.redact([this.outputModel.get(restartedJob, outputId)!])![0]!;
+    }
+
+    // Outputs of a running or finished job, without their credentials
+    async getRecordingOutputs(jobId: string): Promise<RecordingOutput[] | null> {
+        const job = this.activeJobs.get(jobId) || await this.database.getRecordingJob(jobId);
+        return job ? this.outputModel.redact(job.outputs) || [] : null;
+    }
+
+    private async startOutputOnNode(
+        job: DistributedRecordingJob,
+        output: RecordingOutput,
+        ffmpegNode: FFmpegNode
+    ): Promise<DistributedRecordingJob> {
+        const response = await this.postToNode(ffmpegNode.id, `${ffmpegNode.url}/restart-output`, {
+            jobId: job.jobId,
+            output: this.outputModel.toNodeTargets([output], true)[0]
+        }, 10000);
+
+        if (!response.ok) {
+            throw new Error(`FFmpeg node ${ffmpegNode.id} did not start output ${output.id}: ${response.statusText}`);
+        }
+
+        return this.outputModel.update(job, output.id, { status: 'starting', error: undefined, health: undefined });
+    }
+
+    // Live outputs that stopped reporting are degraded, outputs that never went
+    // live are failed, and failed outputs are restarted after a pause until
+    // they run out of automatic restarts
+    private async superviseOutputs(job: DistributedRecordingJob): Promise<void> {
+        const now = Date.now();
+        const { healthTimeoutMs, restartDelayMs, maxAutoRestarts } = config.streaming;
+        const liveOutputs = (job.outputs || []).filter(output => this.outputModel.isLive(output));
+
+        let updatedJob = job;
+        for (const output of liveOutputs) {
+            const silentFor = now - (output.health?.reportedAt || output.updatedAt);
+
+            if (output.status === 'active' && silentFor > healthTimeoutMs) {
+                updatedJob = this.outputModel.update(updatedJob, output.id, {
+                    status: 'degraded',
+                    error: `No ingest health reported for ${Math.round(silentFor / 1000)}s`
+                });
+            } else if (output.status === 'starting' && now - output.updatedAt > healthTimeoutMs) {
+                updatedJob = this.outputModel.update(updatedJob, output.id, {
+                    status: 'failed',
+                    error: `Did not go live within ${Math.round(healthTimeoutMs / 1000)}s`
+                });
+            }
+        }
+
+        if (updatedJob !== job) {
+            this.activeJobs.set(job.jobId, updatedJob);
+            await this.database.updateRecordingJob(updatedJob);
+        }
+
+        const restartable = (updatedJob.outputs || []).filter(output =>
+            this.outputModel.isLive(output) &&
+            output.status === 'failed' &&
+            output.restarts < maxAutoRestarts &&
+            now - output.updatedAt >= restartDelayMs
+        );
+
+        for (const output of restartable) {
+            try {
+                await this.restartOutput(job.jobId, output.id);
+            } catch (error) {
+                this.logger.warn(`Automatic restart of output ${output.id} of job ${job.jobId} failed`, {
+                    error: error instanceof Error ? error.message : error
+                });
+
+                // Counts as a restart so an unreachable node doesn't get retried forever
+                const current = this.activeJobs.get(job.jobId);
+                if (current) {
+                    const failedJob = this.outputModel.update(current, output.id, { restarts: output.restarts + 1 });
+                    this.activeJobs.set(job.jobId, failedJob);
+                    await this.database.updateRecordingJob(failedJob);
+                }
+            }
+        }
+    }
+
+    // LIVE MIGRATION
+    // The target node starts recording a new segment before the source
+    // stops, so the two overlap briefly instead of dropping media. Segments
+    // are stitched into one file when the job completes.
+    async migrateRecording(
+        jobId: string,
+        options: { targetNodeId?: string; reason?: string } = {}
+    ): Promise<DistributedRecordingJob> {
+        const job = this.activeJobs.get(jobId);
+        if (!job) {
+            throw new NotFoundError(`Recording job ${jobId} not found`);
+        }
+
+        if (job.status !== 'recording') {
+            throw new ConflictError(`Only recording jobs can be migrated (job ${jobId} is ${job.status})`);
+        }
+
+        if (job.migration) {
+            throw new ConflictError(`Job ${jobId} is already migrating to ${job.migration.targetNodeId}`);
+        }
+
+        const roomServer = this.roomServers.get(job.roomServerId);
+        if (!roomServer || !roomServer.isHealthy) {
+            throw new Error(`Room server ${job.roomServerId} is not available`);
+        }
+
+        const candidates = Array.from(this.ffmpegNodes.values()).filter(node =>
+            node.id !== job.ffmpegNodeId && (!options.targetNodeId || node.id === options.targetNodeId)
+        );
+
+        const targetNode = await this.loadBalancer.selectOptimalFFmpegNode(
+            candidates,
+            this.buildRecordingRequirements(job, roomServer.region)
+        );
+
+        if (!targetNode) {
+            throw new Error(options.targetNodeId
+                ? `FFmpeg node ${options.targetNodeId} cannot take job ${jobId}`
+                : `No FFmpeg node available to migrate job ${jobId} to`);
+        }
+
+        await this.startMigration(job, targetNode, roomServer, options.reason || 'Operator request');
+
+        return job;
+    }
+
+    private async startMigration(
+        job: DistributedRecordingJob,
+        targetNode: FFmpegNode,
+        roomServer: RoomServerNode,
+        reason: string
+    ): Promise<void> {
+        const sourceNodeId = job.ffmpegNodeId;
+        const segment = this.segmentModel.begin(job, targetNode.id, 'migration');
+
+        this.logger.info(`Migrating job ${job.jobId}`, {
+            from: sourceNodeId,
+            to: targetNode.id,
+            segmentIndex: segment.index,
+            reason
+        });
+
+        // Work on a copy so the job keeps recording through the source node until cutover
+        const candidate: DistributedRecordingJob = { ...job, ffmpegNodeId: targetNode.id };
+
+        try {
+            await this.setupRTPForwarding(candidate, roomServer, targetNode);
+            await this.startRecordingOnNode(candidate, targetNode);
+        } catch (error) {
+            this.nodeManager.releaseJobPorts(targetNode.id, job.jobId);
+            if (candidate.rtpForwarding !== job.rtpForwarding) {
+                await this.stopRTPForwarding(job, roomServer, segment.index).catch(() => {});
+            }
+
+            job.segments = this.segmentModel.update(job, segment.index, 'failed').segments!;
+            await this.database.updateRecordingJob(job);
+
+            throw error;
+        }
+
+        roomServer.currentLoad++;
+        targetNode.currentLoad += job.nodeLoad ?? this.estimateJobLoad(job);
+        targetNode.activeJobs.push(job.jobId);
+
+        job.migration = {
+            sourceNodeId,
+            targetNodeId: targetNode.id,
+            segmentIndex: segment.index,
+            reason,
+            startedAt: Date.now(),
+            rtpForwarding: candidate.rtpForwarding!,
+            ...(candidate.composite && { composite: candidate.composite })
+        };
+
+        await this.database.updateRecordingJob(job);
+
+        this.emit('recordingMigrationStarted', job);
+        this.broadcastRecordingEvent(job, 'migration_started', {
+            from: sourceNodeId,
+            to: targetNode.id,
+            segmentIndex: segment.index,
+            reason
+        });
+    }
+
+    private async completeMigration(job: DistributedRecordingJob): Promise<DistributedRecordingJob> {
+        const migration = job.migration!;
+        const sourceNode = this.ffmpegNodes.get(migration.sourceNodeId);
+        const roomServer = this.roomServers.get(job.roomServerId);
+        const sourceSegment = this.segmentModel.getActive(job);
+
+        // The target is recording - the source can stop without losing media
+        if (sourceNode) {
+            await this.stopRecordingOnNode(job, sourceNode, {
+                ...(sourceSegment && { segmentIndex: sourceSegment.index })
+            }).catch(error => {
+                this.logger.warn(`Failed to stop source node ${sourceNode.id} for job ${job.jobId}`, {
+                    error: error instanceof Error ? error.message : error
+                });
+            });
+        }
+
+        if (roomServer && job.rtpForwarding) {
+            await this.stopRTPForwarding(job, roomServer, sourceSegment?.index).catch(() => {});
+        }
+
+        this.releasePortLeases(job);
+
+        let migratedJob: DistributedRecordingJob = {
+            ...job,
+            ffmpegNodeId: migration.targetNodeId,
+            rtpForwarding: migration.rtpForwarding,
+            ...(migration.composite && {
+                composite: migration.composite,
+                rtpStreams: this.compositeModel.getAllStreams(migration.composite)
+            })
+        };
+        delete migratedJob.migration;
+
+        // The source segment completes once its node reports the final file
+        if (sourceSegment) {
+            migratedJob = this.segmentModel.update(migratedJob, sourceSegment.index, 'stopping');
+        }
+        migratedJob = this.segmentModel.update(migratedJob, migration.segmentIndex, 'recording');
+
+        // The source stopped publishing - the target takes over the live outputs
+        const targetNode = this.ffmpegNodes.get(migration.targetNodeId);
+        for (const output of (migratedJob.outputs || []).filter(output => this.outputModel.isLive(output))) {
+            if (!targetNode) break;
+
+            migratedJob = await this.startOutputOnNode(migratedJob, output, targetNode).catch(error => {
+                this.logger.warn(`Failed to move output ${output.id} of job ${job.jobId} to ${targetNode.id}`, {
+                    error: error instanceof Error ? error.message : error
+                });
+                return this.outputModel.update(migratedJob, output.id, {
+                    status: 'failed',
+                    error: `Not restarted after migration: ${error instanceof Error ? error.message : error}`
+                });
+            });
+        }
+
+        this.logger.info(`Job ${job.jobId} migrated`, {
+            from: migration.sourceNodeId,
+            to: migration.targetNodeId,
+            overlapMs: Date.now() - migration.startedAt
+        });
+
+        this.emit('recordingJobMigrated', migratedJob, migration);
+        this.broadcastRecordingEvent(migratedJob, 'migrated', {
+            from: migration.sourceNodeId,
+            to: migration.targetNodeId,
+            segmentIndex: migration.segmentIndex
+        });
+
+        return migratedJob;
+    }
+
+    private async abortMigration(job: DistributedRecordingJob, reason: string): Promise<DistributedRecordingJob> {
+        const migration = job.migration!;
+        const targetNode = this.ffmpegNodes.get(migration.targetNodeId);
+        const roomServer = this.roomServers.get(job.roomServerId);
+
+        if (targetNode) {
+            await this.stopRecordingOnNode(job, targetNode, {
+                discardOutput: true,
+                segmentIndex: migration.segmentIndex
+            }).catch(() => {});
+
+            this.releaseNodeLoad(job, targetNode);
+        }
+
+        if (roomServer) {
+            await this.stopRTPForwarding(job, roomServer, migration.segmentIndex).catch(() => {});
+        }
+
+        this.nodeManager.releaseJobPorts(migration.targetNodeId, job.jobId);
+
+        const abortedJob = this.segmentModel.update({ ...job }, migration.segmentIndex, 'failed');
+        delete abortedJob.migration;
+
+        this.logger.warn(`Migration of job ${job.jobId} aborted`, {
+            to: migration.targetNodeId,
+            reason
+        });
+
+        this.emit('recordingMigrationFailed', abortedJob, migration, reason);
+        this.broadcastRecordingEvent(abortedJob, 'migration_failed', {
+            to: migration.targetNodeId,
+            segmentIndex: migration.segmentIndex,
+            reason
+        });
+
+        return abortedJob;
+    }
+
+    // Concatenate the segments of a migrated recording into its final output
+    private async stitchSegmentsIfReady(job: DistributedRecordingJob): Promise<DistributedRecordingJob> {
+        if (job.status !== 'completed' || job.stitching?.status === 'completed') {
+            return job;
+        }
+
+        if (!this.segmentModel.isReadyToStitch(job)) {
+            return job;
+        }
+
+        const segments = this.segmentModel.getStitchableSegments(job);
+        const lastNode = this.ffmpegNodes.get(segments[segments.length - 1]!.ffmpegNodeId);
+        const ffmpegNode = lastNode?.isHealthy
+            ? lastNode
+            : Array.from(this.ffmpegNodes.values()).find(node => node.isHealthy);
+
+        if (!ffmpegNode) {
+            return {
+                ...job,
+                stitching: { status: 'failed', error: 'No healthy FFmpeg node to stitch segments' }
+            };
+        }
+
+        try {
+            const response = await this.postToNode(ffmpegNode.id, `${ffmpegNode.url}/concat-segments`, {
+                jobId: job.jobId,
+                format: job.options.format,
+                segments: segments.map(segment => ({
+                    index: segment.index,
+                    outputPath: segment.outputPath
+                }))
+            }, 120000);
+
+            if (!response.ok) {
+                throw new Error(`Failed to stitch segments: ${response.statusText}`);
+            }
+
+            const result = await response.json() as { outputPath: string };
+
+            const stitchedJob: DistributedRecordingJob = {
+                ...job,
+                outputPath: result.outputPath,
+                stitching: { status: 'completed', ffmpegNodeId: ffmpegNode.id, completedAt: Date.now() }
+            };
+
+            this.logger.info(`Stitched ${segments.length} segments for job ${job.jobId}`, {
+                outputPath: result.outputPath
+            });
+
+            this.emit('recordingSegmentsStitched', stitchedJob);
+
+            return stitchedJob;
+
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Failed to stitch segments';
+
+            this.logger.error(`Failed to stitch segments for job ${job.jobId}:`, error);
+
+            // Segment outputs stay listed on the job for a manual retry
+            return {
+                ...job,
+                stitching: { status: 'failed', ffmpegNodeId: ffmpegNode.id, error: message }
+            };
+        }
+    }
+
+    // HEALTH MONITORING
+    startHealthMonitoring(): void {
+        this.healthCheckInterval = setInterval(async () => {
+            await this.performHealthChecks().catch(error => {
+                this.logger.error('Health check failed:', error);
+            });
+        }, 30000); // Every 30 seconds
+
+        this.supervisorInterval = setInterval(async () => {
+            await this.superviseJobs().catch(error => {
+                this.logger.error('Job supervision failed:', error);
+            });
+        }, config.recording.supervisorInterval);
+
+        this.logger.info('Health monitoring started');
+    }
+
+    private async performHealthChecks(): Promise<void> {
+        const now = Date.now();
+        const timeoutMs = 60000; // 1 minute timeout
+
+        // Check room servers
+        for (const [id, roomServer] of this.roomServers) {
+            if (now - roomServer.lastHeartbeat > timeoutMs) {
+                await this.handleUnhealthyRoomServer(id, roomServer);
+            }
+        }
+
+        // Check FFmpeg nodes
+        for (const [id, ffmpegNode] of this.ffmpegNodes) {
+            if (now - ffmpegNode.lastHeartbeat > timeoutMs) {
+                await this.handleUnhealthyFFmpegNode(id, ffmpegNode);
+            }
+        }
+
+        // Move drains forward
+        await this.processDrains();
+
+        // Process job queue
+        await this.processJobQueue();
+    }
+
+    // JOB SUPERVISION
+    private async superviseJobs(): Promise<void> {
+        const jobs = Array.from(this.activeJobs.values());
+
+        for (const job of this.jobModel.getJobsExceedingMaxDuration(jobs)) {
+            await this.enforceMaxDuration(job).catch(error => {
+                this.logger.error(`Failed to enforce max duration for job ${job.jobId}:`, error);
+            });
+        }
+
+        const initializingTimeoutMs = config.recording.initializingTimeoutMs;
+        for (const job of this.jobModel.getStaleInitializingJobs(jobs, initializingTimeoutMs)) {
+            await this.failStaleInitializingJob(job, initializingTimeoutMs).catch(error => {
+                this.logger.error(`Failed to time out initializing job ${job.jobId}:`, error);
+            });
+        }
+
+        for (const { jobId } of jobs) {
+            // Earlier checks may have ended or replaced the job
+            const job = this.activeJobs.get(jobId);
+            if (!job || job.status !== 'recording' || job.migration || !job.outputs) continue;
+
+            await this.superviseOutputs(job).catch(error => {
+                this.logger.error(`Failed to supervise the outputs of job ${job.jobId}:`, error);
+            });
+        }
+
+        // Migration targets get the same deadline to confirm their start
+        const staleMigrations = jobs.filter(job =>
+            job.migration && Date.now() - job.migration.startedAt > initializingTimeoutMs
+        );
+        for (const job of staleMigrations) {
+            try {
+                const updatedJob = await this.abortMigration(job, 'Migration target did not start in time');
+                this.activeJobs.set(updatedJob.jobId, updatedJob);
+                await this.database.updateRecordingJob(updatedJob);
+            } catch (error) {
+                this.logger.error(`Failed to abort stale migration of job ${job.jobId}:`, error);
+            }
+        }
+    }
+
+    // Graceful stop - the node finalizes the file as for a user stop
+    private async enforceMaxDuration(job: DistributedRecordingJob): Promise<void> {
+        const maxDuration = job.options.maxDuration!;
+        const recordedMs = this.jobModel.getRecordingDuration(job);
+
+        job.termination = {
+            reason: 'max_duration_exceeded',
+            message: `Recording reached its maximum duration of ${Math.round(maxDuration / 1000)}s`,
+            terminatedAt: Date.now()
+        };
+
+        this.logger.info(`Job ${job.jobId} exceeded its max duration, stopping`, {
+            maxDuration,
+            recordedMs
+        });
+
+        try {
+            await this.stopDistributedRecording(job.jobId);
+        } catch (error) {
+            // The stop path has failed the job - audit it apart from a clean stop
+            const message = error instanceof Error ? error.message : String(error);
+            job.termination = {
+                reason: 'max_duration_stop_failed',
+                message: `Recording reached its maximum duration of ${Math.round(maxDuration / 1000)}s but could not be stopped: ${message}`,
+                terminatedAt: Date.now()
+            };
+
+            await this.database.updateRecordingJob(job).catch(saveError => {
+                this.logger.error(`Failed to save failed job ${job.jobId}:`, saveError);
+            });
+            await this.recordTermination(job, job.termination, { maxDuration, recordedMs, error: message });
+
+            throw error;
+        }
+
+        await this.recordTermination(job, job.termination, { maxDuration, recordedMs });
+
+        this.emit('recordingJobMaxDurationExceeded', job);
+    }
+
+    // The node never confirmed the start - give up on it and free what it holds
+    private async failStaleInitializingJob(job: DistributedRecordingJob, timeoutMs: number): Promise<void> {
+        const termination: JobTermination = {
+            reason: 'initialization_timeout',
+            message: `Recording did not start within ${Math.round(timeoutMs / 1000)}s`,
+            terminatedAt: Date.now()
+        };
+
+        this.logger.warn(`Job ${job.jobId} stuck in initializing, failing it`, {
+            ffmpegNodeId: job.ffmpegNodeId,
+            assignedAt: job.assignedAt
+        });
+
+        const ffmpegNode = this.ffmpegNodes.get(job.ffmpegNodeId);
+        if (ffmpegNode) {
+            await this.stopRecordingOnNode(job, ffmpegNode, { discardOutput: true }).catch(error => {
+                this.logger.warn(`Failed to stop recording on node for job ${job.jobId}`, {
+                    error: error instanceof Error ? error.message : error
+                });
+            });
+        }
+
+        const failedJob = this.jobModel.updateStatus(job, 'failed', {
+            errorMessage: termination.message,
+            termination
+        });
+
+        await this.releaseJobResources(failedJob);
+
+        this.activeJobs.delete(failedJob.jobId);
+        await this.database.updateRecordingJob(failedJob);
+
+        await this.recordTermination(failedJob, termination, {
+            timeoutMs,
+            ffmpegNodeId: failedJob.ffmpegNodeId,
+            assignedAt: failedJob.assignedAt
+        });
+
+        this.emit('recordingJobInitializationTimedOut', failedJob);
+        this.emit('recordingJobFailed', failedJob, new Error(termination.message), 'initialization_timeout');
+    }
+
+    private async recordTermination(
+        job: DistributedRecordingJob,
+        termination: JobTermination,
+        details: Record<string, any>
+    ): Promise<void> {
+        const record: JobAuditRecord = {
+            jobId: job.jobId,
+            action: termination.reason,
+            message: termination.message,
+            details,
+            timestamp: termination.terminatedAt
+        };
+
+        await this.database.saveJobAuditRecord(record).catch(error => {
+            this.logger.error(`Failed to save audit record for job ${job.jobId}:`, error);
+        });
+
+        this.broadcastRecordingEvent(job, termination.reason, {
+            message: termination.message,
+            ...details
+        });
+    }
+
+    async getJobAuditRecords(jobId: string): Promise<JobAuditRecord[]> {
+        return this.database.getJobAuditRecords(jobId);
+    }
+
+    private async handleUnhealthyRoomServer(id: string, roomServer: RoomServerNode): Promise<void> {
+        roomServer.isHealthy = false;
+
+        this.logger.warn(`Room server ${id} is unhealthy`);
+
+        // Find jobs that need to be handled
+        const affectedJobs = Array.from(this.activeJobs.values())
+            .filter(job => job.roomServerId === id && ['initializing', 'recording', 'paused'].includes(job.status));
+
+        for (const job of affectedJobs) {
+            // Try to cleanup FFmpeg node
+            const ffmpegNode = this.ffmpegNodes.get(job.ffmpegNodeId);
+            if (ffmpegNode) {
+                await this.stopRecordingOnNode(job, ffmpegNode).catch(() => {});
+            }
+
+            await this.failLostJob(job, 'Room server became unhealthy');
+        }
+
+        this.emit('roomServerUnhealthy', roomServer);
+    }
+
+    private async handleUnhealthyFFmpegNode(id: string, ffmpegNode: FFmpegNode): Promise<void> {
+        ffmpegNode.isHealthy = false;
+
+        this.logger.warn(`FFmpeg node ${id} is unhealthy`);
+
+        // Find jobs that need to be reassigned
+        const affectedJobs = Array.from(this.activeJobs.values())
+            .filter(job => job.ffmpegNodeId === id && ['initializing', 'recording', 'paused'].includes(job.status));
+
+        // Migrations towards the lost node will never start
+        const migratingJobs = Array.from(this.activeJobs.values())
+            .filter(job => job.migration?.targetNodeId === id);
+
+        for (const job of migratingJobs) {
+            try {
+                const updatedJob = await this.abortMigration(job, `Migration target ${id} became unhealthy`);
+                this.activeJobs.set(updatedJob.jobId, updatedJob);
+                await this.database.updateRecordingJob(updatedJob);
+            } catch (error) {
+                this.logger.error(`Failed to abort migration of job ${job.jobId} to unhealthy node ${id}:`, error);
+            }
+        }
+
+        for (const job of affectedJobs) {
+            try {
+                // Already recording on the migration target - cut over early
+                if (job.migration) {
+                    const updatedJob = await this.completeMigration(job);
+                    this.activeJobs.set(updatedJob.jobId, updatedJob);
+                    await this.database.updateRecordingJob(updatedJob);
+                    continue;
+                }
+
+                const reassigned = await this.reassignJob(job);
+
+                if (!reassigned && job.status !== 'failed') {
+                    // No available nodes, mark as failed
+                    await this.failLostJob(job, 'No available FFmpeg nodes for reassignment');
+                }
+            } catch (error) {
+                this.logger.error(`Failed to recover job ${job.jobId} from unhealthy node ${id}:`, error);
+            }
+        }
+
+        this.emit('ffmpegNodeUnhealthy', ffmpegNode);
+    }
+
+    // Ends a job whose node is gone. Schedule runs and webhooks learn about
+    // it from the failure event, so it is saved before the event goes out.
+    private async failLostJob(job: DistributedRecordingJob, message: string): Promise<void> {
+        this.setJobStatus(job, 'failed');
+        job.errorMessage = message;
+        job.endTime = Date.now();
+        this.releasePortLeases(job);
+        this.activeJobs.delete(job.jobId);
+
+        await this.database.updateRecordingJob(job).catch(error => {
+            this.logger.error(`Failed to save failed job ${job.jobId}:`, error);
+        });
+
+        this.emit('recordingJobFailed', job, new Error(message), 'node_lost');
+    }
+
+    // Restart a job whose FFmpeg node was lost on another node. The lost
+    // node's segment ends where its last output was flushed.
+    private async reassignJob(job: DistributedRecordingJob): Promise<boolean> {
+        const roomServer = this.roomServers.get(job.roomServerId);
+        if (!roomServer) return false;
+
+        const newNode = await this.loadBalancer.selectOptimalFFmpegNode(
+            Array.from(this.ffmpegNodes.values()).filter(node => node.id !== job.ffmpegNodeId),
+            this.buildRecordingRequirements(job, roomServer.region)
+        );
+
+        if (!newNode) return false;
+
+        const previousSegment = this.segmentModel.getActive(job);
+        if (previousSegment) {
+            job.segments = this.segmentModel.update(job, previousSegment.index, 'failed').segments!;
+        }
+
+        if (job.rtpForwarding) {
+            await this.stopRTPForwarding(job, roomServer, previousSegment?.index).catch(() => {});
+        }
+
+        // Ports on the previous node are not coming back for this job
+        this.releasePortLeases(job);
+
+        // Forwarding to the new node starts live, paused or not
+        job.pauses = this.pauseModel.setForwardingSuspended(job, false);
+
+        this.logger.info(`Reassigning job ${job.jobId}`, {
+            from: job.ffmpegNodeId,
+            to: newNode.id
+        });
+
+        job.status = 'pending';
+        job.ffmpegNodeId = '';
+        await this.assignJobToNode(job, newNode, roomServer, 'failover');
+
+        // assignJobToNode marks the job failed when the new node rejects it
+        return (job.status as JobStatus) !== 'failed';
+    }
+
+    // RECORDING QUERIES
+    // Running jobs come from memory, finished ones from the database
+    async getRecordingJob(jobId: string): Promise<DistributedRecordingJob | null> {
+        return this.activeJobs.get(jobId) || await this.database.getRecordingJob(jobId);
+    }
+
+    getActiveRecordings(filter: { page: number; limit: number; roomId?: string | undefined; region?: string | undefined }): {
+        records: DistributedRecordingJob[];
+        total: number;
+    } {
+        const jobs = Array.from(this.activeJobs.values())
+            .filter(job =>
+                (!filter.roomId || job.roomId === filter.roomId) &&
+                (!filter.region || this.roomServers.get(job.roomServerId)?.region === filter.region)
+            )
+            .sort((a, b) => b.startTime - a.startTime);
+
+        const offset = (filter.page - 1) * filter.limit;
+        return {
+            records: jobs.slice(offset, offset + filter.limit).map(job => this.outputModel.redactJob(job)),
+            total: jobs.length
+        };
+    }
+
+    async getRecordingHistory(filters: {
+        page: number;
+        limit: number;
+        status?: string | undefined;
+        startDate?: Date | undefined;
+        endDate?: Date | undefined;
+    }): Promise<{ records: DistributedRecordingJob[]; total: number }> {
+        const history = await this.database.getRecordingJobHistory(filters);
+        return { ...history, records: history.records.map(job => this.outputModel.redactJob(job)) };
+    }
+
+    // NODE QUERIES
+    getNodes(filter: NodeFilter = {}): NodeView[] {
+        const nodes: NodeView[] = [
+            ...Array.from(this.roomServers.values()).map(node => this.toNodeView('room-server', node)),
+            ...Array.from(this.ffmpegNodes.values()).map(node => this.toNodeView('ffmpeg-node', node))
+        ];
+
+        return nodes.filter(node =>
+            (!filter.type || node.type === filter.type) &&
+            (!filter.region || node.region === filter.region) &&
+            (!filter.healthyOnly || node.isHealthy)
+        );
+    }
+
+    getNode(nodeId: string, type?: NodeType): NodeView | null {
+        const found = this.findNode(nodeId, type);
+        return found ? this.toNodeView(found.type, found.node) : null;
+    }
+
+    // A healthy room server currently hosting the room, with the room's last reported peers
+    findRoom(roomId: string, roomServerId?: string): { roomServerId: string; report?: RoomReport | undefined } | null {
+        const roomServer = Array.from(this.roomServers.values()).find(server =>
+            (!roomServerId || server.id === roomServerId) &&
+            server.isHealthy &&
+            this.loadBalancer.isSchedulable(server) &&
+            server.rooms.includes(roomId)
+        );
+        if (!roomServer) return null;
+
+        return { roomServerId: roomServer.id, report: this.roomReports.get(`${roomServer.id}/${roomId}`) };
+    }
+
+    async removeNode(nodeId: string, type?: NodeType): Promise<void> {
+        const found = this.findNode(nodeId, type);
+        if (!found) {
+            throw new NotFoundError(`Node ${nodeId} not found`);
+        }
+
+        const jobs = this.getNodeJobs(found.type, nodeId);
+        if (jobs.length > 0) {
+            throw new ConflictError(`Node ${nodeId} has ${jobs.length} active recordings - drain it before removal`);
+        }
+
+        await this.deregisterNode(found.type, nodeId);
+    }
+
+    private findNode(nodeId: string, type?: NodeType):
+        { type: 'room-server'; node: RoomServerNode } | { type: 'ffmpeg-node'; node: FFmpegNode } | null {
+
+        const roomServer = type !== 'ffmpeg-node' ? this.roomServers.get(nodeId) : undefined;
+        if (roomServer) return { type: 'room-server', node: roomServer };
+
+        const ffmpegNode = type !== 'room-server' ? this.ffmpegNodes.get(nodeId) : undefined;
+        if (ffmpegNode) return { type: 'ffmpeg-node', node: ffmpegNode };
+
+        return null;
+    }
+
+    private toNodeView(type: NodeType, node: RoomServerNode | FFmpegNode): NodeView {
+        return {
+            ...node,
+            type,
+            schedulingState: node.scheduling?.state || 'active',
+            activeJobIds: this.getNodeJobs(type, node.id).map(job => job.jobId)
+        };
+    }
+
+    // Jobs that still depend on the node. Queued jobs count for room
+    // servers - they will forward from there once assigned.
+    private getNodeJobs(type: NodeType, nodeId: string): DistributedRecordingJob[] {
+        return Array.from(this.activeJobs.values()).filter(job =>
+            type === 'room-server'
+                ? job.roomServerId === nodeId && this.jobModel.isActive(job)
+                : job.ffmpegNodeId === nodeId && ['initializing', 'recording', 'paused'].includes(job.status)
+        );
+    }
+
+    // NODE MAINTENANCE
+    async cordonNode(nodeId: string, reason?: string, type?: NodeType): Promise<NodeSchedulingStatus> {
+        const found = this.findNode(nodeId, type);
+        if (!found) {
+            throw new NotFoundError(`Node ${nodeId} not found`);
+        }
+
+        if (found.node.scheduling?.state === 'draining') {
+            throw new ConflictError(`Node ${nodeId} is draining - uncordon it to cancel the drain`);
+        }
+
+        if (found.node.scheduling?.state === 'cordoned') {
+            throw new ConflictError(`Node ${nodeId} is already cordoned`);
+        }
+
+        found.node.scheduling = {
+            state: 'cordoned',
+            changedAt: Date.now(),
+            ...(reason && { reason })
+        };
+
+        await this.saveNode(found.type, found.node);
+
+        this.logger.info(`Node ${nodeId} cordoned`, { type: found.type, reason });
+
+        this.emit('nodeCordoned', found.node);
+        this.broadcastToSubscribers('node_cordoned', { type: found.type, node: found.node });
+
+        return found.node.scheduling;
+    }
+
+    async uncordonNode(nodeId: string, type?: NodeType): Promise<void> {
+        const found = this.findNode(nodeId, type);
+        if (!found) {
+            throw new NotFoundError(`Node ${nodeId} not found`);
+        }
+
+        const previousState = found.node.scheduling?.state;
+        delete found.node.scheduling;
+
+        await this.saveNode(found.type, found.node);
+
+        this.logger.info(`Node ${nodeId} uncordoned`, { type: found.type, previousState });
+
+        this.emit('nodeUncordoned', found.node);
+        this.broadcastToSubscribers('node_uncordoned', { type: found.type, node: found.node });
+    }
+
+    // Cordon the node, then either wait for its jobs to finish or move them
+    // to other nodes. The node is deregistered once nothing runs on it.
+    async drainNode(nodeId: string, mode: DrainMode, reason?: string, type?: NodeType): Promise<NodeSchedulingStatus> {
+        const found = this.findNode(nodeId, type);
+        if (!found) {
+            throw new NotFoundError(`Node ${nodeId} not found`);
+        }
+
+        if (found.node.scheduling?.state === 'draining') {
+            throw new ConflictError(`Node ${nodeId} is already draining`);
+        }
+
+        // Media originates on the room server - its jobs can only run out
+        if (found.type === 'room-server' && mode === 'migrate') {
+            throw new ApiError('Room servers can only be drained in wait mode', 400);
+        }
+
+        const jobIds = this.getNodeJobs(found.type, nodeId).map(job => job.jobId);
+
+        found.node.scheduling = {
+            state: 'draining',
+            changedAt: Date.now(),
+            ...(reason && { reason }),
+            drain: {
+                mode,
+                startedAt: Date.now(),
+                initialJobIds: jobIds,
+                remainingJobIds: jobIds,
+                migratedJobIds: [],
+                failedJobIds: []
+            }
+        };
+
+        this.logger.info(`Draining node ${nodeId}`, { type: found.type, mode, activeJobs: jobIds.length });
+
+        this.emit('nodeDrainStarted', found.node);
+        this.broadcastToSubscribers('node_draining', { type: found.type, node: found.node });
+
+        await this.advanceDrain(found.type, found.node);
+
+        return found.node.scheduling;
+    }
+
+    private async processDrains(): Promise<void> {
+        const draining = this.getNodes().filter(node => node.scheduling?.state === 'draining');
+
+        for (const view of draining) {
+            const found = this.findNode(view.id, view.type);
+            if (!found) continue;
+
+            await this.advanceDrain(found.type, found.node).catch(error => {
+                this.logger.error(`Failed to advance drain of node ${view.id}:`, error);
+            });
+        }
+    }
+
+    private async advanceDrain(type: NodeType, node: RoomServerNode | FFmpegNode): Promise<void> {
+        const drain = node.scheduling!.drain!;
+
+        if (type === 'ffmpeg-node' && drain.mode === 'migrate') {
+            // Initializing jobs are moved once they have started; migrating
+            // jobs leave the node at cutover
+            const recordingJobs = this.getNodeJobs(type, node.id)
+                .filter(job => job.status === 'recording' && !job.migration);
+
+            for (const job of recordingJobs) {
+                try {
+                    await this.migrateRecording(job.jobId, { reason: `Draining node ${node.id}` });
+                    drain.migratedJobIds.push(job.jobId);
+                } catch (error) {
+                    this.logger.warn(`Failed to migrate job ${job.jobId} off draining node ${node.id}`, {
+                        error: error instanceof Error ? error.message : error
+                    });
+                    if (!drain.failedJobIds.includes(job.jobId)) {
+                        drain.failedJobIds.push(job.jobId);
+                    }
+                }
+            }
+        }
+
+        drain.remainingJobIds = this.getNodeJobs(type, node.id).map(job => job.jobId);
+
+        if (drain.remainingJobIds.length > 0) {
+            await this.saveNode(type, node);
+            return;
+        }
+
+        drain.completedAt = Date.now();
+        node.scheduling = { ...node.scheduling!, state: 'drained', changedAt: drain.completedAt };
+
+        this.logger.info(`Node ${node.id} drained`, {
+            type,
+            migratedJobs: drain.migratedJobIds.length,
+            duration: drain.completedAt - drain.startedAt
+        });
+
+        this.emit('nodeDrained', node);
+        this.broadcastToSubscribers('node_drained', { type, node });
+
+        await this.deregisterNode(type, node.id);
+    }
+
+    private async deregisterNode(type: NodeType, nodeId: string): Promise<void> {
+        if (type === 'room-server') {
+            this.roomServers.delete(nodeId);
+            await this.database.deleteRoomServer(nodeId);
+        } else {
+            this.ffmpegNodes.delete(nodeId);
+            await this.database.deleteFFmpegNode(nodeId);
+        }
+
+        await this.nodeManager.cleanupNode(nodeId);
+        await this.signingService.revokeSecret(nodeId);
+
+        this.logger.info(`Node ${nodeId} deregistered`, { type });
+
+        this.emit('nodeDeregistered', { nodeId, type });
+        this.broadcastToSubscribers('node_deregistered', { nodeId, type });
+    }
+
+    private async saveNode(type: NodeType, node: RoomServerNode | FFmpegNode): Promise<void> {
+        if (type === 'room-server') {
+            await this.database.saveRoomServer(node as RoomServerNode);
+        } else {
+            await this.database.saveFFmpegNode(node as FFmpegNode);
+        }
+    }
+
+    private async processJobQueue(): Promise<void> {
+        if (this.jobQueue.size() === 0) return;
+
+        const availableNodes = Array.from(this.ffmpegNodes.values())
+            .filter(node => node.isHealthy && node.currentLoad < node.capacity);
+
+        // Highest priority first
+        for (const job of this.jobQueue.getOrderedJobs()) {
+            const roomServer = this.roomServers.get(job.roomServerId);
+            if (!roomServer || !roomServer.isHealthy) continue;
+
+            const selectedNode = await this.loadBalancer.selectOptimalFFmpegNode(
+                availableNodes,
+                this.buildRecordingRequirements(job, roomServer.region)
+            );
+
+            if (selectedNode) {
+                // Remove from queue
+                await this.jobQueue.remove(job.jobId);
+
+                // Assign to node
+                await this.assignJobToNode(job, selectedNode, roomServer);
+
+                // Remove from available nodes list for this iteration
+                const nodeIndex = availableNodes.indexOf(selectedNode);
+                if (nodeIndex > -1) {
+                    availableNodes.splice(nodeIndex, 1);
+                }
+            }
+        }
+    }
+
+    // METRICS AND MONITORING
+    startMetricsCollection(): void {
+        this.metricsInterval = setInterval(() => {
+            const metrics = this.getSystemMetrics();
+            this.broadcastToSubscribers('metrics_update', metrics);
 
             // Store metrics in database for historical analysis
-            this.database.saveMetrics(metrics).catch(error => {
+            this.metricsHistory.record(metrics).catch(error => {
                 this.logger.error('Failed to save metrics:', error);
             });
-        }, 15000); // Every 15 seconds
+        }, config.monitoring.metricsInterval);
+
+        // Roll raw samples up into time buckets and prune what's past retention
+        this.metricsRollupInterval = setInterval(() => {
+            this.metricsHistory.runMaintenance().catch(error => {
+                this.logger.error('Failed to roll up metrics history:', error);
+            });
+        }, config.monitoring.rollupInterval);
 
-        this.logger.info('Metrics collection started');
+        this.logger.info('Metrics collection started', {
+            interval: config.monitoring.metricsInterval,
+            rollupInterval: config.monitoring.rollupInterval
+        });
     }
 
     startAutoScaling(): void {
@@ -525,6 +2179,10 @@ export class OrchestrationService extends EventEmitter {
         this.logger.info('Auto-scaling started');
     }
 
+    getAutoScalingService(): AutoScalingService {
+        return this.autoScaling;
+    }
+
     getSystemMetrics(): SystemMetrics {
         const roomServerMetrics = Array.from(this.roomServers.values());
         const ffmpegNodeMetrics = Array.from(this.ffmpegNodes.values());
@@ -535,14 +2193,60 @@ export class OrchestrationService extends EventEmitter {
             totalFFmpegNodes: ffmpegNodeMetrics.length,
             healthyFFmpegNodes: ffmpegNodeMetrics.filter(fn => fn.isHealthy).length,
             activeRecordings: this.activeJobs.size,
-            queueLength: this.jobQueue.length,
+            queueLength: this.jobQueue.size(),
             totalCapacity: ffmpegNodeMetrics.reduce((sum, node) => sum + node.capacity, 0),
             currentLoad: ffmpegNodeMetrics.reduce((sum, node) => sum + node.currentLoad, 0),
             byRegion: this.getMetricsByRegion()
         };
     }
 
-    private getMetricsByRegion(): Record<string, any> {
+    getRegionalMetrics(region: string): (RegionMetrics & { region: string; nodes: NodeView[] }) | null {
+        const metrics = this.getMetricsByRegion()[region];
+        if (!metrics) {
+            return null;
+        }
+
+        return {
+            region,
+            ...metrics,
+            nodes: this.getNodes({ region })
+        };
+    }
+
+    async getHistoricalMetrics(filters: {
+        startDate: Date;
+        endDate: Date;
+        interval: MetricsInterval;
+    }): Promise<MetricsDataPoint[]> {
+        return this.metricsHistory.query(filters.startDate, filters.endDate, filters.interval);
+    }
+
+    async getPerformanceStats(): Promise<Record<string, any>> {
+        const queue = this.getQueueStatus();
+
+        return {
+            ...this.autoScaling.getPerformanceMetrics(),
+            loadBalancing: this.loadBalancer.getLoadBalancingStats(Array.from(this.ffmpegNodes.values())),
+            queue: {
+                length: queue.length,
+                availableSlots: queue.availableSlots,
+                totalSlots: queue.totalSlots,
+                averageJobDuration: queue.averageJobDuration
+            }
+        };
+    }
+
+    getQueueStatus(): QueueSnapshot {
+        const healthyNodes = Array.from(this.ffmpegNodes.values())
+            .filter(node => node.isHealthy && this.loadBalancer.isSchedulable(node));
+
+        return this.jobQueue.getSnapshot({
+            availableSlots: healthyNodes.reduce((sum, node) => sum + Math.max(0, node.capacity - node.currentLoad), 0),
+            totalSlots: healthyNodes.reduce((sum, node) => sum + node.capacity, 0)
+        });
+    }
+
+    private getMetricsByRegion(): Record<string, RegionMetrics> {
         const regions: Record<string, any> = {};
 
         // Process FFmpeg nodes by region
@@ -589,14 +2293,15 @@ export class OrchestrationService extends EventEmitter {
     }
 
     // UTILITY METHODS
+    // In load units, like the estimated load each job charges the node
     private calculateNodeCapacity(specs: any): number {
-        let capacity = specs.cpuCores * 1.5; // 1.5 recordings per core
+        let capacity = specs.cpuCores * 1.5; // 1.5 load units per core
 
         if (specs.hasGPU) {
             capacity *= 2; // GPU can handle 2x more
         }
 
-        const ramCapacity = Math.floor(specs.ram / (500 * 1024 * 1024)); // 500MB per recording
+        const ramCapacity = Math.floor(specs.ram / (500 * 1024 * 1024)); // 500MB per load unit
 
         return Math.min(capacity, ramCapacity, 12); // Max 12 per node
     }
@@ -605,7 +2310,62 @@ export class OrchestrationService extends EventEmitter {
         return [...new Set(rtpStreams.map(stream => stream.codecName))];
     }
 
-    private estimateRecordingLoad(rtpStreams: any[], options: any): number {
+    private buildRecordingRequirements(job: DistributedRecordingJob, region: string): RecordingRequirements {
+        return {
+            region,
+            codecRequirements: this.extractCodecRequirements(job.rtpStreams),
+            estimatedLoad: this.estimateJobLoad(job),
+            heldBackCapacity: this.reservations.getHeldBackCapacity(this.getReservationUsage(), job.reservationId),
+            // Composing a room at high quality is where hardware encoding pays off
+            ...(job.composite && job.options.quality === 'high' && { preferGPU: true })
+        };
+    }
+
+    // Load units the running jobs use per capacity reservation
+    getReservationUsage(): Map<string, number> {
+        const claims: ReservationClaim[] = [];
+        for (const job of this.activeJobs.values()) {
+            if (!job.reservationId || !['initializing', 'recording', 'paused'].includes(job.status)) continue;
+
+            const node = job.ffmpegNodeId ? this.ffmpegNodes.get(job.ffmpegNodeId) : undefined;
+            if (!node) continue;
+
+            // The same units the node was charged, so usage and free capacity add up
+            claims.push({ reservationId: job.reservationId, region: node.region, load: job.nodeLoad ?? this.estimateJobLoad(job) });
+        }
+        return this.reservations.getUsage(claims);
+    }
+
+    private validateReservation(reservationId?: string): void {
+        if (reservationId && !this.reservations.getReservation(reservationId)) {
+            throw new Error(`Capacity reservation ${reservationId} not found or already ended`);
+        }
+    }
+
+    // Gives back what the job was charged on the node, once
+    private releaseNodeLoad(job: DistributedRecordingJob, ffmpegNode: FFmpegNode): void {
+        if (!ffmpegNode.activeJobs.includes(job.jobId)) return;
+
+        ffmpegNode.currentLoad = Math.max(0, ffmpegNode.currentLoad - (job.nodeLoad ?? 1));
+        ffmpegNode.activeJobs = ffmpegNode.activeJobs.filter(id => id !== job.jobId);
+    }
+
+    // Load units of the jobs placed on the node, which its own report can't go below
+    private getChargedLoad(ffmpegNode: FFmpegNode): number {
+        return ffmpegNode.activeJobs.reduce((sum, jobId) => sum + (this.activeJobs.get(jobId)?.nodeLoad || 0), 0);
+    }
+
+    private estimateJobLoad(job: DistributedRecordingJob): number {
+        // Each live output is one more encode and upload on the node
+        const liveOutputs = (job.outputs || []).filter(output => this.outputModel.isLive(output)).length;
+        return this.estimateRecordingLoad(job.rtpStreams, job.options, job.composite) + liveOutputs * 0.5;
+    }
+
+    private estimateRecordingLoad(rtpStreams: any[], options: any, composite?: CompositeRecordingState): number {
+        if (composite) {
+            return this.compositeModel.estimateLoad(composite, options);
+        }
+
         let load = 1; // Base load
 
         if (rtpStreams.some(s => s.kind === 'video')) {
@@ -615,21 +2375,82 @@ export class OrchestrationService extends EventEmitter {
         return load;
     }
 
-    private async allocateRTPPorts(ffmpegNode: FFmpegNode, count: number): Promise<number[]> {
-        // Request available ports from FFmpeg node
-        const response = await fetch(`${ffmpegNode.url}/allocate-ports`, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ count }),
-            timeout: 5000
+    // Port leases follow the job - released on every terminal transition
+    private releasePortLeases(job: DistributedRecordingJob): void {
+        if (!job.ffmpegNodeId) return;
+
+        const released = this.nodeManager.releaseJobPorts(job.ffmpegNodeId, job.jobId);
+        if (released.length > 0) {
+            this.logger.debug(`Released port leases for job ${job.jobId}`, {
+                ffmpegNodeId: job.ffmpegNodeId,
+                ports: released
+            });
+        }
+    }
+
+    getPortLeases(nodeId?: string): PortLease[] {
+        return this.nodeManager.getPortLeases(nodeId);
+    }
+
+    // NODE TASKS
+    // Work an FFmpeg node does besides recording, such as post-processing.
+    // Placed through the load balancer like a recording; the node carries the
+    // task's estimated load until the task is released.
+    async dispatchNodeTask(
+        requirements: Omit<RecordingRequirements, 'heldBackCapacity'>,
+        path: string,
+        body: object
+    ): Promise<string | null> {
+        const node = await this.loadBalancer.selectOptimalFFmpegNode(Array.from(this.ffmpegNodes.values()), {
+            ...requirements,
+            heldBackCapacity: this.reservations.getHeldBackCapacity(this.getReservationUsage())
         });
 
+        if (!node) return null;
+
+        const response = await this.postToNode(node.id, `${node.url}${path}`, body, 15000);
         if (!response.ok) {
-            throw new Error('Failed to allocate RTP ports');
+            throw new Error(`FFmpeg node ${node.id} rejected the task: ${response.statusText}`);
+        }
+
+        node.currentLoad += requirements.estimatedLoad;
+        return node.id;
+    }
+
+    releaseNodeTask(nodeId: string, load: number): void {
+        const node = this.ffmpegNodes.get(nodeId);
+        if (node) {
+            node.currentLoad = Math.max(0, node.currentLoad - load);
         }
+    }
+
+    // Status changes made outside the job model - outputs follow them all the same
+    private setJobStatus(job: DistributedRecordingJob, status: JobStatus): void {
+        job.status = status;
+        job.outputs = this.outputModel.followJobStatus(job.outputs, status);
+        job.pauses = this.pauseModel.followJobStatus(job.pauses, status);
+    }
+
+    // Requests to nodes are signed with the secret the node got at registration
+    private async postToNode(nodeId: string, url: string, body: object, timeoutMs: number): Promise<Response> {
+        const payload = JSON.stringify(body);
+
+        return fetch(url, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                ...this.signingService.sign(nodeId, 'POST', new URL(url).pathname, payload)
+            },
+            body: payload,
+            signal: AbortSignal.timeout(timeoutMs)
+        });
+    }
 
-        const result = await response.json();
-        return result.ports;
+    // Current node, migration target, or a node that wrote one of the job's segments
+    private isJobNode(job: DistributedRecordingJob, nodeId: string): boolean {
+        return job.ffmpegNodeId === nodeId ||
+            job.migration?.targetNodeId === nodeId ||
+            (job.segments || []).some(segment => segment.ffmpegNodeId === nodeId);
     }
 
     private extractIPFromURL(url: string): string {
@@ -640,6 +2461,8 @@ export class OrchestrationService extends EventEmitter {
     // EVENT HANDLING
     private setupEventHandlers(): void {
         this.on('recordingJobCompleted', (job) => {
+            this.jobQueue.recordJobDuration(job.endTime! - job.startTime);
+
             this.logger.info(`Recording job completed: ${job.jobId}`, {
                 duration: job.endTime! - job.startTime,
                 peer: job.peerInfo.displayName,
@@ -647,6 +2470,28 @@ export class OrchestrationService extends EventEmitter {
             });
         });
 
+        this.on('recordingJobCancelled', (job) => {
+            this.logger.info(`Recording job cancelled: ${job.jobId}`, {
+                reason: job.cancellation?.reason,
+                requestedBy: job.cancellation?.requestedBy.userId || job.cancellation?.requestedBy.ip,
+                peer: job.peerInfo.displayName
+            });
+        });
+
+        this.on('recordingJobMaxDurationExceeded', (job) => {
+            this.logger.info(`Recording job stopped at max duration: ${job.jobId}`, {
+                maxDuration: job.options.maxDuration,
+                peer: job.peerInfo.displayName
+            });
+        });
+
+        this.on('recordingJobInitializationTimedOut', (job) => {
+            this.logger.warn(`Recording job timed out while initializing: ${job.jobId}`, {
+                ffmpegNodeId: job.ffmpegNodeId,
+                peer: job.peerInfo.displayName
+            });
+        });
+
         this.on('recordingJobFailed', (job, error) => {
             this.logger.error(`Recording job failed: ${job.jobId}`, {
                 error: error.message,
@@ -668,10 +2513,55 @@ export class OrchestrationService extends EventEmitter {
         });
     }
 
-    subscribeToRecordings(ws: any): void {
+    subscribeToRecordings(ws: any, filter: { roomServerId?: string; roomId?: string } = {}): void {
+        this.recordingSubscribers.set(ws, filter);
+
         // Send current active recordings
-        const activeRecordings = Array.from(this.activeJobs.values());
+        const activeRecordings = Array.from(this.activeJobs.values())
+            .filter(job => this.matchesRecordingFilter(job, filter))
+            .map(job => this.outputModel.redactJob(job));
         ws.send(JSON.stringify({ type: 'recordings', data: activeRecordings }));
+
+        ws.on('close', () => {
+            this.recordingSubscribers.delete(ws);
+        });
+    }
+
+    private matchesRecordingFilter(job: DistributedRecordingJob, filter: { roomServerId?: string; roomId?: string }): boolean {
+        return (!filter.roomServerId || job.roomServerId === filter.roomServerId) &&
+            (!filter.roomId || job.roomId === filter.roomId);
+    }
+
+    private broadcastRecordingEvent(job: DistributedRecordingJob, event: string, data: Record<string, any>): void {
+        const message = JSON.stringify({
+            type: 'recording_event',
+            data: {
+                jobId: job.jobId,
+                event,
+                status: job.status,
+                roomServerId: job.roomServerId,
+                roomId: job.roomId,
+                peerId: job.peerId,
+                outputPath: job.outputPath,
+                errorMessage: job.errorMessage,
+                metrics: job.metrics,
+                payload: data
+            },
+            timestamp: Date.now()
+        });
+
+        for (const [ws, filter] of this.recordingSubscribers) {
+            if (!this.matchesRecordingFilter(job, filter)) continue;
+
+            try {
+                if (ws.readyState === 1) { // WebSocket.OPEN
+                    ws.send(message);
+                }
+            } catch (error) {
+                this.logger.error('Failed to send recording event via WebSocket:', error);
+                this.recordingSubscribers.delete(ws);
+            }
+        }
     }
 
     private broadcastToSubscribers(type: string, data: any): void {
@@ -701,19 +2591,51 @@ export class OrchestrationService extends EventEmitter {
             // Restore FFmpeg nodes
             const ffmpegNodes = await this.database.getFFmpegNodes();
             for (const ffmpegNode of ffmpegNodes) {
+                // One bad row must not cost the nodes after it; the node registers again with a valid range
+                try {
+                    this.nodeManager.registerPortRange(ffmpegNode.id, ffmpegNode.portRange);
+                } catch (error) {
+                    this.logger.error(`Skipping FFmpeg node ${ffmpegNode.id} while restoring state:`, error);
+                    continue;
+                }
+
                 this.ffmpegNodes.set(ffmpegNode.id, ffmpegNode);
             }
 
             // Restore active jobs
             const activeJobs = await this.database.getActiveRecordingJobs();
             for (const job of activeJobs) {
+                if (job.ffmpegNodeId) {
+                    job.nodeLoad = this.estimateJobLoad(job);
+                }
                 this.activeJobs.set(job.jobId, job);
+
+                if (job.ffmpegNodeId && job.rtpForwarding?.rtpStreams) {
+                    this.nodeManager.restorePortLeases(
+                        job.ffmpegNodeId,
+                        job.jobId,
+                        job.rtpForwarding.rtpStreams.map(stream => stream.port)
+                    );
+                }
+
+                // The migration target already receives media on its own ports
+                if (job.migration) {
+                    this.nodeManager.restorePortLeases(
+                        job.migration.targetNodeId,
+                        job.jobId,
+                        job.migration.rtpForwarding.rtpStreams.map(stream => stream.port)
+                    );
+                }
             }
 
+            // Pending jobs never reached a node - put them back in the queue
+            await this.jobQueue.restore(activeJobs.filter(job => job.status === 'pending'));
+
             this.logger.info('State restored from database', {
                 roomServers: this.roomServers.size,
                 ffmpegNodes: this.ffmpegNodes.size,
-                activeJobs: this.activeJobs.size
+                activeJobs: this.activeJobs.size,
+                queuedJobs: this.jobQueue.size()
             });
 
         } catch (error) {
@@ -725,10 +2647,130 @@ export class OrchestrationService extends EventEmitter {
     async updateRoomServerHeartbeat(serverId: string, data: any): Promise<void> {
         const roomServer = this.roomServers.get(serverId);
         if (roomServer) {
+            // Rooms are reported either as plain IDs or with their current peers
+            const roomReports: RoomReport[] | undefined = data.rooms?.map((room: string | RoomReport) =>
+                typeof room === 'string' ? { roomId: room } : room
+            );
+
             roomServer.lastHeartbeat = Date.now();
             roomServer.currentLoad = data.currentLoad || roomServer.currentLoad;
-            roomServer.rooms = data.rooms || roomServer.rooms;
+            roomServer.rooms = roomReports ? roomReports.map(room => room.roomId) : roomServer.rooms;
             roomServer.isHealthy = true;
+
+            for (const report of roomReports || []) {
+                if (!report.peers) continue;
+
+                this.roomReports.set(`${serverId}/${report.roomId}`, report);
+                await this.syncCompositeParticipants(roomServer, report);
+            }
+        }
+    }
+
+    // Follow peers joining and leaving a room for its composite recordings
+    private async syncCompositeParticipants(roomServer: RoomServerNode, report: RoomReport): Promise<void> {
+        const peers = report.peers || [];
+        const compositeJobs = Array.from(this.activeJobs.values()).filter(job =>
+            job.composite && job.roomServerId === roomServer.id && job.roomId === report.roomId
+        );
+
+        for (const job of compositeJobs) {
+            const composite = job.composite!;
+            const { joined, left } = this.compositeModel.diffParticipants(composite, peers);
+            const speakerChanged = report.activeSpeakerId !== undefined && report.activeSpeakerId !== composite.activeSpeakerId;
+
+            if (joined.length === 0 && left.length === 0 && !speakerChanged) continue;
+
+            // Picked up from the next report once the migration settles
+            if (job.migration) continue;
+
+            // Not on a node yet - the forwarding is set up from this state on assignment
+            if (job.status === 'pending') {
+                job.composite = this.compositeModel.applyParticipantChanges(
+                    composite,
+                    joined.map(peer => ({ peer, rtpStreams: peer.rtpStreams })),
+                    left.map(participant => participant.peerId),
+                    report.activeSpeakerId
+                );
+                job.rtpStreams = this.compositeModel.getAllStreams(job.composite);
+                continue;
+            }
+
+            const ffmpegNode = this.ffmpegNodes.get(job.ffmpegNodeId);
+            if (!ffmpegNode) continue;
+
+            const forwarded: Array<{ peer: RoomPeerReport; rtpStreams: RTPStreamInfo[] }> = [];
+            for (const peer of joined) {
+                try {
+                    const forwardingConfig = await this.forwardPeerStreams(job, roomServer, ffmpegNode, peer.peerId, peer.rtpStreams);
+                    forwarded.push({ peer, rtpStreams: forwardingConfig.rtpStreams });
+                } catch (error) {
+                    // Picked up again on the next heartbeat
+                    this.logger.warn(`Failed to add peer ${peer.peerId} to composite job ${job.jobId}`, {
+                        error: error instanceof Error ? error.message : error
+                    });
+                }
+            }
+
+            for (const participant of left) {
+                await this.stopPeerForwarding(job, roomServer, participant.peerId).catch(error => {
+                    this.logger.warn(`Failed to remove peer ${participant.peerId} from composite job ${job.jobId}`, {
+                        error: error instanceof Error ? error.message : error
+                    });
+                });
+                this.nodeManager.releasePorts(ffmpegNode.id, participant.rtpStreams.map(stream => stream.port));
+            }
+
+            job.composite = this.compositeModel.applyParticipantChanges(
+                composite,
+                forwarded,
+                left.map(participant => participant.peerId),
+                report.activeSpeakerId
+            );
+            this.refreshCompositeForwarding(job, ffmpegNode);
+
+            await this.sendCompositeLayout(job, ffmpegNode).catch(error => {
+                this.logger.warn(`Failed to update composite layout for job ${job.jobId}`, {
+                    error: error instanceof Error ? error.message : error
+                });
+            });
+
+            await this.database.updateRecordingJob(job);
+
+            this.broadcastRecordingEvent(job, 'participants_changed', {
+                joined: forwarded.map(({ peer }) => peer.peerId),
+                left: left.map(participant => participant.peerId),
+                activeSpeakerId: job.composite.activeSpeakerId
+            });
+        }
+    }
+
+    private async stopPeerForwarding(
+        job: DistributedRecordingJob,
+        roomServer: RoomServerNode,
+        peerId: string,
+        segmentIndex?: number
+    ): Promise<void> {
+        const response = await this.postToNode(
+            roomServer.id,
+            `${roomServer.url}/stop-rtp-forwarding`,
+            { jobId: job.jobId, peerId, ...(segmentIndex !== undefined && { segmentIndex }) },
+            10000
+        );
+
+        if (!response.ok) {
+            throw new Error(`Failed to stop RTP forwarding for peer ${peerId}: ${response.statusText}`);
+        }
+    }
+
+    private async sendCompositeLayout(job: DistributedRecordingJob, ffmpegNode: FFmpegNode): Promise<void> {
+        const response = await this.postToNode(ffmpegNode.id, `${ffmpegNode.url}/update-composite`, {
+            jobId: job.jobId,
+            layout: this.compositeModel.buildLayout(job.composite!, job.options),
+            participants: job.composite!.participants
+        }, 10000);
+
+        if (!response.ok) {
+            throw new Error(`Failed to update composite layout: ${response.statusText}`);
         }
     }
 
@@ -736,9 +2778,29 @@ export class OrchestrationService extends EventEmitter {
         const ffmpegNode = this.ffmpegNodes.get(nodeId);
         if (ffmpegNode) {
             ffmpegNode.lastHeartbeat = Date.now();
-            ffmpegNode.currentLoad = data.currentLoad || ffmpegNode.currentLoad;
             ffmpegNode.activeJobs = data.activeJobs || ffmpegNode.activeJobs;
+            // Nodes count their recordings; the orchestrator charged load units for them
+            ffmpegNode.currentLoad = Math.max(data.currentLoad || ffmpegNode.currentLoad, this.getChargedLoad(ffmpegNode));
             ffmpegNode.isHealthy = true;
+
+            if (data.activeJobs) {
+                this.reconcilePortLeases(ffmpegNode, data.activeJobs);
+            }
+        }
+    }
+
+    private reconcilePortLeases(ffmpegNode: FFmpegNode, reportedJobIds: string[]): void {
+        const activeJobIds = Array.from(this.activeJobs.values())
+            .filter(job =>
+                (job.ffmpegNodeId === ffmpegNode.id || job.migration?.targetNodeId === ffmpegNode.id) &&
+                this.jobModel.isActive(job)
+            )
+            .map(job => job.jobId);
+
+        const result = this.nodeManager.reconcilePortLeases(ffmpegNode.id, reportedJobIds, activeJobIds);
+
+        if (result.releasedPorts.length > 0) {
+            this.emit('portLeasesReclaimed', result);
         }
     }
 
@@ -753,6 +2815,12 @@ export class OrchestrationService extends EventEmitter {
         if (this.metricsInterval) {
             clearInterval(this.metricsInterval);
         }
+        if (this.metricsRollupInterval) {
+            clearInterval(this.metricsRollupInterval);
+        }
+        if (this.supervisorInterval) {
+            clearInterval(this.supervisorInterval);
+        }
 
         // Stop auto-scaling
         await this.autoScaling.stop();
@@ -761,6 +2829,9 @@ export class OrchestrationService extends EventEmitter {
         for (const ws of this.subscribers) {
             ws.close();
         }
+        for (const ws of this.recordingSubscribers.keys()) {
+            ws.close();
+        }
 
         this.logger.info('Orchestration Service shut down');
     }
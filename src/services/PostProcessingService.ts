@@ -0,0 +1,383 @@
+// src/services/PostProcessingService.ts
+import { Logger } from '../utils/Logger';
+import { ConflictError, NotFoundError } from '../utils/Errors';
+import { Database } from '../database/Database';
+import { config } from '../config/config';
+import { OrchestrationService } from './OrchestrationService';
+import { ArtifactService } from './ArtifactService';
+import { PostProcessingModel } from '../models/PostProcessing';
+import {
+    DistributedRecordingJob,
+    PostProcessingState,
+    PostProcessingStep,
+    PostProcessingStepType
+} from '../types/interfaces';
+
+export interface PostProcessingEvent {
+    jobId: string;
+    stepId: string;
+    event: 'completed' | 'failed';
+    data: Record<string, any>;
+}
+
+// Produces what a recording asks for once its output is final: renditions in
+// other containers, a poster thumbnail, a sprite sheet and HLS/DASH packages.
+// Each step is a task of its own, placed on an FFmpeg node through the load
+// balancer like a recording and retried elsewhere when it fails.
+export class PostProcessingService {
+    private logger: Logger;
+    private database: Database;
+    private orchestrationService: OrchestrationService;
+    private artifactService: ArtifactService;
+    private model: PostProcessingModel;
+    private jobs: Map<string, DistributedRecordingJob> = new Map(); // until their post-processing finished
+    private dispatchInterval: NodeJS.Timeout | null = null;
+    private dispatching = false;
+
+    // Relative cost for node selection - a transcode re-encodes the whole recording
+    private static readonly STEP_LOAD: Record<PostProcessingStepType, number> = {
+        transcode: 2,
+        thumbnail: 0.5,
+        sprite: 1,
+        hls: 1,
+        dash: 1
+    };
+
+    constructor(database: Database, orchestrationService: OrchestrationService, artifactService: ArtifactService) {
+        this.logger = new Logger('PostProcessingService');
+        this.database = database;
+        this.orchestrationService = orchestrationService;
+        this.artifactService = artifactService;
+        this.model = new PostProcessingModel();
+    }
+
+    async initialize(): Promise<void> {
+        if (!config.postProcessing.enabled) {
+            this.logger.info('Post-processing disabled');
+            return;
+        }
+
+        // Steps running before a restart report back or time out
+        for (const job of await this.database.getJobsWithRunningPostProcessing()) {
+            this.jobs.set(job.jobId, job);
+        }
+
+        this.orchestrationService.on('recordingOutputReady', (job: DistributedRecordingJob) => {
+            this.begin(job).catch(error =>
+                this.logger.error(`Failed to start post-processing of job ${job.jobId}:`, error)
+            );
+        });
+
+        this.orchestrationService.on('ffmpegNodeUnhealthy', (node: { id: string }) => {
+            this.requeueNodeSteps(node.id, `FFmpeg node ${node.id} became unhealthy`).catch(error =>
+                this.logger.error(`Failed to requeue post-processing steps of node ${node.id}:`, error)
+            );
+        });
+
+        this.orchestrationService.on('nodeDeregistered', ({ nodeId, type }: { nodeId: string; type: string }) => {
+            if (type !== 'ffmpeg-node') return;
+
+            this.requeueNodeSteps(nodeId, `FFmpeg node ${nodeId} was deregistered`).catch(error =>
+                this.logger.error(`Failed to requeue post-processing steps of node ${nodeId}:`, error)
+            );
+        });
+
+        this.logger.info('Post-processing service initialized', { runningJobs: this.jobs.size });
+    }
+
+    start(): void {
+        if (!config.postProcessing.enabled) return;
+
+        this.dispatchInterval = setInterval(() => {
+            this.dispatch().catch(error =>
+                this.logger.error('Failed to dispatch post-processing steps:', error)
+            );
+        }, config.postProcessing.dispatchInterval);
+
+        this.logger.info('Post-processing dispatch started');
+    }
+
+    stop(): void {
+        if (this.dispatchInterval) {
+            clearInterval(this.dispatchInterval);
+            this.dispatchInterval = null;
+        }
+    }
+
+    async begin(job: DistributedRecordingJob): Promise<PostProcessingState | null> {
+        const steps = this.model.plan(job, config.postProcessing.defaults);
+        if (steps.length === 0) {
+            return null;
+        }
+
+        const state = this.model.begin(steps);
+        const tracked = { ...job, postProcessing: state };
+
+        this.jobs.set(job.jobId, tracked);
+        await this.database.updatePostProcessing(job.jobId, state);
+
+        this.logger.info(`Post-processing of job ${job.jobId} started`, {
+            steps: steps.map(step => step.format ? `${step.type}:${step.format}` : step.type)
+        });
+
+        await this.dispatch();
+
+        return state;
+    }
+
+    // The job's state while it runs, what was stored once it finished
+    async getState(jobId: string): Promise<PostProcessingState | null> {
+        const tracked = this.jobs.get(jobId);
+        if (tracked) {
+            return tracked.postProcessing!;
+        }
+
+        const job = await this.database.getRecordingJob(jobId);
+        return job?.postProcessing || null;
+    }
+
+    async handleEvent(event: PostProcessingEvent, sourceNodeId?: string): Promise<PostProcessingState> {
+        const job = this.jobs.get(event.jobId);
+        const step = job && this.model.getStep(job.postProcessing!, event.stepId);
+
+        if (!job || !step) {
+            throw new NotFoundError(`Post-processing step ${event.stepId} of job ${event.jobId} not found`);
+        }
+
+        // Late reports of a step that was already moved to another node are dropped
+        if (step.status !== 'running' || (sourceNodeId && step.ffmpegNodeId !== sourceNodeId)) {
+            this.logger.warn(`Ignoring ${event.event} event for post-processing step ${step.id} of job ${job.jobId}`, {
+                nodeId: sourceNodeId,
+                assignedNodeId: step.ffmpegNodeId,
+                status: step.status
+            });
+            return job.postProcessing!;
+        }
+
+        this.orchestrationService.releaseNodeTask(step.ffmpegNodeId!, PostProcessingService.STEP_LOAD[step.type]);
+
+        if (event.event === 'failed') {
+            const error = typeof event.data.error === 'string' ? event.data.error : 'Post-processing step failed on the node';
+            return this.failAttempt(job, step, error);
+        }
+
+        const outputs: string[] = Array.isArray(event.data.outputs)
+            ? event.data.outputs.filter((output: unknown): output is string => typeof output === 'string')
+            : [];
+
+        try {
+            const artifactIds = await this.registerOutputs(job, step, outputs, event.data);
+
+            return await this.updateStep(job, step.id, {
+                status: 'completed',
+                outputs,
+                ...(artifactIds.length > 0 && { artifactIds }),
+                error: undefined,
+                finishedAt: Date.now()
+            });
+        } catch (error) {
+            // The node's work is done but unusable - another attempt rewrites it
+            return this.failAttempt(job, step, `Failed to register outputs: ${error instanceof Error ? error.message : error}`);
+        }
+    }
+
+    // Gives a failed step a fresh set of attempts
+    async retryStep(jobId: string, stepId: string): Promise<PostProcessingState> {
+        const job = this.jobs.get(jobId) || await this.database.getRecordingJob(jobId);
+        const step = job?.postProcessing && this.model.getStep(job.postProcessing, stepId);
+
+        if (!job || !step) {
+            throw new NotFoundError(`Post-processing step ${stepId} of job ${jobId} not found`);
+        }
+        if (step.status !== 'failed') {
+            throw new ConflictError(`Post-processing step ${stepId} has not failed`);
+        }
+
+        this.jobs.set(job.jobId, job);
+
+        const state = await this.updateStep(job, stepId, {
+            status: 'pending',
+            attempts: 0,
+            ffmpegNodeId: undefined,
+            error: undefined,
+            startedAt: undefined,
+            finishedAt: undefined
+        });
+
+        await this.dispatch();
+
+        return state;
+    }
+
+    // Offers pending steps to the load balancer and retries steps whose node went quiet
+    async dispatch(): Promise<void> {
+        if (this.dispatching) return;
+        this.dispatching = true;
+
+        try {
+            const now = Date.now();
+
+            for (const job of Array.from(this.jobs.values())) {
+                for (const step of job.postProcessing!.steps) {
+                    if (step.status === 'running' && now - step.startedAt! > config.postProcessing.stepTimeoutMs) {
+                        this.orchestrationService.releaseNodeTask(step.ffmpegNodeId!, PostProcessingService.STEP_LOAD[step.type]);
+                        await this.failAttempt(job, step, `No report from FFmpeg node ${step.ffmpegNodeId} within ${config.postProcessing.stepTimeoutMs}ms`);
+                    }
+                }
+
+                for (const step of this.jobs.get(job.jobId)?.postProcessing!.steps || []) {
+                    if (step.status !== 'pending') continue;
+
+                    // Nothing placed this round - later steps would not fit either
+                    if (!await this.dispatchStep(this.jobs.get(job.jobId)!, step)) return;
+                }
+            }
+        } finally {
+            this.dispatching = false;
+        }
+    }
+
+    private async dispatchStep(job: DistributedRecordingJob, step: PostProcessingStep): Promise<boolean> {
+        const region = this.orchestrationService.getNode(job.ffmpegNodeId)?.region ||
+            this.orchestrationService.getNode(job.roomServerId)?.region || '';
+
+        let nodeId: string | null;
+        try {
+            nodeId = await this.orchestrationService.dispatchNodeTask({
+                region,
+                codecRequirements: [],
+                estimatedLoad: PostProcessingService.STEP_LOAD[step.type],
+                // Re-encoding high quality video is where hardware encoding pays off
+                ...(step.type === 'transcode' && job.options.quality === 'high' && { preferGPU: true })
+            }, '/post-process', {
+                jobId: job.jobId,
+                stepId: step.id,
+                type: step.type,
+                ...(step.format && { format: step.format }),
+                inputPath: job.outputPath,
+                options: {
+                    quality: job.options.quality,
+                    includeAudio: job.options.includeAudio,
+                    includeVideo: job.options.includeVideo
+                },
+                orchestratorCallbackUrl: `${process.env.ORCHESTRATOR_CALLBACK_URL}/api/recordings/post-processing/events`
+            });
+        } catch (error) {
+            await this.failAttempt(job, step, error instanceof Error ? error.message : String(error), true);
+            return true;
+        }
+
+        if (!nodeId) {
+            return false;
+        }
+
+        await this.updateStep(job, step.id, {
+            status: 'running',
+            ffmpegNodeId: nodeId,
+            attempts: step.attempts + 1,
+            startedAt: Date.now()
+        });
+
+        this.logger.info(`Post-processing step ${step.id} of job ${job.jobId} dispatched`, {
+            type: step.type,
+            format: step.format,
+            ffmpegNodeId: nodeId,
+            attempt: step.attempts + 1
+        });
+
+        return true;
+    }
+
+    // Back to pending while attempts remain. Rejected dispatches count as an attempt too.
+    private async failAttempt(
+        job: DistributedRecordingJob,
+        step: PostProcessingStep,
+        error: string,
+        rejected: boolean = false
+    ): Promise<PostProcessingState> {
+        const attempts = rejected ? step.attempts + 1 : step.attempts;
+        const exhausted = attempts >= config.postProcessing.maxAttempts;
+
+        this.logger.warn(`Post-processing step ${step.id} of job ${job.jobId} failed`, {
+            type: step.type,
+            ffmpegNodeId: step.ffmpegNodeId,
+            attempts,
+            error
+        });
+
+        return this.updateStep(job, step.id, {
+            status: exhausted ? 'failed' : 'pending',
+            attempts,
+            error,
+            ...(exhausted && { finishedAt: Date.now() })
+        });
+    }
+
+    private async requeueNodeSteps(nodeId: string, reason: string): Promise<void> {
+        for (const job of Array.from(this.jobs.values())) {
+            const lost = job.postProcessing!.steps.filter(step => step.status === 'running' && step.ffmpegNodeId === nodeId);
+
+            for (const step of lost) {
+                await this.failAttempt(this.jobs.get(job.jobId)!, step, reason);
+            }
+        }
+    }
+
+    private async registerOutputs(
+        job: DistributedRecordingJob,
+        step: PostProcessingStep,
+        outputs: string[],
+        data: Record<string, any>
+    ): Promise<string[]> {
+        if (!config.artifacts.enabled) {
+            return [];
+        }
+
+        const artifactIds: string[] = [];
+
+        for (const output of outputs) {
+            const artifact = await this.artifactService.registerFile(job, output, step.type, {
+                durationMs: typeof data.duration === 'number' ? Math.round(data.duration * 1000) : undefined,
+                videoCodec: typeof data.videoCodec === 'string' ? data.videoCodec : undefined,
+                audioCodec: typeof data.audioCodec === 'string' ? data.audioCodec : undefined
+            });
+            artifactIds.push(artifact.id);
+        }
+
+        return artifactIds;
+    }
+
+    private async updateStep(
+        job: DistributedRecordingJob,
+        stepId: string,
+        changes: Partial<PostProcessingStep>
+    ): Promise<PostProcessingState> {
+        // Other steps may have moved on while this one awaited its node or storage
+        const current = this.jobs.get(job.jobId) || job;
+        const state = this.model.updateStep(current.postProcessing!, stepId, changes);
+
+        await this.database.updatePostProcessing(job.jobId, state);
+
+        if (state.status === 'running') {
+            this.jobs.set(job.jobId, { ...current, postProcessing: state });
+            return state;
+        }
+
+        this.jobs.delete(job.jobId);
+
+        this.logger.info(`Post-processing of job ${job.jobId} ${state.status}`, {
+            steps: state.steps.length,
+            failed: state.steps.filter(step => step.status === 'failed').length,
+            duration: state.finishedAt! - state.startedAt
+        });
+
+        // Failed steps may still be retried and need the recording
+        if (state.status === 'completed') {
+            await this.artifactService.releaseLocalCopy(job).catch(error =>
+                this.logger.warn(`Failed to remove the local copy of job ${job.jobId}:`, error)
+            );
+        }
+
+        return state;
+    }
+}
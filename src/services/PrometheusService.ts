@@ -0,0 +1,165 @@
+// src/services/PrometheusService.ts
+import { Logger } from '../utils/Logger';
+import { Counter, Gauge, Histogram, MetricsRegistry } from '../utils/Prometheus';
+import { OrchestrationService } from './OrchestrationService';
+import { DistributedRecordingJob, JobFailureReason } from '../types/interfaces';
+
+// Counters and histograms follow the job lifecycle events; gauges are read
+// from the orchestrator's current state on every scrape
+export class PrometheusService {
+    private logger: Logger;
+    private orchestrationService: OrchestrationService;
+    private registry: MetricsRegistry = new MetricsRegistry();
+
+    private jobsStarted: Counter;
+    private jobsCompleted: Counter;
+    private jobsFailed: Counter;
+    private jobsCancelled: Counter;
+    private timeToFirstFrame: Histogram;
+    private recordingDuration: Histogram;
+
+    private regionCapacity: Gauge;
+    private regionLoad: Gauge;
+    private regionActiveRecordings: Gauge;
+    private nodeCapacity: Gauge;
+    private nodeLoad: Gauge;
+    private nodeHealthy: Gauge;
+    private nodeSchedulable: Gauge;
+    private nodeActiveJobs: Gauge;
+    private activeRecordings: Gauge;
+    private queueLength: Gauge;
+    private queueAvailableSlots: Gauge;
+
+    constructor(orchestrationService: OrchestrationService) {
+        this.logger = new Logger('PrometheusService');
+        this.orchestrationService = orchestrationService;
+
+        const registry = this.registry;
+
+        this.jobsStarted = registry.register(new Counter(
+            'orchestrator_recording_jobs_started_total', 'Recording jobs that reached the recording state'));
+        this.jobsCompleted = registry.register(new Counter(
+            'orchestrator_recording_jobs_completed_total', 'Recording jobs completed'));
+        this.jobsFailed = registry.register(new Counter(
+            'orchestrator_recording_jobs_failed_total', 'Recording jobs failed, by reason'));
+        this.jobsCancelled = registry.register(new Counter(
+            'orchestrator_recording_jobs_cancelled_total', 'Recording jobs cancelled'));
+
+        this.timeToFirstFrame = registry.register(new Histogram(
+            'orchestrator_recording_time_to_first_frame_seconds',
+            'Time from a recording request until its FFmpeg node reports recording',
+            [0.5, 1, 2, 5, 10, 30, 60, 120, 300, 900]
+        ));
+        this.recordingDuration = registry.register(new Histogram(
+            'orchestrator_recording_duration_seconds',
+            'Length of completed recordings',
+            [60, 300, 600, 1800, 3600, 7200, 14400]
+        ));
+
+        this.regionCapacity = registry.register(new Gauge(
+            'orchestrator_region_capacity', 'FFmpeg recording capacity per region'));
+        this.regionLoad = registry.register(new Gauge(
+            'orchestrator_region_load', 'FFmpeg load per region'));
+        this.regionActiveRecordings = registry.register(new Gauge(
+            'orchestrator_region_active_recordings', 'Recordings running on FFmpeg nodes per region'));
+
+        this.nodeCapacity = registry.register(new Gauge(
+            'orchestrator_node_capacity', 'Capacity of a node'));
+        this.nodeLoad = registry.register(new Gauge(
+            'orchestrator_node_load', 'Current load of a node'));
+        this.nodeHealthy = registry.register(new Gauge(
+            'orchestrator_node_healthy', 'Whether the node passes health checks (1) or not (0)'));
+        this.nodeSchedulable = registry.register(new Gauge(
+            'orchestrator_node_schedulable', 'Whether new jobs may be placed on the node (1) or it is cordoned or draining (0)'));
+        this.nodeActiveJobs = registry.register(new Gauge(
+            'orchestrator_node_active_jobs', 'Jobs depending on the node'));
+
+        this.activeRecordings = registry.register(new Gauge(
+            'orchestrator_active_recordings', 'Jobs tracked by the orchestrator that have not finished'));
+        this.queueLength = registry.register(new Gauge(
+            'orchestrator_queue_length', 'Jobs waiting for an FFmpeg node'));
+        this.queueAvailableSlots = registry.register(new Gauge(
+            'orchestrator_queue_available_slots', 'Free slots on healthy, schedulable FFmpeg nodes'));
+
+        registry.addCollector(() => this.collectState());
+
+        this.subscribeToJobEvents();
+    }
+
+    render(): string {
+        return this.registry.render();
+    }
+
+    private subscribeToJobEvents(): void {
+        this.orchestrationService.on('recordingJobStarted', (job: DistributedRecordingJob) => {
+            // A failover restarts the node, not the recording - count each recording once
+            const segments = job.segments || [];
+            if (segments.length > 1) return;
+
+            this.jobsStarted.inc(this.jobLabels(job));
+
+            if (job.recordingStartedAt) {
+                this.timeToFirstFrame.observe(this.jobLabels(job), (job.recordingStartedAt - job.startTime) / 1000);
+            }
+        });
+
+        this.orchestrationService.on('recordingJobCompleted', (job: DistributedRecordingJob) => {
+            this.jobsCompleted.inc(this.jobLabels(job));
+
+            const startedAt = job.recordingStartedAt || job.startTime;
+            if (job.endTime && job.endTime > startedAt) {
+                this.recordingDuration.observe(this.jobLabels(job), (job.endTime - startedAt) / 1000);
+            }
+        });
+
+        this.orchestrationService.on('recordingJobFailed', (job: DistributedRecordingJob, error: Error, reason?: JobFailureReason) => {
+            this.jobsFailed.inc({ ...this.jobLabels(job), reason: reason || 'unknown' });
+        });
+
+        this.orchestrationService.on('recordingJobCancelled', (job: DistributedRecordingJob) => {
+            this.jobsCancelled.inc(this.jobLabels(job));
+        });
+    }
+
+    private jobLabels(job: DistributedRecordingJob): Record<string, string> {
+        return { type: job.type || 'peer' };
+    }
+
+    private collectState(): void {
+        for (const gauge of [
+            this.regionCapacity, this.regionLoad, this.regionActiveRecordings,
+            this.nodeCapacity, this.nodeLoad, this.nodeHealthy, this.nodeSchedulable, this.nodeActiveJobs
+        ]) {
+            gauge.reset();
+        }
+
+        try {
+            const metrics = this.orchestrationService.getSystemMetrics();
+
+            for (const [region, data] of Object.entries(metrics.byRegion)) {
+                this.regionCapacity.set({ region }, data.capacity);
+                this.regionLoad.set({ region }, data.load);
+                this.regionActiveRecordings.set({ region }, data.activeRecordings);
+            }
+
+            for (const node of this.orchestrationService.getNodes()) {
+                const labels = { node_id: node.id, node_type: node.type, region: node.region };
+
+                this.nodeCapacity.set(labels, node.capacity);
+                this.nodeLoad.set(labels, node.currentLoad);
+                this.nodeHealthy.set(labels, node.isHealthy ? 1 : 0);
+                this.nodeSchedulable.set(labels, node.schedulingState === 'active' ? 1 : 0);
+                this.nodeActiveJobs.set(labels, node.activeJobIds.length);
+            }
+
+            const queue = this.orchestrationService.getQueueStatus();
+
+            this.activeRecordings.set({}, metrics.activeRecordings);
+            this.queueLength.set({}, queue.length);
+            this.queueAvailableSlots.set({}, queue.availableSlots);
+        } catch (error) {
+            // A partial scrape beats a failed one
+            this.logger.error('Failed to collect orchestrator state for metrics:', error);
+        }
+    }
+}
@@ -0,0 +1,301 @@
+// src/services/ProvisioningService.ts
+import { EventEmitter } from 'events';
+import { randomBytes } from 'crypto';
+import { Logger } from '../utils/Logger';
+import { Database } from '../database/Database';
+import { config } from '../config/config';
+import { OrchestrationService } from './OrchestrationService';
+import { AuthService } from './AuthService';
+import { NodeProvider, createNodeProvider } from './NodeProviders';
+import { ConflictError } from '../utils/Errors';
+import { FFmpegNode, NodeProviderType, ProvisionedNode } from '../types/interfaces';
+
+// Tracks FFmpeg nodes started through the configured NodeProvider, from the
+// provision request until the instance is gone. Nodes are matched to their
+// record when they register with provisionId in their metadata, and are
+// always drained before the provider removes them.
+export class ProvisioningService extends EventEmitter {
+    private logger: Logger;
+    private database: Database;
+    private orchestrationService: OrchestrationService;
+    private authService: AuthService;
+    private provider: NodeProvider | null;
+    private nodes: Map<string, ProvisionedNode> = new Map(); // provisionId -> record, until removed or failed
+
+    constructor(database: Database, orchestrationService: OrchestrationService, authService: AuthService) {
+        super();
+        this.logger = new Logger('ProvisioningService');
+        this.database = database;
+        this.orchestrationService = orchestrationService;
+        this.authService = authService;
+        this.provider = createNodeProvider(config.provisioning);
+
+        orchestrationService.on('ffmpegNodeRegistered', (node: FFmpegNode) => {
+            this.handleNodeRegistered(node).catch(error =>
+                this.logger.error(`Failed to match registered node ${node.id} to a provision:`, error)
+            );
+        });
+
+        orchestrationService.on('nodeDeregistered', ({ nodeId, type }: { nodeId: string; type: string }) => {
+            if (type !== 'ffmpeg-node') return;
+
+            this.handleNodeDeregistered(nodeId).catch(error =>
+                this.logger.error(`Failed to deprovision node ${nodeId}:`, error)
+            );
+        });
+    }
+
+    async initialize(): Promise<void> {
+        const nodes = await this.database.getProvisionedNodes();
+        for (const node of nodes) {
+            this.nodes.set(node.provisionId, node);
+        }
+
+        this.logger.info('Provisioning service initialized', {
+            provider: config.provisioning.provider,
+            trackedNodes: this.nodes.size
+        });
+    }
+
+    isEnabled(): boolean {
+        return this.provider !== null;
+    }
+
+    getProviderName(): NodeProviderType {
+        return config.provisioning.provider;
+    }
+
+    async listNodes(includeFinished: boolean): Promise<ProvisionedNode[]> {
+        if (!includeFinished) {
+            return Array.from(this.nodes.values()).sort((a, b) => b.requestedAt - a.requestedAt);
+        }
+
+        return this.database.getProvisionedNodes(true);
+    }
+
+    getNode(provisionId: string): ProvisionedNode | null {
+        return this.nodes.get(provisionId) || null;
+    }
+
+    // Requested nodes that haven't registered yet
+    getPendingCount(region: string): number {
+        return this.inRegion(region).filter(node => node.status === 'provisioning').length;
+    }
+
+    hasRemovalInProgress(region: string): boolean {
+        return this.inRegion(region).some(node => node.status === 'draining' || node.status === 'removing');
+    }
+
+    // Registered nodes the provider can remove - manually deployed nodes are never touched
+    getRemovableNodes(region: string): ProvisionedNode[] {
+        return this.inRegion(region).filter(node => node.status === 'registered' && node.nodeId);
+    }
+
+    async provisionNode(region: string, reason: string): Promise<ProvisionedNode> {
+        if (!this.provider) {
+            throw new Error('No provisioning provider configured');
+        }
+
+        const record: ProvisionedNode = {
+            provisionId: `prv_${randomBytes(8).toString('hex')}`,
+            provider: this.provider.name,
+            region,
+            status: 'provisioning',
+            reason,
+            requestedAt: Date.now()
+        };
+
+        // The node needs its own credentials to register when authentication is on
+        let apiKey: string | undefined;
+        if (this.authService.isEnabled()) {
+            const created = await this.authService.createApiKey({
+                name: `provisioned node ${record.provisionId}`,
+                kind: 'node'
+            });
+            apiKey = created.apiKey;
+            record.apiKeyId = created.key.keyId;
+        }
+
+        this.nodes.set(record.provisionId, record);
+        await this.database.saveProvisionedNode(record);
+
+        try {
+            const result = await this.provider.provision(region, {
+                provisionId: record.provisionId,
+                orchestratorUrl: config.provisioning.orchestratorUrl,
+                apiKey
+            });
+
+            record.instanceId = result.instanceId;
+            record.details = result.details;
+            await this.database.saveProvisionedNode(record);
+
+        } catch (error) {
+            await this.finish(record, 'failed', error instanceof Error ? error.message : String(error));
+            throw error;
+        }
+
+        this.logger.info(`Provisioned FFmpeg node ${record.provisionId} in ${region}`, {
+            provider: record.provider,
+            instanceId: record.instanceId,
+            reason
+        });
+
+        this.emit('nodeProvisioned', record);
+
+        return record;
+    }
+
+    // Drains the node first; the provider removes it once the orchestrator has deregistered it
+    async removeNode(provisionId: string, reason: string): Promise<ProvisionedNode> {
+        const record = this.nodes.get(provisionId);
+        if (!record) {
+            throw new Error(`Provisioned node ${provisionId} not found`);
+        }
+
+        if (record.status === 'draining' || record.status === 'removing') {
+            return record;
+        }
+
+        record.removalRequestedAt = Date.now();
+
+        // Never registered - there is nothing to drain
+        if (record.status === 'provisioning') {
+            await this.deprovision(record);
+            return record;
+        }
+
+        record.status = 'draining';
+        await this.database.saveProvisionedNode(record);
+
+        try {
+            await this.orchestrationService.drainNode(record.nodeId!, config.provisioning.drainMode, reason, 'ffmpeg-node');
+        } catch (error) {
+            // An operator already started the drain - it deregisters the node all the same
+            if (error instanceof ConflictError) {
+                return record;
+            }
+
+            record.status = 'registered';
+            delete record.removalRequestedAt;
+            await this.database.saveProvisionedNode(record);
+            throw error;
+        }
+
+        this.logger.info(`Removing provisioned FFmpeg node ${record.nodeId}`, { provisionId, reason });
+
+        return record;
+    }
+
+    // Gives up on nodes that never registered and retries removals that failed
+    async reconcile(): Promise<void> {
+        const now = Date.now();
+
+        for (const record of Array.from(this.nodes.values())) {
+            try {
+                if (record.status === 'provisioning' && record.instanceId &&
+                    now - record.requestedAt > config.provisioning.registrationTimeoutMs) {
+
+                    this.logger.warn(`Provisioned node ${record.provisionId} did not register in time`, {
+                        region: record.region,
+                        instanceId: record.instanceId
+                    });
+                    record.error = `Node did not register within ${config.provisioning.registrationTimeoutMs} ms`;
+                    await this.deprovision(record);
+
+                } else if (record.status === 'removing') {
+                    await this.deprovision(record);
+
+                } else if ((record.status === 'registered' || record.status === 'draining') &&
+                    !this.orchestrationService.getNode(record.nodeId!, 'ffmpeg-node')) {
+
+                    // Deregistered while the orchestrator wasn't listening
+                    await this.deprovision(record);
+                }
+            } catch (error) {
+                this.logger.error(`Failed to reconcile provisioned node ${record.provisionId}:`, error);
+            }
+        }
+    }
+
+    private async handleNodeRegistered(node: FFmpegNode): Promise<void> {
+        const provisionId = node.metadata?.provisionId;
+        if (!provisionId) return;
+
+        const record = this.nodes.get(provisionId);
+        if (!record || record.status !== 'provisioning') {
+            this.logger.warn(`Node ${node.id} registered with unknown provision ${provisionId}`);
+            return;
+        }
+
+        record.status = 'registered';
+        record.nodeId = node.id;
+        record.registeredAt = Date.now();
+        await this.database.saveProvisionedNode(record);
+
+        this.logger.info(`Provisioned node ${provisionId} registered as ${node.id}`, {
+            region: record.region,
+            startupTime: record.registeredAt - record.requestedAt
+        });
+    }
+
+    private async handleNodeDeregistered(nodeId: string): Promise<void> {
+        const record = Array.from(this.nodes.values()).find(node =>
+            node.nodeId === nodeId && (node.status === 'registered' || node.status === 'draining')
+        );
+        if (!record) return;
+
+        await this.deprovision(record);
+    }
+
+    // A failed removal stays in 'removing' and is retried by reconcile()
+    private async deprovision(record: ProvisionedNode): Promise<void> {
+        record.status = 'removing';
+        await this.database.saveProvisionedNode(record);
+
+        try {
+            await this.provider!.deprovision(record);
+        } catch (error) {
+            record.details = {
+                ...record.details,
+                deprovisionError: error instanceof Error ? error.message : String(error)
+            };
+            await this.database.saveProvisionedNode(record);
+            throw error;
+        }
+
+        // A node that never came up counts as a failed provision
+        if (record.registeredAt) {
+            await this.finish(record, 'removed');
+        } else {
+            await this.finish(record, 'failed', record.error || 'Removed before registering');
+        }
+
+        this.logger.info(`Provisioned node ${record.provisionId} removed`, {
+            region: record.region,
+            nodeId: record.nodeId,
+            instanceId: record.instanceId
+        });
+
+        this.emit('nodeRemoved', record);
+    }
+
+    private async finish(record: ProvisionedNode, status: 'removed' | 'failed', error?: string): Promise<void> {
+        record.status = status;
+        record.removedAt = Date.now();
+        if (error) record.error = error;
+
+        if (record.apiKeyId) {
+            await this.authService.revokeApiKey(record.apiKeyId).catch(revokeError =>
+                this.logger.warn(`Failed to revoke API key of provisioned node ${record.provisionId}:`, revokeError)
+            );
+        }
+
+        this.nodes.delete(record.provisionId);
+        await this.database.saveProvisionedNode(record);
+    }
+
+    private inRegion(region: string): ProvisionedNode[] {
+        return Array.from(this.nodes.values()).filter(node => node.region === region);
+    }
+}
@@ -0,0 +1,159 @@
+// src/services/RequestSigningService.ts
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { Logger } from '../utils/Logger';
+import { Database } from '../database/Database';
+import { config } from '../config/config';
+
+export interface SignedRequest {
+    nodeId: string;
+    method: string;
+    path: string;
+    body: string;
+    timestamp: string | undefined;
+    nonce: string | undefined;
+    signature: string | undefined;
+}
+
+// Requests between the orchestrator and its nodes carry an HMAC-SHA256 over
+// timestamp, nonce, method, path and body, keyed with the secret the node
+// received at registration
+export class RequestSigningService {
+    private logger: Logger;
+    private database: Database;
+    private secrets: Map<string, string> = new Map(); // nodeId -> secret
+    private seenNonces: Map<string, number> = new Map(); // `${nodeId}:${nonce}` -> expiry
+    private lastNoncePrune = 0;
+
+    static readonly HEADERS = {
+        nodeId: 'X-Node-Id',
+        timestamp: 'X-Signature-Timestamp',
+        nonce: 'X-Signature-Nonce',
+        signature: 'X-Signature'
+    } as const;
+
+    private static readonly SIGNATURE_VERSION = 'v1';
+
+    constructor(database: Database) {
+        this.logger = new Logger('RequestSigningService');
+        this.database = database;
+    }
+
+    async initialize(): Promise<void> {
+        const secrets = await this.database.getNodeSigningSecrets();
+        this.secrets = new Map(secrets.map(entry => [entry.nodeId, entry.secret]));
+
+        this.logger.info('Node signing secrets loaded', { nodes: this.secrets.size });
+    }
+
+    // A fresh secret on every registration, so a re-registering node rotates its secret
+    async issueSecret(nodeId: string): Promise<string> {
+        const secret = randomBytes(32).toString('hex');
+
+        await this.database.saveNodeSigningSecret(nodeId, secret);
+        this.secrets.set(nodeId, secret);
+
+        this.logger.info(`Signing secret issued for node ${nodeId}`);
+
+        return secret;
+    }
+
+    async revokeSecret(nodeId: string): Promise<void> {
+        this.secrets.delete(nodeId);
+        await this.database.deleteNodeSigningSecret(nodeId);
+    }
+
+    // Headers for a request to the node. Nodes registered before signing
+    // was introduced have no secret and receive unsigned requests.
+    sign(nodeId: string, method: string, path: string, body: string): Record<string, string> {
+        const secret = this.secrets.get(nodeId);
+        if (!secret) {
+            this.logger.warn(`No signing secret for node ${nodeId} - sending unsigned request`, { path });
+            return {};
+        }
+
+        const timestamp = Date.now().toString();
+        const nonce = randomBytes(16).toString('hex');
+        const { HEADERS } = RequestSigningService;
+
+        return {
+            [HEADERS.nodeId]: nodeId,
+            [HEADERS.timestamp]: timestamp,
+            [HEADERS.nonce]: nonce,
+            [HEADERS.signature]: this.computeSignature(secret, timestamp, nonce, method, path, body)
+        };
+    }
+
+    // Throws with the reason a request is rejected
+    verify(request: SignedRequest): void {
+        const secret = this.secrets.get(request.nodeId);
+        if (!secret) {
+            throw new Error(`Unknown node ${request.nodeId}`);
+        }
+
+        if (!request.timestamp || !request.nonce || !request.signature) {
+            throw new Error('Missing signature headers');
+        }
+
+        const timestamp = parseInt(request.timestamp);
+        const skew = Math.abs(Date.now() - timestamp);
+        if (isNaN(timestamp) || skew > config.auth.signatureToleranceMs) {
+            throw new Error(`Stale request timestamp (skew ${isNaN(skew) ? 'unknown' : `${skew}ms`})`);
+        }
+
+        const expected = this.computeSignature(
+            secret,
+            request.timestamp,
+            request.nonce,
+            request.method,
+            request.path,
+            request.body
+        );
+
+        if (!this.safeEqual(expected, request.signature)) {
+            throw new Error('Invalid signature');
+        }
+
+        // Only remembered once the signature checks out, so forged requests can't burn nonces
+        this.pruneNonces();
+        const nonceKey = `${request.nodeId}:${request.nonce}`;
+        if (this.seenNonces.has(nonceKey)) {
+            throw new Error('Replayed nonce');
+        }
+        this.seenNonces.set(nonceKey, timestamp + config.auth.signatureToleranceMs);
+    }
+
+    private computeSignature(
+        secret: string,
+        timestamp: string,
+        nonce: string,
+        method: string,
+        path: string,
+        body: string
+    ): string {
+        const bodyHash = createHash('sha256').update(body).digest('hex');
+        const payload = [timestamp, nonce, method.toUpperCase(), path, bodyHash].join('\n');
+        const digest = createHmac('sha256', secret).update(payload).digest('hex');
+
+        return `${RequestSigningService.SIGNATURE_VERSION}=${digest}`;
+    }
+
+    // Nonces only need remembering while their timestamp is still accepted
+    private pruneNonces(): void {
+        const now = Date.now();
+        if (now - this.lastNoncePrune < 60000) return;
+
+        for (const [key, expiresAt] of this.seenNonces) {
+            if (expiresAt < now) {
+                this.seenNonces.delete(key);
+            }
+        }
+        this.lastNoncePrune = now;
+    }
+
+    private safeEqual(a: string, b: string): boolean {
+        const bufferA = Buffer.from(a);
+        const bufferB = Buffer.from(b);
+
+        return bufferA.length === bufferB.length && timingSafeEqual(bufferA, bufferB);
+    }
+}
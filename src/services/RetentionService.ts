@@ -0,0 +1,414 @@
+// src/services/RetentionService.ts
+import { randomBytes } from 'crypto';
+import cron, { ScheduledTask } from 'node-cron';
+import { Logger } from '../utils/Logger';
+import { Database } from '../database/Database';
+import { config } from '../config/config';
+import { ArtifactService } from './ArtifactService';
+import { RecordingJobModel } from '../models/RecordingJob';
+import {
+    DistributedRecordingJob,
+    LegalHold,
+    RecordingArtifact,
+    RetentionJobAction,
+    RetentionPolicy,
+    RetentionReport,
+    RetentionScope
+} from '../types/interfaces';
+
+export interface RetentionPolicyRequest {
+    name: string;
+    scope: RetentionScope;
+    match: string;
+    retentionDays: number;
+    jobAction?: RetentionJobAction | undefined;
+}
+
+// The policy a job falls under - a stored policy or the cleanupAfterDays default
+interface AppliedPolicy {
+    id: string;
+    retentionDays: number;
+    jobAction: RetentionJobAction;
+}
+
+interface DueJob {
+    job: DistributedRecordingJob;
+    policy: AppliedPolicy;
+}
+
+// Deletes the artifacts of recordings past their retention period on a
+// schedule, then anonymizes or deletes the job records. Jobs under a legal
+// hold are left alone until the hold is released.
+export class RetentionService {
+    private logger: Logger;
+    private database: Database;
+    private artifactService: ArtifactService;
+    private jobModel: RecordingJobModel;
+    private policies: Map<string, RetentionPolicy> = new Map();
+    private holds: Map<string, LegalHold> = new Map(); // jobId -> hold
+    private task: ScheduledTask | null = null;
+    private sweeping = false;
+
+    private static readonly DAY_MS = 24 * 60 * 60 * 1000;
+    private static readonly SCOPE_PRECEDENCE: RetentionScope[] = ['room', 'tenant', 'role'];
+
+    constructor(database: Database, artifactService: ArtifactService) {
+        this.logger = new Logger('RetentionService');
+        this.database = database;
+        this.artifactService = artifactService;
+        this.jobModel = new RecordingJobModel();
+    }
+
+    async initialize(): Promise<void> {
+        for (const policy of await this.database.getRetentionPolicies()) {
+            this.policies.set(policy.id, policy);
+        }
+        for (const hold of await this.database.getLegalHolds()) {
+            this.holds.set(hold.jobId, hold);
+        }
+
+        this.logger.info('Retention service initialized', {
+            policies: this.policies.size,
+            legalHolds: this.holds.size
+        });
+    }
+
+    start(): void {
+        if (!config.retention.enabled) {
+            this.logger.info('Retention sweeps disabled');
+            return;
+        }
+
+        this.task = cron.schedule(config.retention.sweepCron, () => {
+            this.sweep().catch(error => this.logger.error('Retention sweep failed:', error));
+        }, { timezone: config.retention.timezone });
+
+        this.logger.info('Retention sweeps scheduled', {
+            cron: config.retention.sweepCron,
+            timezone: config.retention.timezone
+        });
+    }
+
+    stop(): void {
+        if (this.task) {
+            this.task.stop();
+            this.task = null;
+        }
+    }
+
+    // POLICIES
+    listPolicies(): RetentionPolicy[] {
+        const precedence = RetentionService.SCOPE_PRECEDENCE;
+
+        return Array.from(this.policies.values()).sort((a, b) =>
+            precedence.indexOf(a.scope) - precedence.indexOf(b.scope) || a.match.localeCompare(b.match)
+        );
+    }
+
+    getPolicy(id: string): RetentionPolicy | null {
+        return this.policies.get(id) || null;
+    }
+
+    async createPolicy(request: RetentionPolicyRequest, createdBy?: string): Promise<RetentionPolicy> {
+        this.assertUnique(request.scope, request.match);
+
+        const now = Date.now();
+        const policy: RetentionPolicy = {
+            id: `ret_${randomBytes(8).toString('hex')}`,
+            name: request.name,
+            scope: request.scope,
+            match: request.match,
+            retentionDays: request.retentionDays,
+            jobAction: request.jobAction || config.retention.defaultJobAction,
+            createdBy,
+            createdAt: now,
+            updatedAt: now
+        };
+
+        await this.database.saveRetentionPolicy(policy);
+        this.policies.set(policy.id, policy);
+
+        this.logger.info(`Retention policy ${policy.id} created`, {
+            scope: policy.scope,
+            match: policy.match,
+            retentionDays: policy.retentionDays
+        });
+
+        return policy;
+    }
+
+    async updatePolicy(id: string, changes: Partial<RetentionPolicyRequest>): Promise<RetentionPolicy> {
+        const existing = this.policies.get(id);
+        if (!existing) {
+            throw new Error(`Retention policy ${id} not found`);
+        }
+
+        const policy: RetentionPolicy = {
+            ...existing,
+            ...(changes.name !== undefined && { name: changes.name }),
+            ...(changes.scope !== undefined && { scope: changes.scope }),
+            ...(changes.match !== undefined && { match: changes.match }),
+            ...(changes.retentionDays !== undefined && { retentionDays: changes.retentionDays }),
+            ...(changes.jobAction !== undefined && { jobAction: changes.jobAction }),
+            updatedAt: Date.now()
+        };
+
+        this.assertUnique(policy.scope, policy.match, id);
+
+        await this.database.saveRetentionPolicy(policy);
+        this.policies.set(id, policy);
+
+        return policy;
+    }
+
+    async deletePolicy(id: string): Promise<void> {
+        if (!this.policies.has(id)) {
+            throw new Error(`Retention policy ${id} not found`);
+        }
+
+        await this.database.deleteRetentionPolicy(id);
+        this.policies.delete(id);
+
+        this.logger.info(`Retention policy ${id} deleted`);
+    }
+
+    // LEGAL HOLDS
+    listHolds(): LegalHold[] {
+        return Array.from(this.holds.values());
+    }
+
+    getHold(jobId: string): LegalHold | null {
+        return this.holds.get(jobId) || null;
+    }
+
+    // Placing a hold again replaces its reason
+    async placeHold(jobId: string, reason: string, placedBy?: string): Promise<LegalHold> {
+        const job = await this.database.getRecordingJob(jobId);
+        if (!job) {
+            throw new Error(`Recording job ${jobId} not found`);
+        }
+
+        const hold: LegalHold = { jobId, reason, placedBy, placedAt: Date.now() };
+
+        await this.database.saveLegalHold(hold);
+        this.holds.set(jobId, hold);
+
+        this.logger.info(`Legal hold placed on job ${jobId}`, { placedBy });
+
+        return hold;
+    }
+
+    async releaseHold(jobId: string, releasedBy?: string): Promise<void> {
+        if (!this.holds.has(jobId)) {
+            throw new Error(`Job ${jobId} has no legal hold`);
+        }
+
+        await this.database.deleteLegalHold(jobId);
+        this.holds.delete(jobId);
+
+        this.logger.info(`Legal hold on job ${jobId} released`, { releasedBy });
+    }
+
+    // SWEEPS
+    // What the next sweep would remove; nothing is touched
+    async getReport(): Promise<RetentionReport> {
+        return this.run(true);
+    }
+
+    async sweep(): Promise<RetentionReport> {
+        if (this.sweeping) {
+            throw new Error('A retention sweep is already running');
+        }
+
+        this.sweeping = true;
+        try {
+            return await this.run(false);
+        } finally {
+            this.sweeping = false;
+        }
+    }
+
+    private async run(dryRun: boolean): Promise<RetentionReport> {
+        const report: RetentionReport = {
+            dryRun,
+            generatedAt: Date.now(),
+            entries: [],
+            held: await this.findHeldJobs(),
+            failed: [],
+            totals: { jobs: 0, artifacts: 0, artifactBytes: 0 }
+        };
+
+        for (const { job, policy } of await this.findDueJobs()) {
+            const artifacts = await this.database.getRecordingArtifacts(job.jobId);
+
+            if (!dryRun) {
+                try {
+                    await this.apply(job, policy, artifacts);
+                } catch (error) {
+                    const message = error instanceof Error ? error.message : String(error);
+                    this.logger.error(`Retention failed for job ${job.jobId}:`, error);
+                    report.failed.push({ jobId: job.jobId, error: message });
+                    continue;
+                }
+            }
+
+            const artifactBytes = artifacts.reduce((sum, artifact) => sum + artifact.sizeBytes, 0);
+
+            report.entries.push({
+                jobId: job.jobId,
+                roomId: job.roomId,
+                tenantId: job.requesterInfo.tenantId,
+                endedAt: job.endTime || job.startTime,
+                policyId: policy.id,
+                retentionDays: policy.retentionDays,
+                jobAction: policy.jobAction,
+                artifacts: artifacts.length,
+                artifactBytes
+            });
+
+            report.totals.jobs++;
+            report.totals.artifacts += artifacts.length;
+            report.totals.artifactBytes += artifactBytes;
+        }
+
+        if (!dryRun) {
+            this.logger.info('Retention sweep finished', {
+                jobs: report.totals.jobs,
+                artifacts: report.totals.artifacts,
+                failed: report.failed.length,
+                held: report.held.length
+            });
+        }
+
+        return report;
+    }
+
+    // Artifacts go first - a job whose files could not all be deleted keeps its record for the next sweep
+    private async apply(job: DistributedRecordingJob, policy: AppliedPolicy, artifacts: RecordingArtifact[]): Promise<void> {
+        if (this.holds.has(job.jobId)) {
+            throw new Error('A legal hold was placed during the sweep');
+        }
+
+        for (const artifact of artifacts) {
+            await this.artifactService.deleteArtifact(artifact);
+        }
+
+        if (policy.jobAction === 'delete') {
+            await this.database.deleteRecordingJob(job.jobId);
+            return;
+        }
+
+        await this.database.anonymizeRecordingJob(this.jobModel.anonymize(job));
+        await this.database.saveJobAuditRecord({
+            jobId: job.jobId,
+            action: 'retention_anonymized',
+            message: `Artifacts deleted and job anonymized after ${policy.retentionDays} days`,
+            details: { policyId: policy.id, artifactsDeleted: artifacts.length },
+            timestamp: Date.now()
+        });
+    }
+
+    // Oldest expired jobs first, up to one batch. Candidates are fetched from
+    // the shortest retention period on, so pages skip over jobs a longer
+    // policy still keeps.
+    private async findDueJobs(): Promise<DueJob[]> {
+        const batchSize = config.retention.batchSize;
+        const shortestDays = Math.min(
+            config.recording.cleanupAfterDays,
+            ...Array.from(this.policies.values()).map(policy => policy.retentionDays)
+        );
+        const endedBefore = new Date(Date.now() - shortestDays * RetentionService.DAY_MS);
+
+        const due: DueJob[] = [];
+        let after: { endedAt: number; jobId: string } | undefined;
+
+        while (due.length < batchSize) {
+            const page = await this.database.getRetentionCandidates(endedBefore, batchSize, after);
+
+            for (const [policy, jobs] of this.groupByPolicy(page)) {
+                for (const job of this.jobModel.getJobsForCleanup(jobs, policy.retentionDays * RetentionService.DAY_MS)) {
+                    due.push({ job, policy });
+                }
+            }
+
+            if (page.length < batchSize) break;
+
+            const last = page[page.length - 1]!;
+            after = { endedAt: last.endTime || last.startTime, jobId: last.jobId };
+        }
+
+        return due
+            .sort((a, b) => (a.job.endTime || a.job.startTime) - (b.job.endTime || b.job.startTime))
+            .slice(0, batchSize);
+    }
+
+    // Held jobs that would otherwise be removed
+    private async findHeldJobs(): Promise<Array<{ jobId: string; reason: string }>> {
+        const held: Array<{ jobId: string; reason: string }> = [];
+
+        for (const hold of this.holds.values()) {
+            const job = await this.database.getRecordingJob(hold.jobId);
+            if (!job) continue;
+
+            const policy = this.resolvePolicy(job);
+            if (this.jobModel.getJobsForCleanup([job], policy.retentionDays * RetentionService.DAY_MS).length > 0) {
+                held.push({ jobId: hold.jobId, reason: hold.reason });
+            }
+        }
+
+        return held;
+    }
+
+    private groupByPolicy(jobs: DistributedRecordingJob[]): Map<AppliedPolicy, DistributedRecordingJob[]> {
+        const groups = new Map<AppliedPolicy, DistributedRecordingJob[]>();
+        const defaultPolicy = this.defaultPolicy();
+
+        for (const job of jobs) {
+            const policy = this.resolvePolicy(job, defaultPolicy);
+            groups.set(policy, [...(groups.get(policy) || []), job]);
+        }
+
+        return groups;
+    }
+
+    // Room beats tenant beats role; of several matching roles the longest retention wins
+    private resolvePolicy(job: DistributedRecordingJob, fallback: AppliedPolicy = this.defaultPolicy()): AppliedPolicy {
+        const matches = (policy: RetentionPolicy): boolean => {
+            switch (policy.scope) {
+                case 'room':
+                    return policy.match === job.roomId;
+                case 'tenant':
+                    return policy.match === job.requesterInfo.tenantId;
+                case 'role':
+                    return job.peerInfo.roles.includes(policy.match);
+            }
+        };
+
+        for (const scope of RetentionService.SCOPE_PRECEDENCE) {
+            const matching = Array.from(this.policies.values()).filter(policy => policy.scope === scope && matches(policy));
+            if (matching.length > 0) {
+                return matching.reduce((longest, policy) => policy.retentionDays > longest.retentionDays ? policy : longest);
+            }
+        }
+
+        return fallback;
+    }
+
+    private defaultPolicy(): AppliedPolicy {
+        return {
+            id: 'default',
+            retentionDays: config.recording.cleanupAfterDays,
+            jobAction: config.retention.defaultJobAction
+        };
+    }
+
+    private assertUnique(scope: RetentionScope, match: string, exceptId?: string): void {
+        const duplicate = Array.from(this.policies.values()).find(policy =>
+            policy.scope === scope && policy.match === match && policy.id !== exceptId
+        );
+
+        if (duplicate) {
+            throw new Error(`Retention policy ${duplicate.id} already covers ${scope} ${match}`);
+        }
+    }
+}
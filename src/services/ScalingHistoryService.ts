@@ -0,0 +1,141 @@
+// src/services/ScalingHistoryService.ts
+import { Logger } from '../utils/Logger';
+import { Database } from '../database/Database';
+import { AutoScalingService } from './AutoScalingService';
+import { AlertNotificationService } from './AlertNotificationService';
+import { AlertNotification, ScalingEvent, ScalingEventType } from '../types/interfaces';
+
+// Records every scaling recommendation and action, alert transition and
+// manual evaluation, so operators can see when the cluster was under-provisioned
+export class ScalingHistoryService {
+    private logger: Logger;
+    private database: Database;
+
+    private static readonly ALERT_EVENT_TYPES: Partial<Record<AlertNotification['transition'], ScalingEventType>> = {
+        raised: 'alert_raised',
+        escalated: 'alert_escalated',
+        resolved: 'alert_resolved'
+    };
+
+    constructor(database: Database, autoScalingService: AutoScalingService, alertNotificationService: AlertNotificationService) {
+        this.logger = new Logger('ScalingHistoryService');
+        this.database = database;
+
+        autoScalingService.on('scaleUpRecommended', (recommendation: any) => {
+            this.record({
+                type: 'scale_up_recommended',
+                region: recommendation.region,
+                level: recommendation.urgency,
+                reason: recommendation.reason,
+                details: recommendation,
+                timestamp: Date.now()
+            });
+        });
+
+        autoScalingService.on('scaleDownRecommended', (recommendation: any) => {
+            this.record({
+                type: 'scale_down_recommended',
+                region: recommendation.region,
+                level: recommendation.urgency,
+                reason: recommendation.reason,
+                details: recommendation,
+                timestamp: Date.now()
+            });
+        });
+
+        autoScalingService.on('scaleUpExecuted', (action: any) => {
+            this.record({
+                type: 'scale_up_executed',
+                region: action.region,
+                reason: action.reason,
+                details: action,
+                timestamp: Date.now()
+            });
+        });
+
+        autoScalingService.on('scaleDownExecuted', (action: any) => {
+            this.record({
+                type: 'scale_down_executed',
+                region: action.region,
+                reason: action.reason,
+                details: action,
+                timestamp: Date.now()
+            });
+        });
+
+        autoScalingService.on('evaluationForced', ({ requestedBy, evaluation }: { requestedBy?: string; evaluation: any }) => {
+            this.record({
+                type: 'manual_evaluation',
+                reason: `Manual evaluation${requestedBy ? ` by ${requestedBy}` : ''}`,
+                details: {
+                    requestedBy,
+                    systemStatus: evaluation.recommendations?.systemStatus,
+                    alertStatus: evaluation.alerts?.status,
+                    recommendations: evaluation.recommendations?.recommendations || []
+                },
+                timestamp: evaluation.timestamp
+            });
+        });
+
+        alertNotificationService.on('alertTransition', (notification: AlertNotification) => {
+            const type = ScalingHistoryService.ALERT_EVENT_TYPES[notification.transition];
+            if (!type) return;
+
+            const { alert } = notification;
+            this.record({
+                type,
+                region: alert.key.startsWith('region_overload:') ? alert.key.split(':')[1] : undefined,
+                level: alert.level,
+                reason: alert.message,
+                details: {
+                    key: alert.key,
+                    action: alert.action,
+                    impact: alert.impact,
+                    raisedAt: notification.raisedAt,
+                    previousLevel: notification.previousLevel
+                },
+                timestamp: notification.timestamp
+            });
+        });
+    }
+
+    async getHistory(options: {
+        hours: number;
+        limit: number;
+        type?: ScalingEventType | undefined;
+        region?: string | undefined;
+    }): Promise<any> {
+        const since = new Date(Date.now() - options.hours * 60 * 60 * 1000);
+        const { events, counts } = await this.database.getScalingEvents({
+            since,
+            type: options.type,
+            region: options.region,
+            limit: options.limit
+        });
+
+        return {
+            period: `${options.hours} hours`,
+            since: since.getTime(),
+            events,
+            summary: {
+                scaleUpRecommendations: counts.scale_up_recommended || 0,
+                scaleDownRecommendations: counts.scale_down_recommended || 0,
+                scaleUpActions: counts.scale_up_executed || 0,
+                scaleDownActions: counts.scale_down_executed || 0,
+                alertsRaised: counts.alert_raised || 0,
+                alertsEscalated: counts.alert_escalated || 0,
+                alertsResolved: counts.alert_resolved || 0,
+                manualEvaluations: counts.manual_evaluation || 0,
+                totalEvents: Object.values(counts).reduce((sum, count) => sum + count, 0)
+            },
+            timestamp: Date.now()
+        };
+    }
+
+    // History is best effort - a failed write must not break the evaluation that produced it
+    private record(event: ScalingEvent): void {
+        this.database.saveScalingEvent(event).catch(error =>
+            this.logger.error(`Failed to record ${event.type} scaling event:`, error)
+        );
+    }
+}
@@ -0,0 +1,491 @@
+// src/services/ScheduleService.ts
+import { EventEmitter } from 'events';
+import { randomBytes } from 'crypto';
+import cron, { ScheduledTask } from 'node-cron';
+import { Logger } from '../utils/Logger';
+import { Database } from '../database/Database';
+import { config } from '../config/config';
+import { OrchestrationService } from './OrchestrationService';
+import { CapacityReservationService } from './CapacityReservationService';
+import { nextOccurrence, upcomingOccurrences, validateRecurrence } from '../utils/ScheduleRules';
+import {
+    CompositeLayoutType,
+    DistributedRecordingJob,
+    RecordingOptions,
+    RecordingSchedule,
+    ScheduleRecurrenceType,
+    ScheduleRun,
+    ScheduleRunStatus
+} from '../types/interfaces';
+
+export interface RecordingScheduleRequest {
+    name: string;
+    roomId: string;
+    // null clears the field on update
+    roomServerId?: string | null | undefined;
+    peerId?: string | null | undefined;
+    layout?: CompositeLayoutType | undefined;
+    options?: RecordingOptions | undefined;
+    recurrence: ScheduleRecurrenceType;
+    startAt?: number | undefined;
+    cron?: string | undefined;
+    rrule?: string | undefined;
+    timezone?: string | undefined;
+    durationMinutes: number;
+    graceMinutes?: number | undefined;
+    enabled?: boolean | undefined;
+}
+
+export interface RecordingScheduleView extends RecordingSchedule {
+    upcoming: number[];
+}
+
+const MINUTE = 60 * 1000;
+
+// Fires recordings from one-off, cron and RRULE schedules. Each occurrence is
+// claimed in the database before it is started, so restarts and concurrent
+// ticks never start it twice. A claimed occurrence keeps trying to start until
+// its grace period ends, which covers rooms that open a little late, and is
+// stopped at its scheduled end.
+export class ScheduleService extends EventEmitter {
+    private logger: Logger;
+    private database: Database;
+    private orchestrationService: OrchestrationService;
+    private reservations: CapacityReservationService;
+    private schedules: Map<string, RecordingSchedule> = new Map();
+    private openRuns: Map<string, ScheduleRun> = new Map(); // runId -> run, while waiting or recording
+    private task: ScheduledTask | null = null;
+    private ticking = false;
+
+    // Every 15 seconds - occurrences are at minute resolution
+    private static readonly TICK_EXPRESSION = '*/15 * * * * *';
+    private static readonly UPCOMING_COUNT = 5;
+    private static readonly DEFAULT_OPTIONS: RecordingOptions = {
+        quality: 'medium',
+        format: 'mp4',
+        includeAudio: true,
+        includeVideo: true
+    };
+
+    constructor(database: Database, orchestrationService: OrchestrationService, reservations: CapacityReservationService) {
+        super();
+        this.logger = new Logger('ScheduleService');
+        this.database = database;
+        this.orchestrationService = orchestrationService;
+        this.reservations = reservations;
+
+        orchestrationService.on('recordingJobCompleted', (job: DistributedRecordingJob) => {
+            this.handleJobEnded(job.jobId, 'completed').catch(error =>
+                this.logger.error(`Failed to update schedule run of job ${job.jobId}:`, error)
+            );
+        });
+
+        orchestrationService.on('recordingJobFailed', (job: DistributedRecordingJob, error: Error) => {
+            this.handleJobEnded(job.jobId, 'failed', error?.message || job.errorMessage).catch(updateError =>
+                this.logger.error(`Failed to update schedule run of job ${job.jobId}:`, updateError)
+            );
+        });
+
+        orchestrationService.on('recordingJobCancelled', (job: DistributedRecordingJob) => {
+            this.handleJobEnded(job.jobId, 'failed', 'Recording cancelled').catch(error =>
+                this.logger.error(`Failed to update schedule run of job ${job.jobId}:`, error)
+            );
+        });
+    }
+
+    async initialize(): Promise<void> {
+        const schedules = await this.database.getRecordingSchedules();
+        for (const schedule of schedules) {
+            this.schedules.set(schedule.id, schedule);
+        }
+
+        const runs = await this.database.getScheduleRuns({ openOnly: true }, 1000);
+        for (const run of runs) {
+            this.openRuns.set(run.id, run);
+        }
+
+        // Recordings that ended while the orchestrator was down
+        for (const run of runs.filter(run => run.status === 'recording')) {
+            const job = await this.database.getRecordingJob(run.jobId!);
+            if (!job || ['completed', 'failed', 'cancelled'].includes(job.status)) {
+                await this.finishRun(run, job?.status === 'completed' ? 'completed' : 'failed',
+                    job?.errorMessage || (job ? undefined : 'Recording job not found'));
+            }
+        }
+
+        this.logger.info('Schedule service initialized', {
+            schedules: this.schedules.size,
+            openRuns: this.openRuns.size
+        });
+    }
+
+    start(): void {
+        if (!config.schedules.enabled) {
+            this.logger.info('Recording schedules disabled');
+            return;
+        }
+
+        this.task = cron.schedule(ScheduleService.TICK_EXPRESSION, () => {
+            this.tick().catch(error => this.logger.error('Schedule tick failed:', error));
+        });
+
+        this.tick().catch(error => this.logger.error('Schedule tick failed:', error));
+    }
+
+    stop(): void {
+        if (this.task) {
+            this.task.stop();
+            this.task = null;
+        }
+    }
+
+    listSchedules(filter: { roomId?: string; enabled?: boolean } = {}): RecordingScheduleView[] {
+        return Array.from(this.schedules.values())
+            .filter(schedule =>
+                (!filter.roomId || schedule.roomId === filter.roomId) &&
+                (filter.enabled === undefined || schedule.enabled === filter.enabled)
+            )
+            .map(schedule => this.toView(schedule));
+    }
+
+    getSchedule(id: string): RecordingScheduleView | null {
+        const schedule = this.schedules.get(id);
+        return schedule ? this.toView(schedule) : null;
+    }
+
+    async getRuns(id: string, limit: number): Promise<ScheduleRun[]> {
+        return this.database.getScheduleRuns({ scheduleId: id }, limit);
+    }
+
+    async createSchedule(request: RecordingScheduleRequest, createdBy?: string): Promise<RecordingScheduleView> {
+        const now = Date.now();
+        const schedule: RecordingSchedule = {
+            id: `sch_${randomBytes(8).toString('hex')}`,
+            name: request.name,
+            roomId: request.roomId,
+            roomServerId: request.roomServerId || undefined,
+            peerId: request.peerId || undefined,
+            layout: request.layout || 'grid',
+            options: request.options || ScheduleService.DEFAULT_OPTIONS,
+            recurrence: request.recurrence,
+            startAt: request.startAt,
+            cron: request.cron,
+            rrule: request.rrule,
+            timezone: request.timezone || config.schedules.defaultTimezone,
+            durationMinutes: request.durationMinutes,
+            graceMinutes: request.graceMinutes ?? config.schedules.defaultGraceMinutes,
+            enabled: request.enabled !== false,
+            createdBy,
+            createdAt: now,
+            updatedAt: now
+        };
+
+        this.validate(schedule);
+        schedule.nextRunAt = nextOccurrence(schedule, now) ?? undefined;
+
+        if (!schedule.nextRunAt) {
+            throw new Error('The schedule has no occurrences in the future');
+        }
+
+        await this.database.saveRecordingSchedule(schedule);
+        this.schedules.set(schedule.id, schedule);
+
+        this.logger.info(`Recording schedule ${schedule.id} created`, {
+            roomId: schedule.roomId,
+            recurrence: schedule.recurrence,
+            nextRunAt: schedule.nextRunAt
+        });
+
+        return this.toView(schedule);
+    }
+
+    // Runs already claimed keep their times; the change applies from the next occurrence
+    async updateSchedule(id: string, changes: Partial<RecordingScheduleRequest>): Promise<RecordingScheduleView> {
+        const schedule = this.getManagedSchedule(id);
+
+        const updated: RecordingSchedule = {
+            ...schedule,
+            ...(changes.name !== undefined && { name: changes.name }),
+            ...(changes.roomId !== undefined && { roomId: changes.roomId }),
+            ...(changes.roomServerId !== undefined && { roomServerId: changes.roomServerId || undefined }),
+            ...(changes.peerId !== undefined && { peerId: changes.peerId || undefined }),
+            ...(changes.layout !== undefined && { layout: changes.layout }),
+            ...(changes.options !== undefined && { options: changes.options }),
+            ...(changes.recurrence !== undefined && { recurrence: changes.recurrence }),
+            ...(changes.startAt !== undefined && { startAt: changes.startAt }),
+            ...(changes.cron !== undefined && { cron: changes.cron }),
+            ...(changes.rrule !== undefined && { rrule: changes.rrule }),
+            ...(changes.timezone !== undefined && { timezone: changes.timezone }),
+            ...(changes.durationMinutes !== undefined && { durationMinutes: changes.durationMinutes }),
+            ...(changes.graceMinutes !== undefined && { graceMinutes: changes.graceMinutes }),
+            ...(changes.enabled !== undefined && { enabled: changes.enabled }),
+            updatedAt: Date.now()
+        };
+
+        this.validate(updated);
+
+        // The last fired occurrence is never fired again, even when the rule now matches it
+        const lastClaimed = Array.from(this.openRuns.values())
+            .filter(run => run.scheduleId === id)
+            .reduce((latest, run) => Math.max(latest, run.occurrenceAt), 0);
+        updated.nextRunAt = nextOccurrence(updated, Math.max(Date.now(), lastClaimed)) ?? undefined;
+
+        await this.database.saveRecordingSchedule(updated);
+        this.schedules.set(id, updated);
+
+        this.logger.info(`Recording schedule ${id} updated`, { changes: Object.keys(changes), nextRunAt: updated.nextRunAt });
+
+        return this.toView(updated);
+    }
+
+    // A recording already started from the schedule runs to its scheduled end
+    async deleteSchedule(id: string): Promise<void> {
+        this.getManagedSchedule(id);
+
+        await this.database.deleteRecordingSchedule(id);
+        this.schedules.delete(id);
+
+        this.logger.info(`Recording schedule ${id} deleted`);
+    }
+
+    private async tick(): Promise<void> {
+        // A slow tick must not overlap the next one
+        if (this.ticking) return;
+        this.ticking = true;
+
+        try {
+            const now = Date.now();
+
+            for (const schedule of Array.from(this.schedules.values())) {
+                if (!schedule.enabled || !schedule.nextRunAt || schedule.nextRunAt > now) continue;
+
+                try {
+                    await this.fireDueOccurrences(schedule, now);
+                } catch (error) {
+                    this.logger.error(`Failed to fire recording schedule ${schedule.id}:`, error);
+                }
+            }
+
+            for (const run of Array.from(this.openRuns.values())) {
+                try {
+                    await this.advanceRun(run, now);
+                } catch (error) {
+                    this.logger.error(`Failed to advance schedule run ${run.id}:`, error);
+                }
+            }
+        } finally {
+            this.ticking = false;
+        }
+    }
+
+    private async fireDueOccurrences(schedule: RecordingSchedule, now: number): Promise<void> {
+        const graceMs = schedule.graceMinutes * MINUTE;
+        const occurrenceAt = schedule.nextRunAt!;
+
+        const run = await this.claimRun(schedule, occurrenceAt);
+        if (run && now > run.deadlineAt) {
+            await this.finishRun(run, 'missed', 'The scheduler was not running during the grace period');
+            this.logger.warn(`Recording schedule ${schedule.id} missed its occurrence at ${new Date(occurrenceAt).toISOString()}`, {
+                roomId: schedule.roomId
+            });
+        }
+
+        // Later occurrences whose grace period also passed during downtime are skipped without a run
+        schedule.nextRunAt = nextOccurrence(schedule, Math.max(occurrenceAt, now - graceMs)) ?? undefined;
+        await this.database.saveRecordingSchedule(schedule);
+    }
+
+    // Null when another tick or instance claimed the occurrence first
+    private async claimRun(schedule: RecordingSchedule, occurrenceAt: number): Promise<ScheduleRun | null> {
+        const run: ScheduleRun = {
+            id: `run_${randomBytes(8).toString('hex')}`,
+            scheduleId: schedule.id,
+            occurrenceAt,
+            deadlineAt: occurrenceAt + schedule.graceMinutes * MINUTE,
+            endAt: occurrenceAt + schedule.durationMinutes * MINUTE,
+            status: 'waiting',
+            attempts: 0
+        };
+
+        if (!await this.database.claimScheduleRun(run)) {
+            this.logger.debug(`Occurrence ${occurrenceAt} of schedule ${schedule.id} was already claimed`);
+            return null;
+        }
+
+        this.openRuns.set(run.id, run);
+        this.emit('scheduleRunClaimed', run);
+
+        return run;
+    }
+
+    private async advanceRun(run: ScheduleRun, now: number): Promise<void> {
+        if (run.status === 'recording') {
+            if (now >= run.endAt) {
+                await this.stopRun(run);
+            }
+            return;
+        }
+
+        if (now > run.deadlineAt || now >= run.endAt) {
+            await this.finishRun(run, 'missed', run.lastError || 'Grace period ended before the recording could start');
+            this.logger.warn(`Schedule run ${run.id} missed`, {
+                scheduleId: run.scheduleId,
+                attempts: run.attempts,
+                lastError: run.lastError
+            });
+            return;
+        }
+
+        await this.startRun(run, now);
+    }
+
+    // Leaves the run waiting when the room isn't ready yet; the next tick tries again
+    private async startRun(run: ScheduleRun, now: number): Promise<void> {
+        const schedule = this.schedules.get(run.scheduleId);
+        if (!schedule) {
+            await this.finishRun(run, 'missed', 'Schedule deleted');
+            return;
+        }
+
+        run.attempts++;
+
+        try {
+            const room = this.orchestrationService.findRoom(schedule.roomId, schedule.roomServerId);
+            if (!room) {
+                throw new Error(`Room ${schedule.roomId} is not active on any available room server`);
+            }
+
+            const requesterInfo = {
+                userId: schedule.createdBy || `schedule:${schedule.id}`,
+                ip: 'scheduler',
+                userAgent: `recording-schedule/${schedule.id}`,
+                timestamp: now
+            };
+
+            // Exams and other big sessions run on capacity reserved for the schedule
+            const reservationId = this.reservations.findActiveForSchedule(schedule.id, now)?.id;
+
+            let jobId: string;
+            if (schedule.peerId) {
+                const peer = room.report?.peers?.find(candidate => candidate.peerId === schedule.peerId);
+                if (!peer || peer.rtpStreams.length === 0) {
+                    throw new Error(`Peer ${schedule.peerId} is not in room ${schedule.roomId}`);
+                }
+
+                jobId = await this.orchestrationService.startDistributedRecording({
+                    roomServerId: room.roomServerId,
+                    roomId: schedule.roomId,
+                    peerId: peer.peerId,
+                    peerInfo: {
+                        peerId: peer.peerId,
+                        displayName: peer.displayName || peer.peerId,
+                        isAuthenticated: true,
+                        roles: peer.roles || [],
+                        joinTime: now
+                    },
+                    rtpStreams: peer.rtpStreams,
+                    options: schedule.options,
+                    requesterInfo,
+                    reservationId
+                });
+            } else {
+                jobId = await this.orchestrationService.startCompositeRecording({
+                    roomServerId: room.roomServerId,
+                    roomId: schedule.roomId,
+                    layout: schedule.layout,
+                    options: schedule.options,
+                    requesterInfo,
+                    reservationId
+                });
+            }
+
+            run.status = 'recording';
+            run.jobId = jobId;
+            run.roomServerId = room.roomServerId;
+            run.startedAt = now;
+            delete run.lastError;
+            await this.database.updateScheduleRun(run);
+
+            this.logger.info(`Schedule ${schedule.id} started recording ${jobId}`, {
+                runId: run.id,
+                roomId: schedule.roomId,
+                delay: now - run.occurrenceAt,
+                attempts: run.attempts
+            });
+
+            this.emit('scheduleRunStarted', run);
+
+        } catch (error) {
+            run.lastError = error instanceof Error ? error.message : String(error);
+            await this.database.updateScheduleRun(run);
+
+            this.logger.debug(`Schedule run ${run.id} not started yet: ${run.lastError}`);
+        }
+    }
+
+    private async stopRun(run: ScheduleRun): Promise<void> {
+        try {
+            await this.orchestrationService.stopDistributedRecording(run.jobId!);
+        } catch (error) {
+            // The job event handlers close the run when the stop itself fails
+            this.logger.warn(`Failed to stop scheduled recording ${run.jobId}:`, error);
+
+            const job = await this.database.getRecordingJob(run.jobId!);
+            if (this.openRuns.has(run.id) && (!job || (job.status !== 'recording' && job.status !== 'paused'))) {
+                await this.finishRun(run, job?.status === 'completed' ? 'completed' : 'failed',
+                    error instanceof Error ? error.message : String(error));
+            }
+            return;
+        }
+
+        this.logger.info(`Scheduled recording ${run.jobId} stopped at its scheduled end`, { runId: run.id });
+    }
+
+    // Recordings stopped early, failed or cancelled close their run too
+    private async handleJobEnded(jobId: string, status: 'completed' | 'failed', error?: string): Promise<void> {
+        const run = Array.from(this.openRuns.values()).find(candidate => candidate.jobId === jobId);
+        if (!run) return;
+
+        await this.finishRun(run, status, error);
+    }
+
+    private async finishRun(run: ScheduleRun, status: ScheduleRunStatus, error?: string): Promise<void> {
+        run.status = status;
+        run.finishedAt = Date.now();
+        if (error) run.lastError = error;
+
+        this.openRuns.delete(run.id);
+        await this.database.updateScheduleRun(run);
+
+        this.emit('scheduleRunFinished', run);
+    }
+
+    private validate(schedule: RecordingSchedule): void {
+        validateRecurrence(schedule);
+
+        if (schedule.durationMinutes > config.schedules.maxDurationMinutes) {
+            throw new Error(`Scheduled recordings are limited to ${config.schedules.maxDurationMinutes} minutes`);
+        }
+
+        if (schedule.graceMinutes >= schedule.durationMinutes) {
+            throw new Error('The grace period must be shorter than the recording');
+        }
+    }
+
+    private getManagedSchedule(id: string): RecordingSchedule {
+        const schedule = this.schedules.get(id);
+        if (!schedule) {
+            throw new Error(`Recording schedule ${id} not found`);
+        }
+        return schedule;
+    }
+
+    private toView(schedule: RecordingSchedule): RecordingScheduleView {
+        return {
+            ...schedule,
+            upcoming: schedule.enabled && schedule.nextRunAt ?
+                [schedule.nextRunAt, ...upcomingOccurrences(schedule, schedule.nextRunAt, ScheduleService.UPCOMING_COUNT - 1)] :
+                []
+        };
+    }
+}
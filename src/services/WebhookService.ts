@@ -0,0 +1,515 @@
+// src/services/WebhookService.ts
+import { createHmac, randomBytes } from 'crypto';
+import { Logger } from '../utils/Logger';
+import { Database } from '../database/Database';
+import { config } from '../config/config';
+import { OrchestrationService } from './OrchestrationService';
+import { AutoScalingService } from './AutoScalingService';
+import {
+    DistributedRecordingJob,
+    FFmpegNode,
+    JobFailureReason,
+    JobMigration,
+    NodeType,
+    RoomServerNode,
+    WebhookDelivery,
+    WebhookDeliveryStatus,
+    WebhookEvent,
+    WebhookEventType,
+    WebhookSubscription
+} from '../types/interfaces';
+
+export type WebhookSubscriptionView = Omit<WebhookSubscription, 'secret'> & { managedByConfig: boolean };
+
+export interface WebhookSubscriptionRequest {
+    url: string;
+    events: Array<WebhookEventType | '*'>;
+    description?: string | undefined;
+    enabled?: boolean | undefined;
+}
+
+// Deliveries are persisted before the first attempt, retried with exponential
+// backoff and moved to the dead-letter store once their attempts run out.
+// Every payload is signed with the subscription's secret.
+export class WebhookService {
+    private logger: Logger;
+    private database: Database;
+    private orchestrationService: OrchestrationService;
+    private autoScalingService: AutoScalingService;
+    private subscriptions: Map<string, WebhookSubscription> = new Map();
+    private inFlight: Set<string> = new Set(); // delivery ids
+    private lastScalingAlerts: Map<string, number> = new Map(); // `${type}:${region}` -> sent at
+    private retryInterval: NodeJS.Timeout | null = null;
+    private lastPrune = 0;
+
+    static readonly HEADERS = {
+        deliveryId: 'X-Webhook-Id',
+        event: 'X-Webhook-Event',
+        signature: 'X-Webhook-Signature'
+    } as const;
+
+    // Subscription built from ALERT_WEBHOOK_URL - it lives in config, not in the database
+    private static readonly CONFIG_SUBSCRIPTION_ID = 'wh_config';
+    private static readonly SIGNATURE_VERSION = 'v1';
+    private static readonly RETRY_BATCH_SIZE = 50;
+
+    constructor(database: Database, orchestrationService: OrchestrationService, autoScalingService: AutoScalingService) {
+        this.logger = new Logger('WebhookService');
+        this.database = database;
+        this.orchestrationService = orchestrationService;
+        this.autoScalingService = autoScalingService;
+    }
+
+    async initialize(): Promise<void> {
+        const subscriptions = await this.database.getWebhookSubscriptions();
+        this.subscriptions = new Map(subscriptions.map(subscription => [subscription.id, subscription]));
+
+        if (config.alerts.webhookUrl) {
+            this.subscriptions.set(WebhookService.CONFIG_SUBSCRIPTION_ID, {
+                id: WebhookService.CONFIG_SUBSCRIPTION_ID,
+                url: config.alerts.webhookUrl,
+                events: ['*'],
+                secret: config.alerts.webhookSecret!,
+                description: 'ALERT_WEBHOOK_URL',
+                enabled: true,
+                createdAt: 0,
+                updatedAt: 0
+            });
+        }
+
+        this.subscribeToEvents();
+
+        this.logger.info('Webhook subscriptions loaded', { subscriptions: this.subscriptions.size });
+    }
+
+    start(): void {
+        this.retryInterval = setInterval(() => {
+            this.processDueDeliveries().catch(error =>
+                this.logger.error('Failed to process webhook retries:', error)
+            );
+        }, config.webhooks.retryInterval);
+
+        this.logger.info('Webhook delivery started');
+    }
+
+    stop(): void {
+        if (this.retryInterval) {
+            clearInterval(this.retryInterval);
+            this.retryInterval = null;
+        }
+    }
+
+    // SUBSCRIPTION MANAGEMENT
+    listSubscriptions(): WebhookSubscriptionView[] {
+        return Array.from(this.subscriptions.values()).map(subscription => this.toView(subscription));
+    }
+
+    getSubscription(id: string): WebhookSubscriptionView | null {
+        const subscription = this.subscriptions.get(id);
+        return subscription ? this.toView(subscription) : null;
+    }
+
+    // The secret is only returned here and on rotation
+    async createSubscription(request: WebhookSubscriptionRequest): Promise<{ subscription: WebhookSubscriptionView; secret: string }> {
+        const now = Date.now();
+        const subscription: WebhookSubscription = {
+            id: `wh_${randomBytes(8).toString('hex')}`,
+            url: request.url,
+            events: request.events,
+            secret: this.generateSecret(),
+            description: request.description,
+            enabled: request.enabled !== false,
+            createdAt: now,
+            updatedAt: now
+        };
+
+        await this.database.saveWebhookSubscription(subscription);
+        this.subscriptions.set(subscription.id, subscription);
+
+        this.logger.info(`Webhook subscription ${subscription.id} created`, {
+            url: subscription.url,
+            events: subscription.events
+        });
+
+        return { subscription: this.toView(subscription), secret: subscription.secret };
+    }
+
+    async updateSubscription(id: string, changes: Partial<WebhookSubscriptionRequest>): Promise<WebhookSubscriptionView> {
+        const subscription = this.getManagedSubscription(id);
+
+        const updated: WebhookSubscription = {
+            ...subscription,
+            ...(changes.url !== undefined && { url: changes.url }),
+            ...(changes.events !== undefined && { events: changes.events }),
+            ...(changes.description !== undefined && { description: changes.description }),
+            ...(changes.enabled !== undefined && { enabled: changes.enabled }),
+            updatedAt: Date.now()
+        };
+
+        await this.database.saveWebhookSubscription(updated);
+        this.subscriptions.set(id, updated);
+
+        this.logger.info(`Webhook subscription ${id} updated`, { changes: Object.keys(changes) });
+
+        return this.toView(updated);
+    }
+
+    // Takes effect immediately - receivers have to switch to the new secret
+    async rotateSecret(id: string): Promise<{ subscription: WebhookSubscriptionView; secret: string }> {
+        const subscription = this.getManagedSubscription(id);
+        const rotated: WebhookSubscription = { ...subscription, secret: this.generateSecret(), updatedAt: Date.now() };
+
+        await this.database.saveWebhookSubscription(rotated);
+        this.subscriptions.set(id, rotated);
+
+        this.logger.warn(`Webhook subscription ${id} secret rotated`);
+
+        return { subscription: this.toView(rotated), secret: rotated.secret };
+    }
+
+    async deleteSubscription(id: string): Promise<void> {
+        this.getManagedSubscription(id);
+
+        this.subscriptions.delete(id);
+        await this.database.deleteWebhookSubscription(id);
+
+        this.logger.info(`Webhook subscription ${id} deleted`);
+    }
+
+    // Sends a webhook_test event to one subscription and waits for the first attempt
+    async sendTestEvent(id: string): Promise<WebhookDelivery> {
+        const subscription = this.subscriptions.get(id);
+        if (!subscription) {
+            throw new Error(`Webhook subscription ${id} not found`);
+        }
+
+        const delivery = await this.createDelivery(subscription, this.createEvent('webhook_test', {
+            subscriptionId: id,
+            message: 'Test event from the recording orchestrator'
+        }));
+
+        return this.attemptDelivery(delivery);
+    }
+
+    // DELIVERY HISTORY
+    async getDeliveries(filters: {
+        subscriptionId?: string | undefined;
+        status?: WebhookDeliveryStatus | undefined;
+        eventType?: string | undefined;
+        limit: number;
+        offset: number;
+    }): Promise<{ records: WebhookDelivery[], total: number }> {
+        return this.database.getWebhookDeliveries(filters);
+    }
+
+    async getDelivery(id: string): Promise<WebhookDelivery | null> {
+        return this.database.getWebhookDelivery(id);
+    }
+
+    // Replays an event as a new delivery with a fresh set of attempts. The
+    // event id is kept so receivers can deduplicate.
+    async redeliver(deliveryId: string): Promise<WebhookDelivery> {
+        const original = await this.database.getWebhookDelivery(deliveryId);
+        if (!original) {
+            throw new Error(`Webhook delivery ${deliveryId} not found`);
+        }
+
+        const subscription = this.subscriptions.get(original.subscriptionId);
+        if (!subscription) {
+            throw new Error(`Webhook subscription ${original.subscriptionId} no longer exists`);
+        }
+
+        const delivery = await this.createDelivery(subscription, original.event, deliveryId);
+
+        this.logger.info(`Webhook delivery ${deliveryId} replayed as ${delivery.id}`);
+
+        return this.attemptDelivery(delivery);
+    }
+
+    // EVENT SOURCES
+    private subscribeToEvents(): void {
+        const orchestration = this.orchestrationService;
+
+        orchestration.on('recordingJobStarted', (job: DistributedRecordingJob) => {
+            // Failovers restart the node, not the recording
+            if ((job.segments || []).length > 1) return;
+            this.publish('recording_started', this.jobPayload(job));
+        });
+
+        orchestration.on('recordingJobCompleted', (job: DistributedRecordingJob) => {
+            this.publish('recording_completed', this.jobPayload(job));
+        });
+
+        orchestration.on('recordingJobFailed', (job: DistributedRecordingJob, error: Error, reason?: JobFailureReason) => {
+            this.publish('recording_failed', {
+                ...this.jobPayload(job),
+                error: error?.message || job.errorMessage,
+                reason: reason || 'unknown'
+            });
+        });
+
+        orchestration.on('recordingJobCancelled', (job: DistributedRecordingJob) => {
+            this.publish('recording_cancelled', this.jobPayload(job));
+        });
+
+        orchestration.on('recordingJobMigrated', (job: DistributedRecordingJob, migration: JobMigration) => {
+            this.publish('recording_migrated', {
+                ...this.jobPayload(job),
+                fromNodeId: migration.sourceNodeId,
+                reason: migration.reason
+            });
+        });
+
+        orchestration.on('roomServerUnhealthy', (node: RoomServerNode) => {
+            this.publish('node_failed', this.nodePayload('room-server', node));
+        });
+
+        orchestration.on('ffmpegNodeUnhealthy', (node: FFmpegNode) => {
+            this.publish('node_failed', this.nodePayload('ffmpeg-node', node));
+        });
+
+        orchestration.on('nodeDrained', (node: RoomServerNode | FFmpegNode) => {
+            this.publish('node_drained', this.nodePayload('activeJobs' in node ? 'ffmpeg-node' : 'room-server', node));
+        });
+
+        this.autoScalingService.on('scaleUpRecommended', (recommendation: any) => {
+            this.publishScalingAlert('scale_up_recommended', recommendation);
+        });
+
+        this.autoScalingService.on('scaleDownRecommended', (recommendation: any) => {
+            this.publishScalingAlert('scale_down_recommended', recommendation);
+        });
+    }
+
+    // Recommendations are re-evaluated every minute - only repeat them after the cooldown
+    private publishScalingAlert(type: WebhookEventType, recommendation: any): void {
+        if (!config.alerts.enableScalingAlerts) return;
+
+        const key = `${type}:${recommendation.region}`;
+        const lastSent = this.lastScalingAlerts.get(key) || 0;
+        if (Date.now() - lastSent < config.alerts.scalingAlertCooldown * 1000) return;
+
+        this.lastScalingAlerts.set(key, Date.now());
+        this.publish(type, recommendation);
+    }
+
+    private jobPayload(job: DistributedRecordingJob): Record<string, any> {
+        return {
+            jobId: job.jobId,
+            type: job.type || 'peer',
+            status: job.status,
+            roomServerId: job.roomServerId,
+            roomId: job.roomId,
+            peerId: job.peerId,
+            ffmpegNodeId: job.ffmpegNodeId,
+            startTime: job.startTime,
+            recordingStartedAt: job.recordingStartedAt,
+            endTime: job.endTime,
+            outputPath: job.outputPath,
+            segments: (job.segments || []).length,
+            requesterInfo: job.requesterInfo
+        };
+    }
+
+    private nodePayload(type: NodeType, node: RoomServerNode | FFmpegNode): Record<string, any> {
+        return {
+            nodeId: node.id,
+            nodeType: type,
+            region: node.region,
+            url: node.url,
+            lastHeartbeat: node.lastHeartbeat
+        };
+    }
+
+    // DELIVERY
+    private publish(type: WebhookEventType, data: Record<string, any>): void {
+        const subscribers = Array.from(this.subscriptions.values()).filter(subscription =>
+            subscription.enabled && (subscription.events.includes('*') || subscription.events.includes(type))
+        );
+        if (subscribers.length === 0) return;
+
+        const event = this.createEvent(type, data);
+
+        for (const subscription of subscribers) {
+            this.createDelivery(subscription, event)
+                .then(delivery => this.attemptDelivery(delivery))
+                .catch(error => this.logger.error(`Failed to deliver ${type} to webhook ${subscription.id}:`, error));
+        }
+    }
+
+    private createEvent(type: WebhookEventType, data: Record<string, any>): WebhookEvent {
+        return {
+            id: `evt_${randomBytes(12).toString('hex')}`,
+            type,
+            timestamp: Date.now(),
+            data
+        };
+    }
+
+    private async createDelivery(
+        subscription: WebhookSubscription,
+        event: WebhookEvent,
+        redeliveryOf?: string
+    ): Promise<WebhookDelivery> {
+        const now = Date.now();
+        const delivery: WebhookDelivery = {
+            id: `dlv_${randomBytes(12).toString('hex')}`,
+            subscriptionId: subscription.id,
+            event,
+            status: 'pending',
+            attempts: 0,
+            nextAttemptAt: now,
+            createdAt: now,
+            redeliveryOf
+        };
+
+        await this.database.saveWebhookDelivery(delivery);
+
+        return delivery;
+    }
+
+    private async processDueDeliveries(): Promise<void> {
+        const due = await this.database.getDueWebhookDeliveries(WebhookService.RETRY_BATCH_SIZE);
+
+        for (const delivery of due) {
+            await this.attemptDelivery(delivery);
+        }
+
+        await this.pruneDeliveries();
+    }
+
+    private async attemptDelivery(delivery: WebhookDelivery): Promise<WebhookDelivery> {
+        // The retry loop may pick up a delivery whose first attempt is still running
+        if (this.inFlight.has(delivery.id)) return delivery;
+        this.inFlight.add(delivery.id);
+
+        try {
+            const subscription = this.subscriptions.get(delivery.subscriptionId);
+            const attempt: WebhookDelivery = { ...delivery, attempts: delivery.attempts + 1, lastAttemptAt: Date.now() };
+
+            let updated: WebhookDelivery;
+            if (!subscription || !subscription.enabled) {
+                updated = this.deadLetter(attempt, subscription ? 'Subscription disabled' : 'Subscription deleted');
+            } else {
+                updated = await this.send(subscription, attempt);
+            }
+
+            await this.database.saveWebhookDelivery(updated);
+
+            return updated;
+        } finally {
+            this.inFlight.delete(delivery.id);
+        }
+    }
+
+    private async send(subscription: WebhookSubscription, delivery: WebhookDelivery): Promise<WebhookDelivery> {
+        const body = JSON.stringify(delivery.event);
+        const { HEADERS } = WebhookService;
+
+        try {
+            const response = await fetch(subscription.url, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'User-Agent': 'EduMeet-Recording-Orchestrator-Webhooks',
+                    [HEADERS.deliveryId]: delivery.id,
+                    [HEADERS.event]: delivery.event.type,
+                    [HEADERS.signature]: this.computeSignature(subscription.secret, body)
+                },
+                body,
+                signal: AbortSignal.timeout(config.webhooks.timeoutMs)
+            });
+
+            if (!response.ok) {
+                return this.scheduleRetry({ ...delivery, responseStatus: response.status }, `HTTP ${response.status}`);
+            }
+
+            const { nextAttemptAt, lastError, ...delivered } = delivery;
+
+            return {
+                ...delivered,
+                status: 'delivered',
+                responseStatus: response.status,
+                deliveredAt: Date.now()
+            };
+        } catch (error) {
+            return this.scheduleRetry(delivery, error instanceof Error ? error.message : String(error));
+        }
+    }
+
+    // Exponential backoff with jitter, so deliveries that failed together don't retry together
+    private scheduleRetry(delivery: WebhookDelivery, reason: string): WebhookDelivery {
+        const { maxAttempts, initialBackoffMs, maxBackoffMs } = config.webhooks;
+
+        if (delivery.attempts >= maxAttempts) {
+            return this.deadLetter(delivery, reason);
+        }
+
+        const backoff = Math.min(initialBackoffMs * Math.pow(2, delivery.attempts - 1), maxBackoffMs);
+        const delay = Math.round(backoff * (0.8 + Math.random() * 0.4));
+
+        this.logger.debug(`Webhook delivery ${delivery.id} failed, retrying in ${delay}ms`, {
+            subscriptionId: delivery.subscriptionId,
+            attempts: delivery.attempts,
+            reason
+        });
+
+        return { ...delivery, status: 'pending', nextAttemptAt: Date.now() + delay, lastError: reason };
+    }
+
+    private deadLetter(delivery: WebhookDelivery, reason: string): WebhookDelivery {
+        this.logger.warn(`Webhook delivery ${delivery.id} moved to dead letters`, {
+            subscriptionId: delivery.subscriptionId,
+            event: delivery.event.type,
+            attempts: delivery.attempts,
+            reason
+        });
+
+        const { nextAttemptAt, ...rest } = delivery;
+
+        return { ...rest, status: 'dead_letter', lastError: reason };
+    }
+
+    private async pruneDeliveries(): Promise<void> {
+        const now = Date.now();
+        if (now - this.lastPrune < 60 * 60 * 1000) return;
+        this.lastPrune = now;
+
+        const cutoff = new Date(now - config.webhooks.deliveryRetentionDays * 24 * 60 * 60 * 1000);
+        const deleted = await this.database.deleteDeliveredWebhooksBefore(cutoff);
+
+        if (deleted > 0) {
+            this.logger.debug('Pruned webhook delivery history', { deleted });
+        }
+    }
+
+    // Receivers recompute HMAC-SHA256(secret, `${t}.${body}`) and compare it to v1
+    private computeSignature(secret: string, body: string): string {
+        const timestamp = Date.now().toString();
+        const digest = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+
+        return `t=${timestamp},${WebhookService.SIGNATURE_VERSION}=${digest}`;
+    }
+
+    private getManagedSubscription(id: string): WebhookSubscription {
+        if (id === WebhookService.CONFIG_SUBSCRIPTION_ID) {
+            throw new Error('The ALERT_WEBHOOK_URL subscription is managed through configuration');
+        }
+
+        const subscription = this.subscriptions.get(id);
+        if (!subscription) {
+            throw new Error(`Webhook subscription ${id} not found`);
+        }
+
+        return subscription;
+    }
+
+    private generateSecret(): string {
+        return `whsec_${randomBytes(32).toString('base64url')}`;
+    }
+
+    private toView(subscription: WebhookSubscription): WebhookSubscriptionView {
+        const { secret, ...view } = subscription;
+        return { ...view, managedByConfig: subscription.id === WebhookService.CONFIG_SUBSCRIPTION_ID };
+    }
+}
@@ -8,6 +8,7 @@ export interface RoomServerNode {
     isHealthy: boolean;
     lastHeartbeat: number;
     specs: NodeSpecs;
+    scheduling?: NodeSchedulingStatus;
     metadata?: Record<string, any>;
 }
 
@@ -22,9 +23,57 @@ export interface FFmpegNode {
     specs: NodeSpecs;
     supportedCodecs: string[];
     activeJobs: string[];
+    portRange?: PortRange;
+    scheduling?: NodeSchedulingStatus;
     metadata?: Record<string, any>;
 }
 
+// Absent means the node is schedulable
+export interface NodeSchedulingStatus {
+    state: NodeSchedulingState;
+    reason?: string;
+    changedAt: number;
+    drain?: NodeDrainProgress;
+}
+
+export interface NodeDrainProgress {
+    mode: DrainMode;
+    startedAt: number;
+    completedAt?: number;
+    initialJobIds: string[];
+    remainingJobIds: string[];
+    migratedJobIds: string[];
+    failedJobIds: string[];
+}
+
+export interface NodeFilter {
+    type?: NodeType | undefined;
+    region?: string | undefined;
+    healthyOnly?: boolean;
+}
+
+// Inclusive RTP port range an FFmpeg node listens on
+export interface PortRange {
+    start: number;
+    end: number;
+}
+
+// RTP/RTCP port pair held by a job on a node
+export interface PortLease {
+    nodeId: string;
+    jobId: string;
+    rtpPort: number;
+    rtcpPort: number;
+    leasedAt: number;
+}
+
+export interface PortReconciliationResult {
+    nodeId: string;
+    releasedPorts: number[];
+    orphanedJobIds: string[];
+    untrackedJobIds: string[];
+}
+
 export interface NodeSpecs {
     cpuCores: number;
     ram: number; // in bytes
@@ -51,6 +100,24 @@ export interface DistributedRecordingJob {
     errorMessage?: string;
     requesterInfo: RequesterInfo;
     metrics?: JobMetrics;
+    cancellation?: JobCancellation;
+    termination?: JobTermination;
+    assignedAt?: number;
+    recordingStartedAt?: number;
+    segments?: RecordingSegment[];
+    migration?: JobMigration;
+    stitching?: SegmentStitching;
+    // Every pause of the recording; the last one is open while the job is paused
+    pauses?: JobPause[] | undefined;
+    postProcessing?: PostProcessingState | undefined;
+    // Where the recording goes - the file and any live streams
+    outputs?: RecordingOutput[] | undefined;
+    type?: RecordingJobType;
+    composite?: CompositeRecordingState;
+    // Capacity reservation the job runs on, if any
+    reservationId?: string | undefined;
+    // Load units charged to each FFmpeg node the job runs on, released with it
+    nodeLoad?: number | undefined;
 }
 
 export interface PeerInfo {
@@ -81,6 +148,75 @@ export interface RecordingOptions {
     includeVideo: boolean;
     maxDuration?: number;
     customFFmpegArgs?: string[];
+    // Work done on the output once the recording completes
+    postProcessing?: PostProcessingOptions | undefined;
+}
+
+// What is produced from a recording's output; postProcessing.defaults applies
+// to recordings that don't ask for anything themselves
+export interface PostProcessingOptions {
+    // Additional containers the recording is transcoded into
+    renditions?: Array<RecordingOptions['format']> | undefined;
+    // Poster image taken from the recording
+    thumbnail?: boolean | undefined;
+    // Tiled preview frames for scrubbing
+    spriteSheet?: boolean | undefined;
+    packaging?: Array<'hls' | 'dash'> | undefined;
+}
+
+export interface CompositeParticipant {
+    peerId: string;
+    displayName: string;
+    roles: string[];
+    rtpStreams: RTPStreamInfo[];
+    joinedAt: number;
+}
+
+export interface CompositeParticipantEvent {
+    peerId: string;
+    event: 'joined' | 'left';
+    timestamp: number;
+}
+
+export interface CompositeRecordingState {
+    layout: CompositeLayoutType;
+    participants: CompositeParticipant[];
+    activeSpeakerId?: string | undefined;
+    participantHistory: CompositeParticipantEvent[];
+}
+
+export interface CompositeTile {
+    peerId: string;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    zIndex: number;
+}
+
+export interface CompositeLayout {
+    type: CompositeLayoutType;
+    canvas: {
+        width: number;
+        height: number;
+    };
+    tiles: CompositeTile[];
+    audioPeerIds: string[];
+    activeSpeakerId?: string | undefined;
+}
+
+// Room state as reported by a room server heartbeat
+export interface RoomPeerReport {
+    peerId: string;
+    displayName?: string;
+    roles?: string[];
+    rtpStreams: RTPStreamInfo[];
+}
+
+export interface RoomReport {
+    roomId: string;
+    activeSpeakerId?: string;
+    peers?: RoomPeerReport[];
 }
 
 export interface RTPForwardingConfig {
@@ -91,15 +227,139 @@ export interface RTPForwardingConfig {
         ports: number[];
     };
     rtpStreams: RTPStreamInfo[];
+    segmentIndex?: number;
 }
 
 export interface RequesterInfo {
     userId?: string;
+    // Organisation the recording belongs to, for per-tenant retention
+    tenantId?: string;
     ip: string;
     userAgent?: string;
     timestamp: number;
 }
 
+export interface JobCancellation {
+    reason: string;
+    requestedBy: RequesterInfo;
+    cancelledAt: number;
+    outputDiscarded: boolean;
+}
+
+// The node holds the recording open while paused; paused time doesn't count towards maxDuration
+export interface JobPause {
+    pausedAt: number;
+    resumedAt?: number | undefined;
+    reason?: string | undefined;
+    requestedBy?: string | undefined;
+    forwardingSuspended: boolean;
+}
+
+// Set when the supervisor ends a job rather than the user or the node
+export interface JobTermination {
+    reason: JobTerminationReason;
+    message: string;
+    terminatedAt: number;
+}
+
+export interface JobAuditRecord {
+    jobId: string;
+    action: JobTerminationReason | 'retention_anonymized';
+    message: string;
+    details: Record<string, any>;
+    timestamp: number;
+}
+
+// One node assignment of a recording; the final file is the segments in order
+export interface RecordingSegment {
+    index: number;
+    ffmpegNodeId: string;
+    reason: SegmentReason;
+    status: SegmentStatus;
+    startedAt: number;
+    endedAt?: number;
+    outputPath?: string;
+}
+
+// A live migration between starting the target node and cutting over to it
+export interface JobMigration {
+    sourceNodeId: string;
+    targetNodeId: string;
+    segmentIndex: number;
+    reason: string;
+    startedAt: number;
+    rtpForwarding: RTPForwardingConfig;
+    composite?: CompositeRecordingState;
+}
+
+export interface SegmentStitching {
+    status: 'pending' | 'completed' | 'failed';
+    ffmpegNodeId?: string;
+    error?: string;
+    completedAt?: number;
+}
+
+// A destination the FFmpeg node sends the recording to
+export interface RecordingOutputTarget {
+    type: RecordingOutputType;
+    // Push URL of a live output: rtmp(s)://, srt:// or the HTTP ingest of an LL-HLS origin
+    url?: string | undefined;
+    // RTMP stream key, or the SRT stream id; never returned by the API
+    streamKey?: string | undefined;
+    // SRT encryption passphrase; never returned by the API
+    passphrase?: string | undefined;
+    // Where viewers find the stream, informational only
+    playbackUrl?: string | undefined;
+}
+
+export interface RecordingOutput extends RecordingOutputTarget {
+    id: string;
+    status: RecordingOutputStatus;
+    // Last ingest health the node reported for a live output
+    health?: OutputIngestHealth | undefined;
+    restarts: number;
+    error?: string | undefined;
+    startedAt?: number | undefined;
+    stoppedAt?: number | undefined;
+    updatedAt: number;
+}
+
+export interface OutputIngestHealth {
+    bitrateKbps?: number | undefined;
+    fps?: number | undefined;
+    droppedFrames?: number | undefined;
+    // SRT link statistics
+    rttMs?: number | undefined;
+    packetLossPercent?: number | undefined;
+    reportedAt: number;
+}
+
+// Post-processing of a completed job. Steps are independent of each other
+// and each runs on whichever FFmpeg node the load balancer picks.
+export interface PostProcessingState {
+    status: 'running' | 'completed' | 'failed';
+    steps: PostProcessingStep[];
+    startedAt: number;
+    finishedAt?: number | undefined;
+}
+
+export interface PostProcessingStep {
+    id: string;
+    type: PostProcessingStepType;
+    // Target container of a transcode step
+    format?: RecordingOptions['format'] | undefined;
+    status: PostProcessingStepStatus;
+    ffmpegNodeId?: string | undefined;
+    attempts: number;
+    // Files the node wrote, below the output directory
+    outputs?: string[] | undefined;
+    // Catalog entries of the outputs when the artifact catalog is enabled
+    artifactIds?: string[] | undefined;
+    error?: string | undefined;
+    startedAt?: number | undefined;
+    finishedAt?: number | undefined;
+}
+
 export interface JobMetrics {
     processingTime?: number;
     outputFileSize?: number;
@@ -108,6 +368,41 @@ export interface JobMetrics {
     peakMemoryUsage?: number;
 }
 
+export interface RecordingEvent {
+    jobId: string;
+    event: RecordingEventType;
+    data: Record<string, any>;
+}
+
+export interface PersistedQueueEntry {
+    jobId: string;
+    position: number;
+    priority: number;
+    enqueuedAt: number;
+}
+
+export interface QueueEntry {
+    jobId: string;
+    position: number;
+    priority: number;
+    roomServerId: string;
+    roomId: string;
+    peerId: string;
+    peerName: string;
+    enqueuedAt: number;
+    waitingMs: number;
+    estimatedWaitMs: number | null;
+}
+
+export interface QueueSnapshot {
+    length: number;
+    averageJobDuration: number;
+    availableSlots: number;
+    totalSlots: number;
+    entries: QueueEntry[];
+    timestamp: number;
+}
+
 export interface SystemMetrics {
     totalRoomServers: number;
     healthyRoomServers: number;
@@ -129,6 +424,34 @@ export interface RegionMetrics {
     avgLoad: number;
 }
 
+export interface MetricsSample {
+    timestamp: number;
+    metrics: SystemMetrics;
+}
+
+export interface MetricsAggregate {
+    avg: number;
+    min: number;
+    max: number;
+}
+
+export type RegionMetricsRollup = { samples: number } & { [K in keyof RegionMetrics]: MetricsAggregate };
+
+// Raw samples and time buckets share one shape; a raw sample is a bucket of one
+export interface MetricsDataPoint {
+    timestamp: number; // sample time, or bucket start
+    samples: number;
+    totalRoomServers: MetricsAggregate;
+    healthyRoomServers: MetricsAggregate;
+    totalFFmpegNodes: MetricsAggregate;
+    healthyFFmpegNodes: MetricsAggregate;
+    activeRecordings: MetricsAggregate;
+    totalCapacity: MetricsAggregate;
+    currentLoad: MetricsAggregate;
+    queueLength: MetricsAggregate;
+    byRegion: Record<string, RegionMetricsRollup>;
+}
+
 export interface DistributedRecordingRequest {
     roomServerId: string;
     roomId: string;
@@ -137,6 +460,20 @@ export interface DistributedRecordingRequest {
     rtpStreams: RTPStreamInfo[];
     options: RecordingOptions;
     requesterInfo: RequesterInfo;
+    reservationId?: string | undefined;
+    // Just the file when unset
+    outputs?: RecordingOutputTarget[] | undefined;
+}
+
+export interface CompositeRecordingRequest {
+    roomServerId: string;
+    roomId: string;
+    layout: CompositeLayoutType;
+    options: RecordingOptions;
+    requesterInfo: RequesterInfo;
+    participants?: RoomPeerReport[];
+    reservationId?: string | undefined;
+    outputs?: RecordingOutputTarget[] | undefined;
 }
 
 export interface NodeRegistration {
@@ -154,6 +491,13 @@ export interface RoomServerRegistration extends NodeRegistration {
 
 export interface FFmpegNodeRegistration extends NodeRegistration {
     supportedCodecs: string[];
+    portRange?: PortRange;
+}
+
+export interface NodeRegistrationResult {
+    nodeId: string;
+    // HMAC key for signing requests to and from the orchestrator - only returned here
+    signingSecret: string;
 }
 
 export interface RecordingRequirements {
@@ -163,6 +507,8 @@ export interface RecordingRequirements {
     preferGPU?: boolean;
     minCPUCores?: number;
     minRAM?: number;
+    // Load units per region that reservations hold back from this job
+    heldBackCapacity?: Record<string, number>;
 }
 
 export interface AutoScalingConfig {
@@ -174,10 +520,453 @@ export interface AutoScalingConfig {
     cooldownPeriod: number; // in seconds
 }
 
+export interface ForecastConfig {
+    enabled: boolean;
+    // Hourly metrics history the models are fitted on
+    historyDays: number;
+    // Regions with less history get no forecast
+    minHistoryHours: number;
+    refreshInterval: number;
+    horizonHours: number;
+    // How long before a predicted peak its nodes must be in place - at least the node startup time
+    leadTimeMinutes: number;
+    // Two-sided confidence level of the forecast bounds: 0.8, 0.9 or 0.95
+    confidence: number;
+    // Lecture timetables follow local time
+    timezone: string;
+}
+
+export interface CapacityForecastPoint {
+    timestamp: number; // hour start
+    // Peak load within the hour, in node capacity units
+    predictedLoad: number;
+    lowerBound: number;
+    upperBound: number;
+    expectedRecordingStarts: number;
+    // Capacity that keeps the upper bound below the scale-up threshold
+    requiredCapacity: number;
+    requiredNodes: number;
+}
+
+export interface RegionCapacityForecast {
+    region: string;
+    trainedAt: number;
+    historyHours: number;
+    // Share of the week's hours forecast from the weekly rather than the daily profile
+    weeklyCoverage: number;
+    trendPerDay: number;
+    nodeCapacity: number;
+    confidence: number;
+    points: CapacityForecastPoint[];
+    // Hours where the required node count rises
+    peaks: CapacityForecastPoint[];
+}
+
+// Load units held back in a region for a time window, e.g. for an exam
+export interface CapacityReservation {
+    id: string;
+    name: string;
+    region: string;
+    startsAt: number;
+    endsAt: number;
+    loadUnits: number;
+    // Recordings started by this schedule use the reservation
+    scheduleId?: string | undefined;
+    createdBy?: string | undefined;
+    createdAt: number;
+}
+
+// A file a recording produced, registered once it is final
+export interface RecordingArtifact {
+    id: string;
+    jobId: string;
+    kind: ArtifactKind;
+    fileName: string;
+    storage: ArtifactStorageType;
+    // Path below the output directory, or object key in the bucket
+    storageKey: string;
+    sizeBytes: number;
+    // Hex SHA-256 of the file contents
+    sha256: string;
+    durationMs?: number | undefined;
+    container: string;
+    videoCodec?: string | undefined;
+    audioCodec?: string | undefined;
+    createdAt: number;
+}
+
+export interface ArtifactConfig {
+    enabled: boolean;
+    storage: ArtifactStorageType;
+    // Lifetime of issued download URLs unless the caller asks for less
+    downloadUrlTtlSeconds: number;
+    local: {
+        // Base URL download links point at - the orchestrator serves local files itself
+        publicUrl: string;
+        // Key local download URLs are signed with; a per-process key when unset
+        urlSecret?: string | undefined;
+    };
+    s3: {
+        // AWS when unset; the URL of MinIO or another S3-compatible store otherwise
+        endpoint?: string | undefined;
+        region: string;
+        bucket?: string | undefined;
+        accessKeyId?: string | undefined;
+        secretAccessKey?: string | undefined;
+        // Bucket in the path instead of the host name, as MinIO expects
+        forcePathStyle: boolean;
+        prefix: string;
+        // Remove the file from the recording volume once it is uploaded
+        deleteLocalCopy: boolean;
+        timeoutMs: number;
+    };
+}
+
+// How long recordings of a room, tenant or role are kept. A room policy wins
+// over a tenant policy, which wins over role policies; recording.cleanupAfterDays
+// applies to jobs no policy matches.
+export interface RetentionPolicy {
+    id: string;
+    name: string;
+    scope: RetentionScope;
+    // Room id, tenant id or peer role the policy applies to
+    match: string;
+    retentionDays: number;
+    // What is left of the job record once its artifacts are deleted
+    jobAction: RetentionJobAction;
+    createdBy?: string | undefined;
+    createdAt: number;
+    updatedAt: number;
+}
+
+// Keeps a job and its artifacts out of retention sweeps until it is released
+export interface LegalHold {
+    jobId: string;
+    reason: string;
+    placedBy?: string | undefined;
+    placedAt: number;
+}
+
+export interface RetentionReportEntry {
+    jobId: string;
+    roomId: string;
+    tenantId?: string | undefined;
+    endedAt: number;
+    // 'default' when recording.cleanupAfterDays applies
+    policyId: string;
+    retentionDays: number;
+    jobAction: RetentionJobAction;
+    artifacts: number;
+    artifactBytes: number;
+}
+
+// What a sweep removed, or for a dry run what the next sweep would remove
+export interface RetentionReport {
+    dryRun: boolean;
+    generatedAt: number;
+    entries: RetentionReportEntry[];
+    // Expired jobs kept by a legal hold
+    held: Array<{ jobId: string; reason: string }>;
+    failed: Array<{ jobId: string; error: string }>;
+    totals: {
+        jobs: number;
+        artifacts: number;
+        artifactBytes: number;
+    };
+}
+
+export interface StreamingConfig {
+    maxOutputsPerJob: number;
+    // A failed live output is restarted this many times before it is left failed
+    maxAutoRestarts: number;
+    restartDelayMs: number;
+    // An active live output without a health report for this long is marked degraded
+    healthTimeoutMs: number;
+}
+
+export interface PostProcessingConfig {
+    enabled: boolean;
+    defaults: PostProcessingOptions;
+    // Attempts per step before it is marked failed
+    maxAttempts: number;
+    // A running step that hasn't reported back by then is retried
+    stepTimeoutMs: number;
+    // How often pending steps are offered to the load balancer
+    dispatchInterval: number;
+}
+
+export interface RetentionConfig {
+    enabled: boolean;
+    // Cron expression sweeps run on
+    sweepCron: string;
+    timezone: string;
+    // Job action of the cleanupAfterDays default
+    defaultJobAction: RetentionJobAction;
+    // Most jobs one sweep removes
+    batchSize: number;
+}
+
+export interface ScheduleConfig {
+    enabled: boolean;
+    // Defaults for schedules that don't set their own
+    defaultGraceMinutes: number;
+    defaultTimezone: string;
+    maxDurationMinutes: number;
+}
+
+export interface RecordingSchedule {
+    id: string;
+    name: string;
+    roomId: string;
+    // Any room server hosting the room when unset
+    roomServerId?: string | undefined;
+    // Records this peer; the whole room is composited when unset
+    peerId?: string | undefined;
+    layout: CompositeLayoutType;
+    options: RecordingOptions;
+    recurrence: ScheduleRecurrenceType;
+    // One-off start, RRULE DTSTART, or the earliest cron run
+    startAt?: number | undefined;
+    cron?: string | undefined;
+    rrule?: string | undefined;
+    timezone: string;
+    durationMinutes: number;
+    // How long after the scheduled start the room may take to become active
+    graceMinutes: number;
+    enabled: boolean;
+    // Unset once a schedule has no occurrences left
+    nextRunAt?: number | undefined;
+    createdBy?: string | undefined;
+    createdAt: number;
+    updatedAt: number;
+}
+
+// One occurrence of a schedule, claimed exactly once
+export interface ScheduleRun {
+    id: string;
+    scheduleId: string;
+    occurrenceAt: number;
+    // Start attempts stop at deadlineAt; the recording is stopped at endAt
+    deadlineAt: number;
+    endAt: number;
+    status: ScheduleRunStatus;
+    jobId?: string | undefined;
+    roomServerId?: string | undefined;
+    attempts: number;
+    lastError?: string | undefined;
+    startedAt?: number | undefined;
+    finishedAt?: number | undefined;
+}
+
+export interface ProvisioningConfig {
+    provider: NodeProviderType;
+    // Regions kept at minNodes even while they have no nodes yet
+    regions: string[];
+    // URL provisioned nodes use to register with the orchestrator
+    orchestratorUrl: string;
+    // A node that hasn't registered within this time is given up and removed
+    registrationTimeoutMs: number;
+    // How nodes are drained before removal
+    drainMode: DrainMode;
+    docker: {
+        // Unix socket of the Docker Engine, used unless apiUrl is set
+        socketPath: string;
+        apiUrl?: string | undefined;
+        apiVersion: string;
+        image: string;
+        network?: string | undefined;
+        env: string[];
+    };
+    http: {
+        url?: string | undefined;
+        authToken?: string | undefined;
+        timeoutMs: number;
+    };
+    script: {
+        provisionCommand?: string | undefined;
+        deprovisionCommand?: string | undefined;
+        timeoutMs: number;
+    };
+}
+
+// Passed to a NodeProvider. The node must register with provisionId in its metadata.
+export interface NodeProvisionSpec {
+    provisionId: string;
+    orchestratorUrl: string;
+    // Node API key for registering - absent when authentication is disabled
+    apiKey?: string | undefined;
+    specs?: Partial<NodeSpecs> | undefined;
+}
+
+export interface ProvisionedNode {
+    provisionId: string;
+    provider: NodeProviderType;
+    region: string;
+    status: ProvisionedNodeStatus;
+    // Provider's own identifier, e.g. a container id
+    instanceId?: string | undefined;
+    // Set once the node has registered
+    nodeId?: string | undefined;
+    apiKeyId?: string | undefined;
+    reason: string;
+    requestedAt: number;
+    registeredAt?: number | undefined;
+    removalRequestedAt?: number | undefined;
+    removedAt?: number | undefined;
+    error?: string | undefined;
+    details?: Record<string, any> | undefined;
+}
+
 export interface AlertConfig {
     webhookUrl?: string | undefined;
+    // Signs payloads sent to webhookUrl, which is delivered to like any other subscription
+    webhookSecret?: string | undefined;
     emailRecipients?: string[] | undefined;
     slackChannel?: string | undefined;
+    enableScalingAlerts: boolean;
+    // Seconds before the same scaling recommendation or alert is sent again
+    scalingAlertCooldown: number;
+    // Alerts below this level are not sent to Slack or email
+    minLevel: AlertLevel;
+    evaluationInterval: number;
+    slack: {
+        // 'log' writes messages to the orchestrator log instead of Slack
+        transport: 'webhook' | 'log';
+        webhookUrl?: string | undefined;
+    };
+    email: {
+        // 'log' writes messages to the orchestrator log instead of sending them
+        transport: 'smtp' | 'log';
+        from: string;
+        smtp: {
+            host?: string | undefined;
+            port: number;
+            secure: boolean;
+            user?: string | undefined;
+            password?: string | undefined;
+        };
+    };
+}
+
+export interface ScalingAlert {
+    // Stable across evaluations, so the same condition can be followed over time
+    key: string;
+    level: AlertLevel;
+    message: string;
+    action: string;
+    impact: string;
+}
+
+export interface AlertNotification {
+    id: string;
+    transition: AlertTransition;
+    alert: ScalingAlert;
+    previousLevel?: AlertLevel | undefined;
+    raisedAt: number;
+    timestamp: number;
+}
+
+export interface ScalingEvent {
+    id?: number;
+    type: ScalingEventType;
+    // Absent for cluster-wide events
+    region?: string | undefined;
+    level?: string | undefined;
+    reason: string;
+    details: Record<string, any>;
+    timestamp: number;
+}
+
+export interface AlertNotificationRecord {
+    notification: AlertNotification;
+    channel: string;
+    status: 'sent' | 'failed' | 'suppressed';
+    error?: string | undefined;
+    timestamp: number;
+}
+
+export interface WebhookConfig {
+    timeoutMs: number;
+    // Attempts before a delivery is moved to the dead-letter store
+    maxAttempts: number;
+    initialBackoffMs: number;
+    maxBackoffMs: number;
+    retryInterval: number;
+    deliveryRetentionDays: number;
+}
+
+export interface WebhookSubscription {
+    id: string;
+    url: string;
+    // '*' subscribes to every event
+    events: Array<WebhookEventType | '*'>;
+    secret: string;
+    description?: string | undefined;
+    enabled: boolean;
+    createdAt: number;
+    updatedAt: number;
+}
+
+export interface WebhookEvent {
+    id: string;
+    type: WebhookEventType;
+    timestamp: number;
+    data: Record<string, any>;
+}
+
+export interface WebhookDelivery {
+    id: string;
+    subscriptionId: string;
+    event: WebhookEvent;
+    status: WebhookDeliveryStatus;
+    attempts: number;
+    nextAttemptAt?: number | undefined;
+    lastAttemptAt?: number | undefined;
+    responseStatus?: number | undefined;
+    lastError?: string | undefined;
+    createdAt: number;
+    deliveredAt?: number | undefined;
+    // Set on deliveries created by replaying an earlier one
+    redeliveryOf?: string | undefined;
+}
+
+export interface AuthConfig {
+    enabled: boolean;
+    jwtSecret: string;
+    // Still accepted when verifying tokens, so the signing secret can be rotated
+    previousJwtSecrets: string[];
+    tokenExpiry: string;
+    // Operator key used to create the first real keys
+    bootstrapApiKey?: string | undefined;
+    // How long a rotated-out API key keeps working
+    keyRotationGracePeriodMs: number;
+    // Reject node callbacks without a valid HMAC signature
+    requireSignedCallbacks: boolean;
+    // Allowed clock skew for signed requests, also how long nonces are remembered
+    signatureToleranceMs: number;
+}
+
+export interface ApiKeyRecord {
+    keyId: string;
+    name: string;
+    kind: PrincipalKind;
+    roles: OperatorRole[];
+    // Node credentials may only act as this node
+    nodeId?: string | undefined;
+    secretHash: string;
+    createdAt: number;
+    expiresAt?: number | undefined;
+    revokedAt?: number | undefined;
+    rotatedFrom?: string | undefined;
+}
+
+export interface AuthPrincipal {
+    id: string;
+    kind: PrincipalKind;
+    name: string;
+    roles: OperatorRole[];
+    nodeId?: string | undefined;
+    credential: 'api-key' | 'jwt';
 }
 
 export interface AppConfig {
@@ -218,15 +1007,83 @@ export interface AppConfig {
         maxConcurrentPerNode: number;
         outputDirectory: string;
         cleanupAfterDays: number;
+        initializingTimeoutMs: number;
+        supervisorInterval: number;
+        // Stop media reaching the node while a recording is paused, unless the pause request says otherwise
+        suspendForwardingOnPause: boolean;
     };
+    provisioning: ProvisioningConfig;
+    forecast: ForecastConfig;
+    schedules: ScheduleConfig;
+    artifacts: ArtifactConfig;
+    retention: RetentionConfig;
+    postProcessing: PostProcessingConfig;
+    streaming: StreamingConfig;
     alerts: AlertConfig;
+    webhooks: WebhookConfig;
+    auth: AuthConfig;
     monitoring: {
         metricsInterval: number;
         enableDetailedLogging: boolean;
+        rollupInterval: number;
+        retention: {
+            rawHours: number;
+            minuteDays: number;
+            hourDays: number;
+            dayDays: number;
+        };
     };
 }
 
 
-export type JobStatus = 'pending' | 'initializing' | 'recording' | 'completed' | 'failed' | 'cancelled';
+export type JobStatus = 'pending' | 'initializing' | 'recording' | 'paused' | 'completed' | 'failed' | 'cancelled';
+export type RecordingEventType = 'started' | 'progress' | 'completed' | 'failed' | 'output';
+export type SegmentReason = 'initial' | 'migration' | 'failover';
+export type SegmentStatus = 'starting' | 'recording' | 'stopping' | 'completed' | 'failed';
+export type JobTerminationReason = 'max_duration_exceeded' | 'max_duration_stop_failed' | 'initialization_timeout';
+export type JobFailureReason = 'assignment_failed' | 'stop_failed' | 'node_reported' | 'node_lost' | 'initialization_timeout';
+export type RecordingJobType = 'peer' | 'room-composite';
+export type CompositeLayoutType = 'grid' | 'active-speaker' | 'presenter-thumbnails';
 export type NodeType = 'room-server' | 'ffmpeg-node';
+export type NodeSchedulingState = 'active' | 'cordoned' | 'draining' | 'drained';
+export type DrainMode = 'wait' | 'migrate';
+export type NodeProviderType = 'none' | 'docker' | 'http' | 'script';
+export type ProvisionedNodeStatus = 'provisioning' | 'registered' | 'draining' | 'removing' | 'removed' | 'failed';
+export type ScheduleRecurrenceType = 'once' | 'cron' | 'rrule';
+export type ScheduleRunStatus = 'waiting' | 'recording' | 'completed' | 'missed' | 'failed';
+export type ArtifactStorageType = 'local' | 's3';
+export type ArtifactKind = 'recording' | PostProcessingStepType;
+export type RecordingOutputType = 'file' | 'rtmp' | 'srt' | 'll-hls';
+export type RecordingOutputStatus = 'pending' | 'starting' | 'active' | 'degraded' | 'failed' | 'stopped';
+export type PostProcessingStepType = 'transcode' | 'thumbnail' | 'sprite' | 'hls' | 'dash';
+export type PostProcessingStepStatus = 'pending' | 'running' | 'completed' | 'failed';
+export type RetentionScope = 'room' | 'tenant' | 'role';
+export type RetentionJobAction = 'anonymize' | 'delete';
+export type MetricsResolution = 'minute' | 'hour' | 'day';
+export type MetricsInterval = 'raw' | MetricsResolution;
+export type PrincipalKind = 'node' | 'service' | 'operator';
+export type OperatorRole = 'viewer' | 'operator' | 'admin';
+export type WebhookEventType =
+    | 'recording_started'
+    | 'recording_completed'
+    | 'recording_failed'
+    | 'recording_cancelled'
+    | 'recording_migrated'
+    | 'node_failed'
+    | 'node_drained'
+    | 'scale_up_recommended'
+    | 'scale_down_recommended'
+    | 'webhook_test';
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'dead_letter';
+export type AlertLevel = 'low' | 'medium' | 'high' | 'critical';
+export type AlertTransition = 'raised' | 'escalated' | 'resolved' | 'test';
+export type ScalingEventType =
+    | 'scale_up_recommended'
+    | 'scale_down_recommended'
+    | 'alert_raised'
+    | 'alert_escalated'
+    | 'alert_resolved'
+    | 'manual_evaluation'
+    | 'scale_up_executed'
+    | 'scale_down_executed';
 export type EventType = 'node_registered' | 'node_failed' | 'recording_started' | 'recording_completed' | 'system_overload';
\ No newline at end of file
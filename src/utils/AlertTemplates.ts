@@ -0,0 +1,77 @@
+// src/utils/AlertTemplates.ts
+// Message templates for alert notifications. Placeholders are written as {{name}}.
+import { AlertLevel, AlertNotification, AlertTransition } from '../types/interfaces';
+
+export interface RenderedAlert {
+    subject: string;
+    text: string;
+    color: string;
+}
+
+const SUBJECT_TEMPLATES: Record<AlertTransition, string> = {
+    raised: '[{{LEVEL}}] {{message}}',
+    escalated: '[{{LEVEL}}] Escalated: {{message}}',
+    resolved: '[RESOLVED] {{message}}',
+    test: '[TEST] Recording orchestrator alert channel test'
+};
+
+const HEADLINE_TEMPLATES: Record<AlertTransition, string> = {
+    raised: 'Alert raised at {{level}} level',
+    escalated: 'Alert escalated from {{previousLevel}} to {{level}}',
+    resolved: 'Alert resolved after {{duration}}',
+    test: 'This is a test notification - no action is needed'
+};
+
+const BODY_TEMPLATE = [
+    '{{headline}}',
+    '',
+    'Alert: {{message}}',
+    'Action: {{action}}',
+    'Impact: {{impact}}',
+    'Raised: {{raisedAt}}',
+    '',
+    'EduMeet Recording Orchestrator ({{environment}})'
+].join('\n');
+
+const LEVEL_COLORS: Record<AlertLevel, string> = {
+    critical: '#d62728',
+    high: '#ff7f0e',
+    medium: '#f2c744',
+    low: '#439fe0'
+};
+
+const RESOLVED_COLOR = '#2ca02c';
+
+export const renderTemplate = (template: string, values: Record<string, string>): string =>
+    template.replace(/\{\{(\w+)\}\}/g, (match, name: string) => values[name] ?? '');
+
+const formatDuration = (ms: number): string => {
+    const minutes = Math.round(ms / 60000);
+    if (minutes < 60) return `${minutes} min`;
+
+    const hours = Math.floor(minutes / 60);
+    return `${hours} h ${minutes % 60} min`;
+};
+
+export const renderAlertNotification = (notification: AlertNotification, environment: string): RenderedAlert => {
+    const { alert } = notification;
+
+    const values: Record<string, string> = {
+        level: alert.level,
+        LEVEL: alert.level.toUpperCase(),
+        previousLevel: notification.previousLevel || '',
+        message: alert.message,
+        action: alert.action,
+        impact: alert.impact,
+        raisedAt: new Date(notification.raisedAt).toISOString(),
+        duration: formatDuration(notification.timestamp - notification.raisedAt),
+        environment
+    };
+    values.headline = renderTemplate(HEADLINE_TEMPLATES[notification.transition], values);
+
+    return {
+        subject: renderTemplate(SUBJECT_TEMPLATES[notification.transition], values),
+        text: renderTemplate(BODY_TEMPLATE, values),
+        color: notification.transition === 'resolved' ? RESOLVED_COLOR : LEVEL_COLORS[alert.level]
+    };
+};
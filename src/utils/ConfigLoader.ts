@@ -1,6 +1,7 @@
 // src/utils/ConfigLoader.ts
 import * as dotenv from 'dotenv';
 import { Logger } from './Logger';
+import { parseCron } from './ScheduleRules';
 
 const logger = new Logger('ConfigLoader');
 
@@ -57,18 +58,150 @@ export class ConfigLoader {
                 defaultQuality: process.env.DEFAULT_QUALITY || 'medium',
                 maxConcurrentPerNode: parseInt(process.env.MAX_CONCURRENT_PER_NODE || '6'),
                 outputDirectory: process.env.OUTPUT_DIR || '/recordings',
-                cleanupAfterDays: parseInt(process.env.CLEANUP_DAYS || '30')
+                cleanupAfterDays: parseInt(process.env.CLEANUP_DAYS || '30'),
+                initializingTimeoutMs: parseInt(process.env.INITIALIZING_TIMEOUT_MS || '120000'),
+                supervisorInterval: parseInt(process.env.SUPERVISOR_INTERVAL || '10000'),
+                suspendForwardingOnPause: process.env.PAUSE_SUSPEND_FORWARDING === 'true'
+            },
+            provisioning: {
+                provider: (process.env.PROVISIONING_PROVIDER || 'none'),
+                regions: process.env.PROVISIONING_REGIONS?.split(',').filter(Boolean) || [],
+                orchestratorUrl: process.env.ORCHESTRATOR_URL || 'http://localhost:8080',
+                registrationTimeoutMs: parseInt(process.env.PROVISIONING_REGISTRATION_TIMEOUT_MS || '600000'),
+                drainMode: process.env.PROVISIONING_DRAIN_MODE === 'wait' ? 'wait' : 'migrate',
+                docker: {
+                    socketPath: process.env.DOCKER_SOCKET_PATH || '/var/run/docker.sock',
+                    apiUrl: process.env.DOCKER_API_URL,
+                    apiVersion: process.env.DOCKER_API_VERSION || 'v1.41',
+                    image: process.env.DOCKER_FFMPEG_IMAGE || 'edumeet/recording-ffmpeg-node:latest',
+                    network: process.env.DOCKER_NETWORK,
+                    env: process.env.DOCKER_FFMPEG_ENV?.split(',').filter(Boolean) || []
+                },
+                http: {
+                    url: process.env.PROVISIONING_HTTP_URL,
+                    authToken: process.env.PROVISIONING_HTTP_TOKEN,
+                    timeoutMs: parseInt(process.env.PROVISIONING_HTTP_TIMEOUT_MS || '30000')
+                },
+                script: {
+                    provisionCommand: process.env.PROVISIONING_SCRIPT_PROVISION,
+                    deprovisionCommand: process.env.PROVISIONING_SCRIPT_DEPROVISION,
+                    timeoutMs: parseInt(process.env.PROVISIONING_SCRIPT_TIMEOUT_MS || '120000')
+                }
+            },
+            forecast: {
+                enabled: process.env.FORECAST_ENABLED !== 'false',
+                historyDays: parseInt(process.env.FORECAST_HISTORY_DAYS || '28'),
+                minHistoryHours: parseInt(process.env.FORECAST_MIN_HISTORY_HOURS || '72'),
+                refreshInterval: parseInt(process.env.FORECAST_REFRESH_INTERVAL || '3600000'),
+                horizonHours: parseInt(process.env.FORECAST_HORIZON_HOURS || '24'),
+                leadTimeMinutes: parseInt(process.env.FORECAST_LEAD_TIME_MINUTES || '30'),
+                confidence: parseFloat(process.env.FORECAST_CONFIDENCE || '0.9'),
+                timezone: process.env.FORECAST_TIMEZONE || 'UTC'
+            },
+            schedules: {
+                enabled: process.env.SCHEDULES_ENABLED !== 'false',
+                defaultGraceMinutes: parseInt(process.env.SCHEDULE_GRACE_MINUTES || '15'),
+                defaultTimezone: process.env.SCHEDULE_TIMEZONE || process.env.FORECAST_TIMEZONE || 'UTC',
+                maxDurationMinutes: parseInt(process.env.SCHEDULE_MAX_DURATION_MINUTES || '480')
+            },
+            artifacts: {
+                enabled: process.env.ARTIFACTS_ENABLED !== 'false',
+                storage: process.env.ARTIFACT_STORAGE || 'local',
+                downloadUrlTtlSeconds: parseInt(process.env.ARTIFACT_URL_TTL_SECONDS || '3600'),
+                local: {
+                    publicUrl: process.env.ARTIFACT_PUBLIC_URL || process.env.ORCHESTRATOR_URL || 'http://localhost:8080',
+                    urlSecret: process.env.ARTIFACT_URL_SECRET
+                },
+                s3: {
+                    endpoint: process.env.S3_ENDPOINT,
+                    region: process.env.S3_REGION || 'us-east-1',
+                    bucket: process.env.S3_BUCKET,
+                    accessKeyId: process.env.S3_ACCESS_KEY_ID,
+                    secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+                    forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+                    prefix: process.env.S3_PREFIX || 'recordings/',
+                    deleteLocalCopy: process.env.S3_DELETE_LOCAL_COPY === 'true',
+                    timeoutMs: parseInt(process.env.S3_TIMEOUT_MS || '600000')
+                }
+            },
+            retention: {
+                enabled: process.env.RETENTION_ENABLED === 'true',
+                sweepCron: process.env.RETENTION_SWEEP_CRON || '0 3 * * *',
+                timezone: process.env.RETENTION_TIMEZONE || process.env.SCHEDULE_TIMEZONE || process.env.FORECAST_TIMEZONE || 'UTC',
+                defaultJobAction: process.env.RETENTION_DEFAULT_JOB_ACTION || 'anonymize',
+                batchSize: parseInt(process.env.RETENTION_BATCH_SIZE || '500')
+            },
+            postProcessing: {
+                enabled: process.env.POST_PROCESSING_ENABLED !== 'false',
+                defaults: {
+                    renditions: process.env.POST_PROCESSING_RENDITIONS?.split(',').filter(Boolean) || [],
+                    thumbnail: process.env.POST_PROCESSING_THUMBNAIL === 'true',
+                    spriteSheet: process.env.POST_PROCESSING_SPRITE_SHEET === 'true',
+                    packaging: process.env.POST_PROCESSING_PACKAGING?.split(',').filter(Boolean) || []
+                },
+                maxAttempts: parseInt(process.env.POST_PROCESSING_MAX_ATTEMPTS || '3'),
+                stepTimeoutMs: parseInt(process.env.POST_PROCESSING_STEP_TIMEOUT_MS || '3600000'),
+                dispatchInterval: parseInt(process.env.POST_PROCESSING_DISPATCH_INTERVAL || '15000')
+            },
+            streaming: {
+                maxOutputsPerJob: parseInt(process.env.STREAM_MAX_OUTPUTS_PER_JOB || '4'),
+                maxAutoRestarts: parseInt(process.env.STREAM_OUTPUT_MAX_AUTO_RESTARTS || '3'),
+                restartDelayMs: parseInt(process.env.STREAM_OUTPUT_RESTART_DELAY_MS || '10000'),
+                healthTimeoutMs: parseInt(process.env.STREAM_OUTPUT_HEALTH_TIMEOUT_MS || '30000')
             },
             alerts: {
                 webhookUrl: process.env.ALERT_WEBHOOK_URL,
+                webhookSecret: process.env.ALERT_WEBHOOK_SECRET,
                 emailRecipients: process.env.ALERT_EMAILS?.split(','),
                 slackChannel: process.env.SLACK_CHANNEL,
                 enableScalingAlerts: process.env.ENABLE_SCALING_ALERTS === 'true',
-                scalingAlertCooldown: parseInt(process.env.SCALING_ALERT_COOLDOWN || '300')
+                scalingAlertCooldown: parseInt(process.env.SCALING_ALERT_COOLDOWN || '300'),
+                minLevel: process.env.ALERT_MIN_LEVEL || 'medium',
+                evaluationInterval: parseInt(process.env.ALERT_EVALUATION_INTERVAL || '60000'),
+                slack: {
+                    transport: process.env.SLACK_TRANSPORT === 'log' ? 'log' : 'webhook',
+                    webhookUrl: process.env.SLACK_WEBHOOK_URL
+                },
+                email: {
+                    transport: process.env.EMAIL_TRANSPORT === 'log' ? 'log' : 'smtp',
+                    from: process.env.ALERT_EMAIL_FROM || 'recording-orchestrator@localhost',
+                    smtp: {
+                        host: process.env.SMTP_HOST,
+                        port: parseInt(process.env.SMTP_PORT || '587'),
+                        secure: process.env.SMTP_SECURE === 'true',
+                        user: process.env.SMTP_USER,
+                        password: process.env.SMTP_PASSWORD
+                    }
+                }
+            },
+            webhooks: {
+                timeoutMs: parseInt(process.env.WEBHOOK_TIMEOUT_MS || '10000'),
+                maxAttempts: parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '8'),
+                initialBackoffMs: parseInt(process.env.WEBHOOK_INITIAL_BACKOFF_MS || '5000'),
+                maxBackoffMs: parseInt(process.env.WEBHOOK_MAX_BACKOFF_MS || '3600000'),
+                retryInterval: parseInt(process.env.WEBHOOK_RETRY_INTERVAL || '5000'),
+                deliveryRetentionDays: parseInt(process.env.WEBHOOK_DELIVERY_RETENTION_DAYS || '30')
+            },
+            auth: {
+                enabled: process.env.AUTH_ENABLED !== 'false',
+                jwtSecret: process.env.JWT_SECRET || '',
+                previousJwtSecrets: process.env.JWT_PREVIOUS_SECRETS?.split(',').filter(Boolean) || [],
+                tokenExpiry: process.env.TOKEN_EXPIRY || '1h',
+                bootstrapApiKey: process.env.AUTH_BOOTSTRAP_API_KEY,
+                keyRotationGracePeriodMs: parseInt(process.env.KEY_ROTATION_GRACE_PERIOD_MS || '86400000'),
+                requireSignedCallbacks: process.env.REQUIRE_SIGNED_CALLBACKS !== 'false',
+                signatureToleranceMs: parseInt(process.env.SIGNATURE_TOLERANCE_MS || '300000')
             },
             monitoring: {
                 metricsInterval: parseInt(process.env.METRICS_INTERVAL || '15000'),
-                enableDetailedLogging: process.env.DETAILED_LOGGING === 'true'
+                enableDetailedLogging: process.env.DETAILED_LOGGING === 'true',
+                rollupInterval: parseInt(process.env.METRICS_ROLLUP_INTERVAL || '60000'),
+                retention: {
+                    rawHours: parseInt(process.env.METRICS_RAW_RETENTION_HOURS || '24'),
+                    minuteDays: parseInt(process.env.METRICS_MINUTE_RETENTION_DAYS || '7'),
+                    hourDays: parseInt(process.env.METRICS_HOUR_RETENTION_DAYS || '90'),
+                    dayDays: parseInt(process.env.METRICS_DAY_RETENTION_DAYS || '730')
+                }
             }
         };
 
@@ -88,7 +221,6 @@ export class ConfigLoader {
             'server.port',
             'database.host',
             'database.database'
-            // Note: JWT secret validation removed as auth is disabled
         ];
 
         for (const field of requiredFields) {
@@ -125,10 +257,130 @@ export class ConfigLoader {
             logger.warn('Health check interval is very low (<10s), this may impact performance');
         }
 
-        // Note: JWT secret validation removed for simplified deployment
-        // Warn if auto-scaling is enabled (should be false for manual deployment)
-        if (config.orchestration.autoScaling.enabled) {
-            logger.warn('Auto-scaling is enabled but auto-deployment is not implemented in this version');
+        if (config.auth.enabled && config.auth.jwtSecret.length < 32) {
+            throw new Error('JWT_SECRET must be at least 32 characters when authentication is enabled');
+        }
+
+        if (config.alerts.webhookUrl && !config.alerts.webhookSecret) {
+            throw new Error('ALERT_WEBHOOK_SECRET is required when ALERT_WEBHOOK_URL is set');
+        }
+
+        if (!['low', 'medium', 'high', 'critical'].includes(config.alerts.minLevel)) {
+            throw new Error('ALERT_MIN_LEVEL must be one of low, medium, high, critical');
+        }
+
+        if (config.webhooks.maxAttempts < 1) {
+            throw new Error('WEBHOOK_MAX_ATTEMPTS must be at least 1');
+        }
+
+        if (!config.auth.enabled) {
+            logger.warn('Authentication is disabled - the API is open to anyone who can reach it');
+        }
+
+        if (!['none', 'docker', 'http', 'script'].includes(config.provisioning.provider)) {
+            throw new Error('PROVISIONING_PROVIDER must be one of none, docker, http, script');
+        }
+
+        if (config.provisioning.provider === 'http' && !config.provisioning.http.url) {
+            throw new Error('PROVISIONING_HTTP_URL is required for the http provisioning provider');
+        }
+
+        if (config.provisioning.provider === 'script' &&
+            (!config.provisioning.script.provisionCommand || !config.provisioning.script.deprovisionCommand)) {
+            throw new Error('PROVISIONING_SCRIPT_PROVISION and PROVISIONING_SCRIPT_DEPROVISION are required for the script provisioning provider');
+        }
+
+        if (![0.8, 0.9, 0.95].includes(config.forecast.confidence)) {
+            throw new Error('FORECAST_CONFIDENCE must be one of 0.8, 0.9, 0.95');
+        }
+
+        try {
+            new Intl.DateTimeFormat('en-US', { timeZone: config.forecast.timezone });
+        } catch {
+            throw new Error(`FORECAST_TIMEZONE is not a valid time zone: ${config.forecast.timezone}`);
+        }
+
+        if (config.forecast.enabled && config.forecast.historyDays > config.monitoring.retention.hourDays) {
+            logger.warn('FORECAST_HISTORY_DAYS exceeds METRICS_HOUR_RETENTION_DAYS - forecasts only see the retained history');
+        }
+
+        try {
+            new Intl.DateTimeFormat('en-US', { timeZone: config.schedules.defaultTimezone });
+        } catch {
+            throw new Error(`SCHEDULE_TIMEZONE is not a valid time zone: ${config.schedules.defaultTimezone}`);
+        }
+
+        if (config.schedules.defaultGraceMinutes < 1 || config.schedules.maxDurationMinutes < 1) {
+            throw new Error('SCHEDULE_GRACE_MINUTES and SCHEDULE_MAX_DURATION_MINUTES must be at least 1');
+        }
+
+        if (!['local', 's3'].includes(config.artifacts.storage)) {
+            throw new Error('ARTIFACT_STORAGE must be one of local, s3');
+        }
+
+        // S3 refuses presigned URLs that live longer than 7 days
+        if (config.artifacts.downloadUrlTtlSeconds < 60 || config.artifacts.downloadUrlTtlSeconds > 604800) {
+            throw new Error('ARTIFACT_URL_TTL_SECONDS must be between 60 and 604800');
+        }
+
+        if (config.artifacts.enabled && config.artifacts.storage === 's3' &&
+            (!config.artifacts.s3.bucket || !config.artifacts.s3.accessKeyId || !config.artifacts.s3.secretAccessKey)) {
+            throw new Error('S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY are required for s3 artifact storage');
+        }
+
+        if (!['anonymize', 'delete'].includes(config.retention.defaultJobAction)) {
+            throw new Error('RETENTION_DEFAULT_JOB_ACTION must be one of anonymize, delete');
+        }
+
+        try {
+            parseCron(config.retention.sweepCron);
+        } catch (error) {
+            throw new Error(`RETENTION_SWEEP_CRON is invalid: ${error instanceof Error ? error.message : error}`);
+        }
+
+        try {
+            new Intl.DateTimeFormat('en-US', { timeZone: config.retention.timezone });
+        } catch {
+            throw new Error(`RETENTION_TIMEZONE is not a valid time zone: ${config.retention.timezone}`);
+        }
+
+        if (config.retention.batchSize < 1) {
+            throw new Error('RETENTION_BATCH_SIZE must be at least 1');
+        }
+
+        const renditions = config.postProcessing.defaults.renditions.filter((format: string) => !['mp4', 'webm', 'mkv'].includes(format));
+        if (renditions.length > 0) {
+            throw new Error(`POST_PROCESSING_RENDITIONS has unknown formats: ${renditions.join(', ')}`);
+        }
+
+        const packaging = config.postProcessing.defaults.packaging.filter((format: string) => !['hls', 'dash'].includes(format));
+        if (packaging.length > 0) {
+            throw new Error(`POST_PROCESSING_PACKAGING has unknown formats: ${packaging.join(', ')}`);
+        }
+
+        if (config.postProcessing.maxAttempts < 1) {
+            throw new Error('POST_PROCESSING_MAX_ATTEMPTS must be at least 1');
+        }
+
+        if (config.streaming.maxOutputsPerJob < 1) {
+            throw new Error('STREAM_MAX_OUTPUTS_PER_JOB must be at least 1');
+        }
+
+        if (config.streaming.maxAutoRestarts < 0) {
+            throw new Error('STREAM_OUTPUT_MAX_AUTO_RESTARTS must not be negative');
+        }
+
+        if (config.postProcessing.enabled && !config.artifacts.enabled) {
+            logger.warn('Post-processing is enabled without the artifact catalog - outputs stay on the recording volume uncataloged');
+        }
+
+        if (config.artifacts.enabled && config.artifacts.storage === 'local' && !config.artifacts.local.urlSecret) {
+            logger.warn('ARTIFACT_URL_SECRET is not set - download URLs stop working when the orchestrator restarts');
+        }
+
+        // Auto-scaling needs a provider to act on its recommendations
+        if (config.orchestration.autoScaling.enabled && config.provisioning.provider === 'none') {
+            logger.warn('Auto-scaling is enabled but PROVISIONING_PROVIDER is none - only recommendations will be made');
         }
     }
 
@@ -152,6 +404,7 @@ export class ConfigLoader {
             autoScaling: {
                 enabled: config.orchestration.autoScaling.enabled,
                 mode: config.orchestration.autoScaling.enabled ? 'auto' : 'manual',
+                provider: config.provisioning.provider,
                 thresholds: {
                     scaleUp: config.orchestration.autoScaling.scaleUpThreshold,
                     scaleDown: config.orchestration.autoScaling.scaleDownThreshold
@@ -159,13 +412,14 @@ export class ConfigLoader {
             },
             alerts: {
                 webhook: !!config.alerts.webhookUrl,
-                email: !!config.alerts.emailRecipients?.length,
-                slack: !!config.alerts.slackChannel
+                email: !!config.alerts.emailRecipients?.length &&
+                    (config.alerts.email.transport === 'log' || !!config.alerts.email.smtp.host),
+                slack: config.alerts.slack.transport === 'log' || !!config.alerts.slack.webhookUrl
             },
             features: {
-                authentication: config.auth.jwtSecret !== 'not-used-auth-disabled',
+                authentication: config.auth.enabled,
                 monitoring: true,
-                autoDeployment: false,
+                autoDeployment: config.orchestration.autoScaling.enabled && config.provisioning.provider !== 'none',
                 manualScaling: true
             }
         };
@@ -0,0 +1,36 @@
+// src/utils/Errors.ts
+// Errors the API answers with a client error instead of a 500, so callers
+// like FFmpeg nodes know not to retry them
+
+export class ApiError extends Error {
+    readonly statusCode: number;
+
+    constructor(message: string, statusCode: number) {
+        super(message);
+        this.name = new.target.name;
+        this.statusCode = statusCode;
+    }
+}
+
+export class NotFoundError extends ApiError {
+    constructor(message: string) {
+        super(message, 404);
+    }
+}
+
+export class ForbiddenError extends ApiError {
+    constructor(message: string) {
+        super(message, 403);
+    }
+}
+
+// The request is valid but the job or step is in the wrong state for it
+export class ConflictError extends ApiError {
+    constructor(message: string) {
+        super(message, 409);
+    }
+}
+
+export function getErrorStatus(error: unknown): number {
+    return error instanceof ApiError ? error.statusCode : 500;
+}
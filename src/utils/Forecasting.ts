@@ -0,0 +1,169 @@
+// src/utils/Forecasting.ts
+// Seasonal load model: a linear trend plus an hour-of-week profile, falling
+// back to an hour-of-day profile for hours of the week with too little history.
+
+const HOURS_PER_WEEK = 168;
+const HOURS_PER_DAY = 24;
+const HOUR_MS = 60 * 60 * 1000;
+const BACKFIT_ITERATIONS = 5;
+
+const WEEKDAYS: Record<string, number> = { Mon: 0, Tue: 1, Wed: 2, Thu: 3, Fri: 4, Sat: 5, Sun: 6 };
+
+// Two-sided z-scores for the supported confidence levels
+export const Z_SCORES: Record<string, number> = { '0.8': 1.2816, '0.9': 1.6449, '0.95': 1.96 };
+
+export interface SeriesPoint {
+    timestamp: number;
+    value: number;
+}
+
+export interface SeasonalModel {
+    origin: number;
+    level: number;
+    slopePerHour: number;
+    weekly: number[];
+    weeklyCounts: number[];
+    daily: number[];
+    // Spread of what the model doesn't explain, per hour of the week and overall
+    weeklyStd: number[];
+    residualStd: number;
+    samples: number;
+    // A week-hour with fewer samples uses the daily profile
+    minWeeklySamples: number;
+}
+
+export interface Prediction {
+    value: number;
+    std: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+// Seasonality follows the local clock, so lectures keep their slot across DST changes
+export const seasonalSlot = (timestamp: number, timeZone: string): { hourOfWeek: number; hourOfDay: number } => {
+    let formatter = formatters.get(timeZone);
+    if (!formatter) {
+        formatter = new Intl.DateTimeFormat('en-US', { timeZone, weekday: 'short', hour: 'numeric', hourCycle: 'h23' });
+        formatters.set(timeZone, formatter);
+    }
+
+    const parts = formatter.formatToParts(new Date(timestamp));
+    const weekday = WEEKDAYS[parts.find(part => part.type === 'weekday')!.value]!;
+    const hourOfDay = parseInt(parts.find(part => part.type === 'hour')!.value) % HOURS_PER_DAY;
+
+    return { hourOfWeek: weekday * HOURS_PER_DAY + hourOfDay, hourOfDay };
+};
+
+const mean = (values: number[]): number =>
+    values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+const stdDev = (values: number[]): number => {
+    if (values.length < 2) return 0;
+    const avg = mean(values);
+    return Math.sqrt(values.reduce((sum, value) => sum + (value - avg) ** 2, 0) / (values.length - 1));
+};
+
+// Least-squares line through the series
+const fitTrend = (hours: number[], values: number[]): { level: number; slopePerHour: number } => {
+    const hoursMean = mean(hours);
+    const valuesMean = mean(values);
+    let covariance = 0;
+    let variance = 0;
+    for (let i = 0; i < hours.length; i++) {
+        covariance += (hours[i]! - hoursMean) * (values[i]! - valuesMean);
+        variance += (hours[i]! - hoursMean) ** 2;
+    }
+
+    const slopePerHour = variance > 0 ? covariance / variance : 0;
+    return { level: valuesMean - slopePerHour * hoursMean, slopePerHour };
+};
+
+const fitProfiles = (
+    slots: Array<{ hourOfWeek: number; hourOfDay: number }>,
+    detrended: number[]
+): { weekly: number[]; weeklyCounts: number[]; daily: number[] } => {
+    const weeklyValues: number[][] = Array.from({ length: HOURS_PER_WEEK }, () => []);
+    const dailyValues: number[][] = Array.from({ length: HOURS_PER_DAY }, () => []);
+    slots.forEach((slot, i) => {
+        weeklyValues[slot.hourOfWeek]!.push(detrended[i]!);
+        dailyValues[slot.hourOfDay]!.push(detrended[i]!);
+    });
+
+    return {
+        weekly: weeklyValues.map(mean),
+        weeklyCounts: weeklyValues.map(slotValues => slotValues.length),
+        daily: dailyValues.map(mean)
+    };
+};
+
+// Null when there is too little history to fit anything
+export const fitSeasonalModel = (
+    points: SeriesPoint[],
+    timeZone: string,
+    minWeeklySamples: number = 2
+): SeasonalModel | null => {
+    if (points.length < HOURS_PER_DAY) return null;
+
+    const sorted = [...points].sort((a, b) => a.timestamp - b.timestamp);
+    const origin = sorted[0]!.timestamp;
+    const hours = sorted.map(point => (point.timestamp - origin) / HOUR_MS);
+    const values = sorted.map(point => point.value);
+
+    const slots = sorted.map(point => seasonalSlot(point.timestamp, timeZone));
+
+    // Trend and seasonality are fitted in turns - a single trend fit is skewed
+    // by a history that, say, starts on a busy weekday and ends on a quiet weekend
+    let seasonalFit: number[] = values.map(() => 0);
+    let trend = { level: 0, slopePerHour: 0 };
+    let profiles = { weekly: [] as number[], weeklyCounts: [] as number[], daily: [] as number[] };
+    let detrended: number[] = [];
+
+    for (let iteration = 0; iteration < BACKFIT_ITERATIONS; iteration++) {
+        trend = fitTrend(hours, values.map((value, i) => value - seasonalFit[i]!));
+        detrended = values.map((value, i) => value - (trend.level + trend.slopePerHour * hours[i]!));
+        profiles = fitProfiles(slots, detrended);
+
+        seasonalFit = slots.map(slot => profiles.weeklyCounts[slot.hourOfWeek]! >= minWeeklySamples ?
+            profiles.weekly[slot.hourOfWeek]! : profiles.daily[slot.hourOfDay]!);
+    }
+
+    const { level, slopePerHour } = trend;
+    const { weekly, weeklyCounts, daily } = profiles;
+
+    const weeklyResiduals: number[][] = Array.from({ length: HOURS_PER_WEEK }, () => []);
+    const residuals = slots.map((slot, i) => {
+        const residual = detrended[i]! - seasonalFit[i]!;
+        weeklyResiduals[slot.hourOfWeek]!.push(residual);
+        return residual;
+    });
+
+    return {
+        origin,
+        level,
+        slopePerHour,
+        weekly,
+        weeklyCounts,
+        daily,
+        weeklyStd: weeklyResiduals.map(stdDev),
+        residualStd: stdDev(residuals),
+        samples: sorted.length,
+        minWeeklySamples
+    };
+};
+
+export const predict = (model: SeasonalModel, timestamp: number, timeZone: string): Prediction => {
+    const slot = seasonalSlot(timestamp, timeZone);
+    const hasWeekly = model.weeklyCounts[slot.hourOfWeek]! >= model.minWeeklySamples;
+
+    const trend = model.level + model.slopePerHour * ((timestamp - model.origin) / HOUR_MS);
+    const seasonal = hasWeekly ? model.weekly[slot.hourOfWeek]! : model.daily[slot.hourOfDay]!;
+
+    // A week-hour that has always looked the same still gets the overall spread as a floor
+    const std = hasWeekly ? Math.max(model.weeklyStd[slot.hourOfWeek]!, model.residualStd / 2) : model.residualStd;
+
+    return { value: Math.max(0, trend + seasonal), std };
+};
+
+// Share of the week's hours with enough history for the weekly profile
+export const weeklyCoverage = (model: SeasonalModel): number =>
+    model.weeklyCounts.filter(count => count >= model.minWeeklySamples).length / HOURS_PER_WEEK;
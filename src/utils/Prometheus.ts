@@ -0,0 +1,157 @@
+// src/utils/Prometheus.ts
+// Minimal Prometheus text exposition (format 0.0.4) for counters, gauges and histograms
+
+type Labels = Record<string, string>;
+
+const escapeLabelValue = (value: string): string =>
+    value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+
+const formatLabels = (labels: Labels): string => {
+    const entries = Object.entries(labels);
+    if (entries.length === 0) return '';
+
+    return `{${entries.map(([key, value]) => `${key}="${escapeLabelValue(value)}"`).join(',')}}`;
+};
+
+// Stable key so the same label set always hits the same series
+const labelKey = (labels: Labels): string =>
+    JSON.stringify(Object.keys(labels).sort().map(key => [key, labels[key]]));
+
+const formatValue = (value: number): string => {
+    if (value === Infinity) return '+Inf';
+    if (value === -Infinity) return '-Inf';
+    return Number.isNaN(value) ? 'NaN' : value.toString();
+};
+
+abstract class Metric {
+    constructor(
+        readonly name: string,
+        readonly help: string,
+        readonly type: 'counter' | 'gauge' | 'histogram'
+    ) {}
+
+    render(): string[] {
+        return [
+            `# HELP ${this.name} ${this.help}`,
+            `# TYPE ${this.name} ${this.type}`,
+            ...this.renderSamples()
+        ];
+    }
+
+    protected abstract renderSamples(): string[];
+}
+
+export class Counter extends Metric {
+    private series: Map<string, { labels: Labels; value: number }> = new Map();
+
+    constructor(name: string, help: string) {
+        super(name, help, 'counter');
+    }
+
+    inc(labels: Labels = {}, value = 1): void {
+        const key = labelKey(labels);
+        const current = this.series.get(key);
+
+        this.series.set(key, { labels, value: (current?.value || 0) + value });
+    }
+
+    protected renderSamples(): string[] {
+        return Array.from(this.series.values()).map(({ labels, value }) =>
+            `${this.name}${formatLabels(labels)} ${formatValue(value)}`
+        );
+    }
+}
+
+export class Gauge extends Metric {
+    private series: Map<string, { labels: Labels; value: number }> = new Map();
+
+    constructor(name: string, help: string) {
+        super(name, help, 'gauge');
+    }
+
+    set(labels: Labels, value: number): void {
+        this.series.set(labelKey(labels), { labels, value });
+    }
+
+    // Gauges filled from current state are cleared before each collection,
+    // so removed nodes and regions disappear instead of going stale
+    reset(): void {
+        this.series.clear();
+    }
+
+    protected renderSamples(): string[] {
+        return Array.from(this.series.values()).map(({ labels, value }) =>
+            `${this.name}${formatLabels(labels)} ${formatValue(value)}`
+        );
+    }
+}
+
+export class Histogram extends Metric {
+    private readonly buckets: number[];
+    private series: Map<string, { labels: Labels; counts: number[]; sum: number; count: number }> = new Map();
+
+    constructor(name: string, help: string, buckets: number[]) {
+        super(name, help, 'histogram');
+        this.buckets = [...buckets].sort((a, b) => a - b);
+    }
+
+    observe(labels: Labels, value: number): void {
+        const key = labelKey(labels);
+        const entry = this.series.get(key) || {
+            labels,
+            counts: this.buckets.map(() => 0),
+            sum: 0,
+            count: 0
+        };
+
+        this.buckets.forEach((bound, index) => {
+            if (value <= bound) {
+                entry.counts[index]!++;
+            }
+        });
+        entry.sum += value;
+        entry.count++;
+
+        this.series.set(key, entry);
+    }
+
+    protected renderSamples(): string[] {
+        const lines: string[] = [];
+
+        for (const { labels, counts, sum, count } of this.series.values()) {
+            this.buckets.forEach((bound, index) => {
+                lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: formatValue(bound) })} ${counts[index]}`);
+            });
+            lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`);
+            lines.push(`${this.name}_sum${formatLabels(labels)} ${formatValue(sum)}`);
+            lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+        }
+
+        return lines;
+    }
+}
+
+export class MetricsRegistry {
+    private metrics: Metric[] = [];
+    private collectors: Array<() => void> = [];
+
+    register<T extends Metric>(metric: T): T {
+        this.metrics.push(metric);
+        return metric;
+    }
+
+    // Runs right before every scrape, for metrics read from current state
+    addCollector(collector: () => void): void {
+        this.collectors.push(collector);
+    }
+
+    render(): string {
+        for (const collector of this.collectors) {
+            collector();
+        }
+
+        return this.metrics.flatMap(metric => metric.render()).join('\n') + '\n';
+    }
+}
+
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
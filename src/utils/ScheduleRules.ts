@@ -0,0 +1,377 @@
+// src/utils/ScheduleRules.ts
+// Occurrence calculation for recording schedules. Cron expressions (five
+// fields) and a subset of RFC 5545 RRULEs are evaluated on the local clock of
+// the schedule's time zone, so a 10:00 lecture stays at 10:00 across DST.
+
+export interface CronRule {
+    minutes: Set<number>;
+    hours: Set<number>;
+    daysOfMonth: Set<number>;
+    months: Set<number>;
+    daysOfWeek: Set<number>; // 0 = Monday
+    // Cron matches either day field when both are restricted
+    daysOfMonthRestricted: boolean;
+    daysOfWeekRestricted: boolean;
+}
+
+export interface RecurrenceRule {
+    freq: 'DAILY' | 'WEEKLY' | 'MONTHLY';
+    interval: number;
+    byDay?: number[] | undefined; // 0 = Monday
+    byMonthDay?: number[] | undefined;
+    byHour?: number[] | undefined;
+    byMinute?: number[] | undefined;
+    count?: number | undefined;
+    until?: number | undefined;
+}
+
+export interface ScheduleRecurrence {
+    recurrence: 'once' | 'cron' | 'rrule';
+    // One-off start, RRULE DTSTART, or the earliest cron run
+    startAt?: number | undefined;
+    cron?: string | undefined;
+    rrule?: string | undefined;
+    timezone: string;
+}
+
+interface LocalTime {
+    year: number;
+    month: number; // 1-12
+    day: number;
+    hour: number;
+    minute: number;
+    weekday: number; // 0 = Monday
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Covers yearly crons such as Feb 29
+const MAX_SEARCH_DAYS = 366 * 8;
+const MAX_COUNT = 1000;
+
+const WEEKDAY_NAMES = ['MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT', 'SUN'];
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+const RRULE_DAYS = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const localTime = (timestamp: number, timeZone: string): LocalTime => {
+    let formatter = formatters.get(timeZone);
+    if (!formatter) {
+        formatter = new Intl.DateTimeFormat('en-US', {
+            timeZone,
+            year: 'numeric',
+            month: 'numeric',
+            day: 'numeric',
+            hour: 'numeric',
+            minute: 'numeric',
+            weekday: 'short',
+            hourCycle: 'h23'
+        });
+        formatters.set(timeZone, formatter);
+    }
+
+    const parts = Object.fromEntries(formatter.formatToParts(new Date(timestamp)).map(part => [part.type, part.value]));
+
+    return {
+        year: parseInt(parts.year!),
+        month: parseInt(parts.month!),
+        day: parseInt(parts.day!),
+        hour: parseInt(parts.hour!) % 24,
+        minute: parseInt(parts.minute!),
+        weekday: WEEKDAY_NAMES.indexOf(parts.weekday!.toUpperCase())
+    };
+};
+
+// The instant a local wall-clock time happens, or null when DST skips it
+const zonedTime = (year: number, month: number, day: number, hour: number, minute: number, timeZone: string): number | null => {
+    const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+    const offsetAt = (timestamp: number): number => {
+        const local = localTime(timestamp, timeZone);
+        return Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute) - timestamp;
+    };
+
+    let timestamp = wallClock - offsetAt(wallClock);
+    const corrected = wallClock - offsetAt(timestamp);
+    if (corrected !== timestamp) timestamp = corrected;
+
+    const local = localTime(timestamp, timeZone);
+    return local.hour === hour && local.minute === minute ? timestamp : null;
+};
+
+export const isValidTimezone = (timeZone: string): boolean => {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone });
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+const parseCronField = (field: string, min: number, max: number, names: string[] = []): Set<number> => {
+    const values = new Set<number>();
+    const toNumber = (token: string): number => {
+        const named = names.indexOf(token.toUpperCase());
+        const value = named >= 0 ? named + min : Number(token);
+        if (!Number.isInteger(value) || value < min || value > max) {
+            throw new Error(`'${token}' is out of range ${min}-${max}`);
+        }
+        return value;
+    };
+
+    for (const part of field.split(',')) {
+        const [range, stepToken] = part.split('/');
+        const step = stepToken !== undefined ? Number(stepToken) : 1;
+        if (!Number.isInteger(step) || step < 1) {
+            throw new Error(`Invalid step in '${part}'`);
+        }
+
+        let start = min;
+        let end = max;
+        if (range !== '*') {
+            const [from, to] = range!.split('-');
+            start = toNumber(from!);
+            end = to !== undefined ? toNumber(to) : (stepToken !== undefined ? max : start);
+        }
+        if (start > end) {
+            throw new Error(`Invalid range '${range}'`);
+        }
+
+        for (let value = start; value <= end; value += step) {
+            values.add(value);
+        }
+    }
+
+    return values;
+};
+
+// minute hour day-of-month month day-of-week
+export const parseCron = (expression: string): CronRule => {
+    const fields = expression.trim().split(/\s+/);
+    if (fields.length !== 5) {
+        throw new Error('Cron expressions need five fields: minute hour day-of-month month day-of-week');
+    }
+
+    const [minute, hour, dayOfMonth, month, dayOfWeek] = fields as [string, string, string, string, string];
+
+    // Cron counts Sunday as 0 or 7; internally weeks start on Monday
+    const cronDays = parseCronField(dayOfWeek, 0, 7, ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT']);
+
+    return {
+        minutes: parseCronField(minute, 0, 59),
+        hours: parseCronField(hour, 0, 23),
+        daysOfMonth: parseCronField(dayOfMonth, 1, 31),
+        months: parseCronField(month, 1, 12, MONTH_NAMES),
+        daysOfWeek: new Set(Array.from(cronDays).map(day => (day + 6) % 7)),
+        daysOfMonthRestricted: dayOfMonth !== '*',
+        daysOfWeekRestricted: dayOfWeek !== '*'
+    };
+};
+
+// Supports FREQ (DAILY, WEEKLY, MONTHLY), INTERVAL, BYDAY, BYMONTHDAY, BYHOUR, BYMINUTE, COUNT and UNTIL
+export const parseRRule = (rule: string): RecurrenceRule => {
+    const params = new Map<string, string>();
+    for (const part of rule.trim().replace(/^RRULE:/i, '').split(';').filter(Boolean)) {
+        const [key, value] = part.split('=');
+        if (!key || value === undefined) {
+            throw new Error(`Invalid RRULE part '${part}'`);
+        }
+        params.set(key.toUpperCase(), value.toUpperCase());
+    }
+
+    const freq = params.get('FREQ');
+    if (freq !== 'DAILY' && freq !== 'WEEKLY' && freq !== 'MONTHLY') {
+        throw new Error('RRULE FREQ must be DAILY, WEEKLY or MONTHLY');
+    }
+
+    const numbers = (key: string, min: number, max: number): number[] | undefined => {
+        const value = params.get(key);
+        if (value === undefined) return undefined;
+
+        return value.split(',').map(token => {
+            const parsed = Number(token);
+            if (!Number.isInteger(parsed) || parsed < min || parsed > max) {
+                throw new Error(`RRULE ${key} value '${token}' is out of range ${min}-${max}`);
+            }
+            return parsed;
+        });
+    };
+
+    const byDay = params.get('BYDAY')?.split(',').map(token => {
+        const day = RRULE_DAYS.indexOf(token);
+        if (day < 0) {
+            throw new Error(`Unsupported RRULE BYDAY value '${token}'`);
+        }
+        return day;
+    });
+
+    let until: number | undefined;
+    const untilValue = params.get('UNTIL');
+    if (untilValue) {
+        const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/.exec(untilValue);
+        if (!match) {
+            throw new Error(`Invalid RRULE UNTIL '${untilValue}'`);
+        }
+        const [, year, month, day, hour = '23', minute = '59', second = '59'] = match;
+        until = Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute), Number(second));
+    }
+
+    const [count] = numbers('COUNT', 1, MAX_COUNT) || [];
+    const [interval] = numbers('INTERVAL', 1, 366) || [1];
+
+    for (const key of params.keys()) {
+        if (!['FREQ', 'INTERVAL', 'BYDAY', 'BYMONTHDAY', 'BYHOUR', 'BYMINUTE', 'COUNT', 'UNTIL'].includes(key)) {
+            throw new Error(`Unsupported RRULE part ${key}`);
+        }
+    }
+
+    if (count !== undefined && until !== undefined) {
+        throw new Error('RRULE COUNT and UNTIL cannot be combined');
+    }
+
+    return {
+        freq,
+        interval: interval!,
+        byDay,
+        byMonthDay: numbers('BYMONTHDAY', 1, 31),
+        byHour: numbers('BYHOUR', 0, 23),
+        byMinute: numbers('BYMINUTE', 0, 59),
+        count,
+        until
+    };
+};
+
+// Walks local calendar days from `after` and returns the first matching time later than it
+const searchDays = (
+    after: number,
+    timeZone: string,
+    matchesDay: (date: { year: number; month: number; day: number; weekday: number; dayNumber: number }) => boolean,
+    hours: number[],
+    minutes: number[]
+): number | null => {
+    const start = localTime(after, timeZone);
+    const firstDay = Date.UTC(start.year, start.month - 1, start.day) / DAY_MS;
+
+    for (let offset = 0; offset < MAX_SEARCH_DAYS; offset++) {
+        const date = new Date((firstDay + offset) * DAY_MS);
+        const candidate = {
+            year: date.getUTCFullYear(),
+            month: date.getUTCMonth() + 1,
+            day: date.getUTCDate(),
+            weekday: (date.getUTCDay() + 6) % 7,
+            dayNumber: firstDay + offset
+        };
+        if (!matchesDay(candidate)) continue;
+
+        for (const hour of hours) {
+            for (const minute of minutes) {
+                const timestamp = zonedTime(candidate.year, candidate.month, candidate.day, hour, minute, timeZone);
+                if (timestamp !== null && timestamp > after) return timestamp;
+            }
+        }
+    }
+
+    return null;
+};
+
+const sorted = (values: Iterable<number>): number[] => Array.from(values).sort((a, b) => a - b);
+
+const nextCronOccurrence = (rule: CronRule, after: number, timeZone: string): number | null =>
+    searchDays(after, timeZone, date => {
+        if (!rule.months.has(date.month)) return false;
+
+        const dayOfMonth = rule.daysOfMonth.has(date.day);
+        const dayOfWeek = rule.daysOfWeek.has(date.weekday);
+        if (rule.daysOfMonthRestricted && rule.daysOfWeekRestricted) return dayOfMonth || dayOfWeek;
+        return dayOfMonth && dayOfWeek;
+    }, sorted(rule.hours), sorted(rule.minutes));
+
+// Ignores COUNT - see nextOccurrence
+const nextRRuleOccurrence = (rule: RecurrenceRule, dtstart: number, after: number, timeZone: string): number | null => {
+    const start = localTime(dtstart, timeZone);
+    const startDay = Date.UTC(start.year, start.month - 1, start.day) / DAY_MS;
+    // Weeks are counted from the Monday of DTSTART's week
+    const startWeek = Math.floor((startDay - start.weekday) / 7);
+
+    const byDay = rule.byDay || (rule.freq === 'WEEKLY' ? [start.weekday] : undefined);
+    const byMonthDay = rule.byMonthDay || (rule.freq === 'MONTHLY' && !rule.byDay ? [start.day] : undefined);
+
+    const occurrence = searchDays(Math.max(after, dtstart - 1), timeZone, date => {
+        if (rule.freq === 'DAILY' && (date.dayNumber - startDay) % rule.interval !== 0) return false;
+        if (rule.freq === 'WEEKLY') {
+            const week = Math.floor((date.dayNumber - date.weekday) / 7);
+            if ((week - startWeek) % rule.interval !== 0) return false;
+        }
+        if (rule.freq === 'MONTHLY') {
+            const months = (date.year - start.year) * 12 + (date.month - start.month);
+            if (months % rule.interval !== 0) return false;
+        }
+
+        if (byDay && !byDay.includes(date.weekday)) return false;
+        if (byMonthDay && !byMonthDay.includes(date.day)) return false;
+        return true;
+    }, sorted(rule.byHour || [start.hour]), sorted(rule.byMinute || [start.minute]));
+
+    if (occurrence === null || (rule.until !== undefined && occurrence > rule.until)) return null;
+    return occurrence;
+};
+
+// Throws on an invalid rule. Call before saving a schedule.
+export const validateRecurrence = (schedule: ScheduleRecurrence): void => {
+    if (!isValidTimezone(schedule.timezone)) {
+        throw new Error(`Unknown time zone ${schedule.timezone}`);
+    }
+
+    switch (schedule.recurrence) {
+        case 'once':
+            if (!schedule.startAt) throw new Error('One-off schedules need startAt');
+            break;
+        case 'cron':
+            if (!schedule.cron) throw new Error('Cron schedules need a cron expression');
+            parseCron(schedule.cron);
+            break;
+        case 'rrule':
+            if (!schedule.rrule) throw new Error('RRULE schedules need an rrule');
+            if (!schedule.startAt) throw new Error('RRULE schedules need startAt as DTSTART');
+            parseRRule(schedule.rrule);
+            break;
+    }
+};
+
+// First occurrence later than `after`, or null when the schedule has no more
+export const nextOccurrence = (schedule: ScheduleRecurrence, after: number): number | null => {
+    switch (schedule.recurrence) {
+        case 'once':
+            return schedule.startAt! > after ? schedule.startAt! : null;
+
+        case 'cron':
+            return nextCronOccurrence(parseCron(schedule.cron!), Math.max(after, (schedule.startAt || 0) - 1), schedule.timezone);
+
+        case 'rrule': {
+            const rule = parseRRule(schedule.rrule!);
+            if (rule.count === undefined) {
+                return nextRRuleOccurrence(rule, schedule.startAt!, after, schedule.timezone);
+            }
+
+            // COUNT limits occurrences from DTSTART, so count them up to `after`
+            let occurrence: number | null = schedule.startAt! - 1;
+            for (let index = 0; index < rule.count; index++) {
+                occurrence = nextRRuleOccurrence(rule, schedule.startAt!, occurrence, schedule.timezone);
+                if (occurrence === null) return null;
+                if (occurrence > after) return occurrence;
+            }
+            return null;
+        }
+    }
+};
+
+export const upcomingOccurrences = (schedule: ScheduleRecurrence, after: number, limit: number): number[] => {
+    const occurrences: number[] = [];
+    let next = nextOccurrence(schedule, after);
+
+    while (next !== null && occurrences.length < limit) {
+        occurrences.push(next);
+        next = nextOccurrence(schedule, next);
+    }
+
+    return occurrences;
+};
@@ -0,0 +1,75 @@
+import { Request, Response } from 'express';
+import { NodesController } from '../../src/controllers/NodesController';
+import { FFmpegNode } from '../../src/types/interfaces';
+import { AUDIO_ONLY, audio, createHarness, recordingRequest, registerFFmpegNode } from '../helpers/orchestration';
+
+const createResponse = () => {
+    const res = { status: jest.fn(), json: jest.fn() };
+    res.status.mockReturnValue(res);
+    return res;
+};
+
+describe('NodesController', () => {
+    let harness: ReturnType<typeof createHarness>;
+    let controller: NodesController;
+    let node: FFmpegNode;
+
+    // Runs a handler and returns the status it answered with
+    const call = async (
+        handler: 'cordonNode' | 'uncordonNode' | 'drainNode' | 'removeNode',
+        nodeId: string,
+        body: Record<string, unknown> = {}
+    ): Promise<number> => {
+        const res = createResponse();
+        await controller[handler]({ params: { nodeId }, query: {}, body } as unknown as Request, res as unknown as Response);
+        return res.status.mock.calls[0]?.[0] ?? 200;
+    };
+
+    beforeEach(async () => {
+        jest.spyOn(global, 'fetch').mockImplementation(async () => new Response('{}', { status: 200 }));
+
+        harness = createHarness();
+        controller = new NodesController(harness.service);
+
+        await harness.service.registerRoomServer({
+            serverId: 'room-eu',
+            url: 'http://room-eu.local:3000',
+            region: 'eu-central',
+            capacity: 100
+        });
+        node = await registerFFmpegNode(harness.service, 'eu-central');
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('answers 404 for an unknown node', async () => {
+        for (const handler of ['cordonNode', 'uncordonNode', 'drainNode', 'removeNode'] as const) {
+            expect(await call(handler, 'no-such-node')).toBe(404);
+        }
+    });
+
+    it('answers 409 when cordoning a node twice', async () => {
+        expect(await call('cordonNode', node.id)).toBe(200);
+        expect(await call('cordonNode', node.id)).toBe(409);
+    });
+
+    it('answers 409 when the node is already draining', async () => {
+        await harness.service.startDistributedRecording(recordingRequest([audio], AUDIO_ONLY));
+
+        expect(await call('drainNode', node.id)).toBe(202);
+        expect(await call('drainNode', node.id)).toBe(409);
+        expect(await call('cordonNode', node.id)).toBe(409);
+    });
+
+    it('answers 409 when removing a node with active recordings', async () => {
+        await harness.service.startDistributedRecording(recordingRequest([audio], AUDIO_ONLY));
+
+        expect(await call('removeNode', node.id)).toBe(409);
+    });
+
+    it('answers 400 when migrating jobs off a room server', async () => {
+        expect(await call('drainNode', 'room-eu', { mode: 'migrate' })).toBe(400);
+    });
+});
@@ -0,0 +1,74 @@
+import { OrchestrationService } from '../../src/services/OrchestrationService';
+import { LoadBalancerService } from '../../src/services/LoadBalancerService';
+import { NodeManager } from '../../src/services/NodeManager';
+import { AutoScalingService } from '../../src/services/AutoScalingService';
+import { JobQueueService } from '../../src/services/JobQueueService';
+import { RequestSigningService } from '../../src/services/RequestSigningService';
+import { MetricsHistoryService } from '../../src/services/MetricsHistoryService';
+import { CapacityReservationService } from '../../src/services/CapacityReservationService';
+import { Database } from '../../src/database/Database';
+import { DistributedRecordingRequest, FFmpegNode, RecordingOptions, RTPStreamInfo } from '../../src/types/interfaces';
+
+// An OrchestrationService over the real load balancer, node manager and
+// reservations, with the database, queue and signing stubbed out
+
+// Every database call resolves without a row
+export const createDatabase = (): Database => new Proxy({} as Record<string | symbol, jest.Mock>, {
+    get: (target, property) => target[property] ??= jest.fn().mockResolvedValue(undefined)
+}) as unknown as Database;
+
+export const audio: RTPStreamInfo = { kind: 'audio', port: 0, payloadType: 111, ssrc: 1111, codecName: 'opus' };
+export const video: RTPStreamInfo = { kind: 'video', port: 0, payloadType: 96, ssrc: 2222, codecName: 'vp8' };
+export const HIGH_QUALITY: RecordingOptions = { quality: 'high', format: 'webm', includeAudio: true, includeVideo: true };
+export const AUDIO_ONLY: RecordingOptions = { quality: 'low', format: 'webm', includeAudio: true, includeVideo: false };
+
+export const createHarness = () => {
+    const database = createDatabase();
+    const reservations = new CapacityReservationService(database);
+    const jobQueue = { enqueue: jest.fn().mockResolvedValue(1), size: jest.fn().mockReturnValue(1) };
+    const signingService = { issueSecret: jest.fn().mockResolvedValue('secret'), sign: jest.fn().mockReturnValue({}) };
+
+    const service = new OrchestrationService(
+        database,
+        new LoadBalancerService(),
+        new NodeManager(),
+        { stop: jest.fn().mockResolvedValue(undefined) } as unknown as AutoScalingService,
+        jobQueue as unknown as JobQueueService,
+        signingService as unknown as RequestSigningService,
+        {} as MetricsHistoryService,
+        reservations
+    );
+
+    return { service, database, reservations, jobQueue };
+};
+
+// 4 cores make a node of 6 load units. Returns the service's own node object.
+export const registerFFmpegNode = async (service: OrchestrationService, region: string): Promise<FFmpegNode> => {
+    let registered: FFmpegNode | undefined;
+    service.once('ffmpegNodeRegistered', (node: FFmpegNode) => {
+        registered = node;
+    });
+
+    await service.registerFFmpegNode({
+        url: `http://${region}.ffmpeg.local:8000`,
+        region,
+        specs: { cpuCores: 4, ram: 8 * 1024 ** 3, hasGPU: false, diskSpace: 500 * 1024 ** 3 }
+    });
+
+    return registered!;
+};
+
+export const recordingRequest = (
+    rtpStreams: RTPStreamInfo[],
+    options: RecordingOptions,
+    reservationId?: string
+): DistributedRecordingRequest => ({
+    roomServerId: 'room-eu',
+    roomId: 'lecture-hall',
+    peerId: `peer-${Math.random().toString(36).slice(2, 8)}`,
+    peerInfo: { peerId: 'peer', displayName: 'Peer', isAuthenticated: true, roles: ['student'], joinTime: Date.now() },
+    rtpStreams,
+    options,
+    requesterInfo: { ip: '127.0.0.1', timestamp: Date.now() },
+    reservationId
+});
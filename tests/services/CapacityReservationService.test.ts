@@ -0,0 +1,94 @@
+import { CapacityReservationService } from '../../src/services/CapacityReservationService';
+import { Database } from '../../src/database/Database';
+import { CapacityReservation } from '../../src/types/interfaces';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const createService = (): CapacityReservationService => {
+    const database = {
+        saveCapacityReservation: jest.fn().mockResolvedValue(undefined),
+        deleteCapacityReservation: jest.fn().mockResolvedValue(undefined)
+    } as unknown as Database;
+
+    return new CapacityReservationService(database);
+};
+
+// Open from an hour ago for two more hours
+const reserve = (service: CapacityReservationService, region: string, loadUnits: number): Promise<CapacityReservation> =>
+    service.createReservation({
+        name: `${region} exam`,
+        region,
+        startsAt: Date.now() - HOUR_MS,
+        endsAt: Date.now() + 2 * HOUR_MS,
+        loadUnits
+    }, 100);
+
+describe('CapacityReservationService', () => {
+    let service: CapacityReservationService;
+
+    beforeEach(() => {
+        service = createService();
+    });
+
+    describe('getUsage', () => {
+        it('counts the estimated load of each job, not one unit per job', async () => {
+            const reservation = await reserve(service, 'eu-central', 10);
+
+            const usage = service.getUsage([
+                { reservationId: reservation.id, region: 'eu-central', load: 3 },
+                { reservationId: reservation.id, region: 'eu-central', load: 1.5 }
+            ]);
+
+            expect(usage.get(reservation.id)).toBe(4.5);
+        });
+
+        it('never uses more than the reservation holds', async () => {
+            const reservation = await reserve(service, 'eu-central', 4);
+
+            const usage = service.getUsage([
+                { reservationId: reservation.id, region: 'eu-central', load: 3 },
+                { reservationId: reservation.id, region: 'eu-central', load: 3 }
+            ]);
+
+            expect(usage.get(reservation.id)).toBe(4);
+        });
+
+        it('ignores jobs running outside the reservation region', async () => {
+            const reservation = await reserve(service, 'eu-central', 4);
+
+            const usage = service.getUsage([
+                { reservationId: reservation.id, region: 'us-east', load: 3 }
+            ]);
+
+            expect(usage.has(reservation.id)).toBe(false);
+            expect(service.getHeldBackCapacity(usage)).toEqual({ 'eu-central': 4 });
+        });
+
+        it('ignores unknown and ended reservations', () => {
+            expect(service.getUsage([{ reservationId: 'rsv_missing', region: 'eu-central', load: 3 }]).size).toBe(0);
+        });
+    });
+
+    describe('getHeldBackCapacity', () => {
+        it('holds back the load units still unused per region', async () => {
+            const exam = await reserve(service, 'eu-central', 6);
+            const lecture = await reserve(service, 'eu-central', 2);
+            await reserve(service, 'us-east', 3);
+
+            const usage = service.getUsage([{ reservationId: exam.id, region: 'eu-central', load: 3 }]);
+
+            expect(service.getHeldBackCapacity(usage)).toEqual({ 'eu-central': 5, 'us-east': 3 });
+            // A job on the exam reservation isn't held back from its own units
+            expect(service.getHeldBackCapacity(usage, exam.id)).toEqual({ 'eu-central': lecture.loadUnits, 'us-east': 3 });
+        });
+    });
+
+    describe('createReservation', () => {
+        it('rejects reservations that over-subscribe the region', async () => {
+            await reserve(service, 'eu-central', 60);
+
+            await expect(reserve(service, 'eu-central', 41)).rejects.toThrow('over-subscribe');
+            await expect(reserve(service, 'us-east', 41)).resolves.toMatchObject({ region: 'us-east' });
+        });
+    });
+});
@@ -0,0 +1,60 @@
+import { LoadBalancerService } from '../../src/services/LoadBalancerService';
+import { FFmpegNode, RecordingRequirements } from '../../src/types/interfaces';
+
+const node = (id: string, region: string, capacity: number, currentLoad: number): FFmpegNode => ({
+    id,
+    url: `http://${id}:8000`,
+    region,
+    capacity,
+    currentLoad,
+    isHealthy: true,
+    lastHeartbeat: Date.now(),
+    specs: { cpuCores: 8, ram: 16 * 1024 ** 3, hasGPU: false, diskSpace: 500 * 1024 ** 3 },
+    supportedCodecs: ['opus', 'VP8', 'H264'],
+    activeJobs: []
+});
+
+const requirements = (estimatedLoad: number, heldBackCapacity?: Record<string, number>): RecordingRequirements => ({
+    region: 'eu-central',
+    codecRequirements: ['opus'],
+    estimatedLoad,
+    ...(heldBackCapacity && { heldBackCapacity })
+});
+
+describe('LoadBalancerService', () => {
+    const loadBalancer = new LoadBalancerService();
+
+    describe('selectOptimalFFmpegNode with capacity reservations', () => {
+        // 5 free load units in eu-central, 8 in us-east
+        const nodes = [
+            node('eu-1', 'eu-central', 6, 3),
+            node('eu-2', 'eu-central', 6, 4),
+            node('us-1', 'us-east', 8, 0)
+        ];
+
+        it('does not admit a job whose load only fits into held-back capacity', async () => {
+            // Only 2 units are left beyond the 3 held back, so a 3-unit job goes elsewhere
+            const selected = await loadBalancer.selectOptimalFFmpegNode(nodes, requirements(3, { 'eu-central': 3 }));
+
+            expect(selected?.region).toBe('us-east');
+        });
+
+        it('admits a job that fits next to the held-back capacity', async () => {
+            const selected = await loadBalancer.selectOptimalFFmpegNode(nodes, requirements(2, { 'eu-central': 3 }));
+
+            expect(selected?.region).toBe('eu-central');
+        });
+
+        it('returns no node when every region is held back', async () => {
+            const selected = await loadBalancer.selectOptimalFFmpegNode(nodes, requirements(3, { 'eu-central': 3, 'us-east': 6 }));
+
+            expect(selected).toBeNull();
+        });
+
+        it('ignores held-back capacity of other regions', async () => {
+            const selected = await loadBalancer.selectOptimalFFmpegNode(nodes, requirements(3, { 'us-east': 8 }));
+
+            expect(selected?.region).toBe('eu-central');
+        });
+    });
+});
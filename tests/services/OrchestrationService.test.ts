@@ -0,0 +1,242 @@
+import { config } from '../../src/config/config';
+import { DistributedRecordingJob, FFmpegNode } from '../../src/types/interfaces';
+import {
+    AUDIO_ONLY,
+    audio,
+    createHarness,
+    HIGH_QUALITY,
+    recordingRequest,
+    registerFFmpegNode,
+    video
+} from '../helpers/orchestration';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('OrchestrationService', () => {
+    let harness: ReturnType<typeof createHarness>;
+    let euNode: FFmpegNode;
+    let usNode: FFmpegNode;
+
+    beforeEach(async () => {
+        jest.spyOn(global, 'fetch').mockImplementation(async () => new Response('{}', { status: 200 }));
+
+        harness = createHarness();
+        await harness.service.registerRoomServer({
+            serverId: 'room-eu',
+            url: 'http://room-eu.local:3000',
+            region: 'eu-central',
+            capacity: 100
+        });
+        euNode = await registerFFmpegNode(harness.service, 'eu-central');
+        usNode = await registerFFmpegNode(harness.service, 'us-east');
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    const nodeOf = async (jobId: string): Promise<string | undefined> =>
+        (await harness.service.getRecordingJob(jobId))?.ffmpegNodeId;
+
+    describe('placement against capacity reservations', () => {
+        const reserve = (region: string, loadUnits: number) => harness.reservations.createReservation({
+            name: 'Anatomy final exam',
+            region,
+            startsAt: Date.now() - HOUR_MS,
+            endsAt: Date.now() + HOUR_MS,
+            loadUnits
+        }, 12);
+
+        it('does not let ad-hoc jobs take reserved load units', async () => {
+            await reserve('eu-central', 4);
+
+            // 6 units, 4 of them reserved: a 3-unit video job doesn't fit next to the reservation
+            const videoJob = await harness.service.startDistributedRecording(recordingRequest([audio, video], HIGH_QUALITY));
+            const audioJob = await harness.service.startDistributedRecording(recordingRequest([audio], AUDIO_ONLY));
+
+            expect(await nodeOf(videoJob)).toBe(usNode.id);
+            expect(await nodeOf(audioJob)).toBe(euNode.id);
+        });
+
+        it('counts jobs on the reservation by the load units they use', async () => {
+            const reservation = await reserve('eu-central', 4);
+
+            const examJob = await harness.service.startDistributedRecording(
+                recordingRequest([audio, video], HIGH_QUALITY, reservation.id)
+            );
+            expect(await nodeOf(examJob)).toBe(euNode.id);
+            expect(harness.service.getReservationUsage().get(reservation.id)).toBe(3);
+
+            // 3 units free and 1 still reserved - room for audio, not for another video job
+            const videoJob = await harness.service.startDistributedRecording(recordingRequest([audio, video], HIGH_QUALITY));
+            const audioJob = await harness.service.startDistributedRecording(recordingRequest([audio], AUDIO_ONLY));
+
+            expect(await nodeOf(videoJob)).toBe(usNode.id);
+            expect(await nodeOf(audioJob)).toBe(euNode.id);
+        });
+
+        it('does not count a job placed outside the reservation region', async () => {
+            const reservation = await reserve('us-east', 4);
+
+            const jobId = await harness.service.startDistributedRecording(recordingRequest([audio, video], HIGH_QUALITY, reservation.id));
+
+            expect(await nodeOf(jobId)).toBe(euNode.id);
+            expect(harness.service.getReservationUsage().has(reservation.id)).toBe(false);
+            expect(harness.reservations.getHeldBackCapacity(harness.service.getReservationUsage())).toEqual({ 'us-east': 4 });
+        });
+    });
+
+    describe('node load', () => {
+        const compositeRequest = () => ({
+            roomServerId: 'room-eu',
+            roomId: 'lecture-hall',
+            layout: 'grid' as const,
+            options: HIGH_QUALITY,
+            requesterInfo: { ip: '127.0.0.1', timestamp: Date.now() },
+            participants: [
+                { peerId: 'lecturer', rtpStreams: [audio, video] },
+                { peerId: 'student', rtpStreams: [{ ...audio, ssrc: 3333 }, { ...video, ssrc: 4444 }] }
+            ]
+        });
+
+        it('charges the node the estimated load of the job', async () => {
+            const jobId = await harness.service.startDistributedRecording(recordingRequest([audio, video], HIGH_QUALITY));
+
+            expect(await nodeOf(jobId)).toBe(euNode.id);
+            expect(euNode.currentLoad).toBe(3);
+        });
+
+        it('charges a composite its estimated load and releases the same on stop', async () => {
+            // 1 base + 3 high-quality encode + 2 x 0.5 decode
+            const first = await harness.service.startCompositeRecording(compositeRequest());
+            expect(await nodeOf(first)).toBe(euNode.id);
+            expect(euNode.currentLoad).toBe(5);
+
+            // Doesn't fit into the single unit left on the node
+            const second = await harness.service.startCompositeRecording(compositeRequest());
+            expect(await nodeOf(second)).toBe(usNode.id);
+
+            await harness.service.stopDistributedRecording(first);
+            expect(euNode.currentLoad).toBe(0);
+            expect(euNode.activeJobs).toEqual([]);
+        });
+    });
+
+    describe('redaction of live output credentials', () => {
+        const STREAM_KEY = 'live_4f1c2a9e8b7d6c5a';
+
+        const startWithRtmpOutput = () => harness.service.startDistributedRecording({
+            ...recordingRequest([audio, video], HIGH_QUALITY),
+            outputs: [{ type: 'file' }, { type: 'rtmp', url: 'rtmp://live.example.com/app', streamKey: STREAM_KEY }]
+        });
+
+        it('keeps stream keys out of WebSocket messages', async () => {
+            const sent: string[] = [];
+            const ws = { readyState: 1, send: (message: string) => sent.push(message), on: jest.fn() };
+            harness.service.subscribeToMetrics(ws);
+
+            const jobId = await startWithRtmpOutput();
+            harness.service.subscribeToRecordings(ws);
+            await harness.service.stopDistributedRecording(jobId);
+
+            expect(sent.some(message => message.includes('recording_started'))).toBe(true);
+            expect(sent.some(message => message.includes('"recordings"'))).toBe(true);
+            expect(sent.some(message => message.includes('recording_completed'))).toBe(true);
+            expect(sent.join('\n')).not.toContain(STREAM_KEY);
+        });
+
+        it('keeps stream keys out of the history', async () => {
+            const jobId = await startWithRtmpOutput();
+            const job = await harness.service.getRecordingJob(jobId) as DistributedRecordingJob;
+            (harness.database.getRecordingJobHistory as jest.Mock).mockResolvedValue({ records: [job], total: 1 });
+
+            const history = await harness.service.getRecordingHistory({ page: 1, limit: 20 });
+
+            expect(history.total).toBe(1);
+            expect(JSON.stringify(history.records)).not.toContain(STREAM_KEY);
+            // The running job itself keeps the key it publishes with
+            expect(job.outputs!.find(output => output.type === 'rtmp')!.streamKey).toBe(STREAM_KEY);
+        });
+    });
+
+    describe('health monitoring', () => {
+        afterEach(async () => {
+            await harness.service.shutdown();
+            jest.useRealTimers();
+        });
+
+        it('keeps recovering jobs from an unhealthy node when one of them fails', async () => {
+            const jobIds: string[] = [];
+            for (const ssrc of [1111, 2222]) {
+                const jobId = await harness.service.startDistributedRecording(recordingRequest([{ ...audio, ssrc }], AUDIO_ONLY));
+                await harness.service.handleRecordingEvent({ jobId, event: 'started', data: {} });
+                await harness.service.migrateRecording(jobId, { targetNodeId: usNode.id });
+                jobIds.push(jobId);
+            }
+
+            // The migration target stops reporting, and saving the first aborted migration fails
+            (harness.database.updateRecordingJob as jest.Mock).mockRejectedValueOnce(new Error('connection reset'));
+            jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+            usNode.lastHeartbeat = Date.now() - 2 * 60 * 1000;
+            euNode.lastHeartbeat = Date.now();
+
+            harness.service.startHealthMonitoring();
+            await jest.advanceTimersByTimeAsync(30000);
+
+            for (const jobId of jobIds) {
+                const job = await harness.service.getRecordingJob(jobId);
+                expect(job?.migration).toBeUndefined();
+                expect(job?.ffmpegNodeId).toBe(euNode.id);
+            }
+        });
+    });
+
+    describe('stopping on a node that refuses', () => {
+        const startRecording = async (options = AUDIO_ONLY) => {
+            const jobId = await harness.service.startDistributedRecording(recordingRequest([audio], options));
+            await harness.service.handleRecordingEvent({ jobId, event: 'started', data: {} });
+
+            jest.mocked(fetch).mockImplementation(async url => String(url).endsWith('/stop-recording')
+                ? new Response('{}', { status: 500, statusText: 'Internal Server Error' })
+                : new Response('{}', { status: 200 }));
+
+            return jobId;
+        };
+
+        afterEach(async () => {
+            await harness.service.shutdown();
+            jest.useRealTimers();
+        });
+
+        it('does not report the job as completed', async () => {
+            const completed = jest.fn();
+            harness.service.on('recordingJobCompleted', completed);
+            const jobId = await startRecording();
+
+            await expect(harness.service.stopDistributedRecording(jobId)).rejects.toThrow(`did not stop job ${jobId}`);
+
+            expect(harness.database.updateRecordingJob).toHaveBeenLastCalledWith(expect.objectContaining({ status: 'failed' }));
+            expect(completed).not.toHaveBeenCalled();
+            // The node still runs the recording, so it keeps its load
+            expect(euNode.currentLoad).toBe(1);
+        });
+
+        it('audits a max duration stop that the node refused', async () => {
+            const jobId = await startRecording({ ...AUDIO_ONLY, maxDuration: 60 * 1000 });
+
+            jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+            jest.setSystemTime(Date.now() + 2 * 60 * 1000);
+            harness.service.startHealthMonitoring();
+            await jest.advanceTimersByTimeAsync(config.recording.supervisorInterval);
+
+            expect(harness.database.saveJobAuditRecord).toHaveBeenCalledWith(expect.objectContaining({
+                jobId,
+                action: 'max_duration_stop_failed'
+            }));
+            expect(harness.database.saveJobAuditRecord).not.toHaveBeenCalledWith(expect.objectContaining({
+                action: 'max_duration_exceeded'
+            }));
+            expect(await harness.service.getRecordingJob(jobId)).toBeUndefined();
+        });
+    });
+});
@@ -0,0 +1,129 @@
+import { RequestSigningService, SignedRequest } from '../../src/services/RequestSigningService';
+import { Database } from '../../src/database/Database';
+import { config } from '../../src/config/config';
+
+const NODE_ID = 'ffmpeg-node-1';
+const BODY = JSON.stringify({ jobId: 'job-1' });
+
+const createService = async (): Promise<RequestSigningService> => {
+    const database = {
+        saveNodeSigningSecret: jest.fn().mockResolvedValue(undefined),
+        deleteNodeSigningSecret: jest.fn().mockResolvedValue(undefined)
+    } as unknown as Database;
+
+    const service = new RequestSigningService(database);
+    await service.issueSecret(NODE_ID);
+    return service;
+};
+
+// The request a node sees for headers produced by sign()
+const toRequest = (headers: Record<string, string>, overrides: Partial<SignedRequest> = {}): SignedRequest => {
+    const { HEADERS } = RequestSigningService;
+
+    return {
+        nodeId: NODE_ID,
+        method: 'POST',
+        path: '/recording/start',
+        body: BODY,
+        timestamp: headers[HEADERS.timestamp],
+        nonce: headers[HEADERS.nonce],
+        signature: headers[HEADERS.signature],
+        ...overrides
+    };
+};
+
+describe('RequestSigningService', () => {
+    let service: RequestSigningService;
+    let now: number;
+
+    beforeEach(async () => {
+        now = Date.parse('2026-03-29T08:00:00Z');
+        jest.spyOn(Date, 'now').mockImplementation(() => now);
+        service = await createService();
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('verifies a request it signed', () => {
+        const headers = service.sign(NODE_ID, 'post', '/recording/start', BODY);
+
+        expect(headers[RequestSigningService.HEADERS.nodeId]).toBe(NODE_ID);
+        expect(() => service.verify(toRequest(headers))).not.toThrow();
+    });
+
+    it('rejects a tampered body, path or method', () => {
+        const headers = service.sign(NODE_ID, 'POST', '/recording/start', BODY);
+
+        expect(() => service.verify(toRequest(headers, { body: JSON.stringify({ jobId: 'job-2' }) }))).toThrow('Invalid signature');
+        expect(() => service.verify(toRequest(headers, { path: '/recording/stop' }))).toThrow('Invalid signature');
+        expect(() => service.verify(toRequest(headers, { method: 'DELETE' }))).toThrow('Invalid signature');
+    });
+
+    it('rejects a replayed nonce', () => {
+        const headers = service.sign(NODE_ID, 'POST', '/recording/start', BODY);
+
+        service.verify(toRequest(headers));
+        expect(() => service.verify(toRequest(headers))).toThrow('Replayed nonce');
+    });
+
+    it('does not remember nonces of requests with a bad signature', () => {
+        const headers = service.sign(NODE_ID, 'POST', '/recording/start', BODY);
+
+        expect(() => service.verify(toRequest(headers, { signature: 'v1=forged' }))).toThrow('Invalid signature');
+        expect(() => service.verify(toRequest(headers))).not.toThrow();
+    });
+
+    it('accepts clock skew up to the tolerance in either direction', () => {
+        const tolerance = config.auth.signatureToleranceMs;
+        const signedAt = now;
+
+        const late = service.sign(NODE_ID, 'POST', '/recording/start', BODY);
+        now = signedAt + tolerance;
+        expect(() => service.verify(toRequest(late))).not.toThrow();
+
+        now = signedAt;
+        const early = service.sign(NODE_ID, 'POST', '/recording/start', BODY);
+        now = signedAt - tolerance;
+        expect(() => service.verify(toRequest(early))).not.toThrow();
+    });
+
+    it('rejects timestamps beyond the tolerance', () => {
+        const tolerance = config.auth.signatureToleranceMs;
+        const signedAt = now;
+        const headers = service.sign(NODE_ID, 'POST', '/recording/start', BODY);
+
+        now = signedAt + tolerance + 1;
+        expect(() => service.verify(toRequest(headers))).toThrow('Stale request timestamp');
+
+        now = signedAt - tolerance - 1;
+        expect(() => service.verify(toRequest(headers))).toThrow('Stale request timestamp');
+    });
+
+    it('rejects a non-numeric timestamp', () => {
+        const headers = service.sign(NODE_ID, 'POST', '/recording/start', BODY);
+
+        expect(() => service.verify(toRequest(headers, { timestamp: 'yesterday' }))).toThrow('skew unknown');
+    });
+
+    it('rejects unknown nodes and missing headers', () => {
+        const headers = service.sign(NODE_ID, 'POST', '/recording/start', BODY);
+
+        expect(() => service.verify(toRequest(headers, { nodeId: 'ffmpeg-node-2' }))).toThrow('Unknown node');
+        expect(() => service.verify(toRequest(headers, { nonce: undefined }))).toThrow('Missing signature headers');
+    });
+
+    it('rejects requests signed with a rotated secret', async () => {
+        const headers = service.sign(NODE_ID, 'POST', '/recording/start', BODY);
+        await service.issueSecret(NODE_ID);
+
+        expect(() => service.verify(toRequest(headers))).toThrow('Invalid signature');
+    });
+
+    it('sends unsigned requests to nodes without a secret', async () => {
+        await service.revokeSecret(NODE_ID);
+
+        expect(service.sign(NODE_ID, 'POST', '/recording/start', BODY)).toEqual({});
+    });
+});
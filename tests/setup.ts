@@ -0,0 +1,5 @@
+// Config is validated on import, so the tests need the settings a deployment must provide
+process.env.JWT_SECRET = process.env.JWT_SECRET || 'test-secret-that-is-at-least-32-characters';
+
+// Keeps the tests from writing log files
+jest.mock('../src/utils/Logger');
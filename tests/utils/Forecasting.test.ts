@@ -0,0 +1,67 @@
+import { fitSeasonalModel, predict, seasonalSlot, SeriesPoint, weeklyCoverage } from '../../src/utils/Forecasting';
+
+const HOUR_MS = 60 * 60 * 1000;
+const utc = (iso: string): number => Date.parse(iso);
+
+// Busy 09:00-16:59 on weekdays, quiet otherwise
+const lectureLoad = (timestamp: number): number => {
+    const date = new Date(timestamp);
+    const weekday = date.getUTCDay() >= 1 && date.getUTCDay() <= 5;
+    return weekday && date.getUTCHours() >= 9 && date.getUTCHours() < 17 ? 10 : 2;
+};
+
+const hourlySeries = (from: number, hours: number, value: (timestamp: number) => number): SeriesPoint[] =>
+    Array.from({ length: hours }, (_, hour) => {
+        const timestamp = from + hour * HOUR_MS;
+        return { timestamp, value: value(timestamp) };
+    });
+
+describe('Forecasting', () => {
+    describe('seasonalSlot', () => {
+        it('follows the local clock across DST changes', () => {
+            // Monday 10:00 in Berlin before and after the spring change
+            const before = seasonalSlot(utc('2026-03-23T09:00:00Z'), 'Europe/Berlin');
+            const after = seasonalSlot(utc('2026-03-30T08:00:00Z'), 'Europe/Berlin');
+
+            expect(before).toEqual({ hourOfWeek: 10, hourOfDay: 10 });
+            expect(after).toEqual(before);
+        });
+    });
+
+    describe('fitSeasonalModel', () => {
+        it('needs at least a day of history', () => {
+            expect(fitSeasonalModel(hourlySeries(utc('2026-03-02T00:00:00Z'), 23, () => 1), 'UTC')).toBeNull();
+        });
+
+        it('predicts the weekly profile', () => {
+            const points = hourlySeries(utc('2026-03-02T00:00:00Z'), 3 * 168, lectureLoad);
+            const model = fitSeasonalModel(points, 'UTC')!;
+
+            expect(model.samples).toBe(3 * 168);
+            expect(weeklyCoverage(model)).toBe(1);
+            expect(model.slopePerHour).toBeCloseTo(0, 6);
+
+            // Wednesday 10:00 and 22:00, and Saturday 10:00 of the following week
+            expect(predict(model, utc('2026-03-25T10:00:00Z'), 'UTC').value).toBeCloseTo(10, 3);
+            expect(predict(model, utc('2026-03-25T22:00:00Z'), 'UTC').value).toBeCloseTo(2, 3);
+            expect(predict(model, utc('2026-03-28T10:00:00Z'), 'UTC').value).toBeCloseTo(2, 3);
+        });
+
+        it('falls back to the daily profile for week-hours with too little history', () => {
+            // Monday to Wednesday of a single week
+            const points = hourlySeries(utc('2026-03-02T00:00:00Z'), 3 * 24, lectureLoad);
+            const model = fitSeasonalModel(points, 'UTC')!;
+
+            expect(weeklyCoverage(model)).toBe(0);
+            // Thursday has no history of its own but every weekday looks the same
+            expect(predict(model, utc('2026-03-05T10:00:00Z'), 'UTC').value).toBeCloseTo(10, 3);
+        });
+
+        it('never predicts negative load', () => {
+            const points = hourlySeries(utc('2026-03-02T00:00:00Z'), 48, timestamp => 100 - (timestamp - utc('2026-03-02T00:00:00Z')) / HOUR_MS);
+            const model = fitSeasonalModel(points, 'UTC')!;
+
+            expect(predict(model, utc('2026-03-20T00:00:00Z'), 'UTC').value).toBe(0);
+        });
+    });
+});
@@ -0,0 +1,67 @@
+import { Counter, Gauge, Histogram, MetricsRegistry } from '../../src/utils/Prometheus';
+
+describe('Prometheus', () => {
+    it('renders counters with escaped label values', () => {
+        const counter = new Counter('recordings_total', 'Recordings started');
+        counter.inc({ region: 'eu "west"\\1\n' });
+        counter.inc({ region: 'eu "west"\\1\n' }, 2);
+
+        expect(counter.render()).toEqual([
+            '# HELP recordings_total Recordings started',
+            '# TYPE recordings_total counter',
+            'recordings_total{region="eu \\"west\\"\\\\1\\n"} 3'
+        ]);
+    });
+
+    it('keeps one series per label set regardless of key order', () => {
+        const counter = new Counter('jobs_total', 'Jobs');
+        counter.inc({ region: 'eu', status: 'failed' });
+        counter.inc({ status: 'failed', region: 'eu' });
+        counter.inc();
+
+        const samples = counter.render().slice(2);
+        expect(samples).toHaveLength(2);
+        expect(samples[0]).toMatch(/^jobs_total\{.*\} 2$/);
+        expect(samples[1]).toBe('jobs_total 1');
+    });
+
+    it('renders cumulative histogram buckets with +Inf, sum and count', () => {
+        const histogram = new Histogram('startup_seconds', 'Recording startup time', [5, 1]);
+        histogram.observe({ region: 'eu' }, 0.5);
+        histogram.observe({ region: 'eu' }, 3);
+        histogram.observe({ region: 'eu' }, 30);
+
+        expect(histogram.render()).toEqual([
+            '# HELP startup_seconds Recording startup time',
+            '# TYPE startup_seconds histogram',
+            'startup_seconds_bucket{region="eu",le="1"} 1',
+            'startup_seconds_bucket{region="eu",le="5"} 2',
+            'startup_seconds_bucket{region="eu",le="+Inf"} 3',
+            'startup_seconds_sum{region="eu"} 33.5',
+            'startup_seconds_count{region="eu"} 3'
+        ]);
+    });
+
+    it('formats non-finite gauge values', () => {
+        const gauge = new Gauge('ratio', 'Ratio');
+        gauge.set({ kind: 'nan' }, NaN);
+        gauge.set({ kind: 'inf' }, -Infinity);
+
+        expect(gauge.render().slice(2)).toEqual(['ratio{kind="nan"} NaN', 'ratio{kind="inf"} -Inf']);
+    });
+
+    it('runs collectors before every scrape', () => {
+        const registry = new MetricsRegistry();
+        const gauge = registry.register(new Gauge('nodes', 'Healthy nodes'));
+        let nodes = ['node-1', 'node-2'];
+        registry.addCollector(() => {
+            gauge.reset();
+            nodes.forEach(node => gauge.set({ node }, 1));
+        });
+
+        expect(registry.render()).toBe('# HELP nodes Healthy nodes\n# TYPE nodes gauge\nnodes{node="node-1"} 1\nnodes{node="node-2"} 1\n');
+
+        nodes = ['node-2'];
+        expect(registry.render()).toBe('# HELP nodes Healthy nodes\n# TYPE nodes gauge\nnodes{node="node-2"} 1\n');
+    });
+});
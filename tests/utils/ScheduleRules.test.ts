@@ -0,0 +1,163 @@
+import {
+    nextOccurrence,
+    parseCron,
+    parseRRule,
+    ScheduleRecurrence,
+    upcomingOccurrences,
+    validateRecurrence
+} from '../../src/utils/ScheduleRules';
+
+// Europe/Berlin moves to CEST on 2026-03-29 (02:00 -> 03:00) and back to CET
+// on 2026-10-25 (03:00 -> 02:00)
+const TIMEZONE = 'Europe/Berlin';
+const utc = (iso: string): number => Date.parse(iso);
+
+describe('ScheduleRules', () => {
+    describe('cron', () => {
+        const cron = (expression: string): ScheduleRecurrence => ({ recurrence: 'cron', cron: expression, timezone: TIMEZONE });
+
+        it('keeps the local time across the spring DST change', () => {
+            expect(upcomingOccurrences(cron('0 10 * * *'), utc('2026-03-27T12:00:00Z'), 3)).toEqual([
+                utc('2026-03-28T09:00:00Z'),
+                utc('2026-03-29T08:00:00Z'),
+                utc('2026-03-30T08:00:00Z')
+            ]);
+        });
+
+        it('keeps the local time across the autumn DST change', () => {
+            expect(upcomingOccurrences(cron('0 10 * * *'), utc('2026-10-24T12:00:00Z'), 3)).toEqual([
+                utc('2026-10-25T09:00:00Z'),
+                utc('2026-10-26T09:00:00Z'),
+                utc('2026-10-27T09:00:00Z')
+            ]);
+        });
+
+        it('skips a local time that the spring DST change removes', () => {
+            expect(nextOccurrence(cron('30 2 * * *'), utc('2026-03-28T12:00:00Z'))).toBe(utc('2026-03-30T00:30:00Z'));
+        });
+
+        it('runs once on a local time that the autumn DST change repeats', () => {
+            const occurrences = upcomingOccurrences(cron('30 2 * * *'), utc('2026-10-24T12:00:00Z'), 2);
+
+            expect(occurrences).toHaveLength(2);
+            expect([utc('2026-10-25T00:30:00Z'), utc('2026-10-25T01:30:00Z')]).toContain(occurrences[0]);
+            expect(occurrences[1]).toBe(utc('2026-10-26T01:30:00Z'));
+        });
+
+        it('does not run before startAt', () => {
+            const schedule = { ...cron('0 10 * * *'), startAt: utc('2026-04-01T00:00:00Z') };
+
+            expect(nextOccurrence(schedule, utc('2026-03-27T12:00:00Z'))).toBe(utc('2026-04-01T08:00:00Z'));
+        });
+
+        it('matches either day field when both are restricted', () => {
+            // The 1st of the month or any Friday
+            const occurrences = upcomingOccurrences(cron('0 10 1 * FRI'), utc('2026-04-28T12:00:00Z'), 3);
+
+            expect(occurrences).toEqual([
+                utc('2026-05-01T08:00:00Z'),
+                utc('2026-05-08T08:00:00Z'),
+                utc('2026-05-15T08:00:00Z')
+            ]);
+        });
+
+        it('counts Sunday as 0 and 7', () => {
+            expect(parseCron('0 0 * * 0').daysOfWeek).toEqual(new Set([6]));
+            expect(parseCron('0 0 * * 7').daysOfWeek).toEqual(new Set([6]));
+        });
+
+        it('rejects malformed expressions', () => {
+            expect(() => parseCron('0 10 * *')).toThrow('five fields');
+            expect(() => parseCron('60 10 * * *')).toThrow('out of range');
+            expect(() => parseCron('0 10-8 * * *')).toThrow('Invalid range');
+        });
+    });
+
+    describe('rrule', () => {
+        const rrule = (rule: string, startAt: number): ScheduleRecurrence => ({
+            recurrence: 'rrule',
+            rrule: rule,
+            startAt,
+            timezone: TIMEZONE
+        });
+
+        it('expands BYDAY across the spring DST change', () => {
+            // Monday 2026-03-23 10:00 CET
+            const schedule = rrule('FREQ=WEEKLY;BYDAY=MO,WE', utc('2026-03-23T09:00:00Z'));
+
+            expect(upcomingOccurrences(schedule, utc('2026-03-23T08:00:00Z'), 4)).toEqual([
+                utc('2026-03-23T09:00:00Z'),
+                utc('2026-03-25T09:00:00Z'),
+                utc('2026-03-30T08:00:00Z'),
+                utc('2026-04-01T08:00:00Z')
+            ]);
+        });
+
+        it('honours INTERVAL on weekly rules', () => {
+            const schedule = rrule('FREQ=WEEKLY;INTERVAL=2;BYDAY=TU', utc('2026-03-24T09:00:00Z'));
+
+            expect(upcomingOccurrences(schedule, utc('2026-03-24T08:00:00Z'), 3)).toEqual([
+                utc('2026-03-24T09:00:00Z'),
+                utc('2026-04-07T08:00:00Z'),
+                utc('2026-04-21T08:00:00Z')
+            ]);
+        });
+
+        it('stops after COUNT occurrences counted from DTSTART', () => {
+            const schedule = rrule('FREQ=DAILY;COUNT=3;BYHOUR=10;BYMINUTE=0', utc('2026-03-28T09:00:00Z'));
+
+            expect(upcomingOccurrences(schedule, utc('2026-03-01T00:00:00Z'), 10)).toEqual([
+                utc('2026-03-28T09:00:00Z'),
+                utc('2026-03-29T08:00:00Z'),
+                utc('2026-03-30T08:00:00Z')
+            ]);
+            // Starting the search midway still only leaves what COUNT allows
+            expect(upcomingOccurrences(schedule, utc('2026-03-29T12:00:00Z'), 10)).toEqual([utc('2026-03-30T08:00:00Z')]);
+        });
+
+        it('stops after UNTIL', () => {
+            const schedule = rrule('FREQ=DAILY;UNTIL=20260331T120000Z', utc('2026-03-28T09:00:00Z'));
+
+            expect(upcomingOccurrences(schedule, utc('2026-03-28T08:00:00Z'), 10)).toEqual([
+                utc('2026-03-28T09:00:00Z'),
+                utc('2026-03-29T08:00:00Z'),
+                utc('2026-03-30T08:00:00Z'),
+                utc('2026-03-31T08:00:00Z')
+            ]);
+        });
+
+        it('repeats monthly on the day of DTSTART', () => {
+            const schedule = rrule('FREQ=MONTHLY', utc('2026-01-15T09:00:00Z'));
+
+            expect(upcomingOccurrences(schedule, utc('2026-02-01T00:00:00Z'), 3)).toEqual([
+                utc('2026-02-15T09:00:00Z'),
+                utc('2026-03-15T09:00:00Z'),
+                utc('2026-04-15T08:00:00Z')
+            ]);
+        });
+
+        it('rejects unsupported or contradictory rules', () => {
+            expect(() => parseRRule('FREQ=YEARLY')).toThrow('FREQ must be');
+            expect(() => parseRRule('FREQ=DAILY;BYSETPOS=1')).toThrow('Unsupported RRULE part BYSETPOS');
+            expect(() => parseRRule('FREQ=WEEKLY;BYDAY=1MO')).toThrow('BYDAY');
+            expect(() => parseRRule('FREQ=DAILY;COUNT=2;UNTIL=20260331')).toThrow('cannot be combined');
+        });
+    });
+
+    describe('once', () => {
+        it('returns startAt until it has passed', () => {
+            const schedule: ScheduleRecurrence = { recurrence: 'once', startAt: utc('2026-03-29T08:00:00Z'), timezone: TIMEZONE };
+
+            expect(nextOccurrence(schedule, utc('2026-03-29T07:59:00Z'))).toBe(utc('2026-03-29T08:00:00Z'));
+            expect(nextOccurrence(schedule, utc('2026-03-29T08:00:00Z'))).toBeNull();
+        });
+    });
+
+    describe('validateRecurrence', () => {
+        it('rejects unknown time zones and missing fields', () => {
+            expect(() => validateRecurrence({ recurrence: 'cron', cron: '0 10 * * *', timezone: 'Mars/Olympus' })).toThrow('Unknown time zone');
+            expect(() => validateRecurrence({ recurrence: 'rrule', rrule: 'FREQ=DAILY', timezone: TIMEZONE })).toThrow('DTSTART');
+            expect(() => validateRecurrence({ recurrence: 'once', timezone: TIMEZONE })).toThrow('startAt');
+        });
+    });
+});